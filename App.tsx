@@ -1,24 +1,67 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import type { Note, ToastMessage, ToastType, UserProfile } from './types';
+import type { Board, BoardPlacement, CanvasEdge, CanvasFrame, CanvasFrameColor, KanbanLayout, Note, NoteRevision, SavedSearch, Task, ToastAction, ToastMessage, ToastType, UserProfile } from './types';
 import { AddNoteForm } from './components/AddNoteForm';
 import { NoteCard } from './components/NoteCard';
 import { Toast } from './components/Toast';
 import { AiChatAssistant } from './components/AiChatAssistant';
 import { EnvironmentSelector } from './components/EnvironmentSelector';
 import type { Environment } from './components/EnvironmentSelector';
-import { summarizeText, transcribeAudio, extractTasks, findRelatedNotes, expandNoteText } from './services/geminiService';
-import { PlusIcon, ProfileIcon, SearchIcon, TagIcon, ChevronLeftIcon, ChevronRightIcon, BrainCircuitIcon, CloseIcon, TrendingUpIcon, LayoutGridIcon, CarouselIcon, MicIcon } from './components/icons';
+import { summarizeText, transcribeAudio, extractTasks, expandNoteText, clusterNotes } from './services/aiService';
+import { findRelatedNoteIds, semanticSearch } from './services/embeddings';
+import { useNoteEmbeddings } from './hooks/useNoteEmbeddings';
+import { parseSearchQuery, queryText, indexTerms, matchesSearchQuery, matchesTagFilters, filterNotesByQuery } from './services/searchQuery';
+import { useSearchIndex, searchKey } from './hooks/useSearchIndex';
+import { SearchBar } from './components/SearchBar';
+import { fetchSavedSearches, createSavedSearch, deleteSavedSearch, isSavedSearchActive } from './services/savedSearches';
+import { SavedSearchBar } from './components/SavedSearchBar';
+import { loadTasks, clearTasks, subscribeToTasks, createTasks, updateTask, deleteTasks, addExtractedTasks, syncChecklistTasks } from './services/taskRepository';
+import { parseChecklist, setChecklistItemDone } from './services/checklist';
+import { TaskBoardModal } from './components/TaskBoardModal';
+import { collectReminders, canNotify, requestNotificationPermission, showReminderNotification, snoozedUntil, subscribeToReminderActions, takeReminderActionFromUrl, SNOOZE_MINUTES } from './services/reminders';
+import type { Reminder, ReminderAction, ReminderKind } from './services/reminders';
+import { useReminders } from './hooks/useReminders';
+import { RemindersPanel } from './components/RemindersPanel';
+import { PlusIcon, ProfileIcon, TrashIcon, TagIcon, ChevronLeftIcon, ChevronRightIcon, BrainCircuitIcon, CloseIcon, CheckSquareIcon, BellIcon, TrendingUpIcon, LayoutGridIcon, CarouselIcon, CalendarIcon, ColumnsIcon, ShareIcon, MicIcon } from './components/icons';
 import { InsightsModal } from './components/InsightsModal';
 import { StackViewModal } from './components/StackViewModal';
 import { ViewNoteModal } from './components/ViewNoteModal';
 import { ProfileModal } from './components/ProfileModal';
 import { supabase } from './services/supabaseClient';
+import { removeMedia, uploadPendingMedia } from './services/mediaStorage';
+import { hasInlineMedia, extractInlineMedia, linkAttachmentsToNote, noteMediaPaths } from './services/attachments';
+import { fetchNotes, createNote, updateNote, deleteNote as deleteNoteFromStore, moveNotes, replayMutations, subscribeToSyncStatus, watchNotes, importNotes, subscribeToConflicts, resolveConflict, NoteConflictError, trashNote, restoreNote, trashNotes, restoreNotes, purgeExpiredNotes } from './services/noteRepository';
+import { applyNoteChange } from './services/realtimeNotes';
+import type { NoteChange } from './services/realtimeNotes';
+import type { SyncStatusMap } from './services/noteRepository';
+import type { NoteConflict } from './services/noteMerge';
+import { MergeConflictModal } from './components/MergeConflictModal';
+import { revisionContent, htmlToPlainText } from './services/noteHistory';
+import { noteTitle, backlinkIndex } from './services/noteLinks';
 import { Auth } from './components/Auth';
 import type { Session } from '@supabase/supabase-js';
 import { InfiniteCanvas } from './components/InfiniteCanvas';
+import { TimelineView } from './components/TimelineView';
+import { KanbanBoard } from './components/KanbanBoard';
+import { NoteGraphView } from './components/NoteGraphView';
+import { fetchKanbanLayout, saveKanbanLayout, defaultKanbanLayout, moveToColumnUpdate } from './services/kanbanLayout';
+import { fetchCanvasEdges, createCanvasEdge, updateCanvasEdge, deleteCanvasEdge } from './services/canvasEdges';
+import { canvasNoteSize } from './services/canvasGeometry';
+import type { Point, Rect } from './services/canvasGeometry';
+import { CANVAS_LAYOUTS, gridLayout, groupLayout, relatedLayout, tagGroups, timelineLayout } from './services/canvasLayouts';
+import type { CanvasLayoutKind, LayoutFrame, LayoutUndo } from './services/canvasLayouts';
+import { stackUpdates } from './services/canvasSelection';
+import type { NoteUpdate } from './services/canvasSelection';
+import { fetchCanvasFrames, createCanvasFrame, updateCanvasFrame, deleteCanvasFrame, FRAME_COLORS } from './services/canvasFrames';
+import { fetchBoards, createBoard, renameBoard, deleteBoard, fetchBoardPlacements, saveBoardPlacements, removeBoardPlacement, notesOnBoard, mergePlacements, nextPlacementPosition } from './services/boards';
+import { BoardSwitcher } from './components/BoardSwitcher';
+import { BoardNotesPanel } from './components/BoardNotesPanel';
+import { TrashModal } from './components/TrashModal';
 import { VoiceAssistantModal } from './components/VoiceAssistantModal';
 
 const ENV_STORAGE_KEY = 'ai-3d-notes-env';
+const BOARD_STORAGE_KEY = 'ai-3d-notes-board';
+const SEMANTIC_RELATIVE_CUTOFF = 0.6;
+const SEMANTIC_MAX_RESULTS = 20;
 const NOTE_COLORS = ['bg-amber-100', 'bg-sky-100', 'bg-lime-100', 'bg-rose-100', 'bg-violet-100', 'bg-white'];
 
 const getInitialEnv = (): Environment => {
@@ -33,9 +76,19 @@ const getInitialEnv = (): Environment => {
     return 'default';
 };
 
+const getInitialBoardId = (): string | null => {
+    try {
+        return window.localStorage.getItem(BOARD_STORAGE_KEY);
+    } catch (error) {
+        console.error("Could not load board from local storage", error);
+    }
+    return null;
+};
+
 const App: React.FC = () => {
   const [session, setSession] = useState<Session | null>(null);
   const [notes, setNotes] = useState<Note[]>([]);
+  const [trashedNotes, setTrashedNotes] = useState<Note[]>([]);
   const [userProfile, setUserProfile] = useState<UserProfile>({ name: 'Explorer', avatar: 'avatar1' });
   const [isLoadingSummary, setIsLoadingSummary] = useState<string | null>(null);
   const [isTranscribing, setIsTranscribing] = useState<string | null>(null);
@@ -46,17 +99,35 @@ const App: React.FC = () => {
   const [isChatVisible, setIsChatVisible] = useState(false);
   const [isInsightsVisible, setIsInsightsVisible] = useState(false);
   const [isProfileVisible, setIsProfileVisible] = useState(false);
+  const [isTrashVisible, setIsTrashVisible] = useState(false);
   const [isVoiceAssistantVisible, setIsVoiceAssistantVisible] = useState(false);
   const [editingNote, setEditingNote] = useState<Note | null>(null);
   const [toast, setToast] = useState<ToastMessage | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [isSemanticSearch, setIsSemanticSearch] = useState(false);
+  const [semanticScores, setSemanticScores] = useState<Map<string, number> | null>(null);
   const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [kanbanLayout, setKanbanLayout] = useState<KanbanLayout | null>(null);
+  const [canvasEdges, setCanvasEdges] = useState<CanvasEdge[]>([]);
+  const [canvasFrames, setCanvasFrames] = useState<CanvasFrame[]>([]);
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [boardPlacements, setBoardPlacements] = useState<BoardPlacement[]>([]);
+  // null is the "All notes" canvas.
+  const [activeBoardId, setActiveBoardId] = useState<string | null>(getInitialBoardId);
+  const [isArranging, setIsArranging] = useState(false);
+  const [layoutUndo, setLayoutUndo] = useState<LayoutUndo | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [isTaskBoardVisible, setIsTaskBoardVisible] = useState(false);
+  const [isRemindersVisible, setIsRemindersVisible] = useState(false);
   const [activeIndex, setActiveIndex] = useState(0);
   const [environment, setEnvironment] = useState<Environment>(getInitialEnv);
   const [stackingNoteId, setStackingNoteId] = useState<string | null>(null);
   const [viewingStack, setViewingStack] = useState<Note | null>(null);
   const [viewingNote, setViewingNote] = useState<Note | null>(null);
-  const [viewMode, setViewMode] = useState<'carousel' | 'canvas'>('carousel');
+  const [viewMode, setViewMode] = useState<'carousel' | 'canvas' | 'timeline' | 'board' | 'graph'>('carousel');
+  const [syncStatuses, setSyncStatuses] = useState<SyncStatusMap>({});
+  const [conflicts, setConflicts] = useState<NoteConflict[]>([]);
   const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -73,8 +144,8 @@ const App: React.FC = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  const showToast = (message: string, type: ToastType = 'error') => {
-    setToast({ message, type });
+  const showToast = (message: string, type: ToastType = 'error', action?: ToastAction) => {
+    setToast({ message, type, action });
   };
   
   useEffect(() => {
@@ -102,21 +173,63 @@ const App: React.FC = () => {
             if(insertError) console.error('Error creating profile:', insertError);
         }
 
-        // Fetch Notes
-        const { data: notesData, error: notesError } = await supabase
-          .from('notes')
-          .select('*')
-          .order('created_at', { ascending: false });
+        fetchSavedSearches()
+          .then(setSavedSearches)
+          .catch(error => console.error('Error fetching saved searches:', error));
+
+        fetchKanbanLayout(session.user.id)
+          .then(setKanbanLayout)
+          .catch(error => console.error('Error fetching board layout:', error));
+
+        fetchCanvasEdges()
+          .then(setCanvasEdges)
+          .catch(error => console.error('Error fetching canvas connections:', error));
+
+        fetchCanvasFrames()
+          .then(setCanvasFrames)
+          .catch(error => console.error('Error fetching canvas frames:', error));
+
+        Promise.all([fetchBoards(), fetchBoardPlacements()])
+          .then(([loadedBoards, placements]) => {
+            setBoards(loadedBoards);
+            setBoardPlacements(placements);
+          })
+          .catch(error => console.error('Error fetching boards:', error));
+        const tasksLoaded = loadTasks().catch(error => {
+          console.error('Error fetching tasks:', error);
+          return null;
+        });
 
-        if (notesError) {
-          console.error('Error fetching notes:', notesError);
+        // Fetch Notes
+        try {
+          const { notes: allNotes, fromCache } = await fetchNotes(session.user.id);
+          const notesData = allNotes.filter(n => !n.deleted_at);
+          const trashedData = allNotes.filter(n => n.deleted_at);
+          setNotes(notesData);
+          setTrashedNotes(trashedData);
+          if (fromCache) {
+            showToast("You're offline. Showing notes saved on this device.", "success");
+          } else {
+            migrateInlineMedia(notesData.filter(hasInlineMedia));
+            purgeExpiredTrash(trashedData);
+            tasksLoaded.then(loaded => loaded && backfillChecklistTasks(notesData, loaded));
+          }
+        } catch (error) {
+          console.error('Error fetching notes:', error);
           showToast('Could not fetch your notes.');
-        } else {
-          setNotes(notesData || []);
         }
       } else {
         // User logged out, clear data
         setNotes([]);
+        setTrashedNotes([]);
+        setSavedSearches([]);
+        setKanbanLayout(null);
+        setCanvasEdges([]);
+        setCanvasFrames([]);
+        setBoards([]);
+        setBoardPlacements([]);
+        setLayoutUndo(null);
+        clearTasks();
         setUserProfile({ name: 'Explorer', avatar: 'avatar1' });
       }
     };
@@ -124,6 +237,53 @@ const App: React.FC = () => {
     fetchUserData();
   }, [session]);
   
+  useEffect(() => subscribeToSyncStatus(setSyncStatuses), []);
+  useEffect(() => subscribeToConflicts(setConflicts), []);
+  useEffect(() => subscribeToTasks(setTasks), []);
+
+  // Merge notes created, edited, moved or deleted on other devices and tabs.
+  useEffect(() => {
+    if (!session?.user) return;
+    return watchNotes(session.user.id, change => {
+      // Trashing and restoring arrive as updates to `deleted_at`; move the note between the two lists.
+      const noteId = change.eventType === 'DELETE' ? change.noteId : change.note.id;
+      const removal: NoteChange = { eventType: 'DELETE', noteId };
+      const isTrashed = change.eventType !== 'DELETE' && !!change.note.deleted_at;
+      setNotes(prev => applyNoteChange(prev, isTrashed ? removal : change));
+      setTrashedNotes(prev => applyNoteChange(prev, isTrashed ? change : removal));
+      setViewingNote(prev => {
+        if (!prev || prev.id !== noteId) return prev;
+        return change.eventType === 'DELETE' || isTrashed ? null : change.note;
+      });
+    });
+  }, [session]);
+
+  useEffect(() => {
+    if (!session?.user) return;
+
+    const sendPendingMedia = () => uploadPendingMedia().catch(error => console.error('Error uploading offline media:', error));
+
+    const handleOnline = async () => {
+      // Media first, so the notes that refer to it don't sync ahead of their files.
+      await sendPendingMedia();
+      try {
+        const syncedNotes = await replayMutations();
+        if (syncedNotes.length > 0) {
+          const syncedMap = new Map(syncedNotes.map(n => [n.id, n]));
+          setNotes(prev => prev.map(n => syncedMap.get(n.id) || n));
+          showToast("Back online. Your offline changes have been synced.", "success");
+        }
+      } catch (error) {
+        console.error('Error replaying offline changes:', error);
+      }
+    };
+
+    // Uploads left over from an earlier offline session.
+    if (navigator.onLine) sendPendingMedia();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [session]);
+
   useEffect(() => {
     try {
         window.localStorage.setItem(ENV_STORAGE_KEY, environment);
@@ -132,6 +292,15 @@ const App: React.FC = () => {
     }
   }, [environment]);
 
+  useEffect(() => {
+    try {
+        if (activeBoardId) window.localStorage.setItem(BOARD_STORAGE_KEY, activeBoardId);
+        else window.localStorage.removeItem(BOARD_STORAGE_KEY);
+    } catch (error) {
+        console.error("Could not save board to local storage", error);
+    }
+  }, [activeBoardId]);
+
   const allTags = useMemo(() => {
     const tagSet = new Set<string>();
     notes.forEach(note => {
@@ -142,29 +311,126 @@ const App: React.FC = () => {
     return Array.from(tagSet).sort();
   }, [notes]);
 
-  const filteredNotes = useMemo(() => {
-    const filtered = notes.filter(note => {
-        const searchMatch = searchTerm.toLowerCase()
-            ? note.text.toLowerCase().includes(searchTerm.toLowerCase()) ||
-              (note.summary && note.summary.toLowerCase().includes(searchTerm.toLowerCase())) ||
-              (note.tags && note.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase())))
-            : true;
-        
-        const tagsMatch = activeTags.length > 0
-            ? activeTags.every(activeTag => note.tags && note.tags.includes(activeTag))
-            : true;
+  const embeddings = useNoteEmbeddings(session?.user.id, notes);
 
-        return searchMatch && tagsMatch;
+  const noteTasks = useMemo(() => {
+    const byNote = new Map<string, Task[]>();
+    tasks.forEach(task => {
+        if (!task.note_id) return;
+        if (!byNote.has(task.note_id)) byNote.set(task.note_id, []);
+        byNote.get(task.note_id)!.push(task);
     });
+    byNote.forEach(list => list.sort((a, b) => a.position - b.position));
+    return byNote;
+  }, [tasks]);
+  const noteIdsWithTasks = useMemo(() => new Set(noteTasks.keys()), [noteTasks]);
+  const reminders = useMemo(() => collectReminders(notes, tasks), [notes, tasks]);
+  const noteTitles = useMemo(() => new Map<string, string>(notes.map(note => [note.id, noteTitle(note)])), [notes]);
+  const backlinks = useMemo(() => backlinkIndex(notes), [notes]);
+  const searchQuery = useMemo(() => parseSearchQuery(searchTerm), [searchTerm]);
+  const semanticQuery = isSemanticSearch ? queryText(searchQuery) : '';
+  const fullTextTerms = useMemo(() => (isSemanticSearch ? [] : indexTerms(searchQuery)), [isSemanticSearch, searchQuery]);
+  // Saved searches are looked up in the index too, so their counts agree with the results they open.
+  const savedSearchQueries = useMemo(() => savedSearches.map(search => parseSearchQuery(search.query)), [savedSearches]);
+  const searchIndexResults = useSearchIndex(notes, [fullTextTerms, ...savedSearchQueries.map(indexTerms)]);
+  // Null until the index has answered the current terms; the plain substring match is used meanwhile.
+  const searchHits = fullTextTerms.length > 0 ? searchIndexResults.get(searchKey(fullTextTerms)) ?? null : null;
+
+  // Semantic mode embeds the free text once typing pauses and ranks notes by similarity instead of matching
+  // it; field filters such as tag: or has: still apply.
+  useEffect(() => {
+    if (!semanticQuery) {
+        setSemanticScores(null);
+        return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+        semanticSearch(semanticQuery, embeddings)
+            .then(scores => { if (!cancelled) setSemanticScores(scores); })
+            .catch(error => {
+                if (cancelled) return;
+                const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+                showToast(`Semantic search failed. ${errorMessage}`);
+                setIsSemanticSearch(false);
+            });
+    }, 400);
+    return () => {
+        cancelled = true;
+        window.clearTimeout(timer);
+    };
+  }, [semanticQuery, embeddings]);
+
+  const filteredNotes = useMemo(() => {
+    if (semanticQuery) {
+        // Keep the close matches only: anything well below the best score is noise.
+        const scores = semanticScores || new Map<string, number>();
+        const bestScore = Math.max(0, ...scores.values());
+        return notes
+            .filter(note => scores.has(note.id) && scores.get(note.id)! >= bestScore * SEMANTIC_RELATIVE_CUTOFF)
+            .filter(note => matchesSearchQuery(note, searchQuery, { ignoreText: true, noteIdsWithTasks }))
+            .filter(note => matchesTagFilters(note, activeTags))
+            .sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0))
+            .slice(0, SEMANTIC_MAX_RESULTS);
+    }
+
+    const matches = filterNotesByQuery(notes, searchQuery, activeTags, searchHits, { noteIdsWithTasks });
+    if (searchHits) {
+        return matches.sort((a, b) => (searchHits.get(b.id)!.score - searchHits.get(a.id)!.score) || Number(!!b.is_pinned) - Number(!!a.is_pinned));
+    }
 
     // Sort to bring pinned notes to the front
-    return filtered.sort((a, b) => {
+    return matches.sort((a, b) => {
         if (a.is_pinned && !b.is_pinned) return -1;
         if (!a.is_pinned && b.is_pinned) return 1;
         return 0; // maintain original order for notes with same pinned status
     });
-  }, [notes, searchTerm, activeTags]);
+  }, [notes, searchQuery, semanticQuery, activeTags, semanticScores, searchHits, noteIdsWithTasks]);
+
+  const searchHighlights = useMemo(() => {
+    return new Map(Array.from(searchHits?.values() || []).map(hit => [hit.id, hit.matches]));
+  }, [searchHits]);
   
+  // Live counts use the text query only; semantic ranking is too slow to run for every collection.
+  const savedSearchCounts = useMemo(() => {
+    return new Map(savedSearches.map((search, index) => {
+        const query = savedSearchQueries[index];
+        const terms = indexTerms(query);
+        const hits = terms.length > 0 ? searchIndexResults.get(searchKey(terms)) ?? null : null;
+        return [search.id, filterNotesByQuery(notes, query, search.tags, hits, { noteIdsWithTasks }).length];
+    }));
+  }, [savedSearches, savedSearchQueries, searchIndexResults, notes, noteIdsWithTasks]);
+
+  const activeSavedSearchId = savedSearches.find(search => isSavedSearchActive(search, searchTerm, activeTags))?.id ?? null;
+
+  // A remembered board that has since been deleted falls back to "All notes".
+  const activeBoard = boards.find(board => board.id === activeBoardId) || null;
+
+  const canvasNotes = useMemo(() => notesOnBoard(filteredNotes, boardPlacements, activeBoard?.id ?? null), [filteredNotes, boardPlacements, activeBoard]);
+  // Frames hold notes whether or not the current search shows them.
+  const boardNotes = useMemo(() => notesOnBoard(notes, boardPlacements, activeBoard?.id ?? null), [notes, boardPlacements, activeBoard]);
+
+  // Layouts, their undo and placement rollbacks run after an await; they read the notes and placements
+  // as they are then, not as they were when they started.
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
+  const boardPlacementsRef = useRef(boardPlacements);
+  boardPlacementsRef.current = boardPlacements;
+
+  const boardCounts = useMemo(() => {
+    const activeIds = new Set(notes.map(note => note.id));
+    const counts = new Map<string, number>();
+    boardPlacements.forEach(placement => {
+        if (activeIds.has(placement.note_id)) counts.set(placement.board_id, (counts.get(placement.board_id) || 0) + 1);
+    });
+    return counts;
+  }, [notes, boardPlacements]);
+
+  const boardFrames = useMemo(() => canvasFrames.filter(frame => frame.board_id === (activeBoard?.id ?? null)), [canvasFrames, activeBoard]);
+
+  const placedNoteIds = useMemo(() => {
+    return new Set(boardPlacements.filter(placement => placement.board_id === activeBoard?.id).map(placement => placement.note_id));
+  }, [boardPlacements, activeBoard]);
+
   const carouselNotes = useMemo(() => {
     return filteredNotes.filter(note => !note.stack_id);
   }, [filteredNotes]);
@@ -185,17 +451,18 @@ const App: React.FC = () => {
     }
 
     if (id) {
-        const { data, error } = await supabase
-            .from('notes')
-            .update({ ...noteData, tags: noteData.tags || [] })
-            .eq('id', id)
-            .select()
-            .single();
-        
-        if (error) {
-            showToast(`Error updating note: ${error.message}`);
-        } else if (data) {
+        try {
+            // The note the form was opened with, so edits made elsewhere in the meantime aren't overwritten.
+            const base = editingNote?.id === id ? editingNote : undefined;
+            const data = await updateNote(id, { ...noteData, tags: noteData.tags || [] }, base);
             setNotes(prevNotes => prevNotes.map(n => (n.id === id ? data : n)));
+            linkAttachmentsToNote(data.id, [data.image_url, data.drawing_url]);
+        } catch (error) {
+            // Conflicts open the merge dialog instead.
+            if (!(error instanceof NoteConflictError)) {
+                const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+                showToast(`Error updating note: ${errorMessage}`);
+            }
         }
     } else {
         const newNotePayload = {
@@ -209,16 +476,14 @@ const App: React.FC = () => {
             canvas_x: 0,
             canvas_y: 0,
         };
-        const { data, error } = await supabase
-            .from('notes')
-            .insert(newNotePayload)
-            .select()
-            .single();
-        
-        if (error) {
-            showToast(`Error creating note: ${error.message}`);
-        } else if (data) {
-            setNotes(prevNotes => [data, ...prevNotes]);
+        try {
+            const data = await createNote(newNotePayload);
+            // The repository has usually announced the note already; this only adds it if it hasn't.
+            setNotes(prevNotes => applyNoteChange(prevNotes, { eventType: 'INSERT', note: data }));
+            linkAttachmentsToNote(data.id, [data.image_url, data.drawing_url]);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            showToast(`Error creating note: ${errorMessage}`);
         }
     }
     setIsFormVisible(false);
@@ -245,43 +510,107 @@ const App: React.FC = () => {
         canvas_y: 0,
     };
 
-    const { data, error } = await supabase.from('notes').insert(newNotePayload).select().single();
-    if (error) {
-        showToast(`AI failed to save note: ${error.message}`);
-    } else if (data) {
-        setNotes(prevNotes => [data, ...prevNotes]);
+    try {
+        const data = await createNote(newNotePayload);
+        setNotes(prevNotes => applyNoteChange(prevNotes, { eventType: 'INSERT', note: data }));
         showToast("AI created a new note for you!", "success");
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`AI failed to save note: ${errorMessage}`);
     }
     setIsVoiceAssistantVisible(false); // Ensure modal closes
   };
   
-  const handleAiUpdateNote = async (updateData: { id: string; text?: string; tags?: string[]; color?: string }) => {
+  const handleAiUpdateNote = async (updateData: { id: string; text?: string; tags?: string[]; color?: string }, base?: Note) => {
     const { id, ...updatePayload } = updateData;
-    const { data, error } = await supabase
-        .from('notes')
-        .update(updatePayload)
-        .eq('id', id)
-        .select()
-        .single();
-
-    if (error) {
-        showToast(`AI failed to update note: ${error.message}`);
-    } else if (data) {
+    try {
+        const data = await updateNote(id, updatePayload, base);
         setNotes(prev => prev.map(n => n.id === id ? data : n));
         showToast("AI has updated the note!", "success");
+    } catch (error) {
+        if (!(error instanceof NoteConflictError)) {
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            showToast(`AI failed to update note: ${errorMessage}`);
+        }
+    }
+  };
+
+  const handleResolveConflict = async (resolution: Partial<Note> | null) => {
+    const conflict = conflicts[0];
+    if (!conflict) return;
+    try {
+        const data = await resolveConflict(conflict.base.id, resolution);
+        setNotes(prev => prev.map(n => (n.id === data.id ? data : n)));
+        showToast(resolution ? "Note saved." : "Kept the other version of the note.", "success");
+    } catch (error) {
+        if (!(error instanceof NoteConflictError)) {
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            showToast(`Error saving merged note: ${errorMessage}`);
+        }
     }
   };
 
   const deleteNote = async (id: string) => {
     const originalNotes = [...notes];
     setNotes(prevNotes => prevNotes.filter(note => note.id !== id)); // Optimistic delete
-    const { error } = await supabase.from('notes').delete().eq('id', id);
-    if (error) {
-        showToast(`Error deleting note: ${error.message}`);
+    try {
+        const data = await trashNote(id);
+        setTrashedNotes(prev => [data, ...prev.filter(n => n.id !== id)]);
+        showToast("Note moved to Trash.", "success", { label: "Undo", onClick: () => handleRestoreNote(id) });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Error deleting note: ${errorMessage}`);
         setNotes(originalNotes); // Revert on failure
     }
   };
 
+  const handleRestoreNote = async (id: string) => {
+    try {
+        const data = await restoreNote(id);
+        setTrashedNotes(prev => prev.filter(n => n.id !== id));
+        setNotes(prev => [data, ...prev.filter(n => n.id !== id)]);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Error restoring note: ${errorMessage}`);
+    }
+  };
+
+  const permanentlyDeleteNotes = async (notesToDelete: Note[]) => {
+    const ids = new Set(notesToDelete.map(n => n.id));
+    setTrashedNotes(prev => prev.filter(n => !ids.has(n.id)));
+    for (const note of notesToDelete) {
+        try {
+            await deleteNoteFromStore(note.id);
+            removeMedia(noteMediaPaths(note));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            showToast(`Error deleting note: ${errorMessage}`);
+            setTrashedNotes(prev => [note, ...prev]);
+        }
+    }
+  };
+
+  const handleDeleteForever = (id: string) => {
+    const note = trashedNotes.find(n => n.id === id);
+    if (note && window.confirm("Delete this note forever? This action cannot be undone.")) {
+        permanentlyDeleteNotes([note]);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (window.confirm(`Permanently delete all ${trashedNotes.length} notes in the Trash? This action cannot be undone.`)) {
+        permanentlyDeleteNotes(trashedNotes);
+    }
+  };
+
+  const purgeExpiredTrash = async (trashed: Note[]) => {
+    const purged = await purgeExpiredNotes(trashed);
+    if (purged.length === 0) return;
+    const purgedIds = new Set(purged.map(n => n.id));
+    setTrashedNotes(prev => prev.filter(n => !purgedIds.has(n.id)));
+    removeMedia(purged.flatMap(noteMediaPaths));
+  };
+
   const handleEditNote = (id: string) => {
     const noteToEdit = notes.find(n => n.id === id);
     if (noteToEdit) {
@@ -296,24 +625,47 @@ const App: React.FC = () => {
     setViewingNote(note);
   };
 
+  const handleOpenLinkedNote = (id: string) => {
+    const note = notes.find(n => n.id === id);
+    if (note) setViewingNote(note);
+    else showToast("That note no longer exists.");
+  };
+
   const handleAddNewNote = () => {
     setEditingNote(null);
     setIsFormVisible(true);
   };
 
-  const updateNoteInDbAndState = async (id: string, update: Partial<Note>) => {
-      const { data, error } = await supabase
-        .from('notes')
-        .update(update)
-        .eq('id', id)
-        .select()
-        .single();
-      
-      if (error) {
-          throw new Error(error.message);
+  const updateNoteInDbAndState = async (id: string, update: Partial<Note>, base?: Note) => {
+      const data = await updateNote(id, update, base);
+      setNotes(prev => prev.map(n => (n.id === id ? data : n)));
+  };
+
+  // Notes written before the tasks table existed have checklists without tasks; create them. Every device
+  // that opens the app may do this at once, which the sync's upsert keeps from creating copies.
+  const backfillChecklistTasks = (notesToCheck: Note[], loadedTasks: Task[]) => {
+    const notesWithTasks = new Set(loadedTasks.filter(task => task.source === 'checklist').map(task => task.note_id));
+    notesToCheck
+        .filter(note => !notesWithTasks.has(note.id) && parseChecklist(note.text).length > 0)
+        .forEach(note => syncChecklistTasks(note).catch(error => console.error(`Error creating tasks for note ${note.id}:`, error)));
+  };
+
+  // Notes created before attachments existed carry base64 images in the row itself. Move them to storage one at a time.
+  const migrateInlineMedia = async (notesToMigrate: Note[]) => {
+      let migratedCount = 0;
+      for (const note of notesToMigrate) {
+          try {
+              const update = await extractInlineMedia(note);
+              if (update) {
+                  await updateNoteInDbAndState(note.id, update);
+                  migratedCount++;
+              }
+          } catch (error) {
+              console.error(`Error migrating media for note ${note.id}:`, error);
+          }
       }
-      if (data) {
-          setNotes(prev => prev.map(n => (n.id === id ? data : n)));
+      if (migratedCount > 0) {
+          showToast(`Moved images from ${migratedCount} note${migratedCount === 1 ? '' : 's'} into attachments.`, "success");
       }
   };
 
@@ -326,9 +678,7 @@ const App: React.FC = () => {
 
     setIsLoadingSummary(id);
     try {
-        const tempDiv = document.createElement("div");
-        tempDiv.innerHTML = noteToSummarize.text;
-        const plainText = tempDiv.textContent || tempDiv.innerText || "";
+        const plainText = htmlToPlainText(noteToSummarize.text);
         
         const summary = await summarizeText(plainText);
         await updateNoteInDbAndState(id, { summary });
@@ -368,13 +718,13 @@ const App: React.FC = () => {
     }
     setIsExtractingTasks(id);
     try {
-        const tempDiv = document.createElement("div");
-        tempDiv.innerHTML = note.text;
-        const plainText = tempDiv.textContent || tempDiv.innerText || "";
-        const tasks = await extractTasks(plainText);
-        await updateNoteInDbAndState(id, { tasks });
-        if (tasks.length > 0) {
-            showToast("Tasks found!", "success");
+        const plainText = htmlToPlainText(note.text);
+        const extracted = await extractTasks(plainText);
+        const added = await addExtractedTasks(note, extracted);
+        if (added.length > 0) {
+            showToast(`Added ${added.length} task${added.length === 1 ? '' : 's'}.`, "success");
+        } else if (extracted.length > 0) {
+            showToast("This note's tasks are already on your task board.", "success");
         } else {
             showToast("No tasks found in this note.", "success");
         }
@@ -391,7 +741,7 @@ const App: React.FC = () => {
       if (!note) return;
       setIsFindingLinks(id);
       try {
-          const related_note_ids = await findRelatedNotes(note, notes);
+          const related_note_ids = await findRelatedNoteIds(note, notes, embeddings);
           await updateNoteInDbAndState(id, { related_note_ids });
           if (related_note_ids.length > 0) {
               showToast("Related notes found!", "success");
@@ -414,11 +764,9 @@ const App: React.FC = () => {
     }
     setIsExpandingNote(id);
     try {
-        const tempDiv = document.createElement("div");
-        tempDiv.innerHTML = note.text;
-        const plainText = tempDiv.textContent || tempDiv.innerText || "";
+        const plainText = htmlToPlainText(note.text);
         const expandedText = await expandNoteText(plainText);
-        const newText = `${note.text}<hr class="my-4 border-amber-300"><h3 class="text-xl font-bold text-amber-800">AI Expansion:</h3>${expandedText}`;
+        const newText = `${note.text}<hr><h3><strong>AI Expansion:</strong></h3>${expandedText}`;
         await updateNoteInDbAndState(id, { text: newText });
         showToast("Note expanded!", "success");
     } catch (error) {
@@ -430,8 +778,11 @@ const App: React.FC = () => {
   };
   
   const handleNavigateToNote = (id: string) => {
-      if (viewMode === 'canvas') {
-        showToast("Note navigation is available in Carousel view.", "success");
+      // The other views have no "current" note to move to, so open it instead.
+      if (viewMode !== 'carousel') {
+        const note = notes.find(n => n.id === id);
+        if (note) handleViewNote(note);
+        else showToast("Could not find the selected note. It might have been deleted.");
         return;
       }
       const noteIndex = carouselNotes.findIndex(n => n.id === id);
@@ -449,6 +800,7 @@ const App: React.FC = () => {
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file || !session?.user) return;
+    const userId = session.user.id;
 
     const reader = new FileReader();
     reader.onload = async (e) => {
@@ -468,24 +820,27 @@ const App: React.FC = () => {
                 canvas_y: n.canvas_y || 0,
             }));
 
-            const existingIds = new Set(notes.map(n => n.id));
+            // Trashed notes keep their ids too, so they count as existing.
+            const existingIds = new Set([...notes, ...trashedNotes].map(n => n.id));
             const uniqueNewNotes = newNotes
                 .filter(n => !existingIds.has(n.id))
-                .map(n => ({...n, user_id: session.user?.id }));
+                .map(n => ({ ...n, user_id: userId }));
             
             if (uniqueNewNotes.length === 0) {
                 showToast("No new notes to import.", "success");
                 return;
             }
 
-            const { error } = await supabase.from('notes').insert(uniqueNewNotes as any);
-
-            if (error) {
-                throw new Error(error.message);
+            const imported = await importNotes(uniqueNewNotes);
+            if (imported.length === 0) {
+                showToast("No new notes to import.", "success");
+                return;
             }
 
-            setNotes(prev => [...uniqueNewNotes as Note[], ...prev]);
-            showToast(`${uniqueNewNotes.length} notes imported successfully!`, "success");
+            // Online the repository has already announced them; offline it hasn't, so add them here.
+            setNotes(prev => imported.reduce((list, note) => applyNoteChange(list, { eventType: 'INSERT', note }), prev));
+            showToast(`${imported.length} notes imported successfully!`, "success");
+            migrateInlineMedia(imported.filter(hasInlineMedia));
 
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
@@ -521,16 +876,38 @@ const App: React.FC = () => {
     }
   };
 
+  // Moves notes to the Trash with an Undo. The published updates may already have moved some of them
+  // either way, so both directions replace by id rather than add.
+  const trashNotesWithUndo = async (ids: string[], message: (count: number) => string) => {
+    try {
+        const trashed = await trashNotes(ids);
+        const trashedIds = new Set(trashed.map(n => n.id));
+        setNotes(prev => prev.filter(n => !trashedIds.has(n.id)));
+        setTrashedNotes(prev => [...trashed, ...prev.filter(n => !trashedIds.has(n.id))]);
+        showToast(message(trashed.length), "success", {
+            label: "Undo",
+            onClick: async () => {
+                try {
+                    const restored = await restoreNotes(trashed.map(n => n.id));
+                    const restoredIds = new Set(restored.map(n => n.id));
+                    setTrashedNotes(prev => prev.filter(n => !restoredIds.has(n.id)));
+                    setNotes(prev => [...restored, ...prev.filter(n => !restoredIds.has(n.id))]);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+                    showToast(`Error restoring notes: ${errorMessage}`);
+                }
+            },
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Error deleting notes: ${errorMessage}`);
+    }
+  };
+
   const handleDeleteAllNotes = async () => {
-    if(window.confirm("Are you sure you want to delete ALL notes? This action cannot be undone.")) {
-        if (!session?.user) return;
-        const { error } = await supabase.from('notes').delete().eq('user_id', session.user.id);
-        if (error) {
-            showToast(`Error deleting notes: ${error.message}`);
-        } else {
-            setNotes([]);
-            showToast("All notes have been deleted.", "success");
-        }
+    if(window.confirm("Move ALL notes to the Trash?")) {
+        if (!session?.user || notes.length === 0) return;
+        await trashNotesWithUndo(notes.map(n => n.id), () => "All notes have been moved to the Trash.");
     }
   };
 
@@ -568,8 +945,9 @@ const App: React.FC = () => {
         await updateNoteInDbAndState(stackingNoteId, { stack_id: targetId });
         setStackingNoteId(null);
         showToast("Notes stacked successfully!", "success");
-    } catch (error: any) {
-        showToast(`Error stacking note: ${error.message}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Error stacking note: ${errorMessage}`);
     }
   };
 
@@ -578,8 +956,9 @@ const App: React.FC = () => {
     if (!note) return;
     try {
       await updateNoteInDbAndState(id, { is_pinned: !note.is_pinned });
-    } catch (error: any) {
-      showToast(`Error pinning note: ${error.message}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      showToast(`Error pinning note: ${errorMessage}`);
     }
   };
   
@@ -587,8 +966,9 @@ const App: React.FC = () => {
     try {
         await updateNoteInDbAndState(id, { stack_id: null });
         showToast("Note unstacked!", "success");
-    } catch (error: any) {
-        showToast(`Error unstacking note: ${error.message}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Error unstacking note: ${errorMessage}`);
     }
   };
 
@@ -600,6 +980,181 @@ const App: React.FC = () => {
     );
   };
 
+  const handleApplySavedSearch = (search: SavedSearch) => {
+    if (search.id === activeSavedSearchId) {
+        setSearchTerm('');
+        setActiveTags([]);
+        return;
+    }
+    setSearchTerm(search.query);
+    setActiveTags(search.tags);
+  };
+
+  const handleSaveSearch = async (name: string) => {
+    if (!session?.user) return;
+    try {
+        const saved = await createSavedSearch({ user_id: session.user.id, name, query: searchTerm.trim(), tags: activeTags });
+        setSavedSearches(prev => [...prev, saved]);
+        showToast(`Saved "${name}".`, "success");
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not save search. ${errorMessage}`);
+    }
+  };
+
+  const handleDeleteSavedSearch = async (id: string) => {
+    try {
+        await deleteSavedSearch(id);
+        setSavedSearches(prev => prev.filter(search => search.id !== id));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not delete saved search. ${errorMessage}`);
+    }
+  };
+
+  // Checklist tasks are ticked in the note itself; saving the note brings the task along.
+  const handleToggleTask = async (task: Task) => {
+    try {
+        const note = task.note_id ? notes.find(n => n.id === task.note_id) : undefined;
+        if (task.source === 'checklist' && note) {
+            await updateNoteInDbAndState(note.id, { text: setChecklistItemDone(note.text, task.position, !task.done) });
+        } else {
+            await updateTask(task.id, { done: !task.done });
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not update task. ${errorMessage}`);
+    }
+  };
+
+  const handleUpdateTask = async (id: string, update: Partial<Task>) => {
+    try {
+        await updateTask(id, update);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not update task. ${errorMessage}`);
+    }
+  };
+
+  const handleDeleteTask = async (id: string) => {
+    try {
+        await deleteTasks([id]);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not delete task. ${errorMessage}`);
+    }
+  };
+
+  const handleAddTask = async (text: string, dueDate: string | null) => {
+    if (!session?.user) return;
+    try {
+        await createTasks([{ user_id: session.user.id, text, due_date: dueDate, source: 'manual' }]);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not add task. ${errorMessage}`);
+    }
+  };
+
+  const handleSetReminder = async (kind: ReminderKind, id: string, remindAt: string | null) => {
+    try {
+        // Reminders still show as toasts without permission, so don't wait for the answer.
+        if (remindAt) requestNotificationPermission();
+        if (kind === 'note') {
+            const data = await updateNote(id, { remind_at: remindAt });
+            setNotes(prev => prev.map(n => (n.id === id ? data : n)));
+            setViewingNote(prev => (prev?.id === id ? data : prev));
+        } else {
+            await updateTask(id, { remind_at: remindAt });
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not update reminder. ${errorMessage}`);
+    }
+  };
+
+  const handleReminderAction = (action: ReminderAction, reminder: Reminder) => {
+    if (action === 'snooze') {
+        handleSetReminder(reminder.kind, reminder.targetId, snoozedUntil());
+        return;
+    }
+    if (action === 'complete') {
+        const task = reminder.kind === 'task' ? tasks.find(t => t.id === reminder.targetId) : undefined;
+        if (task && !task.done) handleToggleTask(task);
+        else handleSetReminder(reminder.kind, reminder.targetId, null);
+        return;
+    }
+    const note = reminder.noteId ? notes.find(n => n.id === reminder.noteId) : undefined;
+    setIsRemindersVisible(false);
+    if (note) handleViewNote(note);
+    else setIsTaskBoardVisible(true);
+  };
+
+  // A reminder fires once; snoozing sets a new time.
+  const handleReminderDue = (reminder: Reminder) => {
+    const snooze = { label: `Snooze ${SNOOZE_MINUTES} min`, onClick: () => handleReminderAction('snooze', reminder) };
+    if (document.visibilityState === 'visible' || !canNotify()) {
+        showToast(`Reminder: ${reminder.title}`, "success", snooze);
+    } else {
+        showReminderNotification(reminder).catch(error => console.error('Error showing reminder:', error));
+    }
+    handleSetReminder(reminder.kind, reminder.targetId, null);
+  };
+
+  // A notification clicked with no tab open opens the app with the action in the URL.
+  const urlReminderAction = useRef(takeReminderActionFromUrl()).current;
+  const pendingUrlActionRef = useRef(urlReminderAction);
+
+  // Shown by the service worker while the app was closed; only the bookkeeping is left. A snooze or
+  // complete from the URL writes that reminder itself, and clearing it here as well would race that write.
+  const handleRemindersDelivered = (delivered: Reminder[]) => {
+    const handledByUrl = urlReminderAction && urlReminderAction.action !== 'open' ? urlReminderAction.reminderId : null;
+    delivered
+        .filter(reminder => reminder.id !== handledByUrl)
+        .forEach(reminder => handleSetReminder(reminder.kind, reminder.targetId, null));
+  };
+
+  useReminders(reminders, handleReminderDue, handleRemindersDelivered);
+
+  // Handlers close over the current notes and tasks, so read them through a ref.
+  const reminderActionRef = useRef(handleReminderAction);
+  reminderActionRef.current = handleReminderAction;
+  useEffect(() => subscribeToReminderActions((action, reminder) => reminderActionRef.current(action, reminder)), []);
+
+  // Run the URL's action once the reminder it names has loaded.
+  useEffect(() => {
+    const pending = pendingUrlActionRef.current;
+    if (!pending) return;
+    const reminder = reminders.find(r => r.id === pending.reminderId);
+    if (!reminder) return;
+    pendingUrlActionRef.current = null;
+    handleReminderAction(pending.action, reminder);
+  }, [reminders]);
+
+  // Saved in the background; the board shows the new layout straight away.
+  const handleKanbanLayoutChange = async (layout: KanbanLayout) => {
+    setKanbanLayout(layout);
+    try {
+        await saveKanbanLayout(layout);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not save board layout. ${errorMessage}`);
+    }
+  };
+
+  const handleMoveToColumn = async (note: Note, target: string | null) => {
+    const update = moveToColumnUpdate(note, kanbanLayout || defaultKanbanLayout(note.user_id), target);
+    if (!update) return;
+    try {
+        // The column update rewrites tags, so it must not overwrite tags changed elsewhere since.
+        await updateNoteInDbAndState(note.id, update, note);
+    } catch (error) {
+        if (!(error instanceof NoteConflictError)) {
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            showToast(`Error moving note: ${errorMessage}`);
+        }
+    }
+  };
+
   const handleTagClick = (tag: string) => {
     if (!activeTags.includes(tag)) {
         setActiveTags(prev => [...prev, tag]);
@@ -610,11 +1165,28 @@ const App: React.FC = () => {
   const handleTextUpdate = async (noteId: string, newText: string) => {
     try {
         await updateNoteInDbAndState(noteId, { text: newText });
-    } catch (error: any) {
-        showToast(`Error saving update: ${error.message}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Error saving update: ${errorMessage}`);
     }
   };
   
+  // Restoring writes the old content as a new revision, so the restore itself can be undone from history.
+  const handleRestoreRevision = async (revision: NoteRevision) => {
+    const current = notes.find(n => n.id === revision.note_id);
+    try {
+        const data = await updateNote(revision.note_id, revisionContent(revision), current);
+        setNotes(prev => prev.map(n => (n.id === data.id ? data : n)));
+        setViewingNote(prev => (prev?.id === data.id ? data : prev));
+        showToast(`Restored version ${revision.revision}.`, "success");
+    } catch (error) {
+        if (!(error instanceof NoteConflictError)) {
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            showToast(`Error restoring version: ${errorMessage}`);
+        }
+    }
+  };
+
   const debounce = <F extends (...args: any[]) => any>(func: F, delay: number) => {
       let timeout: ReturnType<typeof setTimeout>;
       return (...args: Parameters<F>): void => {
@@ -624,12 +1196,11 @@ const App: React.FC = () => {
   };
 
   const savePositionUpdate = useCallback(async (noteId: string, x: number, y: number) => {
-      const { error } = await supabase
-          .from('notes')
-          .update({ canvas_x: x, canvas_y: y })
-          .eq('id', noteId);
-      if (error) {
-          showToast(`Could not save note position: ${error.message}`);
+      try {
+          await updateNote(noteId, { canvas_x: x, canvas_y: y });
+      } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+          showToast(`Could not save note position: ${errorMessage}`);
           // Note: No state reversal on failure for now to avoid jumpiness. Position is saved locally.
       }
   }, []);
@@ -641,55 +1212,295 @@ const App: React.FC = () => {
       debouncedSavePosition(noteId, x, y);
   }, [debouncedSavePosition]);
   
-  const handleUpdateNotePositions = async (updates: Note[]) => {
-      // 1. Update local state for immediate feedback
-      const updateMap = new Map(updates.map(u => [u.id, u]));
-      setNotes(prev => prev.map(n => {
-          const update = updateMap.get(n.id);
-          return update ? { ...n, canvas_x: update.canvas_x, canvas_y: update.canvas_y } : n;
-      }));
-
-      // 2. Update database
-      const { error } = await supabase.from('notes').upsert(updates);
-      if (error) {
-          showToast(`Could not save tidy layout: ${error.message}`);
-      } else {
-          showToast("Canvas tidied!", "success");
-      }
+  const handleCreateBoard = async (name: string) => {
+    if (!session?.user) return;
+    try {
+        const board = await createBoard({ user_id: session.user.id, name });
+        setBoards(prev => [...prev, board]);
+        setActiveBoardId(board.id);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not create board. ${errorMessage}`);
+    }
+  };
+
+  const handleRenameBoard = async (id: string, name: string) => {
+    try {
+        const renamed = await renameBoard(id, name);
+        setBoards(prev => prev.map(board => board.id === id ? renamed : board));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not rename board. ${errorMessage}`);
+    }
   };
 
-  const handleTidyCanvas = () => {
-    const notesToTidy = filteredNotes;
-    if (notesToTidy.length === 0) {
+  const handleDeleteBoard = async (board: Board) => {
+    if (!window.confirm(`Delete the board "${board.name}"? Its notes stay in "All notes".`)) return;
+    try {
+        await deleteBoard(board.id);
+        setBoards(prev => prev.filter(b => b.id !== board.id));
+        setBoardPlacements(prev => prev.filter(placement => placement.board_id !== board.id));
+        if (activeBoardId === board.id) setActiveBoardId(null);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not delete board. ${errorMessage}`);
+    }
+  };
+
+  // Shown straight away; if the save fails, the notes go back where they were, or off the board if they were just added.
+  const saveActiveBoardPlacements = async (placements: BoardPlacement[]) => {
+    const isSaved = (placement: BoardPlacement) => placements.some(p => p.board_id === placement.board_id && p.note_id === placement.note_id);
+    const previous = boardPlacementsRef.current.filter(isSaved);
+    setBoardPlacements(prev => mergePlacements(prev, placements));
+    try {
+        await saveBoardPlacements(placements);
+    } catch (error) {
+        setBoardPlacements(prev => [...prev.filter(placement => !isSaved(placement)), ...previous]);
+        throw error;
+    }
+  };
+
+  const handleAddNoteToBoard = async (note: Note) => {
+    if (!session?.user || !activeBoard) return;
+    const position = nextPlacementPosition(boardPlacements, activeBoard.id);
+    try {
+        await saveActiveBoardPlacements([{ board_id: activeBoard.id, note_id: note.id, user_id: session.user.id, ...position }]);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not add the note to ${activeBoard.name}. ${errorMessage}`);
+    }
+  };
+
+  const handleRemoveNoteFromBoard = async (note: Note) => {
+    if (!activeBoard) return;
+    const boardId = activeBoard.id;
+    try {
+        await removeBoardPlacement(boardId, note.id);
+        setBoardPlacements(prev => prev.filter(placement => !(placement.board_id === boardId && placement.note_id === note.id)));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not remove the note from ${activeBoard.name}. ${errorMessage}`);
+    }
+  };
+
+  // On a board, dragging moves the note's placement there; on "All notes" it moves the note itself.
+  const handleCanvasPositionChange = (noteId: string, x: number, y: number) => {
+    if (!activeBoard || !session?.user) {
+        handleNotePositionUpdate(noteId, x, y);
+        return;
+    }
+    saveActiveBoardPlacements([{ board_id: activeBoard.id, note_id: noteId, user_id: session.user.id, x, y }]).catch(error => {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not save the note's position. ${errorMessage}`);
+    });
+  };
+
+  // Saves a batch of canvas positions on the given board, or on the notes themselves for "All notes".
+  const saveCanvasPositions = async (positions: { id: string; x: number; y: number }[], boardId: string | null) => {
+    if (boardId && session?.user) {
+        const userId = session.user.id;
+        await saveActiveBoardPlacements(positions.map(({ id, x, y }) => ({ board_id: boardId, note_id: id, user_id: userId, x, y })));
+        return;
+    }
+    const byId = new Map(positions.map(position => [position.id, position]));
+    setNotes(prev => prev.map(n => byId.has(n.id) ? { ...n, canvas_x: byId.get(n.id)!.x, canvas_y: byId.get(n.id)!.y } : n));
+    await moveNotes(positions);
+  };
+
+  const handleMoveCanvasNotes = (positions: { id: string; x: number; y: number }[]) => {
+    saveCanvasPositions(positions, activeBoard?.id ?? null).catch(error => {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not save note positions. ${errorMessage}`);
+    });
+  };
+
+  const handleBulkUpdateNotes = async (updates: NoteUpdate[], successMessage: string) => {
+    if (updates.length === 0) return;
+    const results = await Promise.allSettled(updates.map(({ id, update }) => updateNoteInDbAndState(id, update)));
+    // Conflicts open the merge dialog on their own.
+    const failures = results.flatMap(result => result.status === 'rejected' && !(result.reason instanceof NoteConflictError) ? [result.reason] : []);
+    if (failures.length > 0) {
+        const errorMessage = failures[0] instanceof Error ? failures[0].message : "An unknown error occurred.";
+        showToast(`Could not update ${failures.length} of ${updates.length} notes. ${errorMessage}`);
+    } else {
+        showToast(successMessage, "success");
+    }
+  };
+
+  // The first id is the note the others are stacked on.
+  const handleStackNotes = (ids: string[]) => {
+    if (ids.length < 2) return;
+    handleBulkUpdateNotes(stackUpdates(notes, ids, ids[0]), `Stacked ${ids.length - 1} notes on "${noteTitle(notes.find(n => n.id === ids[0])!, 40)}".`);
+  };
+
+  const handleTrashNotes = async (notesToTrash: Note[]) => {
+    if (notesToTrash.length === 0) return;
+    const ids = [...new Set(notesToTrash.map(n => n.id))];
+    await trashNotesWithUndo(ids, count => `Moved ${count} note${count === 1 ? '' : 's'} to the Trash.`);
+  };
+
+  const handleCreateCanvasFrame = async (rect: Rect) => {
+    if (!session?.user) return;
+    try {
+        const frame = await createCanvasFrame({ user_id: session.user.id, board_id: activeBoard?.id ?? null, title: 'New frame', color: 'amber', ...rect });
+        setCanvasFrames(prev => [...prev, frame]);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not add frame. ${errorMessage}`);
+    }
+  };
+
+  // Applied straight away so a dragged or resized frame doesn't snap back while the save is in flight.
+  const handleUpdateCanvasFrame = async (id: string, update: Partial<Pick<CanvasFrame, 'title' | 'color' | 'x' | 'y' | 'width' | 'height' | 'collapsed'>>) => {
+    const previous = canvasFrames.find(frame => frame.id === id);
+    if (!previous) return;
+    setCanvasFrames(prev => prev.map(frame => frame.id === id ? { ...frame, ...update } : frame));
+    try {
+        await updateCanvasFrame(id, update);
+    } catch (error) {
+        setCanvasFrames(prev => prev.map(frame => frame.id === id ? previous : frame));
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not update frame. ${errorMessage}`);
+    }
+  };
+
+  const handleDeleteCanvasFrame = async (frame: CanvasFrame) => {
+    if (!window.confirm(`Delete the frame "${frame.title || 'Untitled frame'}"? The notes in it stay where they are.`)) return;
+    try {
+        await deleteCanvasFrame(frame.id);
+        setCanvasFrames(prev => prev.filter(f => f.id !== frame.id));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not delete frame. ${errorMessage}`);
+    }
+  };
+
+  const handleCreateCanvasEdge = async (sourceId: string, targetId: string) => {
+    if (!session?.user) return;
+    if (canvasEdges.some(edge => edge.source_note_id === sourceId && edge.target_note_id === targetId)) return;
+    try {
+        const edge = await createCanvasEdge({ user_id: session.user.id, source_note_id: sourceId, target_note_id: targetId });
+        setCanvasEdges(prev => [...prev, edge]);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not connect the notes. ${errorMessage}`);
+    }
+  };
+
+  const handleUpdateCanvasEdge = async (id: string, update: Partial<Pick<CanvasEdge, 'label' | 'style'>>) => {
+    try {
+        const updated = await updateCanvasEdge(id, update);
+        setCanvasEdges(prev => prev.map(edge => edge.id === id ? updated : edge));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not update the connection. ${errorMessage}`);
+    }
+  };
+
+  const handleDeleteCanvasEdge = async (id: string) => {
+    try {
+        await deleteCanvasEdge(id);
+        setCanvasEdges(prev => prev.filter(edge => edge.id !== id));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not delete the connection. ${errorMessage}`);
+    }
+  };
+
+  const handleUndoLayout = async (undo: LayoutUndo) => {
+    setLayoutUndo(current => current === undo ? null : current);
+    // Notes trashed or taken off the board since stay where they are.
+    const onCanvas = new Set(notesOnBoard(notesRef.current, boardPlacementsRef.current, undo.boardId).map(note => note.id));
+    try {
+        await saveCanvasPositions(undo.positions.filter(position => onCanvas.has(position.id)), undo.boardId);
+        await Promise.all(undo.frameIds.map(deleteCanvasFrame));
+        const frameIds = new Set(undo.frameIds);
+        setCanvasFrames(prev => prev.filter(frame => !frameIds.has(frame.id)));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not restore the previous layout. ${errorMessage}`);
+    }
+  };
+
+  // Titles each group of a grouped layout with a frame. The notes are already in place, so a frame that
+  // can't be saved is only logged.
+  const createLayoutFrames = async (frames: LayoutFrame[], boardId: string | null): Promise<CanvasFrame[]> => {
+    if (!session?.user || frames.length === 0) return [];
+    const userId = session.user.id;
+    const colors = Object.keys(FRAME_COLORS) as CanvasFrameColor[];
+    const results = await Promise.allSettled(frames.map(({ label, rect }, index) =>
+        createCanvasFrame({ user_id: userId, board_id: boardId, title: label, color: colors[index % colors.length], ...rect })));
+    const created = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    results.forEach(result => {
+        if (result.status === 'rejected') console.error('Error adding layout frame:', result.reason);
+    });
+    setCanvasFrames(prev => [...prev, ...created]);
+    return created;
+  };
+
+  const handleArrangeCanvas = async (kind: CanvasLayoutKind) => {
+    const notesToArrange = canvasNotes;
+    if (notesToArrange.length === 0) {
       showToast("No notes on canvas to tidy.");
       return;
     }
 
     const isMobile = window.innerWidth < 640; // Tailwind's 'sm' breakpoint
+    const options = {
+        noteSize: canvasNoteSize(),
+        gap: isMobile ? 20 : 40,
+        // Use a slightly smaller width to account for scrollbars/padding
+        width: window.innerWidth * 0.95,
+    };
+    const boardId = activeBoard?.id ?? null;
 
-    const NOTE_WIDTH = isMobile ? 240 : 288;   // Corresponds to w-60 and sm:w-72
-    const NOTE_HEIGHT = isMobile ? 160 : 192;  // Corresponds to h-40 and sm:h-48
-    const GAP_X = isMobile ? 20 : 40;
-    const GAP_Y = isMobile ? 20 : 40;
-    
-    // Use a slightly smaller width to account for scrollbars/padding
-    const containerWidth = window.innerWidth * 0.95; 
-    const COLUMNS = Math.max(1, Math.floor(containerWidth / (NOTE_WIDTH + GAP_X)));
-
-    const updates = notesToTidy.map((note, index) => {
-        const row = Math.floor(index / COLUMNS);
-        const col = index % COLUMNS;
-        return {
-            ...note,
-            canvas_x: col * (NOTE_WIDTH + GAP_X) + GAP_X, // Add offset from edge
-            canvas_y: row * (NOTE_HEIGHT + GAP_Y) + GAP_Y, // Add offset from edge
-        };
-    });
+    setIsArranging(true);
+    try {
+        let positions: Map<string, Point>;
+        let frames: LayoutFrame[] = [];
+        switch (kind) {
+            case 'tag':
+                ({ positions, frames } = groupLayout(tagGroups(notesToArrange), options));
+                break;
+            case 'related':
+                positions = relatedLayout(notesToArrange, options);
+                break;
+            case 'timeline':
+                positions = timelineLayout(notesToArrange, options);
+                break;
+            case 'ai': {
+                const clusters = await clusterNotes(notesToArrange);
+                const byId = new Map(notesToArrange.map(note => [note.id, note]));
+                ({ positions, frames } = groupLayout(clusters.map(cluster => ({
+                    label: cluster.label,
+                    notes: cluster.noteIds.map(id => byId.get(id)).filter((note): note is Note => !!note),
+                })), options));
+                break;
+            }
+            default:
+                positions = gridLayout(notesToArrange, options);
+        }
 
-    handleUpdateNotePositions(updates);
+        // The AI layout waits on the provider, so take the notes as they are now: leave out any trashed or
+        // taken off the board meanwhile, and remember where the rest are for the undo. On a board these
+        // carry the board's positions.
+        const current = new Map(notesOnBoard(notesRef.current, boardPlacementsRef.current, boardId).map(note => [note.id, note]));
+        const arranged = Array.from(positions.entries()).filter(([id]) => current.has(id));
+        const previous = arranged.map(([id]) => ({ id, x: current.get(id)!.canvas_x ?? 0, y: current.get(id)!.canvas_y ?? 0 }));
+        await saveCanvasPositions(arranged.map(([id, { x, y }]) => ({ id, x, y })), boardId);
+        const created = await createLayoutFrames(frames, boardId);
+        const undo: LayoutUndo = { boardId, positions: previous, frameIds: created.map(frame => frame.id) };
+        setLayoutUndo(undo);
+        const label = CANVAS_LAYOUTS.find(layout => layout.id === kind)?.label ?? 'Grid';
+        showToast(`Canvas arranged: ${label}.`, "success", { label: "Undo", onClick: () => handleUndoLayout(undo) });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        showToast(`Could not arrange the canvas. ${errorMessage}`);
+    } finally {
+        setIsArranging(false);
+    }
   };
 
-
   const goNext = () => {
     setActiveIndex((prev) => (prev + 1) % carouselNotes.length);
   };
@@ -720,7 +1531,27 @@ const App: React.FC = () => {
               <button onClick={() => setViewMode('canvas')} className={`p-1 sm:px-2 rounded-full flex items-center gap-1.5 text-sm transition ${viewMode === 'canvas' ? 'bg-white dark:bg-gray-900 shadow' : 'opacity-70'}`} title="Canvas View">
                 <LayoutGridIcon className="w-4 h-4 sm:w-5 sm:h-5"/> <span className="hidden md:inline">Canvas</span>
               </button>
+              <button onClick={() => setViewMode('timeline')} className={`p-1 sm:px-2 rounded-full flex items-center gap-1.5 text-sm transition ${viewMode === 'timeline' ? 'bg-white dark:bg-gray-900 shadow' : 'opacity-70'}`} title="Timeline View">
+                <CalendarIcon className="w-4 h-4 sm:w-5 sm:h-5"/> <span className="hidden md:inline">Timeline</span>
+              </button>
+              <button onClick={() => setViewMode('board')} className={`p-1 sm:px-2 rounded-full flex items-center gap-1.5 text-sm transition ${viewMode === 'board' ? 'bg-white dark:bg-gray-900 shadow' : 'opacity-70'}`} title="Board View">
+                <ColumnsIcon className="w-4 h-4 sm:w-5 sm:h-5"/> <span className="hidden md:inline">Board</span>
+              </button>
+              <button onClick={() => setViewMode('graph')} className={`p-1 sm:px-2 rounded-full flex items-center gap-1.5 text-sm transition ${viewMode === 'graph' ? 'bg-white dark:bg-gray-900 shadow' : 'opacity-70'}`} title="Graph View">
+                <ShareIcon className="w-4 h-4 sm:w-5 sm:h-5"/> <span className="hidden md:inline">Graph</span>
+              </button>
            </div>
+           {viewMode === 'canvas' && (
+             <BoardSwitcher
+               boards={boards}
+               activeBoardId={activeBoard?.id ?? null}
+               counts={boardCounts}
+               onSelect={setActiveBoardId}
+               onCreate={handleCreateBoard}
+               onRename={handleRenameBoard}
+               onDelete={handleDeleteBoard}
+             />
+           )}
            <button onClick={() => setIsInsightsVisible(true)} className="flex items-center text-sm p-1 sm:p-1.5 sm:px-2.5 rounded-full transition-colors duration-300 themed-button-violet" title="Get AI Insights">
             <TrendingUpIcon className="w-4 h-4 sm:w-5 sm:h-5" /> <span className="hidden sm:inline ml-1.5">Insights</span>
           </button>
@@ -729,6 +1560,15 @@ const App: React.FC = () => {
           </button>
           <EnvironmentSelector currentEnv={environment} onSelect={setEnvironment} />
            <input type="file" ref={importInputRef} onChange={handleImport} accept=".json" className="hidden" />
+          <button onClick={() => setIsTaskBoardVisible(true)} className="flex items-center text-sm p-1 sm:p-1.5 sm:px-2.5 rounded-full transition-colors duration-300 themed-button" title="Tasks">
+            <CheckSquareIcon className="w-4 h-4 sm:w-5 sm:h-5" /> <span className="hidden sm:inline ml-1.5">Tasks</span>
+          </button>
+          <button onClick={() => setIsRemindersVisible(true)} className="flex items-center text-sm p-1 sm:p-1.5 sm:px-2.5 rounded-full transition-colors duration-300 themed-button" title="Reminders">
+            <BellIcon className="w-4 h-4 sm:w-5 sm:h-5" /> <span className="hidden sm:inline ml-1.5">Reminders{reminders.length > 0 && ` (${reminders.length})`}</span>
+          </button>
+          <button onClick={() => setIsTrashVisible(true)} className="flex items-center text-sm p-1 sm:p-1.5 sm:px-2.5 rounded-full transition-colors duration-300 themed-button" title="Trash">
+            <TrashIcon className="w-4 h-4 sm:w-5 sm:h-5" /> <span className="hidden sm:inline ml-1.5">Trash{trashedNotes.length > 0 && ` (${trashedNotes.length})`}</span>
+          </button>
           <button onClick={() => setIsProfileVisible(true)} className="flex items-center text-sm p-1 sm:p-1.5 sm:px-2.5 rounded-full transition-colors duration-300 themed-button" title="Profile & Settings">
             <ProfileIcon className="w-4 h-4 sm:w-5 sm:h-5" /> <span className="hidden sm:inline ml-1.5">Profile</span>
           </button>
@@ -742,16 +1582,22 @@ const App: React.FC = () => {
       </header>
 
       <section className="p-4 sm:p-6 sm:px-8 space-y-4 z-20 themed-header transition-colors duration-500">
-          <div className="relative max-w-2xl mx-auto">
-              <SearchIcon className="absolute left-3 sm:left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-amber-500 pointer-events-none" />
-              <input 
-                  type="search"
-                  placeholder="Search notes by text, summary, or tag..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full text-base sm:text-xl p-1.5 sm:p-3 pl-9 sm:pl-12 rounded-full border-2 border-amber-300 focus:border-amber-500 focus:ring-2 focus:ring-amber-300 transition duration-300 themed-search-input"
-              />
-          </div>
+          <SearchBar
+              value={searchTerm}
+              onChange={setSearchTerm}
+              allTags={allTags}
+              isSemantic={isSemanticSearch}
+              onToggleSemantic={() => setIsSemanticSearch(prev => !prev)}
+          />
+          <SavedSearchBar
+              searches={savedSearches}
+              counts={savedSearchCounts}
+              activeId={activeSavedSearchId}
+              canSave={!!searchTerm.trim() || activeTags.length > 0}
+              onApply={handleApplySavedSearch}
+              onSave={handleSaveSearch}
+              onDelete={handleDeleteSavedSearch}
+          />
           {allTags.length > 0 && (
               <div className="flex flex-wrap justify-center items-center gap-2 max-w-3xl mx-auto">
                   <TagIcon className="w-5 h-5 themed-filters-text" />
@@ -838,6 +1684,12 @@ const App: React.FC = () => {
                                               isExpanding={isExpandingNote === note.id}
                                               stackingNoteId={stackingNoteId}
                                               stackCount={stackedNotes.length}
+                                              syncStatus={syncStatuses[note.id]}
+                                              highlightTerms={searchHighlights.get(note.id)}
+                                              tasks={noteTasks.get(note.id)?.filter(task => task.source !== 'checklist')}
+                                              onToggleTask={handleToggleTask}
+                                              linkTitles={noteTitles}
+                                              backlinks={backlinks.get(note.id)}
                                           />
                                       </div>
                                   )
@@ -854,14 +1706,55 @@ const App: React.FC = () => {
                               </>
                           )}
                       </div>
+                    ) : viewMode === 'timeline' ? (
+                      <TimelineView notes={filteredNotes} tasks={tasks} onViewNote={handleViewNote} />
+                    ) : viewMode === 'board' ? (
+                      <KanbanBoard
+                        layout={kanbanLayout || defaultKanbanLayout(session.user.id)}
+                        notes={filteredNotes}
+                        allTags={allTags}
+                        onLayoutChange={handleKanbanLayoutChange}
+                        onMoveNote={handleMoveToColumn}
+                        onViewNote={handleViewNote}
+                      />
+                    ) : viewMode === 'graph' ? (
+                      <NoteGraphView notes={filteredNotes} allTags={allTags} onViewNote={handleViewNote} />
                     ) : (
                       <div className="absolute inset-0">
                         <InfiniteCanvas 
-                          notes={filteredNotes} 
-                          onNotePositionChange={handleNotePositionUpdate}
+                          key={activeBoard?.id ?? 'all'}
+                          notes={canvasNotes} 
+                          boardNotes={boardNotes}
+                          syncStatuses={syncStatuses}
+                          highlights={searchHighlights}
+                          onNotePositionChange={handleCanvasPositionChange}
                           onViewNote={handleViewNote}
-                          onTidyNotes={handleTidyCanvas}
+                          onArrangeNotes={handleArrangeCanvas}
+                          isArranging={isArranging}
+                          onUndoLayout={layoutUndo && layoutUndo.boardId === (activeBoard?.id ?? null) ? () => handleUndoLayout(layoutUndo) : undefined}
+                          edges={canvasEdges}
+                          onCreateEdge={handleCreateCanvasEdge}
+                          onUpdateEdge={handleUpdateCanvasEdge}
+                          onDeleteEdge={handleDeleteCanvasEdge}
+                          frames={boardFrames}
+                          onCreateFrame={handleCreateCanvasFrame}
+                          onUpdateFrame={handleUpdateCanvasFrame}
+                          onDeleteFrame={handleDeleteCanvasFrame}
+                          onNotesMove={handleMoveCanvasNotes}
+                          allTags={allTags}
+                          onUpdateNotes={handleBulkUpdateNotes}
+                          onStackNotes={handleStackNotes}
+                          onTrashNotes={handleTrashNotes}
                         />
+                        {activeBoard && (
+                          <BoardNotesPanel
+                            board={activeBoard}
+                            notes={notes}
+                            placedIds={placedNoteIds}
+                            onAdd={handleAddNoteToBoard}
+                            onRemove={handleRemoveNoteFromBoard}
+                          />
+                        )}
                       </div>
                     )}
                 </>
@@ -892,6 +1785,7 @@ const App: React.FC = () => {
           onClose={() => { setIsFormVisible(false); setEditingNote(null); }}
           noteToEdit={editingNote}
           showToast={showToast}
+          linkableNotes={notes}
         />
       )}
 
@@ -934,6 +1828,40 @@ const App: React.FC = () => {
           />
       )}
 
+      {isTaskBoardVisible && (
+          <TaskBoardModal
+            tasks={tasks}
+            notes={notes}
+            onClose={() => setIsTaskBoardVisible(false)}
+            onToggle={handleToggleTask}
+            onUpdate={handleUpdateTask}
+            onDelete={handleDeleteTask}
+            onSetReminder={(id, remindAt) => handleSetReminder('task', id, remindAt)}
+            onAdd={handleAddTask}
+            onOpenNote={(note) => { setIsTaskBoardVisible(false); handleViewNote(note); }}
+          />
+      )}
+
+      {isRemindersVisible && (
+          <RemindersPanel
+            reminders={reminders}
+            onClose={() => setIsRemindersVisible(false)}
+            onOpen={(reminder) => handleReminderAction('open', reminder)}
+            onSnooze={(reminder) => handleReminderAction('snooze', reminder)}
+            onClear={(reminder) => handleSetReminder(reminder.kind, reminder.targetId, null)}
+          />
+      )}
+
+      {isTrashVisible && (
+          <TrashModal
+            notes={trashedNotes}
+            onClose={() => setIsTrashVisible(false)}
+            onRestore={handleRestoreNote}
+            onDeleteForever={handleDeleteForever}
+            onEmptyTrash={handleEmptyTrash}
+          />
+      )}
+
       {viewingStack && (
         <StackViewModal
           parentNote={viewingStack}
@@ -949,10 +1877,23 @@ const App: React.FC = () => {
             note={viewingNote}
             onClose={() => setViewingNote(null)}
             onEdit={handleEditNote}
+            onRestoreRevision={handleRestoreRevision}
+            onSetReminder={(remindAt) => handleSetReminder('note', viewingNote.id, remindAt)}
+            linkTitles={noteTitles}
+            backlinks={backlinks.get(viewingNote.id) || []}
+            onOpenNote={handleOpenLinkedNote}
+        />
+      )}
+
+      {conflicts[0] && (
+        <MergeConflictModal
+            key={`${conflicts[0].base.id}:${conflicts[0].theirs.revision}`}
+            conflict={conflicts[0]}
+            onResolve={handleResolveConflict}
         />
       )}
 
-      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+      {toast && <Toast message={toast.message} type={toast.type} action={toast.action} onClose={() => setToast(null)} />}
     </div>
   );
 };
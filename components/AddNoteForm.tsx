@@ -1,7 +1,13 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import type { Note, ToastType } from '../types';
-import { generateImage, generateImagePrompt } from '../services/geminiService';
+import { generateImage, generateImagePrompt } from '../services/aiService';
+import { createAttachmentFromDataUrl, discardUploads } from '../services/attachments';
+import { resolveMediaUrl } from '../services/mediaStorage';
+import { sanitizeHtml } from '../services/sanitizeHtml';
+import { CHECKLIST_ITEM_HTML, lockChecklistItems, syncCheckboxAttribute } from '../services/checklist';
+import { noteLinkHtml, noteTitle, openLinkQuery, linkSuggestions, resolveNoteLinks } from '../services/noteLinks';
 import { AudioRecorder } from './AudioRecorder';
+import { AttachmentImage } from './AttachmentImage';
 import { ImageIcon, MicIcon, PlusIcon, SparklesIcon, LoaderIcon, CloseIcon, LightbulbIcon, TagIcon, PencilIcon, BoldIcon, ItalicIcon, ListIcon, CheckSquareIcon, LayersIcon } from './icons';
 
 interface DrawingCanvasProps {
@@ -30,9 +36,13 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ initialDrawing, onSave, o
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
     if (initialDrawing) {
-      const img = new Image();
-      img.onload = () => ctx.drawImage(img, 0, 0);
-      img.src = initialDrawing;
+      resolveMediaUrl(initialDrawing).then(src => {
+        const img = new Image();
+        // Signed storage URLs are cross-origin; without this the canvas is tainted and can't be saved.
+        img.crossOrigin = 'anonymous';
+        img.onload = () => ctx.drawImage(img, 0, 0);
+        img.src = src;
+      }).catch(error => console.error("Could not load existing drawing:", error));
     }
   }, [initialDrawing]);
 
@@ -107,11 +117,21 @@ interface NoteFormProps {
   onClose: () => void;
   noteToEdit: Note | null;
   showToast: (message: string, type?: ToastType) => void;
+  // Notes that can be linked to with [[...]].
+  linkableNotes: Note[];
+}
+
+// The "[[" being typed, and where to show its suggestions relative to the form.
+interface LinkQuery {
+  query: string;
+  length: number;
+  top: number;
+  left: number;
 }
 
 const NOTE_COLORS = ['bg-amber-100', 'bg-sky-100', 'bg-lime-100', 'bg-rose-100', 'bg-violet-100', 'bg-white'];
 
-export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEdit, showToast }) => {
+export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEdit, showToast, linkableNotes }) => {
   const [image_url, setImageUrl] = useState<string | null>(null);
   const [drawing_url, setDrawingUrl] = useState<string | null>(null);
   const [audio_url, setAudioUrl] = useState<string | null>(null);
@@ -126,12 +146,38 @@ export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEd
   const [isDrawing, setIsDrawing] = useState(false);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [isSuggestingPrompt, setIsSuggestingPrompt] = useState(false);
+  const [isSavingDrawing, setIsSavingDrawing] = useState(false);
+  const [isSavingAudio, setIsSavingAudio] = useState(false);
+  const [linkQuery, setLinkQuery] = useState<LinkQuery | null>(null);
+  const [highlightedLink, setHighlightedLink] = useState(0);
   const editorRef = useRef<HTMLDivElement>(null);
+  const formRef = useRef<HTMLFormElement>(null);
+  // Media uploaded while the form is open. Whatever the saved note doesn't use is deleted on close.
+  const uploadsRef = useRef<string[]>([]);
+  const closedRef = useRef(false);
+
+  // An upload that finishes after the form has closed belongs to no note, so it is deleted straight away.
+  const trackUpload = (path: string): boolean => {
+    if (closedRef.current) {
+        discardUploads([path]);
+        return false;
+    }
+    uploadsRef.current.push(path);
+    return true;
+  };
+
+  const linkCandidates = useMemo(
+    () => (linkQuery ? linkSuggestions(linkQuery.query, linkableNotes.filter(note => note.id !== noteToEdit?.id)) : []),
+    [linkQuery, linkableNotes, noteToEdit]
+  );
 
   useEffect(() => {
     if (noteToEdit) {
       if (editorRef.current) {
-        editorRef.current.innerHTML = noteToEdit.text;
+        // Links show the linked notes' current titles, so renames are picked up when this note is saved.
+        const titles = new Map<string, string>(linkableNotes.map(note => [note.id, noteTitle(note)]));
+        editorRef.current.innerHTML = resolveNoteLinks(sanitizeHtml(noteToEdit.text), titles);
+        lockChecklistItems(editorRef.current);
       }
       setImageUrl(noteToEdit.image_url);
       setDrawingUrl(noteToEdit.drawing_url);
@@ -150,10 +196,57 @@ export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEd
   };
   
   const handleInsertChecklist = () => {
-    const html = `<div class="checklist-item" contenteditable="false"><input type="checkbox" /><span contenteditable="true"></span></div>`;
-    document.execCommand('insertHTML', false, html);
+    document.execCommand('insertHTML', false, CHECKLIST_ITEM_HTML);
+  };
+
+
+  const updateLinkQuery = () => {
+    const selection = window.getSelection();
+    const node = selection?.anchorNode;
+    if (!selection || !selection.isCollapsed || !node || node.nodeType !== Node.TEXT_NODE || !editorRef.current?.contains(node) || !formRef.current) {
+      setLinkQuery(null);
+      return;
+    }
+    const open = openLinkQuery((node.textContent || '').slice(0, selection.anchorOffset));
+    if (!open) {
+      setLinkQuery(null);
+      return;
+    }
+    // The form scrolls and is animated with a transform, so position the list inside it rather than fixed.
+    const caret = selection.getRangeAt(0).getBoundingClientRect();
+    const form = formRef.current.getBoundingClientRect();
+    setLinkQuery({ ...open, top: caret.bottom - form.top + formRef.current.scrollTop + 4, left: Math.max(0, caret.left - form.left) });
   };
 
+  // Replaces the typed "[[query" with a link to `target`.
+  const insertNoteLink = (target: Note) => {
+    const selection = window.getSelection();
+    const node = selection?.anchorNode;
+    if (!linkQuery || !selection || !node || node.nodeType !== Node.TEXT_NODE) return;
+    const range = document.createRange();
+    range.setStart(node, Math.max(0, selection.anchorOffset - linkQuery.length));
+    range.setEnd(node, selection.anchorOffset);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    document.execCommand('insertHTML', false, `${noteLinkHtml(target)}&nbsp;`);
+    setLinkQuery(null);
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (linkCandidates.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedLink(prev => (prev + step + linkCandidates.length) % linkCandidates.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertNoteLink(linkCandidates[highlightedLink] || linkCandidates[0]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      setLinkQuery(null);
+    }
+  };
 
   const handleSuggestPrompt = async () => {
     const textContent = editorRef.current?.textContent;
@@ -178,7 +271,9 @@ export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEd
     setIsGeneratingImage(true);
     try {
       const generatedImageUrl = await generateImage(imagePrompt);
-      setImageUrl(generatedImageUrl);
+      const attachment = await createAttachmentFromDataUrl(generatedImageUrl, 'image', noteToEdit?.id);
+      if (!trackUpload(attachment.storage_path)) return;
+      setImageUrl(attachment.storage_path);
       setShowImageGenerator(false);
       showToast("Image generated successfully!", "success");
     } catch (error) {
@@ -189,6 +284,21 @@ export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEd
     }
   };
 
+  const handleDrawingSave = async (dataUrl: string) => {
+    setIsDrawing(false);
+    setIsSavingDrawing(true);
+    try {
+      const attachment = await createAttachmentFromDataUrl(dataUrl, 'drawing', noteToEdit?.id);
+      if (!trackUpload(attachment.storage_path)) return;
+      setDrawingUrl(attachment.storage_path);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      showToast(`Failed to save drawing. ${errorMessage}`);
+    } finally {
+      setIsSavingDrawing(false);
+    }
+  };
+
   const handleTagInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === ',' || e.key === 'Enter') {
         e.preventDefault();
@@ -209,21 +319,36 @@ export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEd
     showToast("Note has been unstacked. Save to confirm.", "success");
   };
 
+  const handleClose = (kept: (string | null)[] = []) => {
+    discardUploads(uploadsRef.current.filter(path => !kept.includes(path)));
+    uploadsRef.current = [];
+    closedRef.current = true;
+    onClose();
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (isSavingDrawing) {
+        showToast("Please wait for the drawing to finish saving.");
+        return;
+    }
+    if (isSavingAudio) {
+        showToast("Please wait for the recording to finish saving.");
+        return;
+    }
     const text = editorRef.current?.innerHTML || '';
     if (!text && !image_url && !audio_url && !drawing_url) {
         showToast("Please add some content to your note.");
         return;
     }
     onSave({ text, image_url, drawing_url, audio_url, color, tags, stack_id, is_pinned }, noteToEdit?.id);
-    onClose();
+    handleClose([image_url, drawing_url, audio_url]);
   };
 
   return (
     <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-40 flex items-center justify-center p-2 sm:p-4" aria-modal="true">
-        <form onSubmit={handleSubmit} className="relative bg-white/90 shadow-2xl rounded-2xl p-4 sm:p-6 w-full max-w-2xl border border-amber-200 space-y-3 sm:space-y-4 animate-fade-in-up max-h-[90vh] overflow-y-auto thin-scrollbar themed-modal-bg">
-          <button type="button" onClick={onClose} className="absolute top-3 right-3 text-amber-600 hover:text-amber-900 themed-modal-text z-10" aria-label="Close form">
+        <form ref={formRef} onSubmit={handleSubmit} className="relative bg-white/90 shadow-2xl rounded-2xl p-4 sm:p-6 w-full max-w-2xl border border-amber-200 space-y-3 sm:space-y-4 animate-fade-in-up max-h-[90vh] overflow-y-auto thin-scrollbar themed-modal-bg">
+          <button type="button" onClick={() => handleClose()} className="absolute top-3 right-3 text-amber-600 hover:text-amber-900 themed-modal-text z-10" aria-label="Close form">
             <CloseIcon className="w-6 h-6 sm:w-7 sm:h-7" />
           </button>
           
@@ -240,15 +365,46 @@ export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEd
             ref={editorRef}
             contentEditable
             suppressContentEditableWarning
+            onClick={(e) => {
+              // The checkbox has already toggled when click handlers run.
+              if (e.target instanceof HTMLInputElement && e.target.type === 'checkbox') syncCheckboxAttribute(e.target);
+              updateLinkQuery();
+            }}
+            onInput={() => { updateLinkQuery(); setHighlightedLink(0); }}
+            onKeyDown={handleEditorKeyDown}
+            onBlur={() => setLinkQuery(null)}
             className="w-full bg-transparent border-b-2 border-amber-300 focus:border-amber-500 text-xl sm:text-2xl p-2 min-h-[250px] resize-y overflow-y-auto transition duration-300 focus:outline-none placeholder-amber-500 themed-modal-text themed-modal-text-alt [&_ul]:list-disc [&_ul]:pl-8 [&_.checklist-item]:flex [&_.checklist-item]:items-center [&_.checklist-item]:gap-2 [&_.checklist-item_input]:w-5 [&_.checklist-item_input]:h-5 [&_.checklist-item_input]:accent-amber-600 thin-scrollbar"
             data-placeholder="Jot down an idea..."
           />
+
+          {linkCandidates.length > 0 && linkQuery && (
+            <ul
+              className="absolute z-20 min-w-[14rem] max-w-sm bg-white/95 border border-amber-200 rounded-xl shadow-lg py-1 overflow-hidden themed-modal-bg"
+              style={{ top: linkQuery.top, left: linkQuery.left }}
+              role="listbox"
+              aria-label="Link to note"
+            >
+              {linkCandidates.map((candidate, index) => (
+                <li
+                  key={candidate.id}
+                  role="option"
+                  aria-selected={index === highlightedLink}
+                  // mousedown fires before the editor's blur, which would close the list first.
+                  onMouseDown={(e) => { e.preventDefault(); insertNoteLink(candidate); }}
+                  onMouseEnter={() => setHighlightedLink(index)}
+                  className={`px-4 py-1.5 cursor-pointer text-base sm:text-lg truncate text-amber-900 themed-modal-text ${index === highlightedLink ? 'bg-amber-100' : ''}`}
+                >
+                  {noteTitle(candidate)}
+                </li>
+              ))}
+            </ul>
+          )}
           
            <div className="space-y-3 pt-2">
               <div className="flex flex-wrap items-start gap-3 sm:gap-4">
                   {image_url && (
                       <div className="relative group">
-                          <img src={image_url} alt="Generated preview" className="w-20 h-20 sm:w-24 sm:h-24 object-cover rounded-lg border-2 border-amber-200" />
+                          <AttachmentImage path={image_url} alt="Generated preview" className="w-20 h-20 sm:w-24 sm:h-24 object-cover rounded-lg border-2 border-amber-200" />
                           <button type="button" onClick={() => setImageUrl(null)} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100" aria-label="Remove image">
                               <CloseIcon className="w-4 h-4" />
                           </button>
@@ -256,12 +412,17 @@ export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEd
                   )}
                   {drawing_url && (
                       <div className="relative group">
-                          <img src={drawing_url} alt="Drawing preview" className="w-20 h-20 sm:w-24 sm:h-24 object-cover rounded-lg border-2 border-amber-200 bg-white" />
+                          <AttachmentImage path={drawing_url} alt="Drawing preview" className="w-20 h-20 sm:w-24 sm:h-24 object-cover rounded-lg border-2 border-amber-200 bg-white" />
                           <button type="button" onClick={() => setDrawingUrl(null)} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100" aria-label="Remove drawing">
                               <CloseIcon className="w-4 h-4" />
                           </button>
                       </div>
                   )}
+                  {isSavingDrawing && (
+                      <div className="flex items-center justify-center w-20 h-20 sm:w-24 sm:h-24 bg-amber-100 rounded-lg border-2 border-amber-200">
+                          <LoaderIcon className="w-7 h-7 text-amber-700 animate-spin" />
+                      </div>
+                  )}
                   {audio_url && (
                       <div className="relative group flex flex-col items-center justify-center w-20 h-20 sm:w-24 sm:h-24 bg-amber-100 rounded-lg border-2 border-amber-200 p-2 text-center">
                           <MicIcon className="w-7 h-7 sm:w-8 sm:h-8 text-amber-700 mb-2"/>
@@ -293,8 +454,8 @@ export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEd
             </div>
           )}
 
-          {showAudioRecorder && <AudioRecorder onRecordingComplete={(url) => { setAudioUrl(url); setShowAudioRecorder(false); }} showToast={showToast} />}
-          {isDrawing && <DrawingCanvas initialDrawing={drawing_url} onSave={(data) => { setDrawingUrl(data); setIsDrawing(false); }} onClose={() => setIsDrawing(false)} />}
+          {showAudioRecorder && <AudioRecorder onRecordingComplete={(url) => { if (trackUpload(url)) { setAudioUrl(url); setShowAudioRecorder(false); } }} showToast={showToast} isUploading={isSavingAudio} setIsUploading={setIsSavingAudio} />}
+          {isDrawing && <DrawingCanvas initialDrawing={drawing_url} onSave={handleDrawingSave} onClose={() => setIsDrawing(false)} />}
 
           <div className="space-y-2">
               <div className="flex items-center gap-2 text-lg text-amber-700 themed-modal-text-alt"><TagIcon className="w-5 h-5" /><label htmlFor="tags-input" className="font-bold">Tags</label></div>
@@ -321,7 +482,7 @@ export const AddNoteForm: React.FC<NoteFormProps> = ({ onSave, onClose, noteToEd
                 <button type="button" onClick={() => {setShowAudioRecorder(s => !s); setShowImageGenerator(false)}} className={`p-2 sm:p-3 rounded-full transition duration-200 ${showAudioRecorder ? 'bg-amber-300 themed-modal-button-active' : 'bg-amber-100 hover:bg-amber-200 themed-modal-button'}`} title="Record Audio" aria-label="Record Audio"><MicIcon className="w-5 h-5 sm:w-6 sm:h-6 text-amber-700"/></button>
             </div>
             <div className="flex items-center gap-4 w-full sm:w-auto">
-                <button type="button" onClick={onClose} className="w-full sm:w-auto text-amber-700 text-base sm:text-lg font-bold py-2.5 px-4 sm:py-2 sm:px-5 rounded-full hover:bg-amber-100 transition duration-300 themed-modal-button">Cancel</button>
+                <button type="button" onClick={() => handleClose()} className="w-full sm:w-auto text-amber-700 text-base sm:text-lg font-bold py-2.5 px-4 sm:py-2 sm:px-5 rounded-full hover:bg-amber-100 transition duration-300 themed-modal-button">Cancel</button>
                 <button type="submit" className="w-full sm:w-auto flex items-center justify-center gap-2 bg-amber-700 text-white text-base sm:text-lg font-bold py-2.5 px-4 sm:py-2 sm:px-5 rounded-full hover:bg-amber-800 transition duration-300 transform hover:scale-105 shadow-lg">
                   <PlusIcon className="w-5 h-5 sm:w-6 sm:h-6" /> {noteToEdit ? 'Save Note' : 'Add Note'}
                 </button>
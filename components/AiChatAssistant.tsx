@@ -1,14 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
 import type { Note, ToastMessage, ToastType } from '../types';
-import type { Content } from '@google/genai';
-import { queryNotes } from '../services/geminiService';
+import { queryNotes } from '../services/aiService';
+import type { ChatTurn } from '../services/aiProvider';
+import { sanitizeHtml } from '../services/sanitizeHtml';
 import { CloseIcon, BrainCircuitIcon, MicIcon, GlobeIcon, SendIcon, BotMessageIcon } from './icons';
 
 interface AiChatAssistantProps {
     notes: Note[];
     onClose: () => void;
     onNoteCreate: (noteData: { text: string; tags: string[] }) => void;
-    onNoteUpdate: (noteData: { id: string; text?: string; tags?: string[]; color?: string }) => void;
+    // `base` is the note as the AI saw it, so the update can be checked against newer edits.
+    onNoteUpdate: (noteData: { id: string; text?: string; tags?: string[]; color?: string }, base?: Note) => void;
     showToast: (message: string, type?: ToastType) => void;
 }
 
@@ -42,7 +44,7 @@ const markdownToHtml = (text: string) => {
     html = html.replace(/<\/ul>\s*<br \/>/g, '</ul>');
     html = html.replace(/<\/li>\s*<br \/>\s*<li>/g, '</li><li>');
     
-    return html;
+    return sanitizeHtml(html);
 };
 
 export const AiChatAssistant: React.FC<AiChatAssistantProps> = ({ notes, onClose, onNoteCreate, onNoteUpdate, showToast }) => {
@@ -117,29 +119,23 @@ export const AiChatAssistant: React.FC<AiChatAssistantProps> = ({ notes, onClose
         setInput('');
         setIsLoading(true);
 
-        const chatHistory: Content[] = newMessages.slice(0, -1) // All but the new user message
+        const chatHistory: ChatTurn[] = newMessages.slice(0, -1) // All but the new user message
             .slice(-10) // Get last 10 messages for history
             .map(msg => ({
                 role: msg.role === 'ai' ? 'model' : 'user',
-                parts: [{ text: msg.content }]
+                text: msg.content
             }));
 
         try {
             const aiResponse = await queryNotes(input, notes, useWebSearch, chatHistory);
-            const sources = (aiResponse.groundingMetadata || [])
-                .map((chunk: any) => ({
-                    uri: chunk.web?.uri,
-                    title: chunk.web?.title,
-                }))
-                .filter((s: any): s is {uri: string, title: string} => s.uri && s.title);
-
-            const aiMessage: Message = { role: 'ai', content: aiResponse.content, sources };
+            const aiMessage: Message = { role: 'ai', content: aiResponse.content, sources: aiResponse.sources };
             setMessages(prev => [...prev, aiMessage]);
 
             if (aiResponse.type === 'note' && aiResponse.noteData) {
                 onNoteCreate(aiResponse.noteData as { text: string; tags: string[] });
             } else if (aiResponse.type === 'update' && aiResponse.noteData?.id) {
-                onNoteUpdate(aiResponse.noteData as { id: string; text?: string; tags?: string[]; color?: string });
+                const noteData = aiResponse.noteData as { id: string; text?: string; tags?: string[]; color?: string };
+                onNoteUpdate(noteData, notes.find(n => n.id === noteData.id));
             }
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
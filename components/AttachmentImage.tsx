@@ -0,0 +1,59 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { isStoredMediaPath } from '../services/mediaStorage';
+import { thumbnailPathFor, hasThumbnail, markThumbnailMissing } from '../services/attachments';
+
+interface AttachmentImageProps {
+    path: string;
+    alt: string;
+    className?: string;
+    // Skip the thumbnail and load the full-size image straight away (e.g. in the note viewer).
+    eager?: boolean;
+}
+
+export const AttachmentImage: React.FC<AttachmentImageProps> = ({ path, alt, className, eager = false }) => {
+    const imgRef = useRef<HTMLImageElement>(null);
+    const isStored = isStoredMediaPath(path);
+    const [isInView, setIsInView] = useState(eager || !isStored);
+    const [showThumbnail, setShowThumbnail] = useState(() => isStored && !eager && hasThumbnail(path));
+
+    useEffect(() => {
+        if (isInView || !imgRef.current) return;
+        if (typeof IntersectionObserver === 'undefined') {
+            setIsInView(true);
+            return;
+        }
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                setIsInView(true);
+                observer.disconnect();
+            }
+        }, { rootMargin: '200px' });
+        observer.observe(imgRef.current);
+        return () => observer.disconnect();
+    }, [isInView]);
+
+    const thumbnailSrc = useMediaUrl(showThumbnail ? thumbnailPathFor(path) : null);
+    const fullSrc = useMediaUrl(isInView ? path : null);
+    const src = fullSrc || thumbnailSrc;
+
+    // Media saved before thumbnails existed, or whose thumbnail failed, has none: load the full image instead.
+    const handleError = () => {
+        if (fullSrc || !thumbnailSrc) return;
+        markThumbnailMissing(path);
+        setShowThumbnail(false);
+        setIsInView(true);
+    };
+
+    return (
+        <img
+            ref={imgRef}
+            src={src || undefined}
+            alt={alt}
+            className={className}
+            loading="lazy"
+            decoding="async"
+            onError={handleError}
+        />
+    );
+};
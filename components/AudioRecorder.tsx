@@ -1,13 +1,17 @@
 import React, { useState, useRef } from 'react';
-import { MicIcon, StopIcon } from './icons';
+import { MicIcon, StopIcon, LoaderIcon } from './icons';
 import { ToastType } from '../types';
+import { uploadMedia } from '../services/mediaStorage';
 
 interface AudioRecorderProps {
-    onRecordingComplete: (audioUrl: string) => void;
+    onRecordingComplete: (audioPath: string) => void;
     showToast: (message: string, type?: ToastType) => void;
+    // Kept by the form, which can't be saved until the recording is stored.
+    isUploading: boolean;
+    setIsUploading: (isUploading: boolean) => void;
 }
 
-export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, showToast }) => {
+export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, showToast, isUploading, setIsUploading }) => {
     const [isRecording, setIsRecording] = useState(false);
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const audioChunksRef = useRef<Blob[]>([]);
@@ -20,13 +24,22 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplet
                 mediaRecorderRef.current.ondataavailable = (event) => {
                     audioChunksRef.current.push(event.data);
                 };
-                mediaRecorderRef.current.onstop = () => {
+                mediaRecorderRef.current.onstop = async () => {
                     const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' });
-                    const audioUrl = URL.createObjectURL(audioBlob);
-                    onRecordingComplete(audioUrl);
                     audioChunksRef.current = [];
                      // Stop all tracks to release the microphone
                     stream.getTracks().forEach(track => track.stop());
+
+                    setIsUploading(true);
+                    try {
+                        const audioPath = await uploadMedia(audioBlob, 'audio');
+                        onRecordingComplete(audioPath);
+                    } catch (error) {
+                        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+                        showToast(`Could not save recording. ${errorMessage}`);
+                    } finally {
+                        setIsUploading(false);
+                    }
                 };
                 mediaRecorderRef.current.start();
                 setIsRecording(true);
@@ -48,7 +61,11 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplet
 
     return (
         <div className="bg-amber-50 p-4 rounded-lg border-2 border-amber-200 flex flex-col items-center gap-3">
-            {!isRecording ? (
+            {isUploading ? (
+                <div className="flex items-center gap-2 text-lg sm:text-xl text-amber-800 py-2 px-4">
+                    <LoaderIcon className="w-6 h-6 animate-spin"/> Saving recording...
+                </div>
+            ) : !isRecording ? (
                 <button type="button" onClick={startRecording} className="flex items-center gap-2 text-lg sm:text-xl bg-amber-200 text-amber-800 py-2 px-4 rounded-lg hover:bg-amber-300 transition">
                     <MicIcon className="w-6 h-6"/> Start Recording
                 </button>
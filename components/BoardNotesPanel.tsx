@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import type { Board, Note } from '../types';
+import { noteTitle } from '../services/noteLinks';
+import { CloseIcon, PlusIcon, SearchIcon } from './icons';
+
+interface BoardNotesPanelProps {
+    board: Board;
+    notes: Note[];
+    // Ids of the notes placed on the board.
+    placedIds: Set<string>;
+    onAdd: (note: Note) => void;
+    onRemove: (note: Note) => void;
+}
+
+// Picks which notes are on a board. Shown over the canvas while a board is open.
+export const BoardNotesPanel: React.FC<BoardNotesPanelProps> = ({ board, notes, placedIds, onAdd, onRemove }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [filter, setFilter] = useState('');
+
+    const needle = filter.trim().toLowerCase();
+    const listed = notes
+        .map(note => ({ note, title: noteTitle(note) }))
+        .filter(({ title }) => !needle || title.toLowerCase().includes(needle));
+
+    return (
+        <div className="absolute top-2 left-2 sm:top-4 sm:left-4 z-10 text-amber-800 dark:text-amber-200">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-md rounded-full shadow flex items-center gap-1.5 py-1 px-3 text-sm"
+                aria-expanded={isOpen}
+            >
+                <PlusIcon className="w-4 h-4" /> Notes on {board.name} ({placedIds.size})
+            </button>
+            {isOpen && (
+                <div className="mt-2 w-72 bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-xl shadow-2xl border border-amber-200 p-3 animate-fade-in-up">
+                    <div className="flex items-center gap-2 mb-2">
+                        <SearchIcon className="w-4 h-4 flex-shrink-0" />
+                        <input
+                            autoFocus
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value)}
+                            placeholder="Find a note"
+                            className="flex-grow min-w-0 bg-transparent text-base focus:outline-none"
+                        />
+                        <button onClick={() => setIsOpen(false)} className="text-amber-600 hover:text-amber-800" aria-label="Close">
+                            <CloseIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <ul className="max-h-80 overflow-y-auto space-y-0.5">
+                        {listed.map(({ note, title }) => {
+                            const isPlaced = placedIds.has(note.id);
+                            return (
+                                <li key={note.id}>
+                                    <label className="flex items-center gap-2 px-1 py-0.5 rounded cursor-pointer hover:bg-amber-50 dark:hover:bg-gray-700">
+                                        <input type="checkbox" checked={isPlaced} onChange={() => (isPlaced ? onRemove(note) : onAdd(note))} className="accent-amber-600" />
+                                        <span className={`w-3 h-3 rounded-full flex-shrink-0 border border-amber-300 ${note.color}`} aria-hidden="true" />
+                                        <span className="truncate text-base">{title}</span>
+                                    </label>
+                                </li>
+                            );
+                        })}
+                        {listed.length === 0 && <li className="text-base text-amber-600 px-1">No matching notes.</li>}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import type { Board } from '../types';
+import { LayersIcon, CloseIcon, PencilIcon, PlusIcon, TrashIcon } from './icons';
+
+interface BoardSwitcherProps {
+    boards: Board[];
+    // null is the "All notes" canvas.
+    activeBoardId: string | null;
+    // Note id counts per board, shown next to each name.
+    counts: Map<string, number>;
+    onSelect: (id: string | null) => void;
+    onCreate: (name: string) => Promise<void>;
+    onRename: (id: string, name: string) => Promise<void>;
+    onDelete: (board: Board) => void;
+}
+
+const NameForm: React.FC<{ initial?: string; placeholder: string; onSubmit: (name: string) => Promise<void>; onCancel: () => void }> = ({ initial = '', placeholder, onSubmit, onCancel }) => {
+    const [name, setName] = useState(initial);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        setIsSaving(true);
+        try {
+            await onSubmit(name.trim());
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex items-center gap-1">
+            <input
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') onCancel(); }}
+                placeholder={placeholder}
+                maxLength={60}
+                className="flex-grow min-w-0 text-base px-2.5 py-0.5 rounded-full border border-amber-300 bg-white/80 focus:outline-none focus:border-amber-500"
+            />
+            <button type="submit" disabled={isSaving || !name.trim()} className="text-base font-bold text-amber-700 hover:text-amber-900 disabled:opacity-50">Save</button>
+            <button type="button" onClick={onCancel} className="text-amber-600 hover:text-amber-800" aria-label="Cancel">
+                <CloseIcon className="w-4 h-4" />
+            </button>
+        </form>
+    );
+};
+
+export const BoardSwitcher: React.FC<BoardSwitcherProps> = ({ boards, activeBoardId, counts, onSelect, onCreate, onRename, onDelete }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+
+    const activeBoard = boards.find(board => board.id === activeBoardId);
+
+    const close = () => {
+        setIsOpen(false);
+        setIsCreating(false);
+        setRenamingId(null);
+    };
+
+    const handleSelect = (id: string | null) => {
+        onSelect(id);
+        close();
+    };
+
+    const handleCreate = async (name: string) => {
+        await onCreate(name);
+        close();
+    };
+
+    const handleRename = async (id: string, name: string) => {
+        await onRename(id, name);
+        setRenamingId(null);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(true)}
+                className="flex items-center text-sm p-1 sm:p-1.5 sm:px-2.5 rounded-full transition-colors duration-300 themed-button max-w-[10rem]"
+                title="Switch board"
+            >
+                <LayersIcon className="w-4 h-4 sm:w-5 sm:h-5 flex-shrink-0" />
+                <span className="hidden sm:inline ml-1.5 truncate">{activeBoard ? activeBoard.name : 'All notes'}</span>
+            </button>
+
+            {isOpen && (
+                <div
+                    className="fixed inset-0 bg-black/30 backdrop-blur-sm z-40"
+                    onClick={close}
+                    aria-hidden="true"
+                ></div>
+            )}
+
+            {isOpen && (
+                <div
+                    className="absolute right-0 top-full mt-2 w-64 sm:w-72 bg-white/80 backdrop-blur-md rounded-xl shadow-2xl border border-amber-200 p-4 z-50 animate-fade-in-up"
+                    role="dialog"
+                    aria-modal="true"
+                    aria-labelledby="board-switcher-title"
+                >
+                    <div className="flex justify-between items-center mb-3">
+                        <h3 id="board-switcher-title" className="text-xl sm:text-2xl text-amber-800 font-bold">Boards</h3>
+                        <button onClick={close} className="text-amber-600 hover:text-amber-800" aria-label="Close">
+                            <CloseIcon className="w-6 h-6" />
+                        </button>
+                    </div>
+                    <ul className="space-y-1 max-h-72 overflow-y-auto">
+                        <li>
+                            <button
+                                onClick={() => handleSelect(null)}
+                                className={`w-full text-left text-lg px-2 py-1 rounded-lg transition-colors ${activeBoardId === null ? 'bg-amber-100 text-amber-900' : 'text-amber-800 hover:bg-amber-50'}`}
+                            >
+                                All notes
+                            </button>
+                        </li>
+                        {boards.map(board => (
+                            <li key={board.id} className="group">
+                                {renamingId === board.id ? (
+                                    <NameForm initial={board.name} placeholder="Board name" onSubmit={(name) => handleRename(board.id, name)} onCancel={() => setRenamingId(null)} />
+                                ) : (
+                                    <div className={`flex items-center gap-1 rounded-lg transition-colors ${board.id === activeBoardId ? 'bg-amber-100' : 'hover:bg-amber-50'}`}>
+                                        <button onClick={() => handleSelect(board.id)} className="flex-grow min-w-0 text-left text-lg px-2 py-1 text-amber-800 truncate">
+                                            {board.name} <span className="opacity-60">({counts.get(board.id) ?? 0})</span>
+                                        </button>
+                                        <button onClick={() => setRenamingId(board.id)} className="p-1 text-amber-600 hover:text-amber-800 sm:opacity-0 sm:group-hover:opacity-100" aria-label={`Rename ${board.name}`}>
+                                            <PencilIcon className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => onDelete(board)} className="p-1 mr-1 text-red-500 hover:text-red-700 sm:opacity-0 sm:group-hover:opacity-100" aria-label={`Delete ${board.name}`}>
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="mt-3 pt-3 border-t border-amber-200">
+                        {isCreating ? (
+                            <NameForm placeholder="New board name" onSubmit={handleCreate} onCancel={() => setIsCreating(false)} />
+                        ) : (
+                            <button onClick={() => setIsCreating(true)} className="flex items-center gap-1 text-lg text-amber-700 hover:underline">
+                                <PlusIcon className="w-4 h-4" /> New board
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,19 +1,82 @@
 
-import React from 'react';
-import { ZoomInIcon, ZoomOutIcon, MousePointerIcon, Grid2x2Icon } from './icons';
+import React, { useState } from 'react';
+import { ZoomInIcon, ZoomOutIcon, MousePointerIcon, Grid2x2Icon, FrameIcon, SelectIcon, LoaderIcon, RotateCcwIcon } from './icons';
 
 interface CanvasControlsProps {
     onZoom: (direction: 'in' | 'out') => void;
     onResetView: () => void;
     onTidy: () => void;
+    // Frame controls, for canvases that have frames.
+    frames?: { id: string; title: string }[];
+    onAddFrame?: () => void;
+    onZoomToFrame?: (id: string) => void;
+    // Select mode: dragging the background draws a selection box instead of panning.
+    isSelecting?: boolean;
+    onToggleSelecting?: () => void;
+    // With layouts, the tidy button opens a menu of them instead of tidying straight away.
+    layouts?: { id: string; label: string }[];
+    onLayout?: (id: string) => void;
+    isArranging?: boolean;
+    // Puts the notes back where they were before the last layout.
+    onUndoLayout?: () => void;
 }
 
-export const CanvasControls: React.FC<CanvasControlsProps> = ({ onZoom, onResetView, onTidy }) => {
+export const CanvasControls: React.FC<CanvasControlsProps> = ({ onZoom, onResetView, onTidy, frames = [], onAddFrame, onZoomToFrame, isSelecting = false, onToggleSelecting, layouts, onLayout, isArranging = false, onUndoLayout }) => {
+    const [isLayoutMenuOpen, setIsLayoutMenuOpen] = useState(false);
+
+    const handleLayout = (id: string) => {
+        setIsLayoutMenuOpen(false);
+        onLayout?.(id);
+    };
+
     return (
         <div className="absolute bottom-4 right-4 z-10 bg-white/60 dark:bg-gray-800/60 backdrop-blur-md rounded-full shadow-lg flex items-center p-1">
-            <button onClick={onTidy} className="p-2 rounded-full hover:bg-black/10 dark:hover:bg-white/10 text-amber-800 dark:text-amber-200 transition" title="Tidy Canvas">
-                <Grid2x2Icon className="w-6 h-6"/>
+            {isLayoutMenuOpen && layouts && (
+                <div className="absolute bottom-full right-0 mb-2 w-56 bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-xl shadow-lg p-1 animate-fade-in-up" role="menu">
+                    {layouts.map(layout => (
+                        <button key={layout.id} onClick={() => handleLayout(layout.id)} className="w-full text-left px-3 py-1.5 rounded-lg text-base text-amber-800 dark:text-amber-200 hover:bg-black/10 dark:hover:bg-white/10 transition" role="menuitem">
+                            {layout.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {onAddFrame && (
+                <button onClick={onAddFrame} className="p-2 rounded-full hover:bg-black/10 dark:hover:bg-white/10 text-amber-800 dark:text-amber-200 transition" title="Add Frame">
+                    <FrameIcon className="w-6 h-6"/>
+                </button>
+            )}
+            {onZoomToFrame && frames.length > 0 && (
+                // Resets to the placeholder after each jump, so the same frame can be picked again.
+                <select
+                    value=""
+                    onChange={(e) => e.target.value && onZoomToFrame(e.target.value)}
+                    className="max-w-[8rem] bg-transparent text-sm text-amber-800 dark:text-amber-200 focus:outline-none px-1"
+                    aria-label="Zoom to frame"
+                >
+                    <option value="">Go to frame…</option>
+                    {frames.map(frame => <option key={frame.id} value={frame.id}>{frame.title || 'Untitled frame'}</option>)}
+                </select>
+            )}
+            {(onAddFrame || (onZoomToFrame && frames.length > 0)) && <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>}
+            {onToggleSelecting && (
+                <button onClick={onToggleSelecting} className={`p-2 rounded-full hover:bg-black/10 dark:hover:bg-white/10 text-amber-800 dark:text-amber-200 transition ${isSelecting ? 'bg-black/10 dark:bg-white/10' : ''}`} title="Select Notes (or Shift-drag)" aria-pressed={isSelecting}>
+                    <SelectIcon className="w-6 h-6"/>
+                </button>
+            )}
+            <button
+                onClick={layouts ? () => setIsLayoutMenuOpen(open => !open) : onTidy}
+                disabled={isArranging}
+                className="p-2 rounded-full hover:bg-black/10 dark:hover:bg-white/10 text-amber-800 dark:text-amber-200 transition"
+                title={layouts ? 'Arrange Notes' : 'Tidy Canvas'}
+                aria-expanded={layouts ? isLayoutMenuOpen : undefined}
+            >
+                {isArranging ? <LoaderIcon className="w-6 h-6 animate-spin"/> : <Grid2x2Icon className="w-6 h-6"/>}
             </button>
+            {onUndoLayout && (
+                <button onClick={onUndoLayout} className="p-2 rounded-full hover:bg-black/10 dark:hover:bg-white/10 text-amber-800 dark:text-amber-200 transition" title="Undo Layout">
+                    <RotateCcwIcon className="w-6 h-6"/>
+                </button>
+            )}
             <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
             <button onClick={() => onZoom('out')} className="p-2 rounded-full hover:bg-black/10 dark:hover:bg-white/10 text-amber-800 dark:text-amber-200 transition" title="Zoom Out">
                 <ZoomOutIcon className="w-6 h-6"/>
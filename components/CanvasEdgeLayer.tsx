@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import type { CanvasEdge, CanvasEdgeStyle, Note } from '../types';
+import { connectorPoints, noteRect, rectBoundaryPoint } from '../services/canvasGeometry';
+import type { Point } from '../services/canvasGeometry';
+import { TrashIcon } from './icons';
+
+interface CanvasEdgeLayerProps {
+    edges: CanvasEdge[];
+    notes: Note[];
+    noteSize: { width: number; height: number };
+    // Positions of notes being dragged, which haven't reached `notes` yet.
+    livePositions: Map<string, Point>;
+    // The arrow being drawn from a note's handle to the pointer.
+    pendingConnection: { sourceId: string; point: Point } | null;
+    selectedEdgeId: string | null;
+    scale: number;
+    onSelectEdge: (id: string | null) => void;
+    onUpdateEdge: (id: string, update: Partial<Pick<CanvasEdge, 'label' | 'style'>>) => void;
+    onDeleteEdge: (id: string) => void;
+}
+
+const DASHES: Record<CanvasEdgeStyle, string | undefined> = {
+    solid: undefined,
+    dashed: '10 6',
+    dotted: '2 6',
+};
+
+const ARROW_COLOUR = '#b45309'; // amber-700
+const SELECTED_COLOUR = '#7c3aed'; // violet-600
+
+const EdgeEditor: React.FC<{ edge: CanvasEdge; onUpdate: CanvasEdgeLayerProps['onUpdateEdge']; onDelete: (id: string) => void }> = ({ edge, onUpdate, onDelete }) => {
+    const [label, setLabel] = useState(edge.label);
+    useEffect(() => setLabel(edge.label), [edge.label]);
+
+    const commitLabel = () => {
+        if (label.trim() !== edge.label) onUpdate(edge.id, { label: label.trim() });
+    };
+
+    return (
+        <div className="flex items-center gap-1 bg-white/95 dark:bg-gray-800/95 border border-amber-300 rounded-full shadow-lg p-1 text-sm text-amber-900 dark:text-amber-100" onMouseDown={(e) => e.stopPropagation()} onTouchStart={(e) => e.stopPropagation()}>
+            <input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                onBlur={commitLabel}
+                onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                placeholder="Label"
+                className="w-28 bg-transparent px-2 focus:outline-none"
+                aria-label="Connection label"
+            />
+            <select
+                value={edge.style}
+                onChange={(e) => onUpdate(edge.id, { style: e.target.value as CanvasEdgeStyle })}
+                className="bg-transparent focus:outline-none"
+                aria-label="Line style"
+            >
+                <option value="solid">Solid</option>
+                <option value="dashed">Dashed</option>
+                <option value="dotted">Dotted</option>
+            </select>
+            <button type="button" onClick={() => onDelete(edge.id)} className="p-1 rounded-full text-red-600 hover:bg-red-100" title="Delete connection">
+                <TrashIcon className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
+
+export const CanvasEdgeLayer: React.FC<CanvasEdgeLayerProps> = ({
+    edges,
+    notes,
+    noteSize,
+    livePositions,
+    pendingConnection,
+    selectedEdgeId,
+    scale,
+    onSelectEdge,
+    onUpdateEdge,
+    onDeleteEdge,
+}) => {
+    const notesById = new Map<string, Note>(notes.map(note => [note.id, note]));
+    const rectFor = (id: string) => {
+        const note = notesById.get(id);
+        return note ? noteRect(note, noteSize, livePositions.get(id)) : null;
+    };
+
+    // Arrows whose notes are both on the canvas; the rest belong to filtered-out or trashed notes.
+    const drawn = edges.flatMap(edge => {
+        const source = rectFor(edge.source_note_id);
+        const target = rectFor(edge.target_note_id);
+        if (!source || !target) return [];
+        const { start, end } = connectorPoints(source, target);
+        return [{ edge, start, end, mid: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 } }];
+    });
+
+    const pendingSource = pendingConnection ? rectFor(pendingConnection.sourceId) : null;
+    const pendingStart = pendingSource && pendingConnection ? rectBoundaryPoint(pendingSource, pendingConnection.point) : null;
+
+    const selectEdge = (e: React.MouseEvent | React.TouchEvent, id: string) => {
+        e.stopPropagation();
+        onSelectEdge(id);
+    };
+
+    return (
+        <>
+            <svg className="absolute top-0 left-0 overflow-visible pointer-events-none" width="1" height="1">
+                <defs>
+                    {[['canvas-arrow', ARROW_COLOUR], ['canvas-arrow-selected', SELECTED_COLOUR]].map(([id, colour]) => (
+                        <marker key={id} id={id} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" fill={colour} />
+                        </marker>
+                    ))}
+                </defs>
+                {drawn.map(({ edge, start, end }) => {
+                    const isSelected = edge.id === selectedEdgeId;
+                    return (
+                        <g key={edge.id}>
+                            <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke={isSelected ? SELECTED_COLOUR : ARROW_COLOUR} strokeWidth={isSelected ? 3 : 2} strokeDasharray={DASHES[edge.style]} strokeLinecap="round" markerEnd={`url(#${isSelected ? 'canvas-arrow-selected' : 'canvas-arrow'})`} />
+                            {/* A wide invisible line makes the arrow easy to hit. */}
+                            <line
+                                x1={start.x}
+                                y1={start.y}
+                                x2={end.x}
+                                y2={end.y}
+                                stroke="transparent"
+                                strokeWidth={14}
+                                pointerEvents="stroke"
+                                className="cursor-pointer"
+                                onMouseDown={(e) => selectEdge(e, edge.id)}
+                                onTouchStart={(e) => selectEdge(e, edge.id)}
+                            />
+                        </g>
+                    );
+                })}
+                {pendingStart && pendingConnection && (
+                    <line x1={pendingStart.x} y1={pendingStart.y} x2={pendingConnection.point.x} y2={pendingConnection.point.y} stroke={ARROW_COLOUR} strokeWidth={2} strokeDasharray="6 4" markerEnd="url(#canvas-arrow)" />
+                )}
+            </svg>
+
+            {drawn.map(({ edge, mid }) => {
+                const isSelected = edge.id === selectedEdgeId;
+                if (!edge.label && !isSelected) return null;
+                return (
+                    <div
+                        key={edge.id}
+                        className="absolute z-40 flex flex-col items-center gap-1"
+                        // Labels and the editor keep their size whatever the zoom.
+                        style={{ left: mid.x, top: mid.y, transform: `translate(-50%, -50%) scale(${1 / scale})` }}
+                    >
+                        {edge.label && (
+                            <button
+                                type="button"
+                                onMouseDown={(e) => selectEdge(e, edge.id)}
+                                onTouchStart={(e) => selectEdge(e, edge.id)}
+                                className={`px-2 py-0.5 rounded-full text-sm shadow border ${isSelected ? 'bg-violet-100 border-violet-400 text-violet-800' : 'bg-white/90 border-amber-300 text-amber-800'}`}
+                            >
+                                {edge.label}
+                            </button>
+                        )}
+                        {isSelected && <EdgeEditor edge={edge} onUpdate={onUpdateEdge} onDelete={onDeleteEdge} />}
+                    </div>
+                );
+            })}
+        </>
+    );
+};
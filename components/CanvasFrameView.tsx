@@ -0,0 +1,162 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { CanvasFrame, CanvasFrameColor } from '../types';
+import { FRAME_COLORS, FRAME_HEADER_HEIGHT, FRAME_MIN_SIZE } from '../services/canvasFrames';
+import type { Rect } from '../services/canvasGeometry';
+import { ChevronRightIcon, TrashIcon } from './icons';
+
+interface CanvasFrameViewProps {
+    frame: CanvasFrame;
+    noteCount: number;
+    scale: number;
+    // Live offset from where the drag started, in canvas units, so the canvas can move the frame's notes along.
+    onMove: (frame: CanvasFrame, dx: number, dy: number) => void;
+    onMoveEnd: (frame: CanvasFrame, dx: number, dy: number) => void;
+    onUpdate: (id: string, update: Partial<Pick<CanvasFrame, 'title' | 'color' | 'width' | 'height' | 'collapsed'>>) => void;
+    onDelete: (frame: CanvasFrame) => void;
+}
+
+type PointerState =
+    | { type: 'move'; startX: number; startY: number; moved: boolean }
+    | { type: 'resize'; startX: number; startY: number };
+
+// Pointer travel that turns a press on the title bar into a drag.
+const DRAG_THRESHOLD = 4;
+
+export const CanvasFrameView: React.FC<CanvasFrameViewProps> = ({ frame, noteCount, scale, onMove, onMoveEnd, onUpdate, onDelete }) => {
+    // Where the frame is drawn mid-drag or mid-resize, before the change is saved.
+    const [draft, setDraft] = useState<Rect | null>(null);
+    const [isEditingTitle, setIsEditingTitle] = useState(false);
+    const [title, setTitle] = useState(frame.title);
+    const pointerRef = useRef<PointerState | null>(null);
+
+    useEffect(() => setTitle(frame.title), [frame.title]);
+    // The saved frame has caught up with the draft.
+    useEffect(() => setDraft(null), [frame.x, frame.y, frame.width, frame.height]);
+
+    const rect = draft || frame;
+    const colors = FRAME_COLORS[frame.color] || FRAME_COLORS.amber;
+
+    const handlePointerDown = (e: React.PointerEvent, type: PointerState['type']) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        pointerRef.current = type === 'move'
+            ? { type, startX: e.clientX, startY: e.clientY, moved: false }
+            : { type, startX: e.clientX, startY: e.clientY };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const pointer = pointerRef.current;
+        if (!pointer) return;
+        const dx = (e.clientX - pointer.startX) / scale;
+        const dy = (e.clientY - pointer.startY) / scale;
+        if (pointer.type === 'resize') {
+            setDraft({
+                x: frame.x,
+                y: frame.y,
+                width: Math.max(frame.width + dx, FRAME_MIN_SIZE.width),
+                height: Math.max(frame.height + dy, FRAME_MIN_SIZE.height),
+            });
+            return;
+        }
+        if (!pointer.moved && Math.hypot(e.clientX - pointer.startX, e.clientY - pointer.startY) < DRAG_THRESHOLD) return;
+        pointer.moved = true;
+        setDraft({ x: frame.x + dx, y: frame.y + dy, width: frame.width, height: frame.height });
+        onMove(frame, dx, dy);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        const pointer = pointerRef.current;
+        pointerRef.current = null;
+        if (!pointer || !draft) return;
+        if (pointer.type === 'resize') {
+            onUpdate(frame.id, { width: draft.width, height: draft.height });
+        } else if (pointer.moved) {
+            onMoveEnd(frame, (e.clientX - pointer.startX) / scale, (e.clientY - pointer.startY) / scale);
+        }
+    };
+
+    const commitTitle = () => {
+        setIsEditingTitle(false);
+        if (title.trim() !== frame.title) onUpdate(frame.id, { title: title.trim() });
+    };
+
+    // Buttons in the title bar shouldn't start a drag.
+    const stop = (e: React.PointerEvent | React.MouseEvent) => e.stopPropagation();
+
+    return (
+        <div
+            className={`absolute rounded-xl border-2 pointer-events-none ${frame.collapsed ? 'border-transparent' : colors.body}`}
+            style={{ transform: `translate(${rect.x}px, ${rect.y}px)`, width: rect.width, height: frame.collapsed ? FRAME_HEADER_HEIGHT : rect.height }}
+        >
+            <div
+                className={`group pointer-events-auto flex items-center gap-2 px-3 rounded-lg shadow cursor-grab active:cursor-grabbing select-none touch-none ${colors.header}`}
+                style={{ height: FRAME_HEADER_HEIGHT }}
+                onPointerDown={(e) => handlePointerDown(e, 'move')}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onMouseDown={stop}
+                onTouchStart={stop}
+                onDoubleClick={() => setIsEditingTitle(true)}
+            >
+                <button
+                    onPointerDown={stop}
+                    onClick={() => onUpdate(frame.id, { collapsed: !frame.collapsed })}
+                    className="flex-shrink-0"
+                    aria-label={frame.collapsed ? 'Expand frame' : 'Collapse frame'}
+                    aria-expanded={!frame.collapsed}
+                >
+                    <ChevronRightIcon className={`w-4 h-4 transition-transform ${frame.collapsed ? '' : 'rotate-90'}`} />
+                </button>
+                {isEditingTitle ? (
+                    <input
+                        autoFocus
+                        value={title}
+                        onPointerDown={stop}
+                        onChange={(e) => setTitle(e.target.value)}
+                        onBlur={commitTitle}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitTitle();
+                            if (e.key === 'Escape') { setTitle(frame.title); setIsEditingTitle(false); }
+                        }}
+                        maxLength={80}
+                        className="flex-grow min-w-0 bg-white/70 rounded px-1.5 text-lg focus:outline-none"
+                        aria-label="Frame title"
+                    />
+                ) : (
+                    <span className="flex-grow min-w-0 truncate text-lg font-bold" title="Double-click to rename">
+                        {frame.title || 'Untitled frame'} <span className="font-normal opacity-60">({noteCount})</span>
+                    </span>
+                )}
+                <div className="flex items-center gap-1 flex-shrink-0 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                    {(Object.keys(FRAME_COLORS) as CanvasFrameColor[]).map(color => (
+                        <button
+                            key={color}
+                            onPointerDown={stop}
+                            onClick={() => onUpdate(frame.id, { color })}
+                            className={`w-4 h-4 rounded-full border ${FRAME_COLORS[color].swatch} ${color === frame.color ? 'border-gray-800' : 'border-white'}`}
+                            aria-label={`Make frame ${color}`}
+                        />
+                    ))}
+                    <button onPointerDown={stop} onClick={() => onDelete(frame)} className="ml-1 p-0.5 rounded-full text-red-600 hover:bg-red-100" title="Delete frame">
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+            {!frame.collapsed && (
+                <div
+                    className="pointer-events-auto absolute -bottom-1.5 -right-1.5 w-4 h-4 rounded-sm bg-white border-2 border-gray-500 cursor-nwse-resize touch-none"
+                    onPointerDown={(e) => handlePointerDown(e, 'resize')}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onMouseDown={stop}
+                    onTouchStart={stop}
+                    title="Drag to resize"
+                    aria-label="Resize frame"
+                />
+            )}
+        </div>
+    );
+};
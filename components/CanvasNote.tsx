@@ -1,15 +1,29 @@
 import React, { useRef } from 'react';
-import type { Note } from '../types';
+import type { Note, NoteSyncStatus } from '../types';
 import { PinIcon } from './icons';
+import { AttachmentImage } from './AttachmentImage';
+import { SyncStatusBadge } from './SyncStatusBadge';
+import { splitHighlights } from '../services/highlight';
 
 interface CanvasNoteProps {
     note: Note;
     onPositionChange: (id: string, x: number, y: number) => void;
     onView: (note: Note) => void;
     scale: number;
+    syncStatus?: NoteSyncStatus;
+    highlightTerms?: string[];
+    // Reports the position on every move of a drag, so connectors can follow the note.
+    onDragMove?: (id: string, x: number, y: number) => void;
+    // Pressing the connector handle starts drawing an arrow from this note.
+    onStartConnect?: (note: Note, clientX: number, clientY: number) => void;
+    // Set while a frame is dragging the note along; it follows the pointer without easing.
+    isFollowing?: boolean;
+    isSelected?: boolean;
+    // Shift-click adds the note to the canvas selection or takes it out, instead of opening it.
+    onToggleSelect?: (note: Note) => void;
 }
 
-export const CanvasNote: React.FC<CanvasNoteProps> = ({ note, onPositionChange, onView, scale }) => {
+export const CanvasNote: React.FC<CanvasNoteProps> = ({ note, onPositionChange, onView, scale, syncStatus, highlightTerms = [], onDragMove, onStartConnect, isFollowing, isSelected, onToggleSelect }) => {
     const noteRef = useRef<HTMLDivElement>(null);
     // Use a more detailed state for dragging to make it robust
     const dragData = useRef({ isDragging: false, startX: 0, startY: 0, startNoteX: 0, startNoteY: 0, hasMoved: false });
@@ -48,9 +62,10 @@ export const CanvasNote: React.FC<CanvasNoteProps> = ({ note, onPositionChange,
         const newX = dragData.current.startNoteX + dx;
         const newY = dragData.current.startNoteY + dy;
         noteRef.current.style.transform = `translate(${newX}px, ${newY}px)`;
+        if (dragData.current.hasMoved) onDragMove?.(note.id, newX, newY);
     };
 
-    const handleDragEnd = (clientX: number, clientY: number) => {
+    const handleDragEnd = (clientX: number, clientY: number, shiftKey = false) => {
         if (!dragData.current.isDragging) return;
 
         const wasMoved = dragData.current.hasMoved;
@@ -80,7 +95,8 @@ export const CanvasNote: React.FC<CanvasNoteProps> = ({ note, onPositionChange,
             onPositionChange(note.id, finalX, finalY);
         } else {
             // If it wasn't moved, treat it as a click/tap.
-            onView(note);
+            if (shiftKey && onToggleSelect) onToggleSelect(note);
+            else onView(note);
         }
     };
 
@@ -92,7 +108,7 @@ export const CanvasNote: React.FC<CanvasNoteProps> = ({ note, onPositionChange,
         const onMouseUp = (ev: MouseEvent) => {
             window.removeEventListener('mousemove', onMouseMove);
             window.removeEventListener('mouseup', onMouseUp);
-            handleDragEnd(ev.clientX, ev.clientY);
+            handleDragEnd(ev.clientX, ev.clientY, ev.shiftKey);
         };
         
         window.addEventListener('mousemove', onMouseMove);
@@ -121,15 +137,29 @@ export const CanvasNote: React.FC<CanvasNoteProps> = ({ note, onPositionChange,
     };
 
 
+    const handleConnectMouseDown = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        e.preventDefault();
+        onStartConnect?.(note, e.clientX, e.clientY);
+    };
+
+    const handleConnectTouchStart = (e: React.TouchEvent) => {
+        e.stopPropagation();
+        if (e.touches.length !== 1) return;
+        onStartConnect?.(note, e.touches[0].clientX, e.touches[0].clientY);
+    };
+
     return (
         <div
             ref={noteRef}
+            data-canvas-note-id={note.id}
             onMouseDown={handleMouseDown}
             onTouchStart={handleTouchStart}
             style={{ 
                 transform: `translate(${note.canvas_x || 0}px, ${note.canvas_y || 0}px)`,
+                ...(isFollowing ? { transition: 'none' } : {}),
             }}
-            className={`absolute w-60 h-40 sm:w-72 sm:h-48 p-3 rounded-lg shadow-lg border border-amber-300/50 flex flex-col gap-2 cursor-grab transition-transform duration-500 ease-in-out ${note.color}`}
+            className={`group absolute w-60 h-40 sm:w-72 sm:h-48 p-3 rounded-lg shadow-lg border border-amber-300/50 flex flex-col gap-2 cursor-grab transition-transform duration-500 ease-in-out ${note.color} ${isSelected ? 'ring-4 ring-violet-500' : ''}`}
             aria-label={`Note with text: ${plainText.substring(0, 30)}...`}
         >
              {note.is_pinned && (
@@ -137,18 +167,34 @@ export const CanvasNote: React.FC<CanvasNoteProps> = ({ note, onPositionChange,
                      <PinIcon className="w-5 h-5 text-amber-600/50" isFilled={true} />
                 </div>
             )}
+            <SyncStatusBadge status={syncStatus} className="absolute bottom-2 right-2 z-10 pointer-events-none" />
+            {onStartConnect && (
+                // Always shown on touch screens, which have no hover.
+                <div
+                    onMouseDown={handleConnectMouseDown}
+                    onTouchStart={handleConnectTouchStart}
+                    className="absolute -right-2.5 top-1/2 -translate-y-1/2 z-20 w-5 h-5 rounded-full bg-amber-600 border-2 border-white shadow cursor-crosshair sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
+                    title="Drag to another note to connect them"
+                    aria-label="Connect to another note"
+                />
+            )}
             <div className="flex-grow overflow-hidden space-y-2 pointer-events-none">
                 {note.image_url && (
                     <div className="w-full h-12 sm:h-16 rounded-md overflow-hidden shadow-inner border border-amber-200">
-                        <img src={note.image_url} alt="Note illustration" className="w-full h-full object-cover" />
+                        <AttachmentImage path={note.image_url} alt="Note illustration" className="w-full h-full object-cover" />
                     </div>
                 )}
                 {note.drawing_url && (
                     <div className="w-full h-12 sm:h-16 rounded-md overflow-hidden shadow-inner border border-amber-200 bg-white">
-                        <img src={note.drawing_url} alt="User drawing" className="w-full h-full object-contain" />
+                        <AttachmentImage path={note.drawing_url} alt="User drawing" className="w-full h-full object-contain" />
                     </div>
                 )}
-                <p className="text-amber-900 text-base sm:text-lg leading-tight">{plainText}{plainText.length === 100 ? '...' : ''}</p>
+                <p className="text-amber-900 text-base sm:text-lg leading-tight">
+                    {splitHighlights(plainText, highlightTerms).map((segment, i) => (
+                        segment.isMatch ? <mark key={i} className="bg-yellow-200 text-inherit rounded-sm">{segment.text}</mark> : segment.text
+                    ))}
+                    {plainText.length === 100 ? '...' : ''}
+                </p>
             </div>
 
             {note.tags && note.tags.length > 0 && (
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import type { Note } from '../types';
+import { CloseIcon, LayersIcon, PinIcon, TagIcon, TrashIcon } from './icons';
+
+interface CanvasSelectionToolbarProps {
+    notes: Note[];
+    allTags: string[];
+    onAddTag: (tag: string) => void;
+    onRemoveTag: (tag: string) => void;
+    onRecolor: (color: string) => void;
+    onStack: () => void;
+    onTogglePin: () => void;
+    onDelete: () => void;
+    onClear: () => void;
+}
+
+const NOTE_COLORS = ['bg-amber-100', 'bg-sky-100', 'bg-lime-100', 'bg-rose-100', 'bg-violet-100', 'bg-white'];
+
+const buttonClass = 'p-1.5 rounded-full hover:bg-black/10 dark:hover:bg-white/10 transition disabled:opacity-40';
+
+export const CanvasSelectionToolbar: React.FC<CanvasSelectionToolbarProps> = ({ notes, allTags, onAddTag, onRemoveTag, onRecolor, onStack, onTogglePin, onDelete, onClear }) => {
+    const [isTagging, setIsTagging] = useState(false);
+    const [tagInput, setTagInput] = useState('');
+
+    const sharedTags = [...new Set(notes.flatMap(note => note.tags || []))].sort();
+    const allPinned = notes.every(note => note.is_pinned);
+
+    const handleTagSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const tag = tagInput.trim().replace(/,/g, '');
+        if (!tag) return;
+        onAddTag(tag);
+        setTagInput('');
+    };
+
+    return (
+        <div
+            className="absolute top-2 sm:top-4 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-2 text-amber-800 dark:text-amber-200"
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+        >
+            <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-md rounded-full shadow-lg flex items-center gap-1 py-1 px-2 text-sm" role="toolbar" aria-label="Selected notes">
+                <span className="px-1 font-bold whitespace-nowrap">{notes.length} selected</span>
+                <div className="w-px h-5 bg-gray-300 dark:bg-gray-600 mx-1"></div>
+                <button onClick={() => setIsTagging(open => !open)} className={`${buttonClass} ${isTagging ? 'bg-black/10 dark:bg-white/10' : ''}`} title="Tags" aria-expanded={isTagging}>
+                    <TagIcon className="w-5 h-5" />
+                </button>
+                {NOTE_COLORS.map(color => (
+                    <button key={color} onClick={() => onRecolor(color)} className={`w-5 h-5 rounded-full border border-amber-300 hover:scale-110 transition-transform ${color}`} aria-label={`Set color to ${color.split('-')[1]}`} />
+                ))}
+                <button onClick={onStack} disabled={notes.length < 2} className={buttonClass} title="Stack on the first selected note">
+                    <LayersIcon className="w-5 h-5" />
+                </button>
+                <button onClick={onTogglePin} className={buttonClass} title={allPinned ? 'Unpin' : 'Pin'}>
+                    <PinIcon className={`w-5 h-5 ${allPinned ? 'fill-current' : ''}`} />
+                </button>
+                <button onClick={onDelete} className={`${buttonClass} text-red-600`} title="Move to Trash">
+                    <TrashIcon className="w-5 h-5" />
+                </button>
+                <div className="w-px h-5 bg-gray-300 dark:bg-gray-600 mx-1"></div>
+                <button onClick={onClear} className={buttonClass} title="Clear selection (Esc)">
+                    <CloseIcon className="w-5 h-5" />
+                </button>
+            </div>
+            {isTagging && (
+                <div className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-xl shadow-lg p-2 w-72 animate-fade-in-up">
+                    <form onSubmit={handleTagSubmit} className="flex items-center gap-1">
+                        <input
+                            autoFocus
+                            value={tagInput}
+                            onChange={(e) => setTagInput(e.target.value)}
+                            list="canvas-selection-tags"
+                            placeholder="Add a tag to all"
+                            className="flex-grow min-w-0 text-base px-2.5 py-0.5 rounded-full border border-amber-300 bg-white/80 focus:outline-none focus:border-amber-500"
+                        />
+                        <datalist id="canvas-selection-tags">
+                            {allTags.map(tag => <option key={tag} value={tag} />)}
+                        </datalist>
+                        <button type="submit" disabled={!tagInput.trim()} className="text-base font-bold text-amber-700 hover:text-amber-900 disabled:opacity-50">Add</button>
+                    </form>
+                    {sharedTags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                            {sharedTags.map(tag => (
+                                <span key={tag} className="flex items-center gap-1 text-sm pl-2 pr-1 py-0.5 rounded-full bg-amber-100 text-amber-800">
+                                    #{tag}
+                                    <button onClick={() => onRemoveTag(tag)} className="opacity-60 hover:opacity-100" aria-label={`Remove ${tag} from the selected notes`}>
+                                        <CloseIcon className="w-3.5 h-3.5" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,15 +1,49 @@
 
 
-import React, { useState, useRef } from 'react';
-import type { Note } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { CanvasEdge, CanvasFrame, Note } from '../types';
+import type { SyncStatusMap } from '../services/noteRepository';
+import { canvasNoteSize, fitRect, rectFromPoints } from '../services/canvasGeometry';
+import type { Point, Rect } from '../services/canvasGeometry';
+import { frameNoteIds, FRAME_DEFAULT_SIZE, FRAME_HEADER_HEIGHT } from '../services/canvasFrames';
+import { notesInRect, addTagUpdates, removeTagUpdates, colorUpdates, pinUpdates } from '../services/canvasSelection';
+import type { NoteUpdate } from '../services/canvasSelection';
+import { CANVAS_LAYOUTS } from '../services/canvasLayouts';
+import type { CanvasLayoutKind } from '../services/canvasLayouts';
 import { CanvasNote } from './CanvasNote';
 import { CanvasControls } from './CanvasControls';
+import { CanvasEdgeLayer } from './CanvasEdgeLayer';
+import { CanvasFrameView } from './CanvasFrameView';
+import { CanvasSelectionToolbar } from './CanvasSelectionToolbar';
 
 interface InfiniteCanvasProps {
     notes: Note[];
+    // Every note on the canvas, including those the search hides; frames contain and carry these.
+    boardNotes: Note[];
+    syncStatuses: SyncStatusMap;
     onNotePositionChange: (id: string, x: number, y: number) => void;
     onViewNote: (note: Note) => void;
-    onTidyNotes: () => void;
+    onArrangeNotes: (kind: CanvasLayoutKind) => void;
+    isArranging: boolean;
+    // Set while the last layout on this canvas can be undone.
+    onUndoLayout?: () => void;
+    // Note id -> words to mark, from the current search.
+    highlights?: Map<string, string[]>;
+    edges: CanvasEdge[];
+    onCreateEdge: (sourceId: string, targetId: string) => void;
+    onUpdateEdge: (id: string, update: Partial<Pick<CanvasEdge, 'label' | 'style'>>) => void;
+    onDeleteEdge: (id: string) => void;
+    frames: CanvasFrame[];
+    onCreateFrame: (rect: Rect) => void;
+    onUpdateFrame: (id: string, update: Partial<Pick<CanvasFrame, 'title' | 'color' | 'x' | 'y' | 'width' | 'height' | 'collapsed'>>) => void;
+    onDeleteFrame: (frame: CanvasFrame) => void;
+    // Saves several note positions at once, for the notes carried along by a frame.
+    onNotesMove: (positions: { id: string; x: number; y: number }[]) => void;
+    allTags: string[];
+    // Bulk actions on the selected notes.
+    onUpdateNotes: (updates: NoteUpdate[], successMessage: string) => void;
+    onStackNotes: (ids: string[]) => void;
+    onTrashNotes: (notes: Note[]) => void;
 }
 
 const MIN_SCALE = 0.2;
@@ -33,16 +67,222 @@ const getMidpoint = (touches: React.TouchList | TouchList) => {
     };
 };
 
-export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({ notes, onNotePositionChange, onViewNote, onTidyNotes }) => {
+export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({ notes, boardNotes, syncStatuses, onNotePositionChange, onViewNote, onArrangeNotes, isArranging, onUndoLayout, highlights, edges, onCreateEdge, onUpdateEdge, onDeleteEdge, frames, onCreateFrame, onUpdateFrame, onDeleteFrame, onNotesMove, allTags, onUpdateNotes, onStackNotes, onTrashNotes }) => {
     const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
+    // Where notes are mid-drag, so their connectors follow before the position is saved.
+    const [livePositions, setLivePositions] = useState<Map<string, Point>>(new Map());
+    const [connecting, setConnecting] = useState<{ sourceId: string; point: Point } | null>(null);
+    const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+    const [noteSize, setNoteSize] = useState(canvasNoteSize);
+    // The notes a frame is carrying while it is dragged, fixed when the drag starts.
+    const frameDragRef = useRef<{ frameId: string; notes: Note[] } | null>(null);
+    // Selected note ids, in the order they were picked; the first is the stack target.
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [marquee, setMarquee] = useState<Rect | null>(null);
+    const marqueeRef = useRef<{ start: Point; end: Point; base: string[] } | null>(null);
+    // The other selected notes while one of them is dragged, and where the dragged one started.
+    const groupDragRef = useRef<{ leaderId: string; origin: Point; notes: Note[] } | null>(null);
+    const panStartClient = useRef({ x: 0, y: 0 });
+    // The window listeners for drawing a connector outlive the render that added them.
+    const transformRef = useRef(transform);
+    transformRef.current = transform;
     const isPanningRef = useRef(false);
     const startPanPos = useRef({ x: 0, y: 0 });
     const pinchStartDistance = useRef(0);
     const canvasRef = useRef<HTMLDivElement>(null);
 
+    useEffect(() => {
+        const handleResize = () => setNoteSize(canvasNoteSize());
+        window.addEventListener('resize', handleResize);
+        return () => window.removeEventListener('resize', handleResize);
+    }, []);
+
+    const toCanvasPoint = (clientX: number, clientY: number): Point => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        const { x, y, scale } = transformRef.current;
+        return { x: (clientX - rect.left - x) / scale, y: (clientY - rect.top - y) / scale };
+    };
+
+    useEffect(() => {
+        if (selectedIds.length === 0) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setSelectedIds([]);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [selectedIds.length]);
+
+    const toggleSelected = (note: Note) => {
+        setSelectedIds(prev => (prev.includes(note.id) ? prev.filter(id => id !== note.id) : [...prev, note.id]));
+    };
+
+    const handleNoteClick = (note: Note) => {
+        if (isSelecting) toggleSelected(note);
+        else onViewNote(note);
+    };
+
+    // Dragging a selected note drags the whole selection.
+    const handleDragMove = (id: string, x: number, y: number) => {
+        if (selectedIds.length > 1 && selectedIds.includes(id) && groupDragRef.current?.leaderId !== id) {
+            const leader = notes.find(note => note.id === id);
+            groupDragRef.current = {
+                leaderId: id,
+                origin: { x: leader?.canvas_x || 0, y: leader?.canvas_y || 0 },
+                notes: notes.filter(note => note.id !== id && selectedIds.includes(note.id)),
+            };
+        }
+        const group = groupDragRef.current?.leaderId === id ? groupDragRef.current : null;
+        setLivePositions(prev => {
+            const next = new Map(prev).set(id, { x, y });
+            group?.notes.forEach(note => next.set(note.id, { x: (note.canvas_x || 0) + x - group.origin.x, y: (note.canvas_y || 0) + y - group.origin.y }));
+            return next;
+        });
+    };
+
+    const handlePositionChange = (id: string, x: number, y: number) => {
+        const group = groupDragRef.current?.leaderId === id ? groupDragRef.current : null;
+        groupDragRef.current = null;
+        if (group) {
+            onNotesMove([
+                { id, x, y },
+                ...group.notes.map(note => ({ id: note.id, x: (note.canvas_x || 0) + x - group.origin.x, y: (note.canvas_y || 0) + y - group.origin.y })),
+            ]);
+        } else {
+            onNotePositionChange(id, x, y);
+        }
+        setLivePositions(prev => {
+            const next = new Map(prev);
+            next.delete(id);
+            group?.notes.forEach(note => next.delete(note.id));
+            return next;
+        });
+    };
+
+    const startMarquee = (clientX: number, clientY: number, additive: boolean) => {
+        const start = toCanvasPoint(clientX, clientY);
+        marqueeRef.current = { start, end: start, base: additive ? selectedIds : [] };
+        setMarquee(rectFromPoints(start, start));
+    };
+
+    const moveMarquee = (clientX: number, clientY: number) => {
+        if (!marqueeRef.current) return;
+        marqueeRef.current.end = toCanvasPoint(clientX, clientY);
+        setMarquee(rectFromPoints(marqueeRef.current.start, marqueeRef.current.end));
+    };
+
+    const finishMarquee = () => {
+        const current = marqueeRef.current;
+        marqueeRef.current = null;
+        setMarquee(null);
+        if (!current) return;
+        const picked = notesInRect(visibleNotes, rectFromPoints(current.start, current.end), noteSize);
+        setSelectedIds([...current.base, ...picked.filter(id => !current.base.includes(id))]);
+    };
+
+    const handleStartConnect = (note: Note, clientX: number, clientY: number) => {
+        setSelectedEdgeId(null);
+        setConnecting({ sourceId: note.id, point: toCanvasPoint(clientX, clientY) });
+
+        const move = (x: number, y: number) => setConnecting({ sourceId: note.id, point: toCanvasPoint(x, y) });
+        const finish = (x: number, y: number) => {
+            window.removeEventListener('mousemove', onMouseMove);
+            window.removeEventListener('mouseup', onMouseUp);
+            window.removeEventListener('touchmove', onTouchMove);
+            window.removeEventListener('touchend', onTouchEnd);
+            setConnecting(null);
+            const target = document.elementFromPoint(x, y)?.closest('[data-canvas-note-id]');
+            const targetId = target?.getAttribute('data-canvas-note-id');
+            if (targetId && targetId !== note.id) onCreateEdge(note.id, targetId);
+        };
+        const onMouseMove = (ev: MouseEvent) => move(ev.clientX, ev.clientY);
+        const onMouseUp = (ev: MouseEvent) => finish(ev.clientX, ev.clientY);
+        const onTouchMove = (ev: TouchEvent) => {
+            if (ev.touches.length === 1) move(ev.touches[0].clientX, ev.touches[0].clientY);
+        };
+        const onTouchEnd = (ev: TouchEvent) => finish(ev.changedTouches[0].clientX, ev.changedTouches[0].clientY);
+
+        window.addEventListener('mousemove', onMouseMove);
+        window.addEventListener('mouseup', onMouseUp);
+        window.addEventListener('touchmove', onTouchMove);
+        window.addEventListener('touchend', onTouchEnd);
+    };
+
+    const frameContents = useMemo(() => {
+        return new Map<string, string[]>(frames.map(frame => [frame.id, frameNoteIds(frame, boardNotes, noteSize)]));
+    }, [frames, boardNotes, noteSize]);
+
+    // Notes in a collapsed frame are hidden, along with their connectors.
+    const visibleNotes = useMemo(() => {
+        const hidden = new Set(frames.filter(frame => frame.collapsed).flatMap(frame => frameContents.get(frame.id) || []));
+        return notes
+            .filter(note => !hidden.has(note.id))
+            .map(note => {
+                const live = livePositions.get(note.id);
+                return live ? { ...note, canvas_x: live.x, canvas_y: live.y } : note;
+            });
+    }, [notes, frames, frameContents, livePositions]);
+
+    // In the order they were picked, leaving out any that have been deleted or filtered away.
+    const selectedNotes = selectedIds
+        .map(id => visibleNotes.find(note => note.id === id))
+        .filter((note): note is Note => !!note);
+
+    const handleFrameMove = (frame: CanvasFrame, dx: number, dy: number) => {
+        if (frameDragRef.current?.frameId !== frame.id) {
+            const ids = new Set(frameContents.get(frame.id) || []);
+            frameDragRef.current = { frameId: frame.id, notes: boardNotes.filter(note => ids.has(note.id)) };
+        }
+        const carried = frameDragRef.current.notes;
+        setLivePositions(prev => {
+            const next = new Map(prev);
+            carried.forEach(note => next.set(note.id, { x: (note.canvas_x || 0) + dx, y: (note.canvas_y || 0) + dy }));
+            return next;
+        });
+    };
+
+    const handleFrameMoveEnd = (frame: CanvasFrame, dx: number, dy: number) => {
+        const carried = frameDragRef.current?.frameId === frame.id ? frameDragRef.current.notes : [];
+        frameDragRef.current = null;
+        onUpdateFrame(frame.id, { x: frame.x + dx, y: frame.y + dy });
+        if (carried.length > 0) {
+            onNotesMove(carried.map(note => ({ id: note.id, x: (note.canvas_x || 0) + dx, y: (note.canvas_y || 0) + dy })));
+        }
+        setLivePositions(prev => {
+            const next = new Map(prev);
+            carried.forEach(note => next.delete(note.id));
+            return next;
+        });
+    };
+
+    const handleAddFrame = () => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        const centre = toCanvasPoint(rect.left + rect.width / 2, rect.top + rect.height / 2);
+        onCreateFrame({ x: centre.x - FRAME_DEFAULT_SIZE.width / 2, y: centre.y - FRAME_DEFAULT_SIZE.height / 2, ...FRAME_DEFAULT_SIZE });
+    };
+
+    const handleZoomToFrame = (id: string) => {
+        const frame = frames.find(f => f.id === id);
+        if (!frame || !canvasRef.current) return;
+        const { width, height } = canvasRef.current.getBoundingClientRect();
+        const target = frame.collapsed ? { ...frame, height: FRAME_HEADER_HEIGHT } : frame;
+        setTransform(fitRect(target, { width, height }, { min: MIN_SCALE, max: MAX_SCALE }));
+    };
+
+    const handleDeleteEdge = (id: string) => {
+        setSelectedEdgeId(null);
+        onDeleteEdge(id);
+    };
+
     const handleMouseDown = (e: React.MouseEvent) => {
         if (e.target !== canvasRef.current) return;
         e.preventDefault();
+        setSelectedEdgeId(null);
+        if (e.shiftKey || isSelecting) {
+            startMarquee(e.clientX, e.clientY, e.shiftKey);
+            return;
+        }
+        panStartClient.current = { x: e.clientX, y: e.clientY };
         isPanningRef.current = true;
         startPanPos.current = { 
             x: e.clientX - transform.x,
@@ -51,6 +291,10 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({ notes, onNotePos
     };
 
     const handleMouseMove = (e: React.MouseEvent) => {
+        if (marqueeRef.current) {
+            moveMarquee(e.clientX, e.clientY);
+            return;
+        }
         if (!isPanningRef.current) return;
         e.preventDefault();
         setTransform(prev => ({
@@ -60,7 +304,15 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({ notes, onNotePos
         }));
     };
 
-    const handleMouseUp = () => {
+    const handleMouseUp = (e: React.MouseEvent) => {
+        if (marqueeRef.current) {
+            finishMarquee();
+            return;
+        }
+        // A click on the background, rather than a pan, clears the selection.
+        if (isPanningRef.current && Math.hypot(e.clientX - panStartClient.current.x, e.clientY - panStartClient.current.y) < 4) {
+            setSelectedIds([]);
+        }
         isPanningRef.current = false;
     };
 
@@ -85,8 +337,11 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({ notes, onNotePos
     const handleTouchStart = (e: React.TouchEvent) => {
         if (e.target !== canvasRef.current) return;
         e.preventDefault();
+        setSelectedEdgeId(null);
 
-        if (e.touches.length === 1) { // Pan
+        if (e.touches.length === 1 && isSelecting) {
+            startMarquee(e.touches[0].clientX, e.touches[0].clientY, true);
+        } else if (e.touches.length === 1) { // Pan
             isPanningRef.current = true;
             startPanPos.current = {
                 x: e.touches[0].clientX - transform.x,
@@ -101,7 +356,9 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({ notes, onNotePos
     const handleTouchMove = (e: React.TouchEvent) => {
         e.preventDefault();
 
-        if (e.touches.length === 1 && isPanningRef.current) { // Pan
+        if (e.touches.length === 1 && marqueeRef.current) {
+            moveMarquee(e.touches[0].clientX, e.touches[0].clientY);
+        } else if (e.touches.length === 1 && isPanningRef.current) { // Pan
             setTransform(prev => ({
                 ...prev,
                 x: e.touches[0].clientX - startPanPos.current.x,
@@ -133,6 +390,7 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({ notes, onNotePos
     };
 
     const handleTouchEnd = () => {
+        finishMarquee();
         isPanningRef.current = false;
         pinchStartDistance.current = 0;
     };
@@ -171,22 +429,85 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({ notes, onNotePos
                     transformOrigin: '0 0',
                 }}
              >
-                {notes.map(note => (
+                {frames.map(frame => (
+                    <CanvasFrameView
+                        key={frame.id}
+                        frame={frame}
+                        noteCount={frameContents.get(frame.id)?.length || 0}
+                        scale={transform.scale}
+                        onMove={handleFrameMove}
+                        onMoveEnd={handleFrameMoveEnd}
+                        onUpdate={onUpdateFrame}
+                        onDelete={onDeleteFrame}
+                    />
+                ))}
+                <CanvasEdgeLayer
+                    edges={edges}
+                    notes={visibleNotes}
+                    noteSize={noteSize}
+                    livePositions={livePositions}
+                    pendingConnection={connecting}
+                    selectedEdgeId={selectedEdgeId}
+                    scale={transform.scale}
+                    onSelectEdge={setSelectedEdgeId}
+                    onUpdateEdge={onUpdateEdge}
+                    onDeleteEdge={handleDeleteEdge}
+                />
+                {visibleNotes.map(note => (
                     <CanvasNote
                         key={note.id}
                         note={note}
-                        onPositionChange={onNotePositionChange}
-                        onView={onViewNote}
+                        onPositionChange={handlePositionChange}
+                        onDragMove={handleDragMove}
+                        onStartConnect={handleStartConnect}
+                        onView={handleNoteClick}
                         scale={transform.scale}
+                        syncStatus={syncStatuses[note.id]}
+                        highlightTerms={highlights?.get(note.id)}
+                        isFollowing={[frameDragRef.current, groupDragRef.current].some(drag => drag?.notes.some(carried => carried.id === note.id))}
+                        isSelected={selectedIds.includes(note.id)}
+                        onToggleSelect={toggleSelected}
                     />
                 ))}
+                {marquee && (
+                    <div
+                        className="absolute z-40 border-2 border-dashed border-violet-500 bg-violet-400/10 pointer-events-none"
+                        style={{ left: marquee.x, top: marquee.y, width: marquee.width, height: marquee.height }}
+                    />
+                )}
              </div>
              
              <CanvasControls 
                 onZoom={handleZoom}
                 onResetView={resetView}
-                onTidy={onTidyNotes}
+                onTidy={() => onArrangeNotes('grid')}
+                layouts={CANVAS_LAYOUTS}
+                onLayout={(id) => onArrangeNotes(id as CanvasLayoutKind)}
+                isArranging={isArranging}
+                onUndoLayout={onUndoLayout}
+                frames={frames}
+                onAddFrame={handleAddFrame}
+                onZoomToFrame={handleZoomToFrame}
+                isSelecting={isSelecting}
+                onToggleSelecting={() => setIsSelecting(selecting => !selecting)}
              />
+
+             {selectedNotes.length > 0 && (
+                <CanvasSelectionToolbar
+                    notes={selectedNotes}
+                    allTags={allTags}
+                    onAddTag={(tag) => onUpdateNotes(addTagUpdates(selectedNotes, tag), `Tagged ${selectedNotes.length} notes #${tag}.`)}
+                    onRemoveTag={(tag) => onUpdateNotes(removeTagUpdates(selectedNotes, tag), `Removed #${tag}.`)}
+                    onRecolor={(color) => onUpdateNotes(colorUpdates(selectedNotes, color), `Recoloured ${selectedNotes.length} notes.`)}
+                    onStack={() => onStackNotes(selectedNotes.map(note => note.id))}
+                    onTogglePin={() => onUpdateNotes(pinUpdates(selectedNotes), selectedNotes.every(note => note.is_pinned) ? 'Unpinned.' : 'Pinned.')}
+                    onDelete={() => {
+                        onTrashNotes(selectedNotes);
+                        setSelectedIds([]);
+                    }}
+                    onClear={() => setSelectedIds([])}
+                />
+             )}
         </div>
     );
 };
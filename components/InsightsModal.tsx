@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import type { Note, ToastType } from '../types';
-import { generateInsights } from '../services/geminiService';
+import { generateInsights } from '../services/aiService';
+import { sanitizeHtml } from '../services/sanitizeHtml';
 import { CloseIcon, TrendingUpIcon, LoaderIcon } from './icons';
 
 interface InsightsModalProps {
@@ -16,10 +17,10 @@ const markdownToHtml = (text: string) => {
         .replace(/>/g, '&gt;');
 
     // Headings (e.g., #, ##, ###, ####) - process most specific first
-    html = html.replace(/^####\s+(.*)$/gm, '<h4 class="text-xl font-bold mt-3 mb-1">$1</h4>');
-    html = html.replace(/^###\s+(.*)$/gm, '<h3 class="text-2xl font-bold mt-4 mb-2">$1</h3>');
-    html = html.replace(/^##\s+(.*)$/gm, '<h2 class="text-3xl font-bold mt-5 mb-2">$1</h2>');
-    html = html.replace(/^#\s+(.*)$/gm, '<h1 class="text-4xl font-bold mt-6 mb-3">$1</h1>');
+    html = html.replace(/^####\s+(.*)$/gm, '<h4>$1</h4>');
+    html = html.replace(/^###\s+(.*)$/gm, '<h3>$1</h3>');
+    html = html.replace(/^##\s+(.*)$/gm, '<h2>$1</h2>');
+    html = html.replace(/^#\s+(.*)$/gm, '<h1>$1</h1>');
 
     // Bold (**text** or __text__)
     html = html.replace(/\*\*(.*?)\*\*|__(.*?)__/g, '<strong>$1$2</strong>');
@@ -35,7 +36,7 @@ const markdownToHtml = (text: string) => {
     html = html.replace(/<\/ul>\s*<br \/>/g, '</ul>');
     html = html.replace(/<\/li>\s*<br \/>\s*<li>/g, '</li><li>');
     
-    return html;
+    return sanitizeHtml(html);
 };
 
 
@@ -82,7 +83,7 @@ export const InsightsModal: React.FC<InsightsModalProps> = ({ notes, onClose, sh
                          </div>
                     ) : (
                         <div 
-                            className="prose prose-xl prose-headings:text-amber-800 dark:prose-headings:text-amber-200 prose-strong:text-amber-900 dark:prose-strong:text-amber-100 text-amber-900 themed-modal-text-alt [&_ul]:list-disc [&_ul]:pl-6 [&_li]:mb-1"
+                            className="prose prose-xl prose-headings:text-amber-800 dark:prose-headings:text-amber-200 prose-strong:text-amber-900 dark:prose-strong:text-amber-100 text-amber-900 themed-modal-text-alt [&_ul]:list-disc [&_ul]:pl-6 [&_li]:mb-1 [&_h1]:text-4xl [&_h1]:font-bold [&_h1]:mt-6 [&_h1]:mb-3 [&_h2]:text-3xl [&_h2]:font-bold [&_h2]:mt-5 [&_h2]:mb-2 [&_h3]:text-2xl [&_h3]:font-bold [&_h3]:mt-4 [&_h3]:mb-2 [&_h4]:text-xl [&_h4]:font-bold [&_h4]:mt-3 [&_h4]:mb-1"
                             dangerouslySetInnerHTML={{ __html: markdownToHtml(insights) }} 
                         />
                     )}
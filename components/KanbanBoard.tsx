@@ -0,0 +1,134 @@
+import React, { useState, useMemo } from 'react';
+import type { KanbanGroupBy, KanbanLayout, Note } from '../types';
+import { kanbanColumns, columnValues, setColumnValues, moveColumn, colorLabel } from '../services/kanbanLayout';
+import { NOTE_COLOR_OPTIONS } from '../services/aiProvider';
+import { htmlToPlainText } from '../services/noteHistory';
+import { ChevronLeftIcon, ChevronRightIcon, CloseIcon, PlusIcon } from './icons';
+
+interface KanbanBoardProps {
+    layout: KanbanLayout;
+    notes: Note[];
+    allTags: string[];
+    onLayoutChange: (layout: KanbanLayout) => void;
+    onMoveNote: (note: Note, target: string | null) => void;
+    onViewNote: (note: Note) => void;
+}
+
+const DRAG_TYPE = 'application/x-stickon-note';
+
+export const KanbanBoard: React.FC<KanbanBoardProps> = ({ layout, notes, allTags, onLayoutChange, onMoveNote, onViewNote }) => {
+    const [dropTarget, setDropTarget] = useState<string | null | undefined>(undefined);
+    const columns = useMemo(() => kanbanColumns(layout, notes), [layout, notes]);
+    const notesById = useMemo(() => new Map(notes.map(note => [note.id, note])), [notes]);
+
+    const values = columnValues(layout);
+    const options = (layout.group_by === 'tag' ? allTags : NOTE_COLOR_OPTIONS).filter(option => !values.includes(option));
+
+    const handleDrop = (e: React.DragEvent, target: string | null) => {
+        e.preventDefault();
+        setDropTarget(undefined);
+        const note = notesById.get(e.dataTransfer.getData(DRAG_TYPE));
+        if (note) onMoveNote(note, target);
+    };
+
+    const buttonClassName = "p-1 sm:px-2 rounded-full flex items-center text-sm transition";
+    const iconButtonClassName = "p-0.5 rounded-full hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-30";
+
+    return (
+        <div className="absolute inset-0 flex flex-col p-2 sm:p-4 gap-3">
+            <div className="flex flex-wrap items-center gap-2 text-amber-800 dark:text-amber-200">
+                <div className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-md p-0.5 rounded-full flex items-center shadow">
+                    {(['tag', 'color'] as KanbanGroupBy[]).map(groupBy => (
+                        <button
+                            key={groupBy}
+                            type="button"
+                            onClick={() => onLayoutChange({ ...layout, group_by: groupBy })}
+                            className={`${buttonClassName} ${layout.group_by === groupBy ? 'bg-white dark:bg-gray-900 shadow' : 'opacity-70'}`}
+                            aria-pressed={layout.group_by === groupBy}
+                        >
+                            {groupBy === 'tag' ? 'By tag' : 'By colour'}
+                        </button>
+                    ))}
+                </div>
+                {options.length > 0 && (
+                    <label className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-md rounded-full shadow flex items-center gap-1.5 py-0.5 px-2 text-sm">
+                        <PlusIcon className="w-4 h-4" />
+                        <select
+                            value=""
+                            onChange={(e) => e.target.value && onLayoutChange(setColumnValues(layout, [...values, e.target.value]))}
+                            className="bg-transparent focus:outline-none"
+                            aria-label="Add column"
+                        >
+                            <option value="">Add column</option>
+                            {options.map(option => (
+                                <option key={option} value={option}>{layout.group_by === 'tag' ? `#${option}` : colorLabel(option)}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                {layout.group_by === 'tag' && values.length === 0 && (
+                    <p className="text-base">Add a tag as a column to start sorting notes.</p>
+                )}
+            </div>
+
+            <div className="flex-1 min-h-0 flex gap-3 overflow-x-auto thin-scrollbar pb-2">
+                {columns.map((column, index) => {
+                    const key = column.value ?? '';
+                    const isDropTarget = dropTarget === column.value;
+                    // Every note has a colour, so "Other" only takes drops when grouping by tag.
+                    const acceptsDrops = column.value !== null || layout.group_by === 'tag';
+                    return (
+                        <section
+                            key={key}
+                            onDragOver={acceptsDrops ? (e) => { e.preventDefault(); setDropTarget(column.value); } : undefined}
+                            onDragLeave={() => setDropTarget(undefined)}
+                            onDrop={acceptsDrops ? (e) => handleDrop(e, column.value) : undefined}
+                            className={`w-60 sm:w-72 flex-shrink-0 flex flex-col min-h-0 rounded-xl p-2 backdrop-blur-sm shadow border-2 transition-colors ${isDropTarget ? 'border-amber-500 bg-amber-100/70 dark:bg-gray-700/70' : 'border-transparent bg-white/50 dark:bg-gray-800/50'}`}
+                        >
+                            <header className="flex items-center gap-1 mb-2 text-amber-800 dark:text-amber-200">
+                                {layout.group_by === 'color' && column.value && <span className={`w-4 h-4 rounded-full border border-black/20 ${column.value}`} />}
+                                <h3 className="flex-1 min-w-0 text-lg font-bold truncate">
+                                    {column.label} <span className="text-sm font-normal">({column.notes.length})</span>
+                                </h3>
+                                {column.value !== null && (
+                                    <>
+                                        <button type="button" onClick={() => onLayoutChange(moveColumn(layout, column.value!, -1))} disabled={index === 0} className={iconButtonClassName} aria-label={`Move ${column.label} left`}>
+                                            <ChevronLeftIcon className="w-4 h-4" />
+                                        </button>
+                                        <button type="button" onClick={() => onLayoutChange(moveColumn(layout, column.value!, 1))} disabled={index === values.length - 1} className={iconButtonClassName} aria-label={`Move ${column.label} right`}>
+                                            <ChevronRightIcon className="w-4 h-4" />
+                                        </button>
+                                        <button type="button" onClick={() => onLayoutChange(setColumnValues(layout, values.filter(value => value !== column.value)))} className={iconButtonClassName} aria-label={`Remove ${column.label} column`}>
+                                            <CloseIcon className="w-4 h-4" />
+                                        </button>
+                                    </>
+                                )}
+                            </header>
+                            <div className="flex-1 min-h-0 overflow-y-auto thin-scrollbar space-y-2 pr-1">
+                                {column.notes.map(note => (
+                                    <button
+                                        key={note.id}
+                                        type="button"
+                                        draggable
+                                        onDragStart={(e) => {
+                                            e.dataTransfer.setData(DRAG_TYPE, note.id);
+                                            e.dataTransfer.effectAllowed = 'move';
+                                        }}
+                                        onDragEnd={() => setDropTarget(undefined)}
+                                        onClick={() => onViewNote(note)}
+                                        className={`w-full text-left p-2 rounded-md border border-black/10 shadow-sm hover:shadow-md transition cursor-grab active:cursor-grabbing ${note.color}`}
+                                    >
+                                        <span className="line-clamp-3 text-base text-amber-900">{htmlToPlainText(note.text) || 'Untitled note'}</span>
+                                        {note.tags?.length > 0 && (
+                                            <span className="block mt-1 text-sm text-amber-700 truncate">{note.tags.map(tag => `#${tag}`).join(' ')}</span>
+                                        )}
+                                    </button>
+                                ))}
+                            </div>
+                        </section>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
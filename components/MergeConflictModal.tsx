@@ -0,0 +1,84 @@
+import React, { useMemo, useRef, useEffect, useState } from 'react';
+import type { Note } from '../types';
+import { mergeNotes, editableFields } from '../services/noteMerge';
+import type { NoteConflict } from '../services/noteMerge';
+import { sanitizeHtml } from '../services/sanitizeHtml';
+import { AlertTriangleIcon, LoaderIcon } from './icons';
+
+interface MergeConflictModalProps {
+    conflict: NoteConflict;
+    // null keeps the other version and discards this device's edit.
+    onResolve: (resolution: Partial<Note> | null) => Promise<void>;
+}
+
+const noteTextClasses = "text-amber-900 text-base leading-relaxed [&_ul]:list-disc [&_ul]:pl-6 [&_.checklist-item]:flex [&_.checklist-item]:items-center [&_.checklist-item]:gap-2 [&_.checklist-item_input]:accent-amber-600 themed-modal-text-alt";
+
+const VersionPane: React.FC<{ title: string; note: Note }> = ({ title, note }) => (
+    <div className="flex flex-col min-h-0">
+        <h3 className="text-lg font-bold text-amber-800 mb-1 themed-modal-text">{title}</h3>
+        <div className={`flex-1 min-h-[150px] overflow-y-auto thin-scrollbar rounded-md border border-amber-200 p-2 ${note.color} ${noteTextClasses}`} dangerouslySetInnerHTML={{ __html: sanitizeHtml(note.text) }} />
+        {note.tags?.length > 0 && <p className="text-sm text-amber-700 mt-1 themed-modal-text">{note.tags.map(tag => `#${tag}`).join(' ')}</p>}
+    </div>
+);
+
+export const MergeConflictModal: React.FC<MergeConflictModalProps> = ({ conflict, onResolve }) => {
+    const editorRef = useRef<HTMLDivElement>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const merged = useMemo(() => mergeNotes(conflict), [conflict]);
+
+    useEffect(() => {
+        if (editorRef.current) editorRef.current.innerHTML = sanitizeHtml(merged.update.text);
+    }, [merged]);
+
+    const resolve = async (resolution: Partial<Note> | null) => {
+        setIsSaving(true);
+        try {
+            await onResolve(resolution);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4" aria-modal="true">
+            <div className="relative bg-white/95 shadow-2xl rounded-2xl p-4 sm:p-6 w-full max-w-5xl border border-amber-200 animate-fade-in-up max-h-[90vh] flex flex-col themed-modal-bg">
+                <header className="flex items-center gap-3 pb-3 border-b border-amber-300/50 mb-4 flex-shrink-0">
+                    <AlertTriangleIcon className="w-8 h-8 text-amber-700 themed-modal-text" />
+                    <div>
+                        <h2 className="text-2xl sm:text-3xl text-amber-800 themed-modal-text">This note changed while you were editing</h2>
+                        <p className="text-base text-amber-700 themed-modal-text-alt">Choose a version to keep, or edit the merged result.</p>
+                    </div>
+                </header>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 overflow-y-auto thin-scrollbar pr-2 -mr-2">
+                    <VersionPane title="Your version" note={conflict.mine} />
+                    <VersionPane title="Their version" note={conflict.theirs} />
+                    <div className="flex flex-col min-h-0">
+                        <h3 className="text-lg font-bold text-amber-800 mb-1 themed-modal-text">Merged</h3>
+                        <div
+                            ref={editorRef}
+                            contentEditable
+                            suppressContentEditableWarning
+                            className={`flex-1 min-h-[150px] overflow-y-auto thin-scrollbar rounded-md border-2 border-amber-300 focus:border-amber-500 focus:outline-none p-2 themed-modal-input-bg ${noteTextClasses}`}
+                        />
+                        {merged.hasConflicts && (
+                            <p className="text-sm text-red-600 mt-1">Some paragraphs changed in both versions. Both were kept; tidy them up before saving.</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap justify-end gap-2 pt-4 flex-shrink-0">
+                    <button type="button" disabled={isSaving} onClick={() => resolve(editableFields(conflict.mine))} className="text-base sm:text-lg font-bold py-2 px-4 rounded-full border-2 border-amber-600 text-amber-700 hover:bg-amber-100 transition disabled:opacity-50 themed-modal-button">
+                        Keep mine
+                    </button>
+                    <button type="button" disabled={isSaving} onClick={() => resolve(null)} className="text-base sm:text-lg font-bold py-2 px-4 rounded-full border-2 border-amber-600 text-amber-700 hover:bg-amber-100 transition disabled:opacity-50 themed-modal-button">
+                        Keep theirs
+                    </button>
+                    <button type="button" disabled={isSaving} onClick={() => resolve({ ...merged.update, text: editorRef.current?.innerHTML || '' })} className="flex items-center gap-2 bg-amber-600 text-white text-base sm:text-lg font-bold py-2 px-4 rounded-full hover:bg-amber-700 transition disabled:opacity-50">
+                        {isSaving && <LoaderIcon className="w-5 h-5 animate-spin" />} Save merged
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,12 @@
-import React, { useRef } from 'react';
-import type { Note } from '../types';
+import React, { useRef, useMemo } from 'react';
+import type { Note, NoteSyncStatus, Task } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { sanitizeHtml } from '../services/sanitizeHtml';
+import { highlightHtml, removeHighlights } from '../services/highlight';
+import { syncCheckboxAttribute } from '../services/checklist';
+import { resolveNoteLinks, noteTitle } from '../services/noteLinks';
+import { AttachmentImage } from './AttachmentImage';
+import { SyncStatusBadge } from './SyncStatusBadge';
 import { CloseIcon, LoaderIcon, SparklesIcon, EditIcon, TranscribeIcon, ClipboardListIcon, LinkIcon, LayersIcon, WandIcon, PinIcon } from './icons';
 
 interface NoteCardProps {
@@ -27,8 +34,23 @@ interface NoteCardProps {
   isExpanding: boolean;
   stackingNoteId: string | null;
   stackCount: number;
+  syncStatus?: NoteSyncStatus;
+  // Words to mark in the note text, from the current search.
+  highlightTerms?: string[];
+  // AI-extracted and board tasks for this note; checklist tasks are already in the text.
+  tasks?: Task[];
+  onToggleTask?: (task: Task) => void;
+  // Note id -> current title, for [[links]] in the text.
+  linkTitles?: Map<string, string>;
+  // Notes that link to this one.
+  backlinks?: Note[];
 }
 
+const NO_HIGHLIGHTS: string[] = [];
+const NO_TASKS: Task[] = [];
+const NO_NOTES: Note[] = [];
+const NO_TITLES = new Map<string, string>();
+
 export const NoteCard: React.FC<NoteCardProps> = ({ 
     note, 
     relatedNotes,
@@ -54,8 +76,19 @@ export const NoteCard: React.FC<NoteCardProps> = ({
     isExpanding,
     stackingNoteId,
     stackCount,
+    syncStatus,
+    highlightTerms = NO_HIGHLIGHTS,
+    tasks = NO_TASKS,
+    onToggleTask,
+    linkTitles = NO_TITLES,
+    backlinks = NO_NOTES,
 }) => {
   const contentRef = useRef<HTMLDivElement>(null);
+  const audioSrc = useMediaUrl(note.audio_url);
+  const safeHtml = useMemo(
+    () => highlightHtml(resolveNoteLinks(sanitizeHtml(note.text), linkTitles), highlightTerms),
+    [note.text, linkTitles, highlightTerms]
+  );
   
   const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
     const target = e.target as HTMLElement;
@@ -65,11 +98,19 @@ export const NoteCard: React.FC<NoteCardProps> = ({
         e.stopPropagation();
     }
 
+    const link = target.closest<HTMLElement>('.note-link[data-note-id]');
+    if (link) {
+        e.stopPropagation();
+        if (!link.classList.contains('note-link-missing')) onNavigateToNote(link.dataset.noteId!);
+        return;
+    }
+
     if (target.tagName === 'INPUT' && target.getAttribute('type') === 'checkbox') {
       // Allow the DOM to update the checkbox's checked state, then save the new HTML
       setTimeout(() => {
         if (contentRef.current) {
-          onTextUpdate(note.id, contentRef.current.innerHTML);
+          syncCheckboxAttribute(target as HTMLInputElement);
+          onTextUpdate(note.id, removeHighlights(contentRef.current.innerHTML));
         }
       }, 0);
     }
@@ -118,6 +159,8 @@ export const NoteCard: React.FC<NoteCardProps> = ({
             </button>
         )}
 
+        <SyncStatusBadge status={syncStatus} className="absolute top-4 left-1/2 -translate-x-1/2 z-10" />
+
         {note.is_pinned && (
             <div className="absolute top-4 left-3 z-0" title="Pinned note">
                  <PinIcon className="w-5 h-5 text-amber-600/50" isFilled={true} />
@@ -127,13 +170,13 @@ export const NoteCard: React.FC<NoteCardProps> = ({
         <div className={`flex-grow overflow-y-auto pr-2 thin-scrollbar space-y-3 ${isStacking ? 'opacity-20' : ''}`}>
             {note.drawing_url && (
                 <div className="w-full h-40 rounded-md overflow-hidden shadow-inner border border-amber-200 bg-white">
-                    <img src={note.drawing_url} alt="User drawing" className="w-full h-full object-contain" />
+                    <AttachmentImage path={note.drawing_url} alt="User drawing" className="w-full h-full object-contain" />
                 </div>
             )}
             
             {note.image_url && (
                 <div className="w-full h-40 rounded-md overflow-hidden shadow-inner border border-amber-200">
-                    <img src={note.image_url} alt="Note illustration" className="w-full h-full object-cover" />
+                    <AttachmentImage path={note.image_url} alt="Note illustration" className="w-full h-full object-cover" />
                 </div>
             )}
 
@@ -141,11 +184,11 @@ export const NoteCard: React.FC<NoteCardProps> = ({
               ref={contentRef}
               onClick={handleContentClick}
               className="text-amber-900 text-xl sm:text-2xl leading-tight [&_ul]:list-disc [&_ul]:pl-8 [&_.checklist-item]:flex [&_.checklist-item]:items-center [&_.checklist-item]:gap-2 [&_.checklist-item_input]:w-5 [&_.checklist-item_input]:h-5 [&_.checklist-item_input]:accent-amber-600"
-              dangerouslySetInnerHTML={{ __html: note.text }}
+              dangerouslySetInnerHTML={{ __html: safeHtml }}
             />
 
             {note.audio_url && (
-                <audio onClick={(e) => e.stopPropagation()} controls src={note.audio_url} className="w-full h-10 custom-audio-player" aria-label="Audio player for note"></audio>
+                <audio onClick={(e) => e.stopPropagation()} controls src={audioSrc || undefined} className="w-full h-10 custom-audio-player" aria-label="Audio player for note"></audio>
             )}
             
             {note.tags && note.tags.length > 0 && (
@@ -171,13 +214,17 @@ export const NoteCard: React.FC<NoteCardProps> = ({
                 </div>
             )}
             
-            {note.tasks && note.tasks.length > 0 && (
+            {tasks.length > 0 && (
                 <div className="text-base sm:text-lg p-3 bg-sky-600/20 rounded-md border border-sky-600/30">
                     <p className="text-sky-800 font-bold">📋 Action Items:</p>
                     <ul className="space-y-1 mt-1">
-                    {note.tasks.map((task, index) => (
-                        <li key={index} className="text-sky-900 flex items-start gap-2">
-                           <span className="mt-1.5">&#x25A2;</span> <span>{task}</span>
+                    {tasks.map(task => (
+                        <li key={task.id} className="text-sky-900">
+                           <label className="flex items-start gap-2 cursor-pointer" onClick={(e) => e.stopPropagation()}>
+                               <input type="checkbox" checked={task.done} onChange={() => onToggleTask?.(task)} className="mt-1.5 w-4 h-4 accent-sky-700" />
+                               <span className={task.done ? 'line-through opacity-60' : ''}>{task.text}</span>
+                               {task.due_date && <span className="ml-auto text-sm text-sky-700 whitespace-nowrap">{new Date(`${task.due_date}T00:00`).toLocaleDateString()}</span>}
+                           </label>
                         </li>
                     ))}
                     </ul>
@@ -202,6 +249,25 @@ export const NoteCard: React.FC<NoteCardProps> = ({
                     </div>
                 </div>
             )}
+
+            {backlinks.length > 0 && (
+                 <div className="text-base sm:text-lg p-3 bg-violet-600/10 rounded-md border border-violet-600/30">
+                    <p className="text-violet-800 font-bold">↩ Linked from:</p>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                    {backlinks.map(source => (
+                       <button
+                            key={source.id}
+                            onClick={(e) => { e.stopPropagation(); onNavigateToNote(source.id); }}
+                            className="bg-violet-200/80 text-violet-800 text-sm sm:text-base px-2.5 py-0.5 rounded-full hover:bg-violet-300 transition-colors max-w-full truncate"
+                            aria-label={`Go to linking note: ${noteTitle(source)}`}
+                            disabled={isStacking}
+                        >
+                           {noteTitle(source, 30)}
+                        </button>
+                    ))}
+                    </div>
+                </div>
+            )}
         </div>
 
         <div className={`mt-auto pt-2 grid grid-cols-2 gap-2 ${isStacking ? 'opacity-20' : ''}`} onClick={(e) => e.stopPropagation()}>
@@ -0,0 +1,234 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { Note } from '../types';
+import { buildNoteGraph, layoutStep, neighbourIds, ALPHA_START, ALPHA_MIN, ALPHA_DECAY } from '../services/noteGraph';
+import type { GraphEdgeKind, GraphNode, NoteGraph } from '../services/noteGraph';
+import { htmlToPlainText } from '../services/noteHistory';
+import { CanvasControls } from './CanvasControls';
+import { TagIcon } from './icons';
+
+interface NoteGraphViewProps {
+    notes: Note[];
+    allTags: string[];
+    onViewNote: (note: Note) => void;
+}
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 3;
+// Labels get unreadable below this zoom; they still show for the hovered note and its neighbours.
+const LABEL_MIN_SCALE = 0.7;
+// Pointer travel that turns a click on a node into a drag.
+const DRAG_THRESHOLD = 4;
+
+const EDGE_STYLES: Record<GraphEdgeKind, { label: string; className: string; dash?: string }> = {
+    link: { label: 'Linked', className: 'stroke-violet-700' },
+    related: { label: 'Related', className: 'stroke-amber-600' },
+    stack: { label: 'Stacked', className: 'stroke-violet-500', dash: '2 4' },
+    tag: { label: 'Shared tag', className: 'stroke-sky-400', dash: '6 4' },
+};
+
+// The strongest kind decides how a link is drawn.
+const edgeStyle = (kinds: GraphEdgeKind[]) => EDGE_STYLES[(['link', 'related', 'stack'] as GraphEdgeKind[]).find(kind => kinds.includes(kind)) || 'tag'];
+
+const nodeRadius = (node: GraphNode) => 8 + Math.min(node.degree, 10) * 1.2;
+
+const nodeLabel = (note: Note) => {
+    const text = htmlToPlainText(note.text).trim() || 'Untitled note';
+    return text.length > 28 ? `${text.slice(0, 27)}…` : text;
+};
+
+type PointerState =
+    | { type: 'pan'; startX: number; startY: number; originX: number; originY: number }
+    | { type: 'node'; node: GraphNode; startX: number; startY: number; moved: boolean };
+
+export const NoteGraphView: React.FC<NoteGraphViewProps> = ({ notes, allTags, onViewNote }) => {
+    const [tagFilter, setTagFilter] = useState('');
+    const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
+    const [hoveredId, setHoveredId] = useState<string | null>(null);
+    // Bumped every animation frame so React redraws the nodes the simulation moved.
+    const [, setFrame] = useState(0);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const graphRef = useRef<NoteGraph>({ nodes: [], edges: [] });
+    const alphaRef = useRef(ALPHA_START);
+    const frameRef = useRef<number | null>(null);
+    const pointerRef = useRef<PointerState | null>(null);
+
+    const visibleNotes = useMemo(() => (tagFilter ? notes.filter(note => note.tags?.includes(tagFilter)) : notes), [notes, tagFilter]);
+
+    const runSimulation = (alpha: number) => {
+        alphaRef.current = Math.max(alphaRef.current, alpha);
+        if (frameRef.current !== null) return;
+        const step = () => {
+            layoutStep(graphRef.current, alphaRef.current);
+            alphaRef.current *= ALPHA_DECAY;
+            setFrame(frame => frame + 1);
+            frameRef.current = alphaRef.current > ALPHA_MIN || pointerRef.current?.type === 'node' ? requestAnimationFrame(step) : null;
+        };
+        frameRef.current = requestAnimationFrame(step);
+    };
+
+    // Rebuild when the notes change, keeping the positions of notes that were already on screen.
+    useEffect(() => {
+        const isFirstLayout = graphRef.current.nodes.length === 0;
+        graphRef.current = buildNoteGraph(visibleNotes, graphRef.current.nodes);
+        runSimulation(isFirstLayout ? ALPHA_START : 0.3);
+    }, [visibleNotes]);
+
+    useEffect(() => () => {
+        if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    }, []);
+
+    const centreView = () => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        setTransform({ x: (rect?.width || 0) / 2, y: (rect?.height || 0) / 2, scale: 1 });
+    };
+
+    useEffect(centreView, []);
+
+    const toGraphPoint = (clientX: number, clientY: number) => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return { x: (clientX - rect.left - transform.x) / transform.scale, y: (clientY - rect.top - transform.y) / transform.scale };
+    };
+
+    const zoomAround = (newScale: number, screenX: number, screenY: number) => {
+        setTransform(prev => {
+            const scale = Math.min(Math.max(newScale, MIN_SCALE), MAX_SCALE);
+            return {
+                x: screenX - (screenX - prev.x) * (scale / prev.scale),
+                y: screenY - (screenY - prev.y) * (scale / prev.scale),
+                scale,
+            };
+        });
+    };
+
+    const handleWheel = (e: React.WheelEvent) => {
+        e.preventDefault();
+        const rect = svgRef.current!.getBoundingClientRect();
+        zoomAround(transform.scale * Math.exp(e.deltaY * -0.002), e.clientX - rect.left, e.clientY - rect.top);
+    };
+
+    const handleZoom = (direction: 'in' | 'out') => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        zoomAround(direction === 'in' ? transform.scale * 1.2 : transform.scale / 1.2, rect.width / 2, rect.height / 2);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent, node?: GraphNode) => {
+        e.stopPropagation();
+        svgRef.current?.setPointerCapture(e.pointerId);
+        pointerRef.current = node
+            ? { type: 'node', node, startX: e.clientX, startY: e.clientY, moved: false }
+            : { type: 'pan', startX: e.clientX, startY: e.clientY, originX: transform.x, originY: transform.y };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const pointer = pointerRef.current;
+        if (!pointer) return;
+        if (pointer.type === 'pan') {
+            setTransform(prev => ({ ...prev, x: pointer.originX + e.clientX - pointer.startX, y: pointer.originY + e.clientY - pointer.startY }));
+            return;
+        }
+        if (!pointer.moved && Math.hypot(e.clientX - pointer.startX, e.clientY - pointer.startY) < DRAG_THRESHOLD) return;
+        pointer.moved = true;
+        const point = toGraphPoint(e.clientX, e.clientY);
+        pointer.node.pinned = true;
+        pointer.node.x = point.x;
+        pointer.node.y = point.y;
+        runSimulation(0.3);
+    };
+
+    const handlePointerUp = () => {
+        const pointer = pointerRef.current;
+        pointerRef.current = null;
+        if (pointer?.type !== 'node') return;
+        pointer.node.pinned = false;
+        if (!pointer.moved) onViewNote(pointer.node.note);
+    };
+
+    const graph = graphRef.current;
+    const nodesById = new Map<string, GraphNode>(graph.nodes.map(node => [node.id, node]));
+    const focusIds = hoveredId ? neighbourIds(graph, hoveredId) : null;
+
+    return (
+        <div className="absolute inset-0">
+            <div className="absolute top-2 left-2 sm:top-4 sm:left-4 z-10 flex flex-wrap items-center gap-2 text-amber-800 dark:text-amber-200">
+                <label className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-md rounded-full shadow flex items-center gap-1.5 py-1 px-2 text-sm">
+                    <TagIcon className="w-4 h-4" />
+                    <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className="bg-transparent focus:outline-none" aria-label="Show notes with tag">
+                        <option value="">All notes</option>
+                        {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                    </select>
+                </label>
+                <div className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-md rounded-full shadow flex items-center gap-3 py-1 px-3 text-sm">
+                    {(Object.keys(EDGE_STYLES) as GraphEdgeKind[]).map(kind => (
+                        <span key={kind} className="flex items-center gap-1">
+                            <svg width="20" height="6" aria-hidden="true">
+                                <line x1="0" y1="3" x2="20" y2="3" strokeWidth="2" strokeDasharray={EDGE_STYLES[kind].dash} className={EDGE_STYLES[kind].className} />
+                            </svg>
+                            {EDGE_STYLES[kind].label}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            {graph.nodes.length === 0 && (
+                <p className="absolute inset-0 flex items-center justify-center text-xl text-amber-700 pointer-events-none">No notes with this tag.</p>
+            )}
+
+            <svg
+                ref={svgRef}
+                className="w-full h-full touch-none cursor-grab active:cursor-grabbing select-none"
+                onPointerDown={(e) => handlePointerDown(e)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onWheel={handleWheel}
+            >
+                <g transform={`translate(${transform.x} ${transform.y}) scale(${transform.scale})`}>
+                    {graph.edges.map(edge => {
+                        const source = nodesById.get(edge.source)!;
+                        const target = nodesById.get(edge.target)!;
+                        const style = edgeStyle(edge.kinds);
+                        const isDimmed = focusIds && !(focusIds.has(edge.source) && focusIds.has(edge.target) && (edge.source === hoveredId || edge.target === hoveredId));
+                        return (
+                            <line
+                                key={`${edge.source}|${edge.target}`}
+                                x1={source.x}
+                                y1={source.y}
+                                x2={target.x}
+                                y2={target.y}
+                                strokeWidth={edge.kinds.length > 1 ? 2.5 : 1.5}
+                                strokeDasharray={style.dash}
+                                className={`${style.className} transition-opacity ${isDimmed ? 'opacity-10' : 'opacity-70'}`}
+                            />
+                        );
+                    })}
+                    {graph.nodes.map(node => {
+                        const radius = nodeRadius(node);
+                        const isDimmed = focusIds && !focusIds.has(node.id);
+                        const showLabel = transform.scale >= LABEL_MIN_SCALE || (focusIds?.has(node.id) ?? false);
+                        return (
+                            <g
+                                key={node.id}
+                                transform={`translate(${node.x} ${node.y})`}
+                                className={`cursor-pointer transition-opacity ${isDimmed ? 'opacity-20' : ''}`}
+                                onPointerDown={(e) => handlePointerDown(e, node)}
+                                onPointerEnter={() => setHoveredId(node.id)}
+                                onPointerLeave={() => setHoveredId(prev => (prev === node.id ? null : prev))}
+                            >
+                                <circle r={radius} strokeWidth={node.id === hoveredId ? 3 : 1.5} className={`${node.note.color.replace(/^bg-/, 'fill-')} stroke-amber-700`} />
+                                {node.note.is_pinned && <circle r={3} className="fill-amber-700" />}
+                                {showLabel && (
+                                    <text y={radius + 14} textAnchor="middle" className="fill-amber-900 dark:fill-amber-100 text-[13px] pointer-events-none">
+                                        {nodeLabel(node.note)}
+                                    </text>
+                                )}
+                                <title>{htmlToPlainText(node.note.text).trim() || 'Untitled note'}</title>
+                            </g>
+                        );
+                    })}
+                </g>
+            </svg>
+
+            <CanvasControls onZoom={handleZoom} onResetView={centreView} onTidy={() => runSimulation(ALPHA_START)} />
+        </div>
+    );
+};
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Note, NoteRevision } from '../types';
+import { fetchNoteRevisions, diffWords, htmlToPlainText } from '../services/noteHistory';
+import { LoaderIcon, RotateCcwIcon } from './icons';
+
+interface NoteHistoryPanelProps {
+    note: Note;
+    onRestore: (revision: NoteRevision) => Promise<void>;
+}
+
+const formatRevision = (revision: NoteRevision) => `v${revision.revision} · ${new Date(revision.created_at).toLocaleString()}`;
+
+export const NoteHistoryPanel: React.FC<NoteHistoryPanelProps> = ({ note, onRestore }) => {
+    const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [fromRevision, setFromRevision] = useState<number | null>(null);
+    const [toRevision, setToRevision] = useState<number | null>(null);
+    const [restoringRevision, setRestoringRevision] = useState<number | null>(null);
+
+    // Reload whenever the note gets a new revision, including after a restore.
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        fetchNoteRevisions(note.id)
+            .then(data => {
+                if (cancelled) return;
+                setRevisions(data);
+                setToRevision(data[0]?.revision ?? null);
+                setFromRevision(data[1]?.revision ?? data[0]?.revision ?? null);
+                setError(null);
+            })
+            .catch(err => {
+                if (!cancelled) setError(err.message);
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, [note.id, note.revision]);
+
+    const diff = useMemo(() => {
+        const from = revisions.find(r => r.revision === fromRevision);
+        const to = revisions.find(r => r.revision === toRevision);
+        if (!from || !to) return [];
+        return diffWords(htmlToPlainText(from.text), htmlToPlainText(to.text));
+    }, [revisions, fromRevision, toRevision]);
+
+    const handleRestore = async (revision: NoteRevision) => {
+        setRestoringRevision(revision.revision);
+        try {
+            await onRestore(revision);
+        } finally {
+            setRestoringRevision(null);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center gap-2 text-amber-700 themed-modal-text">
+                <LoaderIcon className="w-5 h-5 animate-spin" /> Loading history...
+            </div>
+        );
+    }
+    if (error) {
+        return <p className="text-red-600">Could not load history: {error}</p>;
+    }
+    if (revisions.length === 0) {
+        return <p className="text-amber-700 themed-modal-text-alt">No earlier versions of this note yet.</p>;
+    }
+
+    const selectClassName = "bg-transparent border border-amber-300 rounded-md px-2 py-1 text-base text-amber-900 focus:outline-none focus:border-amber-500 themed-modal-input-bg themed-modal-text";
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-base text-amber-800 themed-modal-text">
+                <span>Compare</span>
+                <select value={fromRevision ?? ''} onChange={e => setFromRevision(Number(e.target.value))} className={selectClassName} aria-label="Older version">
+                    {revisions.map(r => <option key={r.id} value={r.revision}>{formatRevision(r)}</option>)}
+                </select>
+                <span>with</span>
+                <select value={toRevision ?? ''} onChange={e => setToRevision(Number(e.target.value))} className={selectClassName} aria-label="Newer version">
+                    {revisions.map(r => <option key={r.id} value={r.revision}>{formatRevision(r)}</option>)}
+                </select>
+            </div>
+
+            <div className="p-3 rounded-md border border-amber-200 bg-white/60 text-amber-900 text-base sm:text-lg leading-relaxed whitespace-pre-wrap themed-modal-text-alt">
+                {diff.length === 0 || diff.every(part => part.type === 'same' && !part.value.trim())
+                    ? <span className="italic text-amber-600">No text changes between these versions.</span>
+                    : diff.map((part, i) => (
+                        <span
+                            key={i}
+                            className={part.type === 'added' ? 'bg-lime-200 text-lime-900' : part.type === 'removed' ? 'bg-rose-200 text-rose-900 line-through' : undefined}
+                        >
+                            {part.value}
+                        </span>
+                    ))}
+            </div>
+
+            <ul className="space-y-1">
+                {revisions.map((revision, index) => (
+                    <li key={revision.id} className="flex items-center justify-between gap-2 text-base text-amber-800 themed-modal-text">
+                        <span>{formatRevision(revision)}{index === 0 && ' (current)'}</span>
+                        {index > 0 && (
+                            <button
+                                type="button"
+                                onClick={() => handleRestore(revision)}
+                                disabled={restoringRevision !== null}
+                                className="flex items-center gap-1 text-sm font-bold text-amber-700 hover:text-amber-900 disabled:opacity-50 themed-modal-button"
+                            >
+                                {restoringRevision === revision.revision
+                                    ? <LoaderIcon className="w-4 h-4 animate-spin" />
+                                    : <RotateCcwIcon className="w-4 h-4" />}
+                                Restore
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
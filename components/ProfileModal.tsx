@@ -136,7 +136,7 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ notes, userProfile,
                     <section>
                         <div className="border-2 border-red-300 dark:border-red-500/50 bg-red-50 dark:bg-red-900/20 p-4 rounded-lg space-y-3">
                              <h3 className="text-xl font-bold text-red-700 dark:text-red-400 flex items-center gap-2"><AlertTriangleIcon className="w-5 h-5"/> Danger Zone</h3>
-                             <p className="text-red-600 dark:text-red-300 text-base">This action is irreversible. All your notes will be permanently deleted.</p>
+                             <p className="text-red-600 dark:text-red-300 text-base">All your notes will be moved to the Trash, where they can be restored until they are purged.</p>
                              <button onClick={onDeleteAll} className="bg-red-600 text-white text-sm font-bold py-1.5 px-3 rounded-lg hover:bg-red-700 transition duration-300">
                                 Delete All Notes
                              </button>
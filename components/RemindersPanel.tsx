@@ -0,0 +1,61 @@
+import React from 'react';
+import { SNOOZE_MINUTES } from '../services/reminders';
+import type { Reminder } from '../services/reminders';
+import { BellIcon, CheckSquareIcon, CloseIcon } from './icons';
+
+interface RemindersPanelProps {
+    reminders: Reminder[];
+    onClose: () => void;
+    onOpen: (reminder: Reminder) => void;
+    onSnooze: (reminder: Reminder) => void;
+    onClear: (reminder: Reminder) => void;
+}
+
+export const RemindersPanel: React.FC<RemindersPanelProps> = ({ reminders, onClose, onOpen, onSnooze, onClear }) => {
+    const now = Date.now();
+
+    return (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4" aria-modal="true">
+            <div className="relative bg-white/95 shadow-2xl rounded-2xl p-4 sm:p-6 w-full max-w-2xl border border-amber-200 animate-fade-in-up max-h-[90vh] flex flex-col themed-modal-bg">
+                <header className="flex justify-between items-center pb-3 border-b border-amber-300/50 mb-4 flex-shrink-0">
+                    <div className="flex items-center gap-3">
+                        <BellIcon className="w-8 h-8 text-amber-700 themed-modal-text" />
+                        <h2 className="text-2xl sm:text-3xl text-amber-800 themed-modal-text">Reminders</h2>
+                    </div>
+                    <button type="button" onClick={onClose} className="text-amber-600 hover:text-amber-900 themed-modal-text z-10" aria-label="Close reminders">
+                        <CloseIcon className="w-7 h-7" />
+                    </button>
+                </header>
+
+                {reminders.length === 0 ? (
+                    <p className="text-center text-xl text-amber-600 py-10 themed-modal-text-alt">No reminders set. Add one from a note or from the task board.</p>
+                ) : (
+                    <ul className="space-y-2 overflow-y-auto thin-scrollbar pr-2 -mr-2">
+                        {reminders.map(reminder => {
+                            const isDue = Date.parse(reminder.at) <= now;
+                            return (
+                                <li key={reminder.id} className="flex flex-wrap items-center gap-2 p-3 rounded-lg border border-black/10 bg-white/60">
+                                    {reminder.kind === 'task'
+                                        ? <CheckSquareIcon className="w-5 h-5 text-amber-700 flex-shrink-0" />
+                                        : <BellIcon className="w-5 h-5 text-amber-700 flex-shrink-0" />}
+                                    <button type="button" onClick={() => onOpen(reminder)} className="flex-1 min-w-[10rem] text-left">
+                                        <p className="text-amber-900 text-lg truncate hover:underline">{reminder.title}</p>
+                                        <p className={`text-sm ${isDue ? 'text-red-700 font-bold' : 'text-amber-700'}`}>
+                                            {new Date(reminder.at).toLocaleString()}{isDue && ' · due'}
+                                        </p>
+                                    </button>
+                                    <button type="button" onClick={() => onSnooze(reminder)} className="text-sm font-bold text-amber-700 hover:text-amber-900 p-1.5 themed-modal-button">
+                                        Snooze {SNOOZE_MINUTES} min
+                                    </button>
+                                    <button type="button" onClick={() => onClear(reminder)} className="text-sm font-bold text-red-600 hover:text-red-800 p-1.5">
+                                        Clear
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
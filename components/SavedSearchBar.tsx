@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { SavedSearch } from '../types';
+import { BookmarkIcon, CloseIcon, PlusIcon } from './icons';
+
+interface SavedSearchBarProps {
+    searches: SavedSearch[];
+    counts: Map<string, number>;
+    activeId: string | null;
+    // Saving only makes sense when there is a search term or tag filter to save.
+    canSave: boolean;
+    onApply: (search: SavedSearch) => void;
+    onSave: (name: string) => Promise<void>;
+    onDelete: (id: string) => void;
+}
+
+export const SavedSearchBar: React.FC<SavedSearchBarProps> = ({ searches, counts, activeId, canSave, onApply, onSave, onDelete }) => {
+    const [isNaming, setIsNaming] = useState(false);
+    const [name, setName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    if (searches.length === 0 && !canSave) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        setIsSaving(true);
+        try {
+            await onSave(name.trim());
+            setName('');
+            setIsNaming(false);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap justify-center items-center gap-2 max-w-3xl mx-auto">
+            <BookmarkIcon className="w-5 h-5 themed-filters-text" />
+            {searches.map(search => (
+                <span
+                    key={search.id}
+                    className={`group flex items-center gap-1 text-base pl-2.5 pr-1 py-0.5 rounded-full border transition-colors duration-200 ${search.id === activeId ? 'bg-amber-700 text-white border-amber-700 themed-tag-button-active' : 'bg-white/60 text-amber-700 border-amber-300 hover:bg-amber-100 themed-tag-button'}`}
+                >
+                    <button onClick={() => onApply(search)} title={[search.query, ...search.tags.map(tag => `#${tag}`)].filter(Boolean).join(' ')}>
+                        {search.name} <span className="opacity-70">({counts.get(search.id) ?? 0})</span>
+                    </button>
+                    <button onClick={() => onDelete(search.id)} className="opacity-50 hover:opacity-100" aria-label={`Delete saved search ${search.name}`}>
+                        <CloseIcon className="w-3.5 h-3.5" />
+                    </button>
+                </span>
+            ))}
+            {canSave && !activeId && (isNaming ? (
+                <form onSubmit={handleSubmit} className="flex items-center gap-1">
+                    <input
+                        autoFocus
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Escape') setIsNaming(false); }}
+                        placeholder="Collection name"
+                        maxLength={40}
+                        className="text-base px-2.5 py-0.5 rounded-full border border-amber-300 bg-white/80 focus:outline-none focus:border-amber-500 themed-search-input"
+                    />
+                    <button type="submit" disabled={isSaving || !name.trim()} className="text-base font-bold text-amber-700 hover:text-amber-900 disabled:opacity-50 themed-tag-button-clear">Save</button>
+                    <button type="button" onClick={() => setIsNaming(false)} className="text-base text-amber-600 hover:underline themed-tag-button-clear">Cancel</button>
+                </form>
+            ) : (
+                <button onClick={() => setIsNaming(true)} className="flex items-center gap-1 text-base text-amber-700 hover:underline themed-tag-button-clear">
+                    <PlusIcon className="w-4 h-4" /> Save search
+                </button>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,103 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { currentToken, searchSuggestions } from '../services/searchQuery';
+import { SearchIcon, SparklesIcon } from './icons';
+
+interface SearchBarProps {
+    value: string;
+    onChange: (value: string) => void;
+    allTags: string[];
+    isSemantic: boolean;
+    onToggleSemantic: () => void;
+}
+
+export const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, allTags, isSemantic, onToggleSemantic }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [cursor, setCursor] = useState(0);
+    const [isFocused, setIsFocused] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+
+    const { token, start } = useMemo(() => currentToken(value, cursor), [value, cursor]);
+    const suggestions = useMemo(() => (isFocused ? searchSuggestions(token, allTags) : []), [isFocused, token, allTags]);
+
+    const updateCursor = () => setCursor(inputRef.current?.selectionStart ?? value.length);
+
+    const applySuggestion = (insert: string) => {
+        const before = value.slice(0, start) + insert;
+        const after = value.slice(start + token.length).replace(/^\s+/, insert.endsWith(' ') ? '' : ' ');
+        onChange(before + after);
+        setHighlighted(0);
+        setCursor(before.length);
+        // Put the caret right after the completion once React has updated the input.
+        requestAnimationFrame(() => {
+            inputRef.current?.focus();
+            inputRef.current?.setSelectionRange(before.length, before.length);
+        });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (suggestions.length === 0) return;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            applySuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)].insert);
+        } else if (e.key === 'Escape') {
+            setIsFocused(false);
+        }
+    };
+
+    return (
+        <div className="relative max-w-2xl mx-auto">
+            <SearchIcon className="absolute left-3 sm:left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-amber-500 pointer-events-none" />
+            <input
+                ref={inputRef}
+                type="search"
+                placeholder={isSemantic ? "Describe what you're looking for..." : "Search, or try tag:work has:audio is:pinned..."}
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    setCursor(e.target.selectionStart ?? e.target.value.length);
+                    setHighlighted(0);
+                    setIsFocused(true);
+                }}
+                onKeyDown={handleKeyDown}
+                onKeyUp={updateCursor}
+                onClick={updateCursor}
+                onFocus={() => { setIsFocused(true); updateCursor(); }}
+                onBlur={() => setIsFocused(false)}
+                className="w-full text-base sm:text-xl p-1.5 sm:p-3 pl-9 sm:pl-12 pr-11 sm:pr-14 rounded-full border-2 border-amber-300 focus:border-amber-500 focus:ring-2 focus:ring-amber-300 transition duration-300 themed-search-input"
+                aria-autocomplete="list"
+                aria-expanded={suggestions.length > 0}
+            />
+            <button
+                type="button"
+                onClick={onToggleSemantic}
+                className={`absolute right-2 sm:right-3 top-1/2 -translate-y-1/2 p-1.5 rounded-full transition-colors duration-200 ${isSemantic ? 'bg-amber-700 text-white' : 'text-amber-500 hover:bg-amber-100'}`}
+                title={isSemantic ? "Semantic search on: matching by meaning" : "Search by meaning"}
+                aria-pressed={isSemantic}
+            >
+                <SparklesIcon className="w-4 h-4 sm:w-5 sm:h-5" />
+            </button>
+            {suggestions.length > 0 && (
+                <ul className="absolute left-0 right-0 top-full mt-1 z-30 bg-white/95 border border-amber-200 rounded-xl shadow-lg py-1 overflow-hidden themed-modal-bg" role="listbox">
+                    {suggestions.map((suggestion, index) => (
+                        <li
+                            key={suggestion.insert}
+                            role="option"
+                            aria-selected={index === highlighted}
+                            // mousedown fires before the input's blur, which would close the list first.
+                            onMouseDown={(e) => { e.preventDefault(); applySuggestion(suggestion.insert); }}
+                            onMouseEnter={() => setHighlighted(index)}
+                            className={`flex items-baseline justify-between gap-3 px-4 py-1.5 cursor-pointer text-base sm:text-lg ${index === highlighted ? 'bg-amber-100' : ''}`}
+                        >
+                            <span className="text-amber-900 themed-modal-text">{suggestion.label}</span>
+                            {suggestion.description && <span className="text-sm text-amber-600 themed-modal-text-alt truncate">{suggestion.description}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
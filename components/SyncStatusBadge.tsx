@@ -0,0 +1,26 @@
+import React from 'react';
+import type { NoteSyncStatus } from '../types';
+import { CloudOffIcon, AlertTriangleIcon } from './icons';
+
+interface SyncStatusBadgeProps {
+    status?: NoteSyncStatus;
+    className?: string;
+}
+
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status, className = '' }) => {
+    if (!status || status === 'synced') return null;
+
+    if (status === 'error') {
+        return (
+            <div className={`flex items-center gap-1 bg-red-500/80 text-white text-xs px-2 py-0.5 rounded-full ${className}`} title="This change was rejected by the server and was not saved.">
+                <AlertTriangleIcon className="w-3.5 h-3.5" /> Sync failed
+            </div>
+        );
+    }
+
+    return (
+        <div className={`flex items-center gap-1 bg-gray-500/70 text-white text-xs px-2 py-0.5 rounded-full ${className}`} title="Saved on this device. Will sync when you're back online.">
+            <CloudOffIcon className="w-3.5 h-3.5" /> Not synced
+        </div>
+    );
+};
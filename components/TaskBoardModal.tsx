@@ -0,0 +1,176 @@
+import React, { useState, useMemo } from 'react';
+import type { Note, Task, TaskPriority } from '../types';
+import { htmlToPlainText } from '../services/noteHistory';
+import { toLocalInputValue, fromLocalInputValue } from '../services/reminders';
+import { localDay } from '../services/timeline';
+import { CheckSquareIcon, CloseIcon, PlusIcon, TrashIcon } from './icons';
+
+interface TaskBoardModalProps {
+    tasks: Task[];
+    notes: Note[];
+    onClose: () => void;
+    onToggle: (task: Task) => void;
+    onUpdate: (id: string, update: Partial<Task>) => void;
+    onDelete: (id: string) => void;
+    onSetReminder: (id: string, remindAt: string | null) => void;
+    onAdd: (text: string, dueDate: string | null) => Promise<void>;
+    onOpenNote: (note: Note) => void;
+}
+
+type GroupKey = 'overdue' | 'today' | 'week' | 'later' | 'none' | 'done';
+
+const GROUPS: { key: GroupKey; title: string }[] = [
+    { key: 'overdue', title: 'Overdue' },
+    { key: 'today', title: 'Today' },
+    { key: 'week', title: 'Next 7 days' },
+    { key: 'later', title: 'Later' },
+    { key: 'none', title: 'No due date' },
+    { key: 'done', title: 'Completed' },
+];
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = { high: 0, normal: 1, low: 2 };
+const PRIORITY_CLASSES: Record<TaskPriority, string> = {
+    high: 'text-red-700 border-red-300',
+    normal: 'text-amber-700 border-amber-300',
+    low: 'text-sky-700 border-sky-300',
+};
+
+// Due dates are calendar days, so compare them as local YYYY-MM-DD strings.
+const groupFor = (task: Task, today: string, weekEnd: string): GroupKey => {
+    if (task.done) return 'done';
+    if (!task.due_date) return 'none';
+    if (task.due_date < today) return 'overdue';
+    if (task.due_date === today) return 'today';
+    return task.due_date <= weekEnd ? 'week' : 'later';
+};
+
+export const TaskBoardModal: React.FC<TaskBoardModalProps> = ({ tasks, notes, onClose, onToggle, onUpdate, onDelete, onSetReminder, onAdd, onOpenNote }) => {
+    const [newTaskText, setNewTaskText] = useState('');
+    const [newTaskDue, setNewTaskDue] = useState('');
+    const [showCompleted, setShowCompleted] = useState(false);
+    const notesById = useMemo(() => new Map(notes.map(note => [note.id, note])), [notes]);
+
+    const groups = useMemo(() => {
+        const now = new Date();
+        const today = localDay(now);
+        const weekEnd = localDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 7));
+        const grouped = new Map<GroupKey, Task[]>(GROUPS.map(group => [group.key, []]));
+        // Tasks of notes in the Trash stay out of the way until the note is restored.
+        tasks
+            .filter(task => !task.note_id || notesById.has(task.note_id))
+            .forEach(task => grouped.get(groupFor(task, today, weekEnd))!.push(task));
+        grouped.forEach((list, key) => list.sort((a, b) => key === 'done'
+            ? (b.completed_at || '').localeCompare(a.completed_at || '')
+            : (a.due_date || '').localeCompare(b.due_date || '') || PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]));
+        return grouped;
+    }, [tasks, notesById]);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newTaskText.trim()) return;
+        await onAdd(newTaskText.trim(), newTaskDue || null);
+        setNewTaskText('');
+        setNewTaskDue('');
+    };
+
+    const inputClassName = "bg-transparent border border-amber-300 rounded-md px-2 py-1 text-base text-amber-900 focus:outline-none focus:border-amber-500 themed-modal-input-bg themed-modal-text";
+
+    return (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4" aria-modal="true">
+            <div className="relative bg-white/95 shadow-2xl rounded-2xl p-4 sm:p-6 w-full max-w-3xl border border-amber-200 animate-fade-in-up max-h-[90vh] flex flex-col themed-modal-bg">
+                <header className="flex justify-between items-center pb-3 border-b border-amber-300/50 mb-4 flex-shrink-0">
+                    <div className="flex items-center gap-3">
+                        <CheckSquareIcon className="w-8 h-8 text-amber-700 themed-modal-text" />
+                        <h2 className="text-2xl sm:text-3xl text-amber-800 themed-modal-text">Tasks</h2>
+                    </div>
+                    <button type="button" onClick={onClose} className="text-amber-600 hover:text-amber-900 themed-modal-text z-10" aria-label="Close tasks">
+                        <CloseIcon className="w-7 h-7" />
+                    </button>
+                </header>
+
+                <form onSubmit={handleAdd} className="flex flex-wrap gap-2 mb-4 flex-shrink-0">
+                    <input value={newTaskText} onChange={(e) => setNewTaskText(e.target.value)} placeholder="Add a task..." className={`flex-1 min-w-[12rem] ${inputClassName}`} />
+                    <input type="date" value={newTaskDue} onChange={(e) => setNewTaskDue(e.target.value)} className={inputClassName} aria-label="Due date" />
+                    <button type="submit" disabled={!newTaskText.trim()} className="flex items-center gap-1 bg-amber-600 text-white text-base font-bold py-1.5 px-3 rounded-full hover:bg-amber-700 transition disabled:opacity-50">
+                        <PlusIcon className="w-4 h-4" /> Add
+                    </button>
+                </form>
+
+                <div className="space-y-4 overflow-y-auto thin-scrollbar pr-2 -mr-2">
+                    {GROUPS.map(({ key, title }) => {
+                        const list = groups.get(key)!;
+                        if (list.length === 0) return null;
+                        const isCollapsed = key === 'done' && !showCompleted;
+                        return (
+                            <section key={key}>
+                                <h3 className={`text-lg font-bold mb-1 themed-modal-text ${key === 'overdue' ? 'text-red-700' : 'text-amber-800'}`}>
+                                    {key === 'done' ? (
+                                        <button type="button" onClick={() => setShowCompleted(prev => !prev)} className="hover:underline">
+                                            {title} ({list.length}) {isCollapsed ? '▸' : '▾'}
+                                        </button>
+                                    ) : `${title} (${list.length})`}
+                                </h3>
+                                {!isCollapsed && (
+                                    <ul className="space-y-1.5">
+                                        {list.map(task => {
+                                            const note = task.note_id ? notesById.get(task.note_id) : undefined;
+                                            return (
+                                                <li key={task.id} className="flex flex-wrap items-center gap-2 p-2 rounded-lg border border-black/10 bg-white/60">
+                                                    <input type="checkbox" checked={task.done} onChange={() => onToggle(task)} className="w-5 h-5 accent-amber-600" aria-label={`Mark "${task.text}" ${task.done ? 'not done' : 'done'}`} />
+                                                    <div className="flex-1 min-w-[10rem]">
+                                                        <p className={`text-lg text-amber-900 ${task.done ? 'line-through opacity-60' : ''}`}>{task.text}</p>
+                                                        {note && (
+                                                            <button type="button" onClick={() => onOpenNote(note)} className="text-sm text-amber-600 hover:underline truncate max-w-full">
+                                                                from “{htmlToPlainText(note.text).slice(0, 40) || 'Untitled note'}”
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                    <input
+                                                        type="date"
+                                                        value={task.due_date || ''}
+                                                        onChange={(e) => onUpdate(task.id, { due_date: e.target.value || null })}
+                                                        className={`text-sm ${inputClassName}`}
+                                                        aria-label="Due date"
+                                                    />
+                                                    {!task.done && (
+                                                        <input
+                                                            type="datetime-local"
+                                                            value={toLocalInputValue(task.remind_at)}
+                                                            onChange={(e) => onSetReminder(task.id, fromLocalInputValue(e.target.value))}
+                                                            className={`text-sm ${inputClassName}`}
+                                                            aria-label="Remind me"
+                                                            title="Remind me"
+                                                        />
+                                                    )}
+                                                    <select
+                                                        value={task.priority}
+                                                        onChange={(e) => onUpdate(task.id, { priority: e.target.value as TaskPriority })}
+                                                        className={`text-sm bg-transparent border rounded-md px-1 py-1 focus:outline-none ${PRIORITY_CLASSES[task.priority]}`}
+                                                        aria-label="Priority"
+                                                    >
+                                                        <option value="high">High</option>
+                                                        <option value="normal">Normal</option>
+                                                        <option value="low">Low</option>
+                                                    </select>
+                                                    {/* Checklist tasks come from the note's text; remove them by editing the note. */}
+                                                    {task.source !== 'checklist' && (
+                                                        <button type="button" onClick={() => onDelete(task.id)} className="text-red-600 hover:text-red-800 p-1" title="Delete task">
+                                                            <TrashIcon className="w-4 h-4" />
+                                                        </button>
+                                                    )}
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                )}
+                            </section>
+                        );
+                    })}
+                    {tasks.length === 0 && (
+                        <p className="text-center text-xl text-amber-600 py-10 themed-modal-text-alt">No tasks yet. Add one above, tick a checklist in a note, or let AI find tasks in a note.</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,155 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import type { Note, Task } from '../types';
+import { timelineEntries, groupByPeriod, entriesByDay, monthGrid, shiftMonth, localDay } from '../services/timeline';
+import type { TimelineEntry, TimelineScale } from '../services/timeline';
+import { htmlToPlainText } from '../services/noteHistory';
+import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon } from './icons';
+
+interface TimelineViewProps {
+    notes: Note[];
+    tasks: Task[];
+    onViewNote: (note: Note) => void;
+}
+
+type TimelineLayout = TimelineScale | 'calendar';
+
+const LAYOUTS: { key: TimelineLayout; label: string }[] = [
+    { key: 'day', label: 'Day' },
+    { key: 'week', label: 'Week' },
+    { key: 'month', label: 'Month' },
+    { key: 'calendar', label: 'Calendar' },
+];
+
+const MAX_ENTRIES_PER_CELL = 3;
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const NoteChip: React.FC<{ entry: TimelineEntry; compact?: boolean; onView: (note: Note) => void }> = ({ entry, compact, onView }) => {
+    const text = htmlToPlainText(entry.note.text) || 'Untitled note';
+    return (
+        <button
+            type="button"
+            onClick={() => onView(entry.note)}
+            className={`w-full text-left rounded-md border border-black/10 shadow-sm hover:shadow-md transition ${entry.note.color} ${compact ? 'px-1.5 py-0.5 text-sm truncate' : 'p-2 text-base'}`}
+            title={entry.reason === 'due' ? `Task due: ${text}` : text}
+        >
+            {entry.reason === 'due' && <span className="font-bold text-red-700 mr-1">Due</span>}
+            {compact ? text : <span className="line-clamp-3 text-amber-900">{text}</span>}
+        </button>
+    );
+};
+
+export const TimelineView: React.FC<TimelineViewProps> = ({ notes, tasks, onViewNote }) => {
+    const [layout, setLayout] = useState<TimelineLayout>('week');
+    // The day the view is centred on: the month shown by the calendar, the column scrolled to otherwise.
+    const [focusDay, setFocusDay] = useState(() => localDay(new Date()));
+    const columnRefs = useRef(new Map<string, HTMLElement>());
+    const today = localDay(new Date());
+
+    const entries = useMemo(() => timelineEntries(notes, tasks), [notes, tasks]);
+    const periods = useMemo(() => (layout === 'calendar' ? [] : groupByPeriod(entries, layout)), [entries, layout]);
+    const byDay = useMemo(() => entriesByDay(entries), [entries]);
+    // The first column that reaches the focus day, or the last one if everything is earlier.
+    const focusedPeriodKey = (periods.find(period => period.end >= focusDay) || periods[periods.length - 1])?.key;
+
+    useEffect(() => {
+        if (focusedPeriodKey) columnRefs.current.get(focusedPeriodKey)?.scrollIntoView({ behavior: 'smooth', inline: 'start', block: 'nearest' });
+    // Scroll when the user jumps or changes scale, not every time a note is edited.
+    }, [focusDay, layout]);
+
+    const gridDays = useMemo(() => monthGrid(focusDay), [focusDay]);
+    const focusMonth = focusDay.slice(0, 7);
+
+    const buttonClassName = "p-1 sm:px-2 rounded-full flex items-center text-sm transition";
+
+    return (
+        <div className="absolute inset-0 flex flex-col p-2 sm:p-4 gap-3">
+            <div className="flex flex-wrap items-center gap-2 text-amber-800 dark:text-amber-200">
+                <div className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-md p-0.5 rounded-full flex items-center shadow">
+                    {LAYOUTS.map(({ key, label }) => (
+                        <button key={key} type="button" onClick={() => setLayout(key)} className={`${buttonClassName} ${layout === key ? 'bg-white dark:bg-gray-900 shadow' : 'opacity-70'}`} aria-pressed={layout === key}>
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <div className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-md rounded-full shadow flex items-center p-0.5 gap-1">
+                    {layout === 'calendar' && (
+                        <button type="button" onClick={() => setFocusDay(shiftMonth(focusDay, -1))} className={`${buttonClassName} hover:bg-black/10 dark:hover:bg-white/10`} aria-label="Previous month">
+                            <ChevronLeftIcon className="w-5 h-5" />
+                        </button>
+                    )}
+                    <button type="button" onClick={() => setFocusDay(today)} className={`${buttonClassName} hover:bg-black/10 dark:hover:bg-white/10`}>
+                        Today
+                    </button>
+                    {layout === 'calendar' && (
+                        <button type="button" onClick={() => setFocusDay(shiftMonth(focusDay, 1))} className={`${buttonClassName} hover:bg-black/10 dark:hover:bg-white/10`} aria-label="Next month">
+                            <ChevronRightIcon className="w-5 h-5" />
+                        </button>
+                    )}
+                </div>
+                <label className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-md rounded-full shadow flex items-center gap-1.5 py-0.5 px-2 text-sm">
+                    <CalendarIcon className="w-4 h-4" />
+                    <span className="hidden sm:inline">Jump to</span>
+                    <input type="date" value={focusDay} onChange={(e) => e.target.value && setFocusDay(e.target.value)} className="bg-transparent focus:outline-none" />
+                </label>
+                {layout === 'calendar' && (
+                    <h2 className="text-xl sm:text-2xl font-bold">
+                        {new Date(`${focusMonth}-01T12:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+                    </h2>
+                )}
+            </div>
+
+            {layout === 'calendar' ? (
+                <div className="flex-1 min-h-0 grid grid-cols-7 grid-rows-[auto_repeat(6,minmax(0,1fr))] gap-1 bg-white/40 dark:bg-gray-800/40 backdrop-blur-sm rounded-xl p-1 shadow">
+                    {WEEKDAYS.map(weekday => (
+                        <div key={weekday} className="text-center text-sm font-bold text-amber-700 dark:text-amber-300">{weekday}</div>
+                    ))}
+                    {gridDays.map(day => {
+                        const dayEntries = byDay.get(day) || [];
+                        const isOtherMonth = !day.startsWith(focusMonth);
+                        return (
+                            <div
+                                key={day}
+                                className={`min-h-0 overflow-hidden rounded-md p-1 flex flex-col gap-0.5 border ${day === focusDay ? 'border-amber-500' : 'border-transparent'} ${isOtherMonth ? 'opacity-50' : 'bg-white/50 dark:bg-gray-900/30'}`}
+                            >
+                                <span className={`text-sm self-end px-1 rounded-full ${day === today ? 'bg-amber-600 text-white' : 'text-amber-800 dark:text-amber-200'}`}>
+                                    {Number(day.slice(8))}
+                                </span>
+                                {dayEntries.slice(0, MAX_ENTRIES_PER_CELL).map(entry => (
+                                    <NoteChip key={`${entry.note.id}:${entry.reason}`} entry={entry} compact onView={onViewNote} />
+                                ))}
+                                {dayEntries.length > MAX_ENTRIES_PER_CELL && (
+                                    <button type="button" onClick={() => { setFocusDay(day); setLayout('day'); }} className="text-xs text-amber-700 dark:text-amber-300 hover:underline text-left">
+                                        +{dayEntries.length - MAX_ENTRIES_PER_CELL} more
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="flex-1 min-h-0 flex gap-3 overflow-x-auto thin-scrollbar pb-2">
+                    {periods.map(period => (
+                        <section
+                            key={period.key}
+                            ref={element => {
+                                if (element) columnRefs.current.set(period.key, element);
+                                else columnRefs.current.delete(period.key);
+                            }}
+                            className={`w-60 sm:w-72 flex-shrink-0 flex flex-col min-h-0 rounded-xl p-2 bg-white/50 dark:bg-gray-800/50 backdrop-blur-sm shadow border-2 ${period.key === focusedPeriodKey ? 'border-amber-500' : 'border-transparent'}`}
+                        >
+                            <h3 className={`text-lg font-bold mb-2 ${period.start <= today && today <= period.end ? 'text-amber-600' : 'text-amber-800 dark:text-amber-200'}`}>
+                                {period.label} <span className="text-sm font-normal">({period.entries.length})</span>
+                            </h3>
+                            <div className="flex-1 min-h-0 overflow-y-auto thin-scrollbar space-y-2 pr-1">
+                                {period.entries.map(entry => (
+                                    <NoteChip key={`${entry.note.id}:${entry.reason}:${entry.day}`} entry={entry} onView={onViewNote} />
+                                ))}
+                            </div>
+                        </section>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -6,7 +6,7 @@ interface ToastProps extends ToastMessage {
   onClose: () => void;
 }
 
-export const Toast: React.FC<ToastProps> = ({ message, type, onClose }) => {
+export const Toast: React.FC<ToastProps> = ({ message, type, action, onClose }) => {
   const [visible, setVisible] = useState(false);
 
   useEffect(() => {
@@ -40,6 +40,14 @@ export const Toast: React.FC<ToastProps> = ({ message, type, onClose }) => {
     >
       <div className="flex items-center justify-between">
         <span>{message}</span>
+        {action && (
+          <button
+            onClick={() => { action.onClick(); handleClose(); }}
+            className="ml-auto pl-4 font-bold underline underline-offset-2 hover:text-amber-100"
+          >
+            {action.label}
+          </button>
+        )}
         <button onClick={handleClose} className="ml-4 p-1 rounded-full hover:bg-black/20" aria-label="Dismiss">
             <CloseIcon className="w-5 h-5" />
         </button>
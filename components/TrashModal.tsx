@@ -0,0 +1,67 @@
+import React from 'react';
+import type { Note } from '../types';
+import { TRASH_RETENTION_DAYS, trashExpiresAt } from '../services/noteRepository';
+import { htmlToPlainText } from '../services/noteHistory';
+import { CloseIcon, RotateCcwIcon, TrashIcon } from './icons';
+
+interface TrashModalProps {
+    notes: Note[];
+    onClose: () => void;
+    onRestore: (id: string) => void;
+    onDeleteForever: (id: string) => void;
+    onEmptyTrash: () => void;
+}
+
+const daysLeft = (note: Note) => Math.max(0, Math.ceil((trashExpiresAt(note).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+export const TrashModal: React.FC<TrashModalProps> = ({ notes, onClose, onRestore, onDeleteForever, onEmptyTrash }) => {
+    const sortedNotes = [...notes].sort((a, b) => (b.deleted_at || '').localeCompare(a.deleted_at || ''));
+
+    return (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4" aria-modal="true">
+            <div className="relative bg-white/95 shadow-2xl rounded-2xl p-4 sm:p-6 w-full max-w-2xl border border-amber-200 animate-fade-in-up max-h-[90vh] flex flex-col themed-modal-bg">
+                <header className="flex justify-between items-center pb-3 border-b border-amber-300/50 mb-4 flex-shrink-0">
+                    <div className="flex items-center gap-3">
+                        <TrashIcon className="w-8 h-8 text-amber-700 themed-modal-text" />
+                        <h2 className="text-2xl sm:text-3xl text-amber-800 themed-modal-text">Trash</h2>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {notes.length > 0 && (
+                            <button onClick={onEmptyTrash} className="bg-red-600 text-white text-sm sm:text-base font-bold py-1.5 px-3 rounded-full hover:bg-red-700 transition duration-300">
+                                Empty Trash
+                            </button>
+                        )}
+                        <button type="button" onClick={onClose} className="text-amber-600 hover:text-amber-900 themed-modal-text z-10" aria-label="Close trash">
+                            <CloseIcon className="w-7 h-7" />
+                        </button>
+                    </div>
+                </header>
+
+                <p className="text-base text-amber-700 mb-3 themed-modal-text-alt">Notes in the Trash are deleted permanently after {TRASH_RETENTION_DAYS} days.</p>
+
+                {sortedNotes.length === 0 ? (
+                    <p className="text-center text-xl text-amber-600 py-10 themed-modal-text-alt">The Trash is empty.</p>
+                ) : (
+                    <ul className="space-y-2 overflow-y-auto thin-scrollbar pr-2 -mr-2">
+                        {sortedNotes.map(note => (
+                            <li key={note.id} className={`flex items-center gap-3 p-3 rounded-lg border border-black/10 ${note.color}`}>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-amber-900 text-lg truncate">{htmlToPlainText(note.text) || 'Untitled note'}</p>
+                                    <p className="text-sm text-amber-700">
+                                        Deleted {note.deleted_at ? new Date(note.deleted_at).toLocaleDateString() : ''} · {daysLeft(note)} days left
+                                    </p>
+                                </div>
+                                <button onClick={() => onRestore(note.id)} className="flex items-center gap-1 text-sm font-bold text-amber-700 hover:text-amber-900 p-1.5" title="Restore note">
+                                    <RotateCcwIcon className="w-4 h-4" /> <span className="hidden sm:inline">Restore</span>
+                                </button>
+                                <button onClick={() => onDeleteForever(note.id)} className="flex items-center gap-1 text-sm font-bold text-red-600 hover:text-red-800 p-1.5" title="Delete forever">
+                                    <TrashIcon className="w-4 h-4" /> <span className="hidden sm:inline">Delete</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
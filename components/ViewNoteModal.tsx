@@ -1,15 +1,36 @@
-import React from 'react';
-import type { Note } from '../types';
-import { CloseIcon, EditIcon, ImageIcon, MicIcon, PencilIcon, TagIcon } from './icons';
+import React, { useState, useMemo } from 'react';
+import type { Note, NoteRevision } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { sanitizeHtml } from '../services/sanitizeHtml';
+import { toLocalInputValue, fromLocalInputValue } from '../services/reminders';
+import { resolveNoteLinks, noteTitle } from '../services/noteLinks';
+import { AttachmentImage } from './AttachmentImage';
+import { NoteHistoryPanel } from './NoteHistoryPanel';
+import { BellIcon, CloseIcon, EditIcon, HistoryIcon, ImageIcon, MicIcon, PencilIcon, TagIcon } from './icons';
 
 interface ViewNoteModalProps {
     note: Note;
     onClose: () => void;
     onEdit: (id: string) => void;
+    onRestoreRevision: (revision: NoteRevision) => Promise<void>;
+    onSetReminder: (remindAt: string | null) => void;
+    // Note id -> current title, for [[links]] in the text.
+    linkTitles: Map<string, string>;
+    // Notes that link to this one.
+    backlinks: Note[];
+    onOpenNote: (id: string) => void;
 }
 
-export const ViewNoteModal: React.FC<ViewNoteModalProps> = ({ note, onClose, onEdit }) => {
+export const ViewNoteModal: React.FC<ViewNoteModalProps> = ({ note, onClose, onEdit, onRestoreRevision, onSetReminder, linkTitles, backlinks, onOpenNote }) => {
+    const [showHistory, setShowHistory] = useState(false);
     const noteHasIcons = note.image_url || note.drawing_url || note.audio_url;
+    const audioSrc = useMediaUrl(note.audio_url);
+    const safeHtml = useMemo(() => resolveNoteLinks(sanitizeHtml(note.text), linkTitles), [note.text, linkTitles]);
+
+    const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const link = (e.target as HTMLElement).closest<HTMLElement>('.note-link[data-note-id]');
+        if (link && !link.classList.contains('note-link-missing')) onOpenNote(link.dataset.noteId!);
+    };
 
     return (
         <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4" aria-modal="true">
@@ -23,9 +44,17 @@ export const ViewNoteModal: React.FC<ViewNoteModalProps> = ({ note, onClose, onE
                                 {note.audio_url && <MicIcon className="w-8 h-8 text-amber-700 themed-modal-text" />}
                             </>
                         ) : <div className={`w-8 h-8 rounded-md ${note.color} border border-black/10`}></div>}
-                        <h2 className="text-2xl sm:text-3xl text-amber-800 themed-modal-text">View Note</h2>
+                        <h2 className="text-2xl sm:text-3xl text-amber-800 themed-modal-text">{showHistory ? 'Note History' : 'View Note'}</h2>
                     </div>
                      <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setShowHistory(prev => !prev)}
+                            className={`flex items-center text-base sm:text-lg font-bold p-2 sm:py-2 sm:px-4 rounded-full border-2 border-amber-600 transition ${showHistory ? 'bg-amber-600 text-white hover:bg-amber-700' : 'text-amber-700 hover:bg-amber-100 themed-modal-button'}`}
+                            aria-pressed={showHistory}
+                        >
+                            <HistoryIcon className="w-5 h-5"/>
+                            <span className="hidden sm:inline sm:ml-2">History</span>
+                        </button>
                         <button
                             onClick={() => onEdit(note.id)}
                             className="flex items-center bg-amber-600 text-white text-base sm:text-lg font-bold p-2 sm:py-2 sm:px-4 rounded-full hover:bg-amber-700 transition"
@@ -39,52 +68,94 @@ export const ViewNoteModal: React.FC<ViewNoteModalProps> = ({ note, onClose, onE
                     </div>
                 </header>
 
-                <div className="space-y-4 overflow-y-auto thin-scrollbar pr-2 -mr-2">
-                    {note.drawing_url && (
-                        <div className="w-full rounded-md overflow-hidden shadow-inner border border-amber-200 bg-white">
-                            <img src={note.drawing_url} alt="User drawing" className="w-full h-auto max-h-64 sm:max-h-96 object-contain" />
-                        </div>
-                    )}
-                    
-                    {note.image_url && (
-                        <div className="w-full rounded-md overflow-hidden shadow-inner border border-amber-200">
-                            <img src={note.image_url} alt="Note illustration" className="w-full h-auto max-h-64 sm:max-h-96 object-cover" />
-                        </div>
-                    )}
+                {showHistory ? (
+                    <div className="overflow-y-auto thin-scrollbar pr-2 -mr-2">
+                        <NoteHistoryPanel note={note} onRestore={onRestoreRevision} />
+                    </div>
+                ) : (
+                    <div className="space-y-4 overflow-y-auto thin-scrollbar pr-2 -mr-2">
+                        {note.drawing_url && (
+                            <div className="w-full rounded-md overflow-hidden shadow-inner border border-amber-200 bg-white">
+                                <AttachmentImage eager path={note.drawing_url} alt="User drawing" className="w-full h-auto max-h-64 sm:max-h-96 object-contain" />
+                            </div>
+                        )}
+                        
+                        {note.image_url && (
+                            <div className="w-full rounded-md overflow-hidden shadow-inner border border-amber-200">
+                                <AttachmentImage eager path={note.image_url} alt="Note illustration" className="w-full h-auto max-h-64 sm:max-h-96 object-cover" />
+                            </div>
+                        )}
 
-                    <div 
-                      className="text-amber-900 text-lg sm:text-xl leading-relaxed [&_ul]:list-disc [&_ul]:pl-8 [&_.checklist-item]:flex [&_.checklist-item]:items-center [&_.checklist-item]:gap-2 [&_.checklist-item_input]:w-5 [&_.checklist-item_input]:h-5 [&_.checklist-item_input]:accent-amber-600 themed-modal-text-alt"
-                      dangerouslySetInnerHTML={{ __html: note.text }}
-                    />
+                        <div 
+                          onClick={handleContentClick}
+                          className="text-amber-900 text-lg sm:text-xl leading-relaxed [&_ul]:list-disc [&_ul]:pl-8 [&_.checklist-item]:flex [&_.checklist-item]:items-center [&_.checklist-item]:gap-2 [&_.checklist-item_input]:w-5 [&_.checklist-item_input]:h-5 [&_.checklist-item_input]:accent-amber-600 themed-modal-text-alt"
+                          dangerouslySetInnerHTML={{ __html: safeHtml }}
+                        />
 
-                    {note.audio_url && (
-                        <div className="pt-2">
-                            <h3 className="text-xl font-bold text-amber-800 mb-2 themed-modal-text">Audio Recording</h3>
-                            <audio controls src={note.audio_url} className="w-full h-12 custom-audio-player" aria-label="Audio player for note"></audio>
-                        </div>
-                    )}
+                        {note.audio_url && (
+                            <div className="pt-2">
+                                <h3 className="text-xl font-bold text-amber-800 mb-2 themed-modal-text">Audio Recording</h3>
+                                <audio controls src={audioSrc || undefined} className="w-full h-12 custom-audio-player" aria-label="Audio player for note"></audio>
+                            </div>
+                        )}
 
-                    {note.summary && (
-                        <div className="text-base sm:text-lg p-3 bg-amber-600/20 rounded-md border border-amber-600/30">
-                            <p className="text-amber-800 font-bold themed-modal-text">✨ AI Summary:</p>
-                            <p className="text-amber-900 themed-modal-text-alt">{note.summary}</p>
-                        </div>
-                    )}
+                        {note.summary && (
+                            <div className="text-base sm:text-lg p-3 bg-amber-600/20 rounded-md border border-amber-600/30">
+                                <p className="text-amber-800 font-bold themed-modal-text">✨ AI Summary:</p>
+                                <p className="text-amber-900 themed-modal-text-alt">{note.summary}</p>
+                            </div>
+                        )}
 
-                    {note.tags && note.tags.length > 0 && (
-                        <div className="flex items-center flex-wrap gap-2 pt-2">
-                            <TagIcon className="w-6 h-6 text-amber-700 themed-modal-text"/>
-                            {note.tags.map(tag => (
-                                <span 
-                                    key={tag}
-                                    className="bg-amber-200/80 text-amber-800 text-base font-semibold px-3 py-1 rounded-full"
-                                >
-                                    #{tag}
-                                </span>
-                            ))}
+                        {note.tags && note.tags.length > 0 && (
+                            <div className="flex items-center flex-wrap gap-2 pt-2">
+                                <TagIcon className="w-6 h-6 text-amber-700 themed-modal-text"/>
+                                {note.tags.map(tag => (
+                                    <span 
+                                        key={tag}
+                                        className="bg-amber-200/80 text-amber-800 text-base font-semibold px-3 py-1 rounded-full"
+                                    >
+                                        #{tag}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+
+                        {backlinks.length > 0 && (
+                            <div className="pt-2">
+                                <h3 className="text-xl font-bold text-amber-800 mb-2 themed-modal-text">Linked from</h3>
+                                <div className="flex flex-wrap gap-2">
+                                    {backlinks.map(source => (
+                                        <button
+                                            key={source.id}
+                                            type="button"
+                                            onClick={() => onOpenNote(source.id)}
+                                            className="bg-violet-200/80 text-violet-800 text-base px-3 py-1 rounded-full hover:bg-violet-300 transition-colors max-w-full truncate"
+                                        >
+                                            {noteTitle(source, 40)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="flex items-center flex-wrap gap-2 pt-2 text-base text-amber-800 themed-modal-text">
+                            <BellIcon className="w-6 h-6 text-amber-700 themed-modal-text" />
+                            <label htmlFor="note-reminder">Remind me</label>
+                            <input
+                                id="note-reminder"
+                                type="datetime-local"
+                                value={toLocalInputValue(note.remind_at)}
+                                onChange={(e) => onSetReminder(fromLocalInputValue(e.target.value))}
+                                className="bg-transparent border border-amber-300 rounded-md px-2 py-1 text-base text-amber-900 focus:outline-none focus:border-amber-500 themed-modal-input-bg themed-modal-text"
+                            />
+                            {note.remind_at && (
+                                <button type="button" onClick={() => onSetReminder(null)} className="text-sm font-bold text-amber-700 hover:text-amber-900 themed-modal-button">
+                                    Clear
+                                </button>
+                            )}
                         </div>
-                    )}
-                </div>
+                    </div>
+                )}
             </div>
         </div>
     );
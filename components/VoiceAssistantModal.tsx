@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { extractTagsFromTranscript } from '../services/geminiService';
+import { extractTagsFromTranscript } from '../services/aiService';
+import { sanitizeHtml } from '../services/sanitizeHtml';
 import type { ToastType } from '../types';
 import { CloseIcon, MicIcon, LoaderIcon, PlusIcon } from './icons';
 
@@ -106,8 +107,6 @@ export const VoiceAssistantModal: React.FC<VoiceAssistantModalProps> = ({ onClos
         }
     };
 
-    const transcriptForDisplay = finalTranscript + (interimTranscript ? ` <span class="text-gray-400">${interimTranscript}</span>` : '');
-
     return (
         <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4" aria-modal="true">
             <div className="bg-white/90 shadow-2xl rounded-2xl p-3 sm:p-6 w-full max-w-2xl border border-amber-200 animate-fade-in-up max-h-[90vh] overflow-y-auto thin-scrollbar themed-modal-bg flex flex-col">
@@ -124,10 +123,16 @@ export const VoiceAssistantModal: React.FC<VoiceAssistantModalProps> = ({ onClos
                     </button>
                 </header>
 
-                <div
-                    className="w-full bg-transparent text-lg sm:text-xl leading-relaxed p-2 min-h-[40vh] flex-grow resize-none overflow-y-auto transition duration-300 focus:outline-none themed-modal-text-alt thin-scrollbar"
-                    dangerouslySetInnerHTML={{ __html: transcriptForDisplay || '<span class="text-gray-400">Start speaking to dictate your note...</span>' }}
-                />
+                <div className="w-full bg-transparent text-lg sm:text-xl leading-relaxed p-2 min-h-[40vh] flex-grow resize-none overflow-y-auto transition duration-300 focus:outline-none themed-modal-text-alt thin-scrollbar">
+                    {finalTranscript || interimTranscript ? (
+                        <>
+                            <span dangerouslySetInnerHTML={{ __html: sanitizeHtml(finalTranscript) }} />
+                            {interimTranscript && <span className="text-gray-400"> {interimTranscript}</span>}
+                        </>
+                    ) : (
+                        <span className="text-gray-400">Start speaking to dictate your note...</span>
+                    )}
+                </div>
 
                 <footer className="flex flex-col sm:flex-row justify-between items-center pt-3 mt-3 sm:pt-4 sm:mt-4 border-t border-amber-300/50 gap-3 sm:gap-4 flex-shrink-0">
                     <p className="text-base text-amber-700 themed-modal-text-alt text-center sm:text-left">Say "tag it urgent" to add a tag.</p>
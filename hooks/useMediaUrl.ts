@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { resolveMediaUrl, isStoredMediaPath } from '../services/mediaStorage';
+
+// Resolves a note's stored media path to a playable URL. Returns null while the URL is being fetched.
+export const useMediaUrl = (pathOrUrl: string | null | undefined): string | null => {
+    const [url, setUrl] = useState<string | null>(() => (pathOrUrl && !isStoredMediaPath(pathOrUrl) ? pathOrUrl : null));
+
+    useEffect(() => {
+        if (!pathOrUrl) {
+            setUrl(null);
+            return;
+        }
+        let cancelled = false;
+        resolveMediaUrl(pathOrUrl)
+            .then(resolved => { if (!cancelled) setUrl(resolved); })
+            .catch(error => {
+                console.error("Could not resolve media URL:", error);
+                if (!cancelled) setUrl(null);
+            });
+        return () => { cancelled = true; };
+    }, [pathOrUrl]);
+
+    return url;
+};
@@ -0,0 +1,106 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Note } from '../types';
+import { fetchNoteEmbeddings, computeNoteEmbeddings, isEmbeddingCurrent, embeddingText, contentHash } from '../services/embeddings';
+import type { EmbeddingMap } from '../services/embeddings';
+
+// Waits for typing to settle before re-embedding edited notes.
+const RECOMPUTE_DELAY_MS = 3000;
+// A note that failed to embed is retried after this, doubling on each failure up to the maximum.
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+interface FailedEmbedding {
+    attempts: number;
+    retryAt: number;
+}
+
+// Failures and in-flight requests are keyed by note and text, so editing a note gives it a fresh attempt.
+const embeddingKey = (note: Note) => `${note.id}:${contentHash(embeddingText(note))}`;
+
+// Keeps an up-to-date embedding for every note. Stored vectors are loaded once per user; notes that are
+// new, edited or embedded by a different model are re-embedded in the background.
+export const useNoteEmbeddings = (userId: string | undefined, notes: Note[]): EmbeddingMap => {
+    const [embeddings, setEmbeddings] = useState<EmbeddingMap>(() => new Map());
+    const [isLoaded, setIsLoaded] = useState(false);
+    // Bumped when a failed note's retry comes due, to look for stale notes again.
+    const [retryTick, setRetryTick] = useState(0);
+    const failuresRef = useRef(new Map<string, FailedEmbedding>());
+    const inFlightRef = useRef(new Set<string>());
+    const userIdRef = useRef(userId);
+    userIdRef.current = userId;
+
+    useEffect(() => {
+        setEmbeddings(new Map());
+        setIsLoaded(false);
+        failuresRef.current.clear();
+        inFlightRef.current.clear();
+        if (!userId) return;
+        let cancelled = false;
+        fetchNoteEmbeddings()
+            .then(stored => { if (!cancelled) setEmbeddings(stored); })
+            .catch(error => console.error("Could not load note embeddings:", error))
+            .finally(() => { if (!cancelled) setIsLoaded(true); });
+        return () => { cancelled = true; };
+    }, [userId]);
+
+    useEffect(() => {
+        if (!isLoaded) return;
+        const now = Date.now();
+        const failures = failuresRef.current;
+        const inFlight = inFlightRef.current;
+        // Notes with no text have nothing to embed; notes already being embedded are left to that request.
+        const needed = notes.filter(note =>
+            embeddingText(note) !== ''
+            && !isEmbeddingCurrent(note, embeddings.get(note.id))
+            && !inFlight.has(embeddingKey(note))
+        );
+        const stale = needed.filter(note => (failures.get(embeddingKey(note))?.retryAt ?? 0) <= now);
+
+        const retryAts = needed.flatMap(note => failures.get(embeddingKey(note))?.retryAt ?? []).filter(retryAt => retryAt > now);
+        const retryTimer = retryAts.length > 0
+            ? window.setTimeout(() => setRetryTick(tick => tick + 1), Math.min(...retryAts) - now)
+            : undefined;
+
+        let timer: number | undefined;
+        if (stale.length > 0) {
+            const recordFailures = (failed: Note[]) => {
+                failed.forEach(note => {
+                    const key = embeddingKey(note);
+                    const attempts = (failures.get(key)?.attempts ?? 0) + 1;
+                    failures.set(key, { attempts, retryAt: Date.now() + Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS) });
+                });
+                if (failed.length > 0) setRetryTick(tick => tick + 1);
+            };
+
+            timer = window.setTimeout(() => {
+                const keys = stale.map(embeddingKey);
+                keys.forEach(key => inFlight.add(key));
+                computeNoteEmbeddings(stale)
+                    .then(rows => {
+                        const embeddedIds = new Set(rows.map(row => row.note_id));
+                        stale.filter(note => embeddedIds.has(note.id)).forEach(note => failures.delete(embeddingKey(note)));
+                        recordFailures(stale.filter(note => !embeddedIds.has(note.id)));
+                        // Kept even if the notes changed meanwhile: each row records the text it was computed
+                        // from, so one that is already out of date is simply embedded again.
+                        if (rows.length === 0 || userIdRef.current !== userId) return;
+                        setEmbeddings(prev => {
+                            const next = new Map(prev);
+                            rows.forEach(row => next.set(row.note_id, row));
+                            return next;
+                        });
+                    })
+                    .catch(error => {
+                        console.error("Could not compute note embeddings:", error);
+                        recordFailures(stale);
+                    })
+                    .finally(() => keys.forEach(key => inFlight.delete(key)));
+            }, RECOMPUTE_DELAY_MS);
+        }
+        return () => {
+            window.clearTimeout(timer);
+            window.clearTimeout(retryTimer);
+        };
+    }, [notes, embeddings, isLoaded, retryTick, userId]);
+
+    return embeddings;
+};
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { scheduleReminders, reminderKey } from '../services/reminders';
+import type { Reminder } from '../services/reminders';
+
+// setTimeout can't wait longer than this; later reminders are re-armed when it fires.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Fires `onDue` for each reminder once its time comes, including ones that came due while the app was
+ * closed. Reminders the service worker already showed go to `onDelivered` instead.
+ */
+export const useReminders = (
+    reminders: Reminder[],
+    onDue: (reminder: Reminder) => void,
+    onDelivered: (reminders: Reminder[]) => void,
+) => {
+    // Read through refs so a new callback identity doesn't reschedule everything.
+    const onDueRef = useRef(onDue);
+    const onDeliveredRef = useRef(onDelivered);
+    onDueRef.current = onDue;
+    onDeliveredRef.current = onDelivered;
+    const firedRef = useRef(new Set<string>());
+    const scheduleKey = reminders.map(reminderKey).join('|');
+
+    useEffect(() => {
+        let cancelled = false;
+        let timer: number | undefined;
+
+        const fireDue = (pending: Reminder[]) => {
+            if (cancelled) return;
+            const now = Date.now();
+            const due = pending.filter(reminder => Date.parse(reminder.at) <= now && !firedRef.current.has(reminderKey(reminder)));
+            due.forEach(reminder => {
+                firedRef.current.add(reminderKey(reminder));
+                onDueRef.current(reminder);
+            });
+            const next = pending.find(reminder => Date.parse(reminder.at) > now);
+            if (next) timer = window.setTimeout(() => fireDue(pending), Math.min(Date.parse(next.at) - now, MAX_TIMER_MS));
+        };
+
+        // Wait for the service worker's answer before firing anything, or a reminder it already showed
+        // would be shown again.
+        scheduleReminders(reminders).then(deliveredKeys => {
+            if (cancelled) return;
+            const delivered = new Set(deliveredKeys);
+            const alreadyShown = reminders.filter(reminder => delivered.has(reminderKey(reminder)));
+            alreadyShown.forEach(reminder => firedRef.current.add(reminderKey(reminder)));
+            if (alreadyShown.length > 0) onDeliveredRef.current(alreadyShown);
+            fireDue(reminders.filter(reminder => !delivered.has(reminderKey(reminder))));
+        });
+
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timer);
+        };
+    // `scheduleKey` changes exactly when a reminder is added, moved or removed.
+    }, [scheduleKey]);
+};
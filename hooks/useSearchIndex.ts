@@ -0,0 +1,48 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Note } from '../types';
+import { createSearchIndexClient } from '../services/searchIndexClient';
+import type { SearchIndexClient } from '../services/searchIndexClient';
+import type { SearchHit } from '../services/searchIndex';
+
+// Hits per query, keyed by the query's terms joined with spaces. A query whose key is missing hasn't been
+// answered yet (or was answered for older notes and is being refreshed).
+export type SearchIndexResults = Map<string, Map<string, SearchHit>>;
+
+export const searchKey = (terms: string[]): string => terms.join(' ');
+
+// Keeps a background full-text index of `notes` and searches it for each list of terms in `queries`.
+export const useSearchIndex = (notes: Note[], queries: string[][]): SearchIndexResults => {
+    const clientRef = useRef<SearchIndexClient | null>(null);
+    const [results, setResults] = useState<SearchIndexResults>(() => new Map());
+    const keys = Array.from(new Set(queries.map(searchKey).filter(Boolean)));
+    // Stable across renders while the queries are the same, so the search effect only reruns on change.
+    const keysKey = keys.join('\n');
+
+    useEffect(() => {
+        const client = createSearchIndexClient();
+        clientRef.current = client;
+        return () => {
+            client.dispose();
+            clientRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        clientRef.current?.sync(notes);
+    }, [notes]);
+
+    useEffect(() => {
+        const client = clientRef.current;
+        const wanted = keysKey ? keysKey.split('\n') : [];
+        if (!client || wanted.length === 0) {
+            setResults(new Map());
+            return;
+        }
+        let cancelled = false;
+        Promise.all(wanted.map(key => client.search(key.split(' ')).then(hits => [key, new Map(hits.map(hit => [hit.id, hit]))] as const)))
+            .then(entries => { if (!cancelled) setResults(new Map(entries)); });
+        return () => { cancelled = true; };
+    }, [keysKey, notes]);
+
+    return results;
+};
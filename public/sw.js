@@ -1,4 +1,7 @@
-const CACHE_NAME = 'stickon-ai-cache-v2'; // Incremented version to ensure update
+const CACHE_NAME = 'stickon-ai-cache-v3'; // Incremented version to ensure update
+// Holds the reminder schedule, not assets; it must survive cache version bumps.
+const REMINDER_CACHE = 'stickon-ai-reminders';
+const REMINDER_STATE_URL = '/__reminders__';
 const urlsToCache = [
   '/',
   '/index.html',
@@ -28,7 +31,7 @@ self.addEventListener('install', event => {
 });
 
 self.addEventListener('activate', event => {
-  const cacheWhitelist = [CACHE_NAME];
+  const cacheWhitelist = [CACHE_NAME, REMINDER_CACHE];
   event.waitUntil(
     caches.keys().then(cacheNames => {
       return Promise.all(
@@ -42,7 +45,7 @@ self.addEventListener('activate', event => {
     }).then(() => {
       // Tell the active service worker to take control of the page immediately.
       return self.clients.claim();
-    })
+    }).then(() => armReminders())
   );
 });
 
@@ -50,12 +53,20 @@ self.addEventListener('fetch', event => {
   const { request } = event;
   const url = new URL(request.url);
 
-  // Don't cache Supabase API calls or dynamic esm.sh modules. Let them go to the network.
-  if (url.hostname.includes('supabase.co') || url.hostname.includes('esm.sh')) {
+  // Don't cache Supabase API calls. Notes are cached in IndexedDB by the app itself.
+  if (url.hostname.includes('supabase.co') || request.method !== 'GET') {
     return;
   }
 
-  // Use a stale-while-revalidate strategy for all other assets.
+  // Serve the app shell for page navigations when offline so the board can load from the local note cache.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/index.html').then(cached => cached || caches.match('/')))
+    );
+    return;
+  }
+
+  // Use a stale-while-revalidate strategy for all other assets, including esm.sh modules, so the app can start offline.
   event.respondWith(
     caches.open(CACHE_NAME).then(cache => {
       return cache.match(request).then(cachedResponse => {
@@ -77,3 +88,106 @@ self.addEventListener('fetch', event => {
     })
   );
 });
+
+// Reminders. The app sends its full reminder schedule whenever it changes and times reminders itself
+// while a tab is open. This worker only shows reminders when no tab is open, and remembers which ones it
+// showed so the app can skip them. Timers die with the worker, so due reminders are also checked whenever
+// the worker wakes up (messages, periodic sync).
+const SNOOZE_MINUTES = 10;
+const DELIVERED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+let reminderTimers = [];
+
+const reminderKey = reminder => `${reminder.id}@${reminder.at}`;
+
+const readReminderState = () =>
+  caches.open(REMINDER_CACHE)
+    .then(cache => cache.match(REMINDER_STATE_URL))
+    .then(response => (response ? response.json() : { reminders: [], delivered: [] }))
+    .catch(() => ({ reminders: [], delivered: [] }));
+
+const writeReminderState = state =>
+  caches.open(REMINDER_CACHE).then(cache =>
+    cache.put(REMINDER_STATE_URL, new Response(JSON.stringify(state), { headers: { 'Content-Type': 'application/json' } }))
+  );
+
+const showReminder = reminder =>
+  self.registration.showNotification(reminder.title, {
+    body: reminder.body,
+    tag: reminder.id,
+    data: reminder,
+    icon: '/icons/icon-192x192.png',
+    actions: [
+      { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+      { action: 'complete', title: reminder.kind === 'task' ? 'Mark done' : 'Dismiss' },
+    ],
+  });
+
+const hasOpenWindow = () => self.clients.matchAll({ type: 'window' }).then(windows => windows.length > 0);
+
+async function deliverDueReminders() {
+  // An open tab shows its own reminders.
+  if (await hasOpenWindow()) return;
+  const state = await readReminderState();
+  const now = Date.now();
+  const due = state.reminders.filter(r => Date.parse(r.at) <= now && !state.delivered.includes(reminderKey(r)));
+  if (due.length === 0) return;
+  await Promise.all(due.map(showReminder));
+  state.delivered = [...state.delivered, ...due.map(reminderKey)];
+  await writeReminderState(state);
+}
+
+async function armReminders() {
+  reminderTimers.forEach(clearTimeout);
+  reminderTimers = [];
+  const state = await readReminderState();
+  const now = Date.now();
+  state.reminders
+    .filter(r => !state.delivered.includes(reminderKey(r)))
+    .forEach(r => {
+      // Anything further out than a day is picked up on a later wake-up.
+      const delay = Math.max(0, Date.parse(r.at) - now);
+      if (delay < 24 * 60 * 60 * 1000) reminderTimers.push(setTimeout(deliverDueReminders, delay));
+    });
+}
+
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'schedule-reminders') return;
+  event.waitUntil((async () => {
+    const state = await readReminderState();
+    const keys = event.data.reminders.map(reminderKey);
+    // Tell the app which of its reminders were already shown.
+    event.ports[0]?.postMessage({ delivered: state.delivered.filter(key => keys.includes(key)) });
+    // Deliveries are kept for a week rather than dropped when missing from the schedule: the app sends an
+    // empty schedule while it is still loading.
+    const cutoff = Date.now() - DELIVERED_RETENTION_MS;
+    const delivered = state.delivered.filter(key => Date.parse(key.slice(key.lastIndexOf('@') + 1)) > cutoff);
+    await writeReminderState({ reminders: event.data.reminders, delivered });
+    await armReminders();
+  })());
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === 'reminders') event.waitUntil(deliverDueReminders());
+});
+
+// Buttons and clicks on a reminder go to an open tab if there is one, otherwise they open the app
+// with the action in the URL.
+self.addEventListener('notificationclick', event => {
+  const reminder = event.notification.data;
+  event.notification.close();
+  if (!reminder?.id) return;
+  const action = event.action || 'open';
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      windows[0].postMessage({ type: 'reminder-action', action, reminder });
+      if (action === 'open') await windows[0].focus();
+      return;
+    }
+    const url = new URL('/', self.location.origin);
+    url.searchParams.set('reminderAction', action);
+    url.searchParams.set('reminder', reminder.id);
+    await self.clients.openWindow(url.toString());
+  })());
+});
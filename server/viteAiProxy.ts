@@ -0,0 +1,94 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Connect, Plugin } from 'vite';
+import { createAiProxyHandler, createMemoryQuotaStore, createSupabaseQuotaStore, MAX_REQUEST_BYTES } from '../supabase/functions/_shared/aiProxy';
+import { supabaseUrl, supabaseKey } from '../services/supabaseConfig';
+
+// Serves the AI proxy at /api/ai from `vite` and `vite preview`, reading the key from .env.local on the server side.
+
+class BodyTooLargeError extends Error {
+    constructor() {
+        super("The AI request is too large.");
+        this.name = 'BodyTooLargeError';
+    }
+}
+
+const readBody = (req: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_REQUEST_BYTES) {
+            // Stop buffering; the rest of the upload is discarded.
+            req.removeAllListeners('data');
+            req.resume();
+            reject(new BodyTooLargeError());
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const toRequest = async (req: IncomingMessage): Promise<Request> => {
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([name, value]) => {
+        if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    });
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+    return new Request(`http://${req.headers.host || 'localhost'}${req.url || '/'}`, {
+        method: req.method,
+        headers,
+        body: hasBody ? await readBody(req) : undefined,
+    });
+};
+
+const sendResponse = async (res: ServerResponse, response: Response) => {
+    res.statusCode = response.status;
+    response.headers.forEach((value, name) => res.setHeader(name, value));
+    res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+const createMiddleware = (env: Record<string, string>): Connect.NextHandleFunction => {
+    if (!env.GEMINI_API_KEY) {
+        return (_req, res) => sendResponse(res, new Response(JSON.stringify({ error: "The AI proxy has no GEMINI_API_KEY configured." }), {
+            status: 503,
+            headers: { 'Content-Type': 'application/json' },
+        }));
+    }
+
+    const url = env.SUPABASE_URL || supabaseUrl;
+    const anonKey = env.SUPABASE_ANON_KEY || supabaseKey;
+    const handler = createAiProxyHandler({
+        geminiApiKey: env.GEMINI_API_KEY,
+        supabaseUrl: url,
+        supabaseAnonKey: anonKey,
+        dailyLimit: Number(env.AI_DAILY_LIMIT) || 100,
+        quotaStore: env.AI_QUOTA_STORE === 'supabase' ? createSupabaseQuotaStore(url, anonKey) : createMemoryQuotaStore(),
+    });
+
+    return async (req, res, next) => {
+        try {
+            await sendResponse(res, await handler(await toRequest(req)));
+        } catch (error) {
+            if (error instanceof BodyTooLargeError) {
+                await sendResponse(res, new Response(JSON.stringify({ error: error.message }), {
+                    status: 413,
+                    headers: { 'Content-Type': 'application/json' },
+                }));
+                return;
+            }
+            next(error);
+        }
+    };
+};
+
+export const aiProxyPlugin = (env: Record<string, string>): Plugin => ({
+    name: 'stickon-ai-proxy',
+    configureServer(server) {
+        server.middlewares.use('/api/ai', createMiddleware(env));
+    },
+    configurePreviewServer(server) {
+        server.middlewares.use('/api/ai', createMiddleware(env));
+    },
+});
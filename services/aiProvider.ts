@@ -0,0 +1,63 @@
+import type { Note } from '../types';
+
+// Everything the app asks of an AI model. `aiService.ts` picks the implementation; components never
+// talk to a provider directly.
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface AiSource {
+    uri: string;
+    title: string;
+}
+
+export interface AiResponse {
+    type: 'answer' | 'note' | 'update';
+    content: string;
+    noteData?: {
+        id?: string;
+        text?: string;
+        tags?: string[];
+        color?: string;
+    };
+    sources?: AiSource[];
+}
+
+// Notes that share a topic, for arranging the canvas by theme.
+export interface NoteCluster {
+    label: string;
+    noteIds: string[];
+}
+
+export interface AiProvider {
+    readonly name: string;
+    // Identifies the vector space `embed` returns; vectors from different models can't be compared.
+    readonly embeddingModel: string;
+    summarize(text: string): Promise<string>;
+    generateImage(prompt: string): Promise<string>;
+    generateImagePrompt(text: string): Promise<string>;
+    transcribeAudio(audio: Blob): Promise<string>;
+    extractTasks(text: string): Promise<string[]>;
+    embed(texts: string[]): Promise<number[][]>;
+    expandNoteText(text: string): Promise<string>;
+    generateInsights(allNotes: Note[]): Promise<string>;
+    queryNotes(query: string, allNotes: Note[], useWebSearch: boolean, chatHistory: ChatTurn[]): Promise<AiResponse>;
+    extractTagsFromTranscript(transcript: string): Promise<string[]>;
+    clusterNotes(notes: Note[]): Promise<NoteCluster[]>;
+}
+
+export const NOTE_COLOR_OPTIONS = ['bg-amber-100', 'bg-sky-100', 'bg-lime-100', 'bg-rose-100', 'bg-violet-100', 'bg-white'];
+
+export const stripHtml = (html: string | null | undefined): string => (html || '').replace(/<[^>]*>?/gm, ' ');
+
+// Puts every note in exactly one cluster: a note the model listed twice stays in the first cluster,
+// unknown ids are dropped, and notes it left out go in an "Other" cluster at the end.
+export const completeClusters = (clusters: NoteCluster[], notes: Note[]): NoteCluster[] => {
+    const remaining = new Set(notes.map(note => note.id));
+    const complete = clusters
+        .map(cluster => ({ label: cluster.label.trim() || 'Untitled', noteIds: cluster.noteIds.filter(id => remaining.delete(id)) }))
+        .filter(cluster => cluster.noteIds.length > 0);
+    return remaining.size > 0 ? [...complete, { label: 'Other', noteIds: [...remaining] }] : complete;
+};
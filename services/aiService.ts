@@ -0,0 +1,49 @@
+import { fetchMediaBlob } from './mediaStorage';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalAiProvider } from './localAiProvider';
+import type { AiProvider, AiResponse, ChatTurn, NoteCluster } from './aiProvider';
+import type { Note } from '../types';
+
+const createDefaultProvider = (): AiProvider => {
+    if (process.env.AI_PROVIDER === 'local') {
+        return createLocalAiProvider();
+    }
+    return createGeminiProvider(process.env.AI_PROXY_URL || '/api/ai');
+};
+
+let provider: AiProvider = createDefaultProvider();
+
+export const getAiProvider = (): AiProvider => provider;
+
+export const setAiProvider = (newProvider: AiProvider) => {
+    provider = newProvider;
+};
+
+export const summarizeText = (text: string): Promise<string> => provider.summarize(text);
+
+export const generateImage = (prompt: string): Promise<string> => provider.generateImage(prompt);
+
+export const generateImagePrompt = (text: string): Promise<string> => provider.generateImagePrompt(text);
+
+export async function transcribeAudio(audioPath: string): Promise<string> {
+    const audioBlob = await fetchMediaBlob(audioPath);
+    if (audioBlob.size === 0) {
+        throw new Error("Audio blob is empty.");
+    }
+    return provider.transcribeAudio(audioBlob);
+}
+
+export const extractTasks = (text: string): Promise<string[]> => provider.extractTasks(text);
+
+export const embedTexts = (texts: string[]): Promise<number[][]> => provider.embed(texts);
+
+export const expandNoteText = (text: string): Promise<string> => provider.expandNoteText(text);
+
+export const generateInsights = (allNotes: Note[]): Promise<string> => provider.generateInsights(allNotes);
+
+export const queryNotes = (query: string, allNotes: Note[], useWebSearch: boolean, chatHistory: ChatTurn[]): Promise<AiResponse> =>
+    provider.queryNotes(query, allNotes, useWebSearch, chatHistory);
+
+export const extractTagsFromTranscript = (transcript: string): Promise<string[]> => provider.extractTagsFromTranscript(transcript);
+
+export const clusterNotes = (notes: Note[]): Promise<NoteCluster[]> => provider.clusterNotes(notes);
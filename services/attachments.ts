@@ -0,0 +1,148 @@
+import { supabase } from './supabaseClient';
+import { uploadMedia, getMediaBackend, isStoredMediaPath, removeMedia } from './mediaStorage';
+import type { Attachment, AttachmentKind, Note } from '../types';
+
+const THUMBNAIL_MAX_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Thumbnails sit next to the full-size object: "<user>/image/<id>.jpeg" -> "<user>/image/thumbs/<id>.jpg".
+export const thumbnailPathFor = (path: string): string => path.replace(/\/([^/]+?)(\.[^./]+)?$/, '/thumbs/$1.jpg');
+
+// Thumbnails known not to exist, so images skip straight to the full-size file.
+const missingThumbnails = new Set<string>();
+
+export const hasThumbnail = (path: string): boolean => !missingThumbnails.has(path);
+
+export const markThumbnailMissing = (path: string) => {
+    missingThumbnails.add(path);
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+    return fetch(dataUrl).then(res => res.blob());
+};
+
+export const isInlineDataUrl = (value: string | null | undefined): value is string => !!value && value.startsWith('data:');
+
+export const hasInlineMedia = (note: Note): boolean => isInlineDataUrl(note.image_url) || isInlineDataUrl(note.drawing_url);
+
+const createThumbnail = async (blob: Blob): Promise<{ thumbnail: Blob; width: number; height: number }> => {
+    const bitmap = await createImageBitmap(blob);
+    const ratio = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * ratio);
+    canvas.height = Math.round(bitmap.height * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create a drawing context for the thumbnail.");
+    // JPEG has no alpha channel; sketches are drawn on white, so keep that background.
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const { width, height } = bitmap;
+    bitmap.close();
+
+    const thumbnail = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(result => result ? resolve(result) : reject(new Error("Thumbnail encoding failed.")), 'image/jpeg', THUMBNAIL_QUALITY);
+    });
+    return { thumbnail, width, height };
+};
+
+export async function createAttachment(blob: Blob, kind: AttachmentKind, noteId: string | null = null): Promise<Attachment> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+        throw new Error("You must be logged in to add attachments.");
+    }
+
+    const storagePath = await uploadMedia(blob, kind);
+
+    let thumbnailPath: string | null = null;
+    let width: number | null = null;
+    let height: number | null = null;
+    try {
+        const result = await createThumbnail(blob);
+        thumbnailPath = thumbnailPathFor(storagePath);
+        await getMediaBackend().upload(thumbnailPath, result.thumbnail);
+        width = result.width;
+        height = result.height;
+    } catch (error) {
+        // Full-size media is still usable without a thumbnail.
+        console.error("Error creating thumbnail:", error);
+        thumbnailPath = null;
+        markThumbnailMissing(storagePath);
+    }
+
+    const { data, error } = await supabase
+        .from('attachments')
+        .insert({
+            user_id: session.user.id,
+            note_id: noteId,
+            kind,
+            storage_path: storagePath,
+            thumbnail_path: thumbnailPath,
+            mime_type: blob.type,
+            size_bytes: blob.size,
+            width,
+            height,
+        })
+        .select()
+        .single();
+
+    if (error || !data) {
+        throw new Error(error?.message || "Could not save attachment.");
+    }
+    return data;
+}
+
+export async function createAttachmentFromDataUrl(dataUrl: string, kind: AttachmentKind, noteId: string | null = null): Promise<Attachment> {
+    const blob = await dataUrlToBlob(dataUrl);
+    return createAttachment(blob, kind, noteId);
+}
+
+// Attachments are created while the note form is open, before a new note has an id.
+export async function linkAttachmentsToNote(noteId: string, storagePaths: (string | null | undefined)[]): Promise<void> {
+    const paths = storagePaths.filter((p): p is string => !!p && isStoredMediaPath(p));
+    if (paths.length === 0) return;
+    const { error } = await supabase
+        .from('attachments')
+        .update({ note_id: noteId })
+        .in('storage_path', paths)
+        .is('note_id', null);
+    if (error) {
+        console.error("Error linking attachments to note:", error);
+    }
+}
+
+// Deletes media uploaded for a note that was never saved with it, e.g. when the note form is cancelled.
+export async function discardUploads(storagePaths: string[]): Promise<void> {
+    const paths = storagePaths.filter(isStoredMediaPath);
+    if (paths.length === 0) return;
+    const { error } = await supabase.from('attachments').delete().in('storage_path', paths);
+    if (error) {
+        console.error("Error deleting unused attachments:", error);
+    }
+    await removeMedia(paths.flatMap(path => [path, thumbnailPathFor(path)]));
+}
+
+// Moves inline data URLs on a note into attachments. Returns the column update to apply, or null if nothing changed.
+export async function extractInlineMedia(note: Note): Promise<Partial<Note> | null> {
+    const update: Partial<Note> = {};
+    if (isInlineDataUrl(note.image_url)) {
+        const attachment = await createAttachmentFromDataUrl(note.image_url, 'image', note.id);
+        update.image_url = attachment.storage_path;
+    }
+    if (isInlineDataUrl(note.drawing_url)) {
+        const attachment = await createAttachmentFromDataUrl(note.drawing_url, 'drawing', note.id);
+        update.drawing_url = attachment.storage_path;
+    }
+    return Object.keys(update).length > 0 ? update : null;
+}
+
+export const noteMediaPaths = (note: Note): string[] => {
+    const paths: string[] = [];
+    if (note.audio_url) paths.push(note.audio_url);
+    [note.image_url, note.drawing_url].forEach(path => {
+        if (path && isStoredMediaPath(path)) {
+            paths.push(path, thumbnailPathFor(path));
+        }
+    });
+    return paths;
+};
@@ -0,0 +1,95 @@
+import { supabase } from './supabaseClient';
+import type { Board, BoardPlacement, Note } from '../types';
+
+// Boards are named canvases. The "All notes" canvas (no board selected) shows every note at its
+// canvas_x/canvas_y; a board shows only the notes placed on it, at the placement's x/y.
+
+export async function fetchBoards(): Promise<Board[]> {
+    const { data, error } = await supabase
+        .from('boards')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message);
+    }
+    return data || [];
+}
+
+export async function createBoard(board: Pick<Board, 'user_id' | 'name'>): Promise<Board> {
+    const { data, error } = await supabase.from('boards').insert(board).select().single();
+    if (error || !data) {
+        throw new Error(error?.message || "Could not create the board.");
+    }
+    return data;
+}
+
+export async function renameBoard(id: string, name: string): Promise<Board> {
+    const { data, error } = await supabase.from('boards').update({ name }).eq('id', id).select().single();
+    if (error || !data) {
+        throw new Error(error?.message || "Could not rename the board.");
+    }
+    return data;
+}
+
+// Placements go with the board.
+export async function deleteBoard(id: string): Promise<void> {
+    const { error } = await supabase.from('boards').delete().eq('id', id);
+    if (error) {
+        throw new Error(error.message);
+    }
+}
+
+export async function fetchBoardPlacements(): Promise<BoardPlacement[]> {
+    const { data, error } = await supabase.from('board_notes').select('*');
+    if (error) {
+        throw new Error(error.message);
+    }
+    return data || [];
+}
+
+export async function saveBoardPlacements(placements: BoardPlacement[]): Promise<void> {
+    if (placements.length === 0) return;
+    const { error } = await supabase.from('board_notes').upsert(placements, { onConflict: 'board_id,note_id' });
+    if (error) {
+        throw new Error(error.message);
+    }
+}
+
+export async function removeBoardPlacement(boardId: string, noteId: string): Promise<void> {
+    const { error } = await supabase.from('board_notes').delete().eq('board_id', boardId).eq('note_id', noteId);
+    if (error) {
+        throw new Error(error.message);
+    }
+}
+
+/**
+ * The notes on a board, with canvas_x/canvas_y swapped for their position on it, so the canvas can draw
+ * a board exactly like "All notes". `boardId` null means "All notes": every note, unchanged.
+ */
+export const notesOnBoard = (notes: Note[], placements: BoardPlacement[], boardId: string | null): Note[] => {
+    if (!boardId) return notes;
+    const positions = new Map<string, BoardPlacement>(
+        placements.filter(placement => placement.board_id === boardId).map(placement => [placement.note_id, placement]),
+    );
+    return notes.flatMap(note => {
+        const placement = positions.get(note.id);
+        return placement ? [{ ...note, canvas_x: placement.x, canvas_y: placement.y }] : [];
+    });
+};
+
+// Replaces or adds placements, matched on board and note.
+export const mergePlacements = (placements: BoardPlacement[], updates: BoardPlacement[]): BoardPlacement[] => {
+    const key = (placement: BoardPlacement) => `${placement.board_id}|${placement.note_id}`;
+    const updated = new Map<string, BoardPlacement>(updates.map(placement => [key(placement), placement]));
+    const kept = placements.filter(placement => !updated.has(key(placement)));
+    return [...kept, ...updated.values()];
+};
+
+// Where a note added to a board goes: a step down and right from the last note added, so a batch of
+// additions fans out instead of piling up, wrapping after a dozen.
+export const nextPlacementPosition = (placements: BoardPlacement[], boardId: string): { x: number; y: number } => {
+    const count = placements.filter(placement => placement.board_id === boardId).length;
+    const step = count % 12;
+    return { x: 40 + step * 32 + Math.floor(count / 12) * 320, y: 40 + step * 32 };
+};
@@ -0,0 +1,37 @@
+import { supabase } from './supabaseClient';
+import type { CanvasEdge } from '../types';
+
+export async function fetchCanvasEdges(): Promise<CanvasEdge[]> {
+    const { data, error } = await supabase
+        .from('canvas_edges')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message);
+    }
+    return data || [];
+}
+
+export async function createCanvasEdge(edge: Pick<CanvasEdge, 'user_id' | 'source_note_id' | 'target_note_id'>): Promise<CanvasEdge> {
+    const { data, error } = await supabase.from('canvas_edges').insert(edge).select().single();
+    if (error || !data) {
+        throw new Error(error?.message || "Could not connect the notes.");
+    }
+    return data;
+}
+
+export async function updateCanvasEdge(id: string, update: Partial<Pick<CanvasEdge, 'label' | 'style'>>): Promise<CanvasEdge> {
+    const { data, error } = await supabase.from('canvas_edges').update(update).eq('id', id).select().single();
+    if (error || !data) {
+        throw new Error(error?.message || "Could not update the connection.");
+    }
+    return data;
+}
+
+export async function deleteCanvasEdge(id: string): Promise<void> {
+    const { error } = await supabase.from('canvas_edges').delete().eq('id', id);
+    if (error) {
+        throw new Error(error.message);
+    }
+}
@@ -0,0 +1,60 @@
+import { supabase } from './supabaseClient';
+import type { CanvasFrame, CanvasFrameColor, Note } from '../types';
+import { noteRect, rectCentre, rectContains } from './canvasGeometry';
+
+// A frame holds the notes whose centre lies inside it. Nothing records membership, so dropping a note
+// into a frame or dragging it out is all it takes to add or remove it.
+
+export const FRAME_COLORS: Record<CanvasFrameColor, { body: string; header: string; swatch: string }> = {
+    amber: { body: 'bg-amber-200/25 border-amber-400', header: 'bg-amber-200 text-amber-900', swatch: 'bg-amber-300' },
+    sky: { body: 'bg-sky-200/25 border-sky-400', header: 'bg-sky-200 text-sky-900', swatch: 'bg-sky-300' },
+    lime: { body: 'bg-lime-200/25 border-lime-500', header: 'bg-lime-200 text-lime-900', swatch: 'bg-lime-300' },
+    rose: { body: 'bg-rose-200/25 border-rose-400', header: 'bg-rose-200 text-rose-900', swatch: 'bg-rose-300' },
+    violet: { body: 'bg-violet-200/25 border-violet-400', header: 'bg-violet-200 text-violet-900', swatch: 'bg-violet-300' },
+    gray: { body: 'bg-gray-200/25 border-gray-400', header: 'bg-gray-200 text-gray-800', swatch: 'bg-gray-300' },
+};
+
+export const FRAME_HEADER_HEIGHT = 36;
+export const FRAME_MIN_SIZE = { width: 200, height: 120 };
+export const FRAME_DEFAULT_SIZE = { width: 640, height: 420 };
+
+type FrameUpdate = Partial<Pick<CanvasFrame, 'title' | 'color' | 'x' | 'y' | 'width' | 'height' | 'collapsed'>>;
+
+export async function fetchCanvasFrames(): Promise<CanvasFrame[]> {
+    const { data, error } = await supabase
+        .from('canvas_frames')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message);
+    }
+    return data || [];
+}
+
+export async function createCanvasFrame(frame: Pick<CanvasFrame, 'user_id' | 'board_id' | 'title' | 'color' | 'x' | 'y' | 'width' | 'height'>): Promise<CanvasFrame> {
+    const { data, error } = await supabase.from('canvas_frames').insert(frame).select().single();
+    if (error || !data) {
+        throw new Error(error?.message || "Could not add the frame.");
+    }
+    return data;
+}
+
+export async function updateCanvasFrame(id: string, update: FrameUpdate): Promise<CanvasFrame> {
+    const { data, error } = await supabase.from('canvas_frames').update(update).eq('id', id).select().single();
+    if (error || !data) {
+        throw new Error(error?.message || "Could not update the frame.");
+    }
+    return data;
+}
+
+export async function deleteCanvasFrame(id: string): Promise<void> {
+    const { error } = await supabase.from('canvas_frames').delete().eq('id', id);
+    if (error) {
+        throw new Error(error.message);
+    }
+}
+
+// Ids of the notes inside the frame. Measured against its full size, so collapsing doesn't drop any.
+export const frameNoteIds = (frame: CanvasFrame, notes: Note[], noteSize: { width: number; height: number }): string[] =>
+    notes.filter(note => rectContains(frame, rectCentre(noteRect(note, noteSize)))).map(note => note.id);
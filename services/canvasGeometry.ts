@@ -0,0 +1,80 @@
+import type { Note } from '../types';
+
+// Sizes and positions on the infinite canvas, in canvas units (before the view's pan and zoom).
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Matches CanvasNote's w-60 h-40, and sm:w-72 sm:h-48 from Tailwind's 'sm' breakpoint up.
+export const canvasNoteSize = (): { width: number; height: number } =>
+    window.innerWidth < 640 ? { width: 240, height: 160 } : { width: 288, height: 192 };
+
+// `position` overrides the stored one, for a note that is being dragged.
+export const noteRect = (note: Note, size: { width: number; height: number }, position?: Point): Rect => ({
+    x: position ? position.x : note.canvas_x || 0,
+    y: position ? position.y : note.canvas_y || 0,
+    width: size.width,
+    height: size.height,
+});
+
+export const rectCentre = (rect: Rect): Point => ({ x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 });
+
+// Where the line from the rectangle's centre towards `towards` leaves the rectangle.
+export const rectBoundaryPoint = (rect: Rect, towards: Point): Point => {
+    const centre = rectCentre(rect);
+    const dx = towards.x - centre.x;
+    const dy = towards.y - centre.y;
+    if (dx === 0 && dy === 0) return centre;
+    const scale = Math.min(
+        dx === 0 ? Infinity : rect.width / 2 / Math.abs(dx),
+        dy === 0 ? Infinity : rect.height / 2 / Math.abs(dy),
+    );
+    return { x: centre.x + dx * Math.min(scale, 1), y: centre.y + dy * Math.min(scale, 1) };
+};
+
+// The visible part of an arrow between two notes: from the edge of one to the edge of the other.
+export const connectorPoints = (source: Rect, target: Rect): { start: Point; end: Point } => ({
+    start: rectBoundaryPoint(source, rectCentre(target)),
+    end: rectBoundaryPoint(target, rectCentre(source)),
+});
+
+export const rectContains = (rect: Rect, point: Point): boolean =>
+    point.x >= rect.x && point.x <= rect.x + rect.width && point.y >= rect.y && point.y <= rect.y + rect.height;
+
+/**
+ * The pan and zoom that centre `rect` in a viewport of the given size, as large as fits with `padding`
+ * screen pixels around it, within the canvas's zoom limits.
+ */
+export const fitRect = (
+    rect: Rect,
+    viewport: { width: number; height: number },
+    limits: { min: number; max: number },
+    padding = 40,
+): { x: number; y: number; scale: number } => {
+    const scale = Math.min(
+        Math.max(Math.min((viewport.width - padding * 2) / rect.width, (viewport.height - padding * 2) / rect.height), limits.min),
+        limits.max,
+    );
+    const centre = rectCentre(rect);
+    return { x: viewport.width / 2 - centre.x * scale, y: viewport.height / 2 - centre.y * scale, scale };
+};
+
+// The rectangle with corners at two points, whichever way round they are.
+export const rectFromPoints = (a: Point, b: Point): Rect => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+});
+
+export const rectsIntersect = (a: Rect, b: Rect): boolean =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Note } from '../types';
+import type { Point, Rect } from './canvasGeometry';
+import { rectContains, rectsIntersect } from './canvasGeometry';
+import { groupLayout, tagGroups, timelineLayout, type LayoutOptions } from './canvasLayouts';
+
+// canvasFrames.ts, which supplies the frame header height, also talks to Supabase.
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const note = (id: string, overrides: Partial<Note> = {}): Note => ({
+    id,
+    user_id: 'user-1',
+    text: `<p>${id}</p>`,
+    image_url: null,
+    drawing_url: null,
+    audio_url: null,
+    summary: null,
+    color: 'bg-amber-100',
+    tags: [],
+    tasks: null,
+    related_note_ids: null,
+    stack_id: null,
+    canvas_x: null,
+    canvas_y: null,
+    ...overrides,
+});
+
+const options: LayoutOptions = { noteSize: { width: 200, height: 150 }, gap: 24, width: 1600 };
+
+const TAGS = [['work'], ['work', 'urgent'], ['home'], [], ['garden', 'home'], ['work'], ['travel'], ['urgent'], [], ['home']];
+
+const notes = Array.from({ length: 30 }, (_, i) => note(`n${i}`, {
+    tags: TAGS[i % TAGS.length],
+    // Spread over three months, out of order; n0 and n27 were created at the same moment.
+    created_at: new Date(Date.UTC(2026, (i * 7) % 3 + 3, (i % 27) + 1, 12)).toISOString(),
+}));
+
+const cardAt = ({ x, y }: Point): Rect => ({ x, y, ...options.noteSize });
+
+const overlapping = (positions: Map<string, Point>) => {
+    const cards = Array.from(positions.entries());
+    return cards.flatMap(([a, pa], i) => cards.slice(i + 1)
+        .filter(([, pb]) => rectsIntersect(cardAt(pa), cardAt(pb)))
+        .map(([b]) => [a, b]));
+};
+
+describe('groupLayout of tagGroups', () => {
+    const layout = () => groupLayout(tagGroups(notes), options);
+
+    it('gives the same result every time, and the same frames whatever order the notes come in', () => {
+        expect(layout()).toEqual(layout());
+        const fromReversed = groupLayout(tagGroups([...notes].reverse()), options);
+        expect(fromReversed.frames).toEqual(layout().frames);
+    });
+
+    it('places every note exactly once, without overlapping cards', () => {
+        const { positions } = layout();
+        expect([...positions.keys()].sort()).toEqual(notes.map(n => n.id).sort());
+        expect(overlapping(positions)).toEqual([]);
+    });
+
+    it('puts each group inside its own frame, below the title, with frames apart', () => {
+        const groups = tagGroups(notes);
+        const { positions, frames } = groupLayout(groups, options);
+        expect(frames.map(frame => frame.label)).toEqual(groups.map(group => group.label));
+        groups.forEach((group, i) => group.notes.forEach(n => {
+            const card = cardAt(positions.get(n.id)!);
+            expect(rectContains(frames[i].rect, card)).toBe(true);
+            expect(rectContains(frames[i].rect, { x: card.x + card.width, y: card.y + card.height })).toBe(true);
+        }));
+        frames.forEach((a, i) => frames.slice(i + 1).forEach(b => expect(rectsIntersect(a.rect, b.rect)).toBe(false)));
+    });
+
+    it('wraps frames to stay within the requested width where it can', () => {
+        const { frames } = layout();
+        frames.forEach(({ rect }) => expect(rect.x + rect.width).toBeLessThanOrEqual(options.width));
+        expect(new Set(frames.map(({ rect }) => rect.y)).size).toBeGreaterThan(1);
+    });
+
+    it('groups notes by their most used tag, untagged last', () => {
+        expect(tagGroups(notes).map(group => [group.label, group.notes.length])).toEqual([
+            ['#home', 9],
+            ['#work', 9],
+            ['#travel', 3],
+            ['#urgent', 3],
+            ['Untagged', 6],
+        ]);
+    });
+});
+
+describe('timelineLayout', () => {
+    it('gives the same result every time, whatever order the notes come in', () => {
+        expect(timelineLayout(notes, options)).toEqual(timelineLayout(notes, options));
+        expect(timelineLayout([...notes].reverse(), options)).toEqual(timelineLayout(notes, options));
+    });
+
+    it('places every note exactly once, without overlapping cards', () => {
+        const positions = timelineLayout(notes, options);
+        expect(positions.size).toBe(notes.length);
+        expect(overlapping(positions)).toEqual([]);
+    });
+
+    it('gives each month its own row, in date order within the row', () => {
+        const positions = timelineLayout(notes, options);
+        const rows = new Map<number, Note[]>();
+        notes.forEach(n => {
+            const { y } = positions.get(n.id)!;
+            rows.set(y, [...(rows.get(y) || []), n]);
+        });
+        const months = [...rows.entries()].sort(([a], [b]) => a - b).map(([, rowNotes]) => {
+            const sorted = [...rowNotes].sort((a, b) => positions.get(a.id)!.x - positions.get(b.id)!.x);
+            expect(sorted.map(n => n.created_at)).toEqual(rowNotes.map(n => n.created_at!).sort());
+            return new Set(rowNotes.map(n => n.created_at!.slice(0, 7)));
+        });
+        expect(months.map(set => [...set])).toEqual([['2026-04'], ['2026-05'], ['2026-06']]);
+    });
+
+    it('puts undated notes in a last row of their own', () => {
+        const positions = timelineLayout([...notes, note('undated')], options);
+        const undatedY = positions.get('undated')!.y;
+        expect(Math.max(...[...positions.values()].map(point => point.y))).toBe(undatedY);
+        expect([...positions.values()].filter(point => point.y === undatedY)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,168 @@
+import type { Note } from '../types';
+import type { Point, Rect } from './canvasGeometry';
+import { FRAME_HEADER_HEIGHT } from './canvasFrames';
+import { buildNoteGraph, layoutStep, ALPHA_START, ALPHA_DECAY, ALPHA_MIN } from './noteGraph';
+import type { NoteGraph } from './noteGraph';
+
+// Ways to arrange the notes on a canvas. Each layout returns a position for every note it is given;
+// the caller saves them, and the cards' CSS transition animates the move. Grouped layouts also return a
+// titled frame around each group.
+
+export type CanvasLayoutKind = 'grid' | 'tag' | 'related' | 'timeline' | 'ai';
+
+export const CANVAS_LAYOUTS: { id: CanvasLayoutKind; label: string }[] = [
+    { id: 'grid', label: 'Grid' },
+    { id: 'tag', label: 'Cluster by tag' },
+    { id: 'related', label: 'Related notes together' },
+    { id: 'timeline', label: 'Timeline by month' },
+    { id: 'ai', label: 'AI topic clusters' },
+];
+
+export interface LayoutOptions {
+    noteSize: { width: number; height: number };
+    gap: number;
+    // How wide the layout may get before wrapping, in canvas units.
+    width: number;
+}
+
+// Where the notes were before a layout ran, so it can be undone on the same canvas.
+export interface LayoutUndo {
+    boardId: string | null;
+    positions: { id: string; x: number; y: number }[];
+    // Frames the layout drew around its groups, deleted again by the undo.
+    frameIds: string[];
+}
+
+export interface LayoutGroup {
+    label: string;
+    notes: Note[];
+}
+
+export interface LayoutFrame {
+    label: string;
+    rect: Rect;
+}
+
+export const gridLayout = (notes: Note[], { noteSize, gap, width }: LayoutOptions, origin: Point = { x: gap, y: gap }): Map<string, Point> => {
+    const columns = Math.max(1, Math.floor(width / (noteSize.width + gap)));
+    return new Map<string, Point>(notes.map((note, index) => [note.id, {
+        x: origin.x + (index % columns) * (noteSize.width + gap),
+        y: origin.y + Math.floor(index / columns) * (noteSize.height + gap),
+    }]));
+};
+
+/**
+ * Lays each group out as a small, roughly square grid inside a frame titled with the group's label, and
+ * places the frames side by side, wrapping to a new row of frames when the next one would pass `width`.
+ */
+export const groupLayout = (groups: LayoutGroup[], options: LayoutOptions): { positions: Map<string, Point>; frames: LayoutFrame[] } => {
+    const { noteSize, gap, width } = options;
+    const frameGap = gap * 2;
+    const positions = new Map<string, Point>();
+    const frames: LayoutFrame[] = [];
+    let x = gap;
+    let y = gap;
+    let rowHeight = 0;
+    groups.filter(group => group.notes.length > 0).forEach(group => {
+        const columns = Math.ceil(Math.sqrt(group.notes.length));
+        const rows = Math.ceil(group.notes.length / columns);
+        const blockWidth = columns * (noteSize.width + gap) - gap;
+        const blockHeight = rows * (noteSize.height + gap) - gap;
+        const frameWidth = blockWidth + gap * 2;
+        const frameHeight = FRAME_HEADER_HEIGHT + blockHeight + gap * 2;
+        if (x > gap && x + frameWidth > width) {
+            x = gap;
+            y += rowHeight + frameGap;
+            rowHeight = 0;
+        }
+        const origin = { x: x + gap, y: y + FRAME_HEADER_HEIGHT + gap };
+        gridLayout(group.notes, { ...options, width: blockWidth + gap }, origin).forEach((point, id) => positions.set(id, point));
+        frames.push({ label: group.label, rect: { x, y, width: frameWidth, height: frameHeight } });
+        x += frameWidth + frameGap;
+        rowHeight = Math.max(rowHeight, frameHeight);
+    });
+    return { positions, frames };
+};
+
+// A note with several tags joins its most used one, so clusters come out as large as they can.
+export const tagGroups = (notes: Note[]): LayoutGroup[] => {
+    const counts = new Map<string, number>();
+    notes.forEach(note => (note.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    const groups = new Map<string, Note[]>();
+    notes.forEach(note => {
+        const tag = [...(note.tags || [])].sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0) || a.localeCompare(b))[0] || '';
+        if (!groups.has(tag)) groups.set(tag, []);
+        groups.get(tag)!.push(note);
+    });
+    return Array.from(groups.entries())
+        .sort(([a, notesA], [b, notesB]) => Number(a === '') - Number(b === '') || notesB.length - notesA.length || a.localeCompare(b))
+        .map(([tag, groupNotes]) => ({ label: tag ? `#${tag}` : 'Untagged', notes: groupNotes }));
+};
+
+// Rows of notes, one per month they were created in, oldest at the top and left to right within a row.
+export const timelineLayout = (notes: Note[], { noteSize, gap }: LayoutOptions): Map<string, Point> => {
+    const monthOf = (note: Note) => {
+        if (!note.created_at) return '';
+        const date = new Date(note.created_at);
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    };
+    // Ties go by id, so notes created together land in the same order whatever order they were passed in.
+    const sorted = [...notes].sort((a, b) => (a.created_at || '\uffff').localeCompare(b.created_at || '\uffff') || a.id.localeCompare(b.id));
+    const lanes = [...new Set(sorted.map(monthOf))];
+    const positions = new Map<string, Point>();
+    lanes.forEach((month, lane) => {
+        sorted.filter(note => monthOf(note) === month).forEach((note, index) => {
+            positions.set(note.id, { x: gap + index * (noteSize.width + gap), y: gap + lane * (noteSize.height + gap * 3) });
+        });
+    });
+    return positions;
+};
+
+// Canvas units per graph unit; a linked pair settles about 90 graph units apart, about a card's width here.
+const RELATED_SPREAD = 3.5;
+
+/**
+ * Force-directed by `related_note_ids`: the graph view's simulation with only the "related" links, run
+ * to rest and scaled up to card size. Each note then takes the free grid cell nearest to where it landed,
+ * centre outwards, so no two cards overlap and neighbours stay neighbours.
+ */
+export const relatedLayout = (notes: Note[], { noteSize, gap }: LayoutOptions): Map<string, Point> => {
+    const full = buildNoteGraph(notes);
+    const graph: NoteGraph = { nodes: full.nodes, edges: full.edges.filter(edge => edge.kinds.includes('related')) };
+    for (let alpha = ALPHA_START; alpha > ALPHA_MIN; alpha *= ALPHA_DECAY) layoutStep(graph, alpha);
+
+    const cellWidth = noteSize.width + gap;
+    const cellHeight = noteSize.height + gap;
+    const nodes = [...graph.nodes].sort((a, b) => Math.hypot(a.x, a.y) - Math.hypot(b.x, b.y));
+    const taken = new Set<string>();
+    const cells = new Map<string, { col: number; row: number }>();
+    nodes.forEach(node => {
+        const x = node.x * RELATED_SPREAD;
+        const y = node.y * RELATED_SPREAD;
+        const col = Math.round(x / cellWidth);
+        const row = Math.round(y / cellHeight);
+        // Search rings of cells around the ideal one until a ring has a free cell.
+        for (let ring = 0; ; ring++) {
+            let best: { col: number; row: number; distance: number } | null = null;
+            for (let c = col - ring; c <= col + ring; c++) {
+                for (let r = row - ring; r <= row + ring; r++) {
+                    if (Math.max(Math.abs(c - col), Math.abs(r - row)) !== ring || taken.has(`${c},${r}`)) continue;
+                    const distance = Math.hypot(c * cellWidth - x, r * cellHeight - y);
+                    if (!best || distance < best.distance) best = { col: c, row: r, distance };
+                }
+            }
+            if (best) {
+                taken.add(`${best.col},${best.row}`);
+                cells.set(node.id, best);
+                return;
+            }
+        }
+    });
+
+    const left = Math.min(...[...cells.values()].map(cell => cell.col));
+    const top = Math.min(...[...cells.values()].map(cell => cell.row));
+    return new Map<string, Point>(Array.from(cells.entries()).map(([id, cell]) => [id, {
+        x: gap + (cell.col - left) * cellWidth,
+        y: gap + (cell.row - top) * cellHeight,
+    }]));
+};
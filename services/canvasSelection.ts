@@ -0,0 +1,43 @@
+import type { Note } from '../types';
+import { noteRect, rectsIntersect } from './canvasGeometry';
+import type { Rect } from './canvasGeometry';
+
+// Bulk actions on the notes selected on the canvas. Each returns per-note updates for the caller to save.
+
+export interface NoteUpdate {
+    id: string;
+    update: Partial<Note>;
+}
+
+// Notes touched by a marquee, in canvas units.
+export const notesInRect = (notes: Note[], rect: Rect, noteSize: { width: number; height: number }): string[] =>
+    notes.filter(note => rectsIntersect(rect, noteRect(note, noteSize))).map(note => note.id);
+
+export const addTagUpdates = (notes: Note[], tag: string): NoteUpdate[] =>
+    notes.filter(note => !(note.tags || []).includes(tag)).map(note => ({ id: note.id, update: { tags: [...(note.tags || []), tag] } }));
+
+export const removeTagUpdates = (notes: Note[], tag: string): NoteUpdate[] =>
+    notes.filter(note => (note.tags || []).includes(tag)).map(note => ({ id: note.id, update: { tags: (note.tags || []).filter(t => t !== tag) } }));
+
+export const colorUpdates = (notes: Note[], color: string): NoteUpdate[] =>
+    notes.filter(note => note.color !== color).map(note => ({ id: note.id, update: { color } }));
+
+// Pins them all, unless they are all pinned already, in which case it unpins them.
+export const pinUpdates = (notes: Note[]): NoteUpdate[] => {
+    const pin = !notes.every(note => note.is_pinned);
+    return notes.filter(note => !!note.is_pinned !== pin).map(note => ({ id: note.id, update: { is_pinned: pin } }));
+};
+
+/**
+ * Stacks the selection under `targetId`. Stacks are one level deep, so notes already stacked under a
+ * selected note move to the new stack too, and the target itself leaves any stack it was in.
+ */
+export const stackUpdates = (allNotes: Note[], selectedIds: string[], targetId: string): NoteUpdate[] => {
+    const moving = new Set(selectedIds.filter(id => id !== targetId));
+    const updates = allNotes
+        .filter(note => note.id !== targetId && (moving.has(note.id) || (note.stack_id && moving.has(note.stack_id))))
+        .filter(note => note.stack_id !== targetId)
+        .map(note => ({ id: note.id, update: { stack_id: targetId } }));
+    const target = allNotes.find(note => note.id === targetId);
+    return target?.stack_id ? [{ id: targetId, update: { stack_id: null } }, ...updates] : updates;
+};
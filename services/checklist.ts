@@ -0,0 +1,47 @@
+// Reads and edits the checklist items our editor inserts into note HTML:
+//   <div class="checklist-item" contenteditable="false"><input type="checkbox" checked><span contenteditable="true">...</span></div>
+// The checked state lives in the `checked` attribute so it survives saving the HTML.
+
+export interface ChecklistItem {
+    text: string;
+    done: boolean;
+}
+
+export const CHECKLIST_ITEM_CLASS = 'checklist-item';
+const ITEM_SELECTOR = `.${CHECKLIST_ITEM_CLASS}`;
+
+export const CHECKLIST_ITEM_HTML = `<div class="${CHECKLIST_ITEM_CLASS}" contenteditable="false"><input type="checkbox" /><span contenteditable="true"></span></div>`;
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const isChecked = (item: Element) => !!item.querySelector('input[type="checkbox"]')?.hasAttribute('checked');
+
+export const parseChecklist = (html: string | null | undefined): ChecklistItem[] => {
+    if (!html || !html.includes('checklist-item')) return [];
+    return Array.from(parse(html).querySelectorAll(ITEM_SELECTOR))
+        .map(item => ({ text: (item.textContent || '').replace(/\s+/g, ' ').trim(), done: isChecked(item) }))
+        .filter(item => item.text);
+};
+
+// Ticks or unticks the index-th non-empty checklist item. Returns the HTML unchanged if there is no such item.
+export const setChecklistItemDone = (html: string, index: number, done: boolean): string => {
+    const doc = parse(html);
+    const items = Array.from(doc.querySelectorAll(ITEM_SELECTOR)).filter(item => (item.textContent || '').trim());
+    const checkbox = items[index]?.querySelector('input[type="checkbox"]');
+    if (!checkbox) return html;
+    if (done) checkbox.setAttribute('checked', '');
+    else checkbox.removeAttribute('checked');
+    return doc.body.innerHTML;
+};
+
+// Clicking a checkbox only changes its `checked` property; copy it to the attribute before reading innerHTML.
+export const syncCheckboxAttribute = (checkbox: HTMLInputElement) => {
+    if (checkbox.checked) checkbox.setAttribute('checked', '');
+    else checkbox.removeAttribute('checked');
+};
+
+// Stored HTML loses the item's contenteditable="false" (the sanitizer only keeps it on spans), so put it
+// back when loading a note into the editor; otherwise the checkbox row itself becomes editable text.
+export const lockChecklistItems = (root: ParentNode) => {
+    root.querySelectorAll(ITEM_SELECTOR).forEach(item => item.setAttribute('contenteditable', 'false'));
+};
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Note } from '../types';
+
+const { embedTexts, upsert } = vi.hoisted(() => ({
+    embedTexts: vi.fn<(texts: string[]) => Promise<number[][]>>(),
+    upsert: vi.fn(async () => ({ error: null })),
+}));
+
+vi.mock('./aiService', () => ({
+    embedTexts,
+    getAiProvider: () => ({ embeddingModel: 'test-model' }),
+}));
+
+vi.mock('./supabaseClient', () => ({
+    supabase: { from: () => ({ upsert }) },
+}));
+
+import { computeNoteEmbeddings, contentHash, embeddingText } from './embeddings';
+
+const note = (id: string): Note => ({
+    id,
+    user_id: 'user-1',
+    text: `<p>Note ${id}</p>`,
+    image_url: null,
+    drawing_url: null,
+    audio_url: null,
+    summary: null,
+    color: 'bg-amber-100',
+    tags: [],
+    tasks: null,
+    related_note_ids: null,
+    stack_id: null,
+    canvas_x: null,
+    canvas_y: null,
+});
+
+afterEach(() => {
+    embedTexts.mockReset();
+    upsert.mockClear();
+    vi.restoreAllMocks();
+});
+
+describe('computeNoteEmbeddings', () => {
+    it('keeps the rows from batches that succeeded when another batch fails', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const notes = Array.from({ length: 120 }, (_, i) => note(`n${i}`));
+        embedTexts
+            .mockResolvedValueOnce(notes.slice(0, 50).map(() => [1, 0]))
+            .mockRejectedValueOnce(new Error('quota exceeded'))
+            .mockResolvedValueOnce(notes.slice(100).map(() => [0, 1]));
+
+        const rows = await computeNoteEmbeddings(notes);
+
+        expect(embedTexts).toHaveBeenCalledTimes(3);
+        expect(rows.map(row => row.note_id)).toEqual([...notes.slice(0, 50), ...notes.slice(100)].map(n => n.id));
+        expect(rows[0]).toEqual({ note_id: 'n0', user_id: 'user-1', model: 'test-model', content_hash: contentHash(embeddingText(notes[0])), embedding: [1, 0] });
+        expect(upsert).toHaveBeenCalledWith(rows, { onConflict: 'note_id' });
+    });
+
+    it('skips notes the provider returned no vector for', async () => {
+        embedTexts.mockResolvedValueOnce([[1], []]);
+        const rows = await computeNoteEmbeddings([note('a'), note('b')]);
+        expect(rows.map(row => row.note_id)).toEqual(['a']);
+    });
+
+    it('saves nothing when every batch fails', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        embedTexts.mockRejectedValue(new Error('offline'));
+        await expect(computeNoteEmbeddings([note('a')])).resolves.toEqual([]);
+        expect(upsert).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,122 @@
+import { supabase } from './supabaseClient';
+import { embedTexts, getAiProvider } from './aiService';
+import { stripHtml } from './aiProvider';
+import type { Note, NoteEmbedding } from '../types';
+
+// Vectors for semantic search and related notes. They are stored in `note_embeddings`, keyed by a hash
+// of the text they were computed from, so only notes whose content changed are embedded again.
+
+export type EmbeddingMap = Map<string, NoteEmbedding>;
+
+const EMBED_BATCH_SIZE = 50;
+
+// Scores below these are treated as unrelated. Hashed local vectors score much lower than model ones.
+const MIN_SIMILARITY: Record<string, number> = {
+    'text-embedding-004': 0.55,
+};
+const DEFAULT_MIN_SIMILARITY = 0.15;
+
+export const minSimilarityFor = (model: string) => MIN_SIMILARITY[model] ?? DEFAULT_MIN_SIMILARITY;
+
+export const embeddingText = (note: Note): string =>
+    [stripHtml(note.text), (note.tags || []).map(tag => `#${tag}`).join(' ')].join(' ').replace(/\s+/g, ' ').trim();
+
+// FNV-1a; only needs to notice that the text changed.
+export const contentHash = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+    if (a.length === 0 || a.length !== b.length) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export const isEmbeddingCurrent = (note: Note, embedding: NoteEmbedding | undefined): boolean =>
+    !!embedding && embedding.model === getAiProvider().embeddingModel && embedding.content_hash === contentHash(embeddingText(note));
+
+export async function fetchNoteEmbeddings(): Promise<EmbeddingMap> {
+    const { data, error } = await supabase
+        .from('note_embeddings')
+        .select('*')
+        .eq('model', getAiProvider().embeddingModel);
+
+    if (error) {
+        throw new Error(error.message);
+    }
+    return new Map((data || []).map((row: NoteEmbedding) => [row.note_id, row]));
+}
+
+// Embeds the given notes in batches and saves the vectors. Returns the new rows; notes in a batch that
+// failed are missing from them.
+export async function computeNoteEmbeddings(notes: Note[]): Promise<NoteEmbedding[]> {
+    const model = getAiProvider().embeddingModel;
+    const rows: NoteEmbedding[] = [];
+    for (let i = 0; i < notes.length; i += EMBED_BATCH_SIZE) {
+        const batch = notes.slice(i, i + EMBED_BATCH_SIZE);
+        const texts = batch.map(embeddingText);
+        let vectors: number[][];
+        try {
+            vectors = await embedTexts(texts);
+        } catch (error) {
+            // The other batches still count; notes left out of the result are retried later.
+            console.error("Could not embed a batch of notes:", error);
+            continue;
+        }
+        batch.forEach((note, index) => {
+            if (!vectors[index]?.length) return;
+            rows.push({ note_id: note.id, user_id: note.user_id, model, content_hash: contentHash(texts[index]), embedding: vectors[index] });
+        });
+    }
+
+    if (rows.length > 0) {
+        const { error } = await supabase.from('note_embeddings').upsert(rows, { onConflict: 'note_id' });
+        if (error) {
+            // The vectors are still usable for this session.
+            console.error("Could not save note embeddings:", error);
+        }
+    }
+    return rows;
+}
+
+export async function findRelatedNoteIds(note: Note, allNotes: Note[], embeddings: EmbeddingMap, limit = 3): Promise<string[]> {
+    let own = embeddings.get(note.id);
+    if (!isEmbeddingCurrent(note, own)) {
+        [own] = await computeNoteEmbeddings([note]);
+    }
+    if (!own) return [];
+
+    const minScore = minSimilarityFor(own.model);
+    return allNotes
+        .filter(other => other.id !== note.id)
+        .map(other => ({ id: other.id, score: cosineSimilarity(own!.embedding, embeddings.get(other.id)?.embedding || []) }))
+        .filter(result => result.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(result => result.id);
+}
+
+// Scores every embedded note against the query. Notes below the model's similarity floor are left out.
+export async function semanticSearch(query: string, embeddings: EmbeddingMap): Promise<Map<string, number>> {
+    const [queryVector] = await embedTexts([query]);
+    const scores = new Map<string, number>();
+    if (!queryVector) return scores;
+    const minScore = minSimilarityFor(getAiProvider().embeddingModel);
+    embeddings.forEach((embedding, noteId) => {
+        const score = cosineSimilarity(queryVector, embedding.embedding);
+        if (score >= minScore) scores.set(noteId, score);
+    });
+    return scores;
+}
@@ -0,0 +1,500 @@
+import { Type } from "@google/genai";
+import type { Candidate, Content, ContentEmbedding, EmbedContentParameters, GeneratedImage, GenerateContentParameters, GenerateImagesParameters } from "@google/genai";
+import { supabase } from './supabaseClient';
+import type { Note } from '../types';
+import { completeClusters, stripHtml } from './aiProvider';
+import type { AiProvider, AiResponse, AiSource, ChatTurn, NoteCluster } from './aiProvider';
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            // The result includes the Base64 prefix "data:audio/wav;base64,", we remove it.
+            const base64String = (reader.result as string).split(',')[1];
+            resolve(base64String);
+        };
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+const toContents = (chatHistory: ChatTurn[]): Content[] =>
+    chatHistory.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+
+// Errors reported by the proxy (not logged in, over quota, ...) are shown to the user as they are.
+export class AiProxyError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'AiProxyError';
+        this.status = status;
+    }
+}
+
+const callProxy = async <T>(proxyUrl: string, method: string, params: unknown): Promise<T> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new AiProxyError("You must be logged in to use AI features.", 401);
+    }
+    const response = await fetch(proxyUrl, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ method, params }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new AiProxyError(body.error || `The AI proxy returned an error (${response.status}).`, response.status);
+    }
+    return body as T;
+};
+
+interface ProxyContentResponse {
+    text: string;
+    candidates?: Candidate[];
+}
+
+interface ProxyImagesResponse {
+    generatedImages?: GeneratedImage[];
+}
+
+interface ProxyEmbedResponse {
+    embeddings?: ContentEmbedding[];
+}
+
+// Gemini through the server-side proxy in supabase/functions/_shared/aiProxy.ts; the API key stays on the server.
+export const createGeminiProvider = (proxyUrl: string): AiProvider => {
+    const aiClient = {
+        models: {
+            generateContent: (params: GenerateContentParameters) => callProxy<ProxyContentResponse>(proxyUrl, 'generateContent', params),
+            generateImages: (params: GenerateImagesParameters) => callProxy<ProxyImagesResponse>(proxyUrl, 'generateImages', params),
+            embedContent: (params: EmbedContentParameters) => callProxy<ProxyEmbedResponse>(proxyUrl, 'embedContent', params),
+        },
+    };
+
+    return {
+        name: 'gemini',
+        embeddingModel: 'text-embedding-004',
+
+        async summarize(text: string): Promise<string> {
+            try {
+                const response = await aiClient.models.generateContent({
+                    model: 'gemini-2.5-flash',
+                    contents: `Summarize the following note in one short, concise sentence: "${text}"`,
+                    config: {
+                        temperature: 0.3,
+                    }
+                });
+                return response.text.trim();
+            } catch (error) {
+                console.error("Error summarizing text:", error);
+                if (error instanceof AiProxyError) throw error;
+                throw new Error("Failed to connect with the AI for summarization.");
+            }
+        },
+
+        async generateImage(prompt: string): Promise<string> {
+            try {
+                const response = await aiClient.models.generateImages({
+                    model: 'imagen-3.0-generate-002',
+                    prompt: prompt,
+                    config: {
+                        numberOfImages: 1,
+                        outputMimeType: 'image/jpeg',
+                        aspectRatio: '4:3',
+                    },
+                });
+                
+                if (response.generatedImages && response.generatedImages.length > 0) {
+                    const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
+                    return `data:image/jpeg;base64,${base64ImageBytes}`;
+                } else {
+                    throw new Error("No image was generated.");
+                }
+            } catch (error) {
+                console.error("Error generating image:", error);
+                if (error instanceof AiProxyError) throw error;
+                throw new Error("Failed to connect with the AI for image generation.");
+            }
+        },
+
+        async generateImagePrompt(text: string): Promise<string> {
+            try {
+                const response = await aiClient.models.generateContent({
+                    model: 'gemini-2.5-flash',
+                    contents: `Based on the following note, create a short, creative, and visually descriptive prompt for an image generation AI. The prompt should be a single, concise sentence, suitable for a model like Imagen. Do not add quotes or labels. Note: "${text}"`,
+                    config: {
+                        temperature: 0.7,
+                    }
+                });
+                return response.text.trim();
+            } catch (error) {
+                console.error("Error generating image prompt:", error);
+                if (error instanceof AiProxyError) throw error;
+                throw new Error("Failed to connect with the AI for prompt suggestion.");
+            }
+        },
+
+        async transcribeAudio(audioBlob: Blob): Promise<string> {
+            try {
+                const base64Audio = await blobToBase64(audioBlob);
+
+                const audioPart = {
+                    inlineData: {
+                        mimeType: audioBlob.type || 'audio/wav',
+                        data: base64Audio,
+                    },
+                };
+
+                const textPart = {
+                    text: 'Transcribe this audio recording into text.',
+                };
+
+                const response = await aiClient.models.generateContent({
+                    model: 'gemini-2.5-flash',
+                    contents: { parts: [audioPart, textPart] },
+                });
+
+                return response.text.trim();
+            } catch (error) {
+                console.error("Error transcribing audio:", error);
+                if (error instanceof AiProxyError) throw error;
+                throw new Error("Failed to connect with the AI for transcription.");
+            }
+        },
+
+        async extractTasks(text: string): Promise<string[]> {
+            try {
+                const response = await aiClient.models.generateContent({
+                    model: 'gemini-2.5-flash',
+                    contents: `Analyze the following note and extract any action items or tasks. If there are no tasks, return an empty array. Note: "${text}"`,
+                    config: {
+                        responseMimeType: "application/json",
+                        responseSchema: {
+                            type: Type.OBJECT,
+                            properties: {
+                                tasks: {
+                                    type: Type.ARRAY,
+                                    items: { type: Type.STRING }
+                                }
+                            },
+                            required: ["tasks"]
+                        }
+                    }
+                });
+                const result = JSON.parse(response.text);
+                return result.tasks || [];
+            } catch (error) {
+                console.error("Error extracting tasks:", error);
+                if (error instanceof AiProxyError) throw error;
+                throw new Error("Failed to connect with the AI for task extraction.");
+            }
+        },
+
+        async embed(texts: string[]): Promise<number[][]> {
+            if (texts.length === 0) return [];
+            try {
+                const response = await aiClient.models.embedContent({
+                    model: 'text-embedding-004',
+                    contents: texts,
+                });
+                return (response.embeddings || []).map(embedding => embedding.values || []);
+            } catch (error) {
+                console.error("Error computing embeddings:", error);
+                if (error instanceof AiProxyError) throw error;
+                throw new Error("Failed to connect with the AI to compute embeddings.");
+            }
+        },
+
+        async expandNoteText(text: string): Promise<string> {
+            try {
+                const response = await aiClient.models.generateContent({
+                    model: 'gemini-2.5-flash',
+                    contents: `The following is a user's note. Expand on this idea, adding more details, potential features, target audiences, or related concepts. Format the output as clean HTML using <p>, <ul>, <li>, <strong>, and <em> tags. Do not include <html> or <body> tags. Note: "${text}"`,
+                    config: {
+                        temperature: 0.7,
+                    }
+                });
+                return response.text.trim();
+            } catch (error) {
+                console.error("Error expanding note text:", error);
+                if (error instanceof AiProxyError) throw error;
+                throw new Error("Failed to connect with the AI for note expansion.");
+            }
+        },
+
+        async generateInsights(allNotes: Note[]): Promise<string> {
+            const notesContext = allNotes.map(note => {
+                const textContent = stripHtml(note.text).substring(0, 500);
+                return `
+                    Note (Tags: [${(note.tags || []).join(', ')}]):
+                    ${textContent}
+                    ${note.summary ? `Summary: ${note.summary}` : ''}
+                `.trim();
+            }).join('\n---\n');
+
+            if (notesContext.trim().length === 0) {
+                return "There are no notes to analyze yet. Start writing to discover insights!";
+            }
+
+            const prompt = `As an AI analyst, review the following collection of notes. Identify emerging themes, surprising connections between different notes, and potential action items that span across multiple ideas. Present your findings as a concise summary. Use markdown for formatting (e.g., headings, bold text, bullet points). \n\nNotes:\n${notesContext}`;
+
+            try {
+                const response = await aiClient.models.generateContent({
+                    model: 'gemini-2.5-flash',
+                    contents: prompt,
+                     config: {
+                        temperature: 0.5,
+                    }
+                });
+                return response.text.trim();
+            } catch (error) {
+                console.error("Error generating insights:", error);
+                if (error instanceof AiProxyError) throw error;
+                throw new Error("Failed to connect with the AI to generate insights.");
+            }
+        },
+
+        async queryNotes(query: string, allNotes: Note[], useWebSearch: boolean, chatHistory: ChatTurn[]): Promise<AiResponse> {
+              if (useWebSearch) {
+                try {
+                    const contents: Content[] = [
+                        ...toContents(chatHistory),
+                        {
+                            role: 'user',
+                            parts: [{ text: `First, review the following notes context and our conversation history to see if you can answer the user's query. If the answer is not in the notes, use your search tool to find a relevant, up-to-date answer. \n\nUSER QUERY: "${query}"\n\nNOTES CONTEXT:\n${allNotes.map(n => stripHtml(n.text)).join('\n---\n')}` }]
+                        }
+                    ];
+
+                    const response = await aiClient.models.generateContent({
+                       model: "gemini-2.5-flash",
+                       contents: contents,
+                       config: {
+                         tools: [{googleSearch: {}}],
+                       },
+                    });
+
+                    return {
+                        type: 'answer',
+                        content: response.text,
+                        sources: (response.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
+                            .map(chunk => ({ uri: chunk.web?.uri, title: chunk.web?.title }))
+                            .filter((source): source is AiSource => !!source.uri && !!source.title),
+                    };
+
+                } catch (error) {
+                    console.error("Error querying with web search:", error);
+                    if (error instanceof AiProxyError) throw error;
+                    throw new Error("Failed to get a response from the AI assistant with web search.");
+                }
+            }
+
+            const notesContext = allNotes.map(note => {
+                const textContent = stripHtml(note.text).substring(0, 500);
+                return `
+                    Note ID: ${note.id}
+                    Tags: [${(note.tags || []).join(', ')}]
+                    Content: ${textContent}
+                    ${note.summary ? `AI Summary: ${note.summary}` : ''}
+                `.trim();
+            }).join('\n---\n');
+
+            const tools = {
+                functionDeclarations: [
+                    {
+                        name: "create_note",
+                        description: "Creates a new note with the given text content and tags.",
+                        parameters: {
+                            type: Type.OBJECT,
+                            properties: {
+                                text: {
+                                    type: Type.STRING,
+                                    description: "The full HTML content of the note to be created. Use <p> and <ul> tags for formatting."
+                                },
+                                tags: {
+                                    type: Type.ARRAY,
+                                    items: { type: Type.STRING },
+                                    description: "Up to 3 relevant tags for the note."
+                                }
+                            },
+                            required: ["text", "tags"]
+                        }
+                    },
+                    {
+                        name: "update_note",
+                        description: "Updates an existing note with new text, tags, or color. The AI must infer the noteId from the user's query and the notes context.",
+                        parameters: {
+                            type: Type.OBJECT,
+                            properties: {
+                                noteId: {
+                                    type: Type.STRING,
+                                    description: "The ID of the note to update."
+                                },
+                                text: {
+                                    type: Type.STRING,
+                                    description: "The new full HTML content for the note. If not provided, the text will not be changed."
+                                },
+                                tags: {
+                                    type: Type.ARRAY,
+                                    items: { type: Type.STRING },
+                                    description: "An array of new tags. This will replace all existing tags. If not provided, tags will not be changed."
+                                },
+                                color: {
+                                    type: Type.STRING,
+                                    description: "The new background color class for the note. Available options: 'bg-amber-100', 'bg-sky-100', 'bg-lime-100', 'bg-rose-100', 'bg-violet-100', 'bg-white'."
+                                }
+                            },
+                            required: ["noteId"]
+                        }
+                    }
+                ]
+            };
+
+            const systemInstruction = `You are a helpful AI assistant in a notetaking app.
+- Your primary job is to answer questions based *only* on the provided notes context and conversation history. Do not use external knowledge. If the answer isn't in the notes, say so. Format your answers using simple markdown.
+- If the user explicitly asks you to create a note (e.g., "make a note about...", "jot down an idea for..."), you MUST use the 'create_note' tool. Do not answer in text.
+- If the user asks to modify, change, add to, or update an existing note, you MUST use the 'update_note' tool. You must find the correct noteId from the context. Do not answer in text.`;
+            
+            const contents: Content[] = [
+                ...toContents(chatHistory),
+                {
+                    role: 'user',
+                    parts: [{ text: `User query: "${query}"\n\nNotes context:\n${notesContext}` }]
+                }
+            ];
+
+            try {
+                const response = await aiClient.models.generateContent({
+                    model: 'gemini-2.5-flash',
+                    contents: contents,
+                    config: {
+                        systemInstruction,
+                        tools: [tools]
+                    },
+                });
+
+                // Check for function call
+                const functionCall = response.candidates?.[0]?.content?.parts?.find(part => part.functionCall)?.functionCall;
+
+                if (functionCall) {
+                    if (functionCall.name === 'create_note') {
+                        const { text, tags } = functionCall.args;
+                        return {
+                            type: 'note',
+                            content: "I've created that note for you.",
+                            noteData: {
+                                text: (text as string) || '',
+                                tags: (tags as string[]) || [],
+                            },
+                        };
+                    }
+                    if (functionCall.name === 'update_note') {
+                        const { noteId, text, tags, color } = functionCall.args;
+                         if (!noteId) {
+                            return { type: 'answer', content: "I'm sorry, I couldn't figure out which note to update. Can you be more specific?" };
+                        }
+                        return {
+                            type: 'update',
+                            content: "I've updated that note for you.",
+                            noteData: {
+                                id: noteId as string,
+                                text: text as string | undefined,
+                                tags: tags as string[] | undefined,
+                                color: color as string | undefined,
+                            },
+                        };
+                    }
+                }
+                
+                // If no function call, return text response
+                return {
+                    type: 'answer',
+                    content: response.text || "I'm sorry, I couldn't process that request.",
+                };
+            } catch (error) {
+                console.error("Error querying notes:", error);
+                if (error instanceof AiProxyError) throw error;
+                throw new Error("Failed to get a response from the AI assistant.");
+            }
+        },
+
+        async extractTagsFromTranscript(transcript: string): Promise<string[]> {
+            if (!transcript) return [];
+            try {
+                const response = await aiClient.models.generateContent({
+                    model: 'gemini-2.5-flash',
+                    contents: `From the following voice memo, extract only the tags. A tag is usually preceded by a phrase like "tag it as", "add the tag", or "tag it". If no tags are explicitly mentioned, return an empty array. Transcript: "${transcript}"`,
+                    config: {
+                        responseMimeType: "application/json",
+                        responseSchema: {
+                            type: Type.OBJECT,
+                            properties: {
+                                tags: {
+                                    type: Type.ARRAY,
+                                    items: {
+                                        type: Type.STRING,
+                                        description: "A tag mentioned in the transcript."
+                                    }
+                                }
+                            },
+                            required: ["tags"]
+                        }
+                    }
+                });
+                const result = JSON.parse(response.text);
+                return result.tags || [];
+            } catch (error) {
+                console.error("Error extracting tags from transcript:", error);
+                // Fail gracefully, so note can still be created without tags.
+                return [];
+            }
+        },
+
+        async clusterNotes(notes: Note[]): Promise<NoteCluster[]> {
+            if (notes.length === 0) return [];
+            // Notes are numbered rather than sent with their ids; numbers are shorter and harder to garble.
+            const notesContext = notes.map((note, index) =>
+                `[${index}] (Tags: [${(note.tags || []).join(', ')}]) ${stripHtml(note.text).replace(/\s+/g, ' ').trim().substring(0, 300)}`
+            ).join('\n');
+            try {
+                const response = await aiClient.models.generateContent({
+                    model: 'gemini-2.5-flash',
+                    contents: `Group the following notes into a small number of topical clusters (usually 2 to 8), so that notes about the same subject end up together. Give each cluster a short label of one to three words. Put every note in exactly one cluster, referring to notes by their number in square brackets.\n\nNotes:\n${notesContext}`,
+                    config: {
+                        responseMimeType: "application/json",
+                        responseSchema: {
+                            type: Type.OBJECT,
+                            properties: {
+                                clusters: {
+                                    type: Type.ARRAY,
+                                    items: {
+                                        type: Type.OBJECT,
+                                        properties: {
+                                            label: { type: Type.STRING },
+                                            notes: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+                                        },
+                                        required: ["label", "notes"]
+                                    }
+                                }
+                            },
+                            required: ["clusters"]
+                        }
+                    }
+                });
+                const result = JSON.parse(response.text);
+                const clusters: NoteCluster[] = (result.clusters || []).map((cluster: { label: string; notes: number[] }) => ({
+                    label: cluster.label || '',
+                    noteIds: (cluster.notes || []).map(index => notes[index]?.id).filter(Boolean),
+                }));
+                return completeClusters(clusters, notes);
+            } catch (error) {
+                console.error("Error clustering notes:", error);
+                if (error instanceof AiProxyError) throw error;
+                throw new Error("Failed to connect with the AI to group notes.");
+            }
+        },
+    };
+};
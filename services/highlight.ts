@@ -0,0 +1,58 @@
+import { normalizeToken } from './searchIndex';
+
+// Marks search matches in note previews. `terms` are index tokens (see SearchHit.matches), so matching is
+// per whole word after the same normalisation the index uses.
+
+export interface TextSegment {
+    text: string;
+    isMatch: boolean;
+}
+
+const HIGHLIGHT_CLASS = 'search-highlight';
+const HIGHLIGHT_CLASSES = `${HIGHLIGHT_CLASS} bg-yellow-200 text-inherit rounded-sm`;
+
+export const splitHighlights = (text: string, terms: string[]): TextSegment[] => {
+    if (terms.length === 0) return [{ text, isMatch: false }];
+    const wanted = new Set(terms);
+    const segments: TextSegment[] = [];
+    // Splitting on a capturing group keeps the words at odd indexes.
+    text.split(/([\p{L}\p{N}]+)/u).forEach((part, index) => {
+        if (!part) return;
+        const isMatch = index % 2 === 1 && wanted.has(normalizeToken(part));
+        const last = segments[segments.length - 1];
+        if (last && last.isMatch === isMatch && !isMatch) last.text += part;
+        else segments.push({ text: part, isMatch });
+    });
+    return segments;
+};
+
+// Wraps matches in <mark> inside already-sanitized HTML.
+export const highlightHtml = (html: string, terms: string[]): string => {
+    if (terms.length === 0 || !html) return html;
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+    textNodes.forEach(node => {
+        const segments = splitHighlights(node.data, terms);
+        if (!segments.some(segment => segment.isMatch)) return;
+        node.replaceWith(...segments.map(segment => {
+            if (!segment.isMatch) return doc.createTextNode(segment.text);
+            const mark = doc.createElement('mark');
+            mark.className = HIGHLIGHT_CLASSES;
+            mark.textContent = segment.text;
+            return mark;
+        }));
+    });
+    return doc.body.innerHTML;
+};
+
+// Undoes highlightHtml, for markup read back from the page before it is saved.
+export const removeHighlights = (html: string): string => {
+    if (!html.includes(HIGHLIGHT_CLASS)) return html;
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.body.querySelectorAll(`mark.${HIGHLIGHT_CLASS}`).forEach(mark => mark.replaceWith(...Array.from(mark.childNodes)));
+    doc.body.normalize();
+    return doc.body.innerHTML;
+};
@@ -0,0 +1,98 @@
+import { supabase } from './supabaseClient';
+import { NOTE_COLOR_OPTIONS } from './aiProvider';
+import type { KanbanLayout, Note } from '../types';
+
+// The board view groups notes into columns by tag or by colour. Columns are exclusive: a note sits in
+// the first column (in the user's order) that it matches, or in "Other" if it matches none. Moving a
+// note to a column makes that column's tag or colour the only one of the board's values it carries.
+
+export interface KanbanColumn {
+    // The tag or colour class; null for "Other".
+    value: string | null;
+    label: string;
+    notes: Note[];
+}
+
+export const defaultKanbanLayout = (userId: string): KanbanLayout => ({
+    user_id: userId,
+    group_by: 'tag',
+    tag_columns: [],
+    color_columns: [...NOTE_COLOR_OPTIONS],
+});
+
+export const colorLabel = (color: string) => {
+    const name = color.replace(/^bg-/, '').replace(/-\d+$/, '');
+    return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+export const columnValues = (layout: KanbanLayout) => (layout.group_by === 'tag' ? layout.tag_columns : layout.color_columns);
+
+export async function fetchKanbanLayout(userId: string): Promise<KanbanLayout> {
+    const { data, error } = await supabase
+        .from('kanban_layouts')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(error.message);
+    }
+    return data || defaultKanbanLayout(userId);
+}
+
+export async function saveKanbanLayout(layout: KanbanLayout): Promise<KanbanLayout> {
+    const { data, error } = await supabase
+        .from('kanban_layouts')
+        .upsert({ ...layout, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+    if (error || !data) {
+        throw new Error(error?.message || "Could not save the board layout.");
+    }
+    return data;
+}
+
+const noteValue = (note: Note, layout: KanbanLayout): string | null => {
+    if (layout.group_by === 'color') return layout.color_columns.includes(note.color) ? note.color : null;
+    return layout.tag_columns.find(tag => note.tags?.includes(tag)) ?? null;
+};
+
+export const kanbanColumns = (layout: KanbanLayout, notes: Note[]): KanbanColumn[] => {
+    const values = columnValues(layout);
+    const columns: KanbanColumn[] = values.map(value => ({
+        value,
+        label: layout.group_by === 'tag' ? `#${value}` : colorLabel(value),
+        notes: [],
+    }));
+    const other: KanbanColumn = { value: null, label: 'Other', notes: [] };
+    notes.forEach(note => {
+        const value = noteValue(note, layout);
+        (value === null ? other : columns[values.indexOf(value)]).notes.push(note);
+    });
+    return [...columns, other];
+};
+
+/**
+ * The update that moves a note into the column for `target` (null for "Other"), or null if there is
+ * nothing to change. A note can't be moved to "Other" by colour, since every note has some colour.
+ */
+export const moveToColumnUpdate = (note: Note, layout: KanbanLayout, target: string | null): Partial<Note> | null => {
+    if (noteValue(note, layout) === target) return null;
+    if (layout.group_by === 'color') return target ? { color: target } : null;
+    const tags = (note.tags || []).filter(tag => !layout.tag_columns.includes(tag));
+    return { tags: target ? [...tags, target] : tags };
+};
+
+// Moves one column left (-1) or right (+1) in the current mode's list.
+export const moveColumn = (layout: KanbanLayout, value: string, offset: -1 | 1): KanbanLayout => {
+    const values = [...columnValues(layout)];
+    const from = values.indexOf(value);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= values.length) return layout;
+    [values[from], values[to]] = [values[to], values[from]];
+    return setColumnValues(layout, values);
+};
+
+export const setColumnValues = (layout: KanbanLayout, values: string[]): KanbanLayout =>
+    layout.group_by === 'tag' ? { ...layout, tag_columns: values } : { ...layout, color_columns: values };
@@ -0,0 +1,234 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Note } from '../types';
+import { createLocalAiProvider } from './localAiProvider';
+
+const provider = createLocalAiProvider();
+
+const note = (id: string, text: string, tags: string[] = [], overrides: Partial<Note> = {}): Note => ({
+    id,
+    user_id: 'user-1',
+    text,
+    image_url: null,
+    drawing_url: null,
+    audio_url: null,
+    summary: null,
+    color: 'bg-amber-100',
+    tags,
+    tasks: null,
+    related_note_ids: null,
+    stack_id: null,
+    canvas_x: null,
+    canvas_y: null,
+    ...overrides,
+});
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe('local AI provider', () => {
+    describe('summarize', () => {
+        it('uses the first sentence of the note', async () => {
+            await expect(provider.summarize('<p>Plan the garden. Buy seeds on Friday.</p><p>Later</p>')).resolves.toBe('Plan the garden.');
+        });
+
+        it('shortens long sentences', async () => {
+            const summary = await provider.summarize(`<p>${'word '.repeat(60)}</p>`);
+            expect(summary.length).toBe(140);
+            expect(summary.endsWith('…')).toBe(true);
+        });
+
+        it('returns an empty summary for an empty note', async () => {
+            await expect(provider.summarize('')).resolves.toBe('');
+        });
+    });
+
+    describe('generateImagePrompt', () => {
+        it('describes the most frequent words', async () => {
+            await expect(provider.generateImagePrompt('<p>Garden garden tomatoes tomatoes basil</p>'))
+                .resolves.toBe('A warm, hand-drawn illustration of garden, tomatoes, basil');
+        });
+
+        it('falls back to a generic prompt', async () => {
+            await expect(provider.generateImagePrompt('<p>a the of</p>')).resolves.toBe('A warm, hand-drawn illustration of a sticky note on a desk');
+        });
+    });
+
+    describe('generateImage', () => {
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it('draws the prompt onto a card and returns it as a JPEG data URL', async () => {
+            const fillText = vi.fn();
+            const context = {
+                createLinearGradient: () => ({ addColorStop: vi.fn() }),
+                fillRect: vi.fn(),
+                fillText,
+                measureText: (text: string) => ({ width: text.length * 18 }),
+            };
+            vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(context as unknown as CanvasRenderingContext2D);
+            const toDataURL = vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/jpeg;base64,AAAA');
+
+            await expect(provider.generateImage('A lighthouse at dusk')).resolves.toBe('data:image/jpeg;base64,AAAA');
+            expect(toDataURL).toHaveBeenCalledWith('image/jpeg', 0.85);
+            expect(fillText.mock.calls.map(([text]) => text).join(' ')).toBe('A lighthouse at dusk');
+        });
+
+        it('fails when the browser has no 2D canvas', async () => {
+            vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+            await expect(provider.generateImage('anything')).rejects.toThrow('Could not create a drawing context');
+        });
+    });
+
+    describe('transcribeAudio', () => {
+        it('explains that transcription needs an online provider', async () => {
+            const audio = new Blob([new Uint8Array(48000)], { type: 'audio/webm' });
+            await expect(provider.transcribeAudio(audio)).resolves.toBe('Audio recording (about 3s). Transcription needs an online AI provider.');
+        });
+    });
+
+    describe('extractTasks', () => {
+        it('picks out lines that read like tasks', async () => {
+            const text = '<ul><li>TODO: renew passport</li><li>Nice weather today</li><li>Call the dentist</li></ul><p>Need to book flights</p>';
+            await expect(provider.extractTasks(text)).resolves.toEqual(['renew passport', 'Call the dentist', 'Need to book flights']);
+        });
+
+        it('returns nothing for a note without tasks', async () => {
+            await expect(provider.extractTasks('<p>Just some thoughts.</p>')).resolves.toEqual([]);
+        });
+    });
+
+    describe('embed', () => {
+        it('returns one unit-length vector per text, the same each time', async () => {
+            const [first, second] = await provider.embed(['Gardening tomatoes', 'Gardening tomatoes']);
+            expect(first).toHaveLength(256);
+            expect(cosine(first, first)).toBeCloseTo(1);
+            expect(second).toEqual(first);
+        });
+
+        it('points notes with shared words closer together', async () => {
+            const [garden, tomatoes, taxes] = await provider.embed(['tomatoes in the garden', 'garden tomatoes ripening', 'quarterly tax return']);
+            expect(cosine(garden, tomatoes)).toBeGreaterThan(cosine(garden, taxes));
+        });
+
+        it('gives a zero vector for text without words', async () => {
+            const [empty] = await provider.embed(['']);
+            expect(empty.every(value => value === 0)).toBe(true);
+        });
+    });
+
+    describe('expandNoteText', () => {
+        it('asks a question about each key word', async () => {
+            const html = await provider.expandNoteText('<p>Launch bakery website website</p>');
+            expect(html).toContain('<strong>website</strong>');
+            expect(html).toContain('<strong>bakery</strong>');
+            expect(html).toContain('<strong>launch</strong>');
+        });
+
+        it('escapes HTML in the words it quotes', async () => {
+            expect(await provider.expandNoteText('&lt;script&gt;')).not.toContain('<script>');
+        });
+    });
+
+    describe('generateInsights', () => {
+        it('says when there is nothing to analyse', async () => {
+            await expect(provider.generateInsights([])).resolves.toBe('There are no notes to analyze yet. Start writing to discover insights!');
+        });
+
+        it('reports tags, themes, connections and action items', async () => {
+            const notes = [
+                note('a', '<p>Garden tomatoes need water</p>', ['garden']),
+                note('b', '<p>Garden tomatoes ripening</p>', ['garden']),
+                note('c', '<p>Call the plumber</p>', ['home']),
+            ];
+            const insights = await provider.generateInsights(notes);
+            expect(insights).toContain('You have **3** notes.');
+            expect(insights).toContain('- **#garden** (2)');
+            expect(insights).toContain('## Recurring themes\n- garden\n- tomatoes');
+            expect(insights).toContain('"Garden tomatoes need water" and "Garden tomatoes ripening" cover similar ground.');
+            expect(insights).toContain('## Action items\n- Call the plumber');
+        });
+    });
+
+    describe('queryNotes', () => {
+        const notes = [
+            note('shopping', '<p>Shopping list: milk, eggs, bread</p>', ['shopping']),
+            note('trip', '<p>Trip to Lisbon in May</p>', ['travel'], { summary: 'Lisbon trip plans' }),
+        ];
+
+        it('creates a note when asked to', async () => {
+            await expect(provider.queryNotes('Create a note about buying <b>flowers</b> flowers', notes, false, [])).resolves.toEqual({
+                type: 'note',
+                content: "I've created that note for you.",
+                noteData: { text: '<p>buying &lt;b&gt;flowers&lt;/b&gt; flowers</p>', tags: ['flowers', 'buying'] },
+            });
+        });
+
+        it('recolours the note the request names', async () => {
+            await expect(provider.queryNotes('Change the color of my shopping note to blue', notes, false, [])).resolves.toEqual({
+                type: 'update',
+                content: "I've updated that note for you.",
+                noteData: { id: 'shopping', color: 'bg-sky-100', tags: undefined },
+            });
+        });
+
+        it('retags the note the request names', async () => {
+            const response = await provider.queryNotes('Tag my Lisbon trip note as holiday, Portugal', notes, false, []);
+            expect(response.noteData).toEqual({ id: 'trip', color: undefined, tags: ['holiday', 'portugal'] });
+        });
+
+        it('reads tags that follow "it"', async () => {
+            const response = await provider.queryNotes('Shopping note: tag it groceries', notes, false, []);
+            expect(response.noteData).toEqual({ id: 'shopping', color: undefined, tags: ['groceries'] });
+        });
+
+        it("says so when it can't tell which note to update", async () => {
+            const response = await provider.queryNotes('Change the color of the recipe note to blue', notes, false, []);
+            expect(response.type).toBe('answer');
+            expect(response.content).toContain("couldn't figure out which note");
+        });
+
+        it('answers from the matching notes, preferring their summaries', async () => {
+            const response = await provider.queryNotes('When is the Lisbon trip?', notes, false, []);
+            expect(response).toEqual({ type: 'answer', content: "Here's what your notes say:\n- Lisbon trip plans" });
+        });
+
+        it('notes that web search is unavailable offline', async () => {
+            const response = await provider.queryNotes('Anything about gardening?', notes, true, []);
+            expect(response.content).toBe("_Web search isn't available offline, so this is based on your notes only._\n\nI couldn't find anything about that in your notes.");
+        });
+    });
+
+    describe('extractTagsFromTranscript', () => {
+        it('reads the tags the user dictated', async () => {
+            await expect(provider.extractTagsFromTranscript('Pick up the dry cleaning, tag it as errands and Home Stuff.')).resolves.toEqual(['errands', 'home-stuff']);
+        });
+
+        it('returns no tags when none were mentioned', async () => {
+            await expect(provider.extractTagsFromTranscript('Pick up the dry cleaning.')).resolves.toEqual([]);
+        });
+    });
+
+    describe('clusterNotes', () => {
+        it('groups notes by first tag, then by most frequent word, with singletons in Other', async () => {
+            const notes = [
+                note('a', '<p>Tomatoes</p>', ['garden']),
+                note('b', '<p>Basil</p>', ['garden', 'herbs']),
+                note('c', '<p>Budget budget for May</p>'),
+                note('d', '<p>Budget review</p>'),
+                note('e', '<p>Lonely note</p>', ['misc']),
+            ];
+            await expect(provider.clusterNotes(notes)).resolves.toEqual([
+                { label: 'budget', noteIds: ['c', 'd'] },
+                { label: 'garden', noteIds: ['a', 'b'] },
+                { label: 'Other', noteIds: ['e'] },
+            ]);
+        });
+
+        it('puts every note in exactly one cluster', async () => {
+            const notes = Array.from({ length: 12 }, (_, i) => note(`n${i}`, `<p>topic${i % 4} words</p>`, i % 3 === 0 ? ['tagged'] : []));
+            const clusters = await provider.clusterNotes(notes);
+            expect(clusters.flatMap(cluster => cluster.noteIds).sort()).toEqual(notes.map(n => n.id).sort());
+        });
+    });
+});
@@ -0,0 +1,257 @@
+import type { Note } from '../types';
+import { NOTE_COLOR_OPTIONS, completeClusters, stripHtml } from './aiProvider';
+import type { AiProvider, AiResponse, NoteCluster } from './aiProvider';
+
+// Rule-based stand-in for a real model. Every answer is derived from the input alone, so the same
+// notes always give the same results and nothing leaves the device.
+
+const STOP_WORDS = new Set(('a an and are as at be but by for from has have i if in into is it its me my no not of on or our so ' +
+    'that the their them then there these they this to was we were what when where which who will with you your about just ' +
+    'can could should would do does did been also than too very more most some any all each other only own same such up out').split(' '));
+
+const TASK_PATTERN = /\b(todo|to-do|need to|needs to|have to|must|should|remember to|don't forget to|follow up|call|email|buy|send|book|schedule|finish|fix)\b/i;
+
+const plainText = (html: string | null | undefined) => stripHtml(html).replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+const keywords = (text: string): string[] =>
+    (text.toLowerCase().match(/[a-z0-9][a-z0-9'-]{2,}/g) || []).filter(word => !STOP_WORDS.has(word));
+
+const topKeywords = (text: string, count: number): string[] => {
+    const frequency = new Map<string, number>();
+    keywords(text).forEach(word => frequency.set(word, (frequency.get(word) || 0) + 1));
+    return Array.from(frequency.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, count)
+        .map(([word]) => word);
+};
+
+const sentences = (text: string): string[] => text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text);
+
+// Lines of the note as written: list items and block elements become separate lines.
+const noteLines = (html: string): string[] =>
+    html
+        .replace(/<br\s*\/?>|<\/(?:div|p|li|h[1-6])>/gi, '\n')
+        .split('\n')
+        .map(line => plainText(line))
+        .filter(Boolean);
+
+const similarity = (a: Note, b: Note): number => {
+    const wordsA = new Set([...keywords(plainText(a.text)), ...(a.tags || [])]);
+    const wordsB = new Set([...keywords(plainText(b.text)), ...(b.tags || [])]);
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+    const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+    return shared / (wordsA.size + wordsB.size - shared);
+};
+
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    return Math.abs(hash);
+};
+
+const EMBEDDING_DIMENSIONS = 256;
+
+// Feature hashing over words and their trigrams, so notes sharing vocabulary (or word stems) point the same way.
+const hashedEmbedding = (text: string): number[] => {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    keywords(plainText(text)).forEach(word => {
+        vector[hashString(word) % EMBEDDING_DIMENSIONS] += 1;
+        for (let i = 0; i + 3 <= word.length; i++) {
+            vector[hashString(`#${word.slice(i, i + 3)}`) % EMBEDDING_DIMENSIONS] += 0.25;
+        }
+    });
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const COLOR_NAMES: Record<string, string> = {
+    amber: 'bg-amber-100', yellow: 'bg-amber-100', orange: 'bg-amber-100',
+    sky: 'bg-sky-100', blue: 'bg-sky-100',
+    lime: 'bg-lime-100', green: 'bg-lime-100',
+    rose: 'bg-rose-100', pink: 'bg-rose-100', red: 'bg-rose-100',
+    violet: 'bg-violet-100', purple: 'bg-violet-100',
+    white: 'bg-white',
+};
+
+const parseTagList = (text: string): string[] =>
+    text.split(/,|\band\b/).map(tag => tag.trim().toLowerCase().replace(/^#/, '').replace(/[^a-z0-9-]+/g, '-').replace(/^-|-$/g, '')).filter(Boolean);
+
+const rankNotes = (query: string, notes: Note[]) => {
+    const queryWords = new Set(keywords(query));
+    return notes
+        .map(note => {
+            const words = [...keywords(plainText(note.text)), ...(note.tags || [])];
+            return { note, score: words.filter(word => queryWords.has(word)).length };
+        })
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score);
+};
+
+export const createLocalAiProvider = (): AiProvider => {
+    const provider: AiProvider = {
+        name: 'local',
+        embeddingModel: `local-hashed-${EMBEDDING_DIMENSIONS}`,
+
+        async summarize(text) {
+            const first = noteLines(text).flatMap(sentences)[0] || '';
+            return truncate(first, 140);
+        },
+
+        async generateImagePrompt(text) {
+            const words = topKeywords(plainText(text), 4);
+            return words.length > 0
+                ? `A warm, hand-drawn illustration of ${words.join(', ')}`
+                : 'A warm, hand-drawn illustration of a sticky note on a desk';
+        },
+
+        async generateImage(prompt) {
+            // A gradient card with the prompt on it; colours are picked from the prompt so it is stable.
+            const canvas = document.createElement('canvas');
+            canvas.width = 800;
+            canvas.height = 600;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error("Could not create a drawing context for the image.");
+            const hue = hashString(prompt) % 360;
+            const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+            gradient.addColorStop(0, `hsl(${hue}, 70%, 80%)`);
+            gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 60%)`);
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+            ctx.font = '36px sans-serif';
+            ctx.textAlign = 'center';
+            const words = prompt.split(/\s+/);
+            const lines: string[] = [];
+            words.forEach(word => {
+                const last = lines[lines.length - 1];
+                if (last !== undefined && ctx.measureText(`${last} ${word}`).width < canvas.width - 120) {
+                    lines[lines.length - 1] = `${last} ${word}`;
+                } else {
+                    lines.push(word);
+                }
+            });
+            lines.slice(0, 8).forEach((line, i, shown) => {
+                ctx.fillText(line, canvas.width / 2, canvas.height / 2 + (i - (shown.length - 1) / 2) * 46);
+            });
+            return canvas.toDataURL('image/jpeg', 0.85);
+        },
+
+        async transcribeAudio(audio) {
+            const seconds = Math.max(1, Math.round(audio.size / 16000));
+            return `Audio recording (about ${seconds}s). Transcription needs an online AI provider.`;
+        },
+
+        async extractTasks(text) {
+            return noteLines(text)
+                .flatMap(line => (line.length > 120 ? sentences(line) : [line]))
+                .filter(line => TASK_PATTERN.test(line))
+                .map(line => truncate(line.replace(/^(todo|to-do)\s*:?\s*/i, ''), 120));
+        },
+
+        async embed(texts) {
+            return texts.map(hashedEmbedding);
+        },
+
+        async expandNoteText(text) {
+            const plain = plainText(text);
+            const ideas = topKeywords(plain, 3);
+            const points = ideas.length > 0
+                ? ideas.map(word => `<li><strong>${escapeHtml(word)}</strong>: what does success look like here, and what is the first small step?</li>`).join('')
+                : '<li>What is the goal of this idea, and who is it for?</li>';
+            return `<p><em>Things to think through:</em></p><ul>${points}<li>Which open questions need an answer before starting?</li></ul>`;
+        },
+
+        async generateInsights(allNotes) {
+            if (allNotes.length === 0) {
+                return "There are no notes to analyze yet. Start writing to discover insights!";
+            }
+            const tagCounts = new Map<string, number>();
+            allNotes.forEach(note => (note.tags || []).forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1)));
+            const topTags = Array.from(tagCounts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, 5);
+            const themes = topKeywords(allNotes.map(note => plainText(note.text)).join(' '), 5);
+            const tasks = (await Promise.all(allNotes.map(note => provider.extractTasks(note.text)))).flat().slice(0, 5);
+
+            const bestPair = allNotes
+                .flatMap((a, i) => allNotes.slice(i + 1).map(b => ({ a, b, score: similarity(a, b) })))
+                .filter(pair => pair.score >= 0.1)
+                .sort((x, y) => y.score - x.score)[0];
+
+            const sections = [`## Overview\nYou have **${allNotes.length}** notes.`];
+            if (topTags.length > 0) sections.push(`## Top tags\n${topTags.map(([tag, count]) => `- **#${tag}** (${count})`).join('\n')}`);
+            if (themes.length > 0) sections.push(`## Recurring themes\n${themes.map(word => `- ${word}`).join('\n')}`);
+            if (bestPair) {
+                const { a, b } = bestPair;
+                sections.push(`## Connection\n- "${truncate(plainText(a.text), 60)}" and "${truncate(plainText(b.text), 60)}" cover similar ground.`);
+            }
+            if (tasks.length > 0) sections.push(`## Action items\n${tasks.map(task => `- ${task}`).join('\n')}`);
+            return sections.join('\n\n');
+        },
+
+        async queryNotes(query, allNotes, useWebSearch): Promise<AiResponse> {
+            const createMatch = query.match(/^\s*(?:please\s+)?(?:create|make|add|write|jot down)\s+(?:a\s+|an\s+)?(?:new\s+)?(?:note|idea)\s*(?:about|for|on|:|that says)?\s*(.*)$/i);
+            if (createMatch) {
+                const body = createMatch[1].trim() || query.trim();
+                return {
+                    type: 'note',
+                    content: "I've created that note for you.",
+                    noteData: { text: `<p>${escapeHtml(body)}</p>`, tags: topKeywords(body, 2) },
+                };
+            }
+
+            const isUpdate = /\b(update|change|modify|edit|recolou?r|tag|rename)\b/i.test(query);
+            if (isUpdate) {
+                const target = rankNotes(query, allNotes)[0]?.note;
+                if (!target) {
+                    return { type: 'answer', content: "I'm sorry, I couldn't figure out which note to update. Can you be more specific?" };
+                }
+                const colorMatch = query.match(/\b(amber|yellow|orange|sky|blue|lime|green|rose|pink|red|violet|purple|white)\b/i);
+                // "tag my trip note as holiday" names the note before the tags; "tag it holiday" doesn't.
+                const tagMatch = query.match(/\btag(?:s|ged)?\b.*?\s(?:as|with)\s+(.+)$/i) || query.match(/\btag(?:s|ged)?\s+(?:it\s+)?(.+)$/i);
+                const color = colorMatch ? COLOR_NAMES[colorMatch[1].toLowerCase()] : undefined;
+                const tags = tagMatch ? parseTagList(tagMatch[1]) : undefined;
+                if (!color && !tags) {
+                    return { type: 'answer', content: "The offline assistant can change a note's colour or tags. Try \"change the color of my shopping note to blue\"." };
+                }
+                return {
+                    type: 'update',
+                    content: "I've updated that note for you.",
+                    noteData: { id: target.id, color: color && NOTE_COLOR_OPTIONS.includes(color) ? color : undefined, tags },
+                };
+            }
+
+            const matches = rankNotes(query, allNotes).slice(0, 3);
+            const prefix = useWebSearch ? "_Web search isn't available offline, so this is based on your notes only._\n\n" : '';
+            if (matches.length === 0) {
+                return { type: 'answer', content: `${prefix}I couldn't find anything about that in your notes.` };
+            }
+            const lines = matches.map(({ note }) => `- ${note.summary || truncate(plainText(note.text), 160)}`);
+            return { type: 'answer', content: `${prefix}Here's what your notes say:\n${lines.join('\n')}` };
+        },
+
+        async extractTagsFromTranscript(transcript) {
+            const match = transcript.match(/\b(?:tag it as|tag it|add the tags?|tagged as|tags?)\s*:?\s+(.+?)(?:[.!?]|$)/i);
+            return match ? parseTagList(match[1]) : [];
+        },
+
+        async clusterNotes(notes) {
+            // Each note goes under its first tag, or failing that its most frequent word; topics with a
+            // single note end up in "Other".
+            const groups = new Map<string, string[]>();
+            notes.forEach(note => {
+                const topic = note.tags?.[0] || topKeywords(plainText(note.text), 1)[0] || '';
+                if (!groups.has(topic)) groups.set(topic, []);
+                groups.get(topic)!.push(note.id);
+            });
+            const clusters: NoteCluster[] = Array.from(groups.entries())
+                .filter(([topic, ids]) => topic && ids.length > 1)
+                .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+                .map(([topic, ids]) => ({ label: topic, noteIds: ids }));
+            return completeClusters(clusters, notes);
+        },
+    };
+    return provider;
+};
@@ -0,0 +1,96 @@
+const DB_NAME = 'stickon-ai';
+const DB_VERSION = 3;
+
+// Object stores are created in the upgrade handler below; bump DB_VERSION when adding one.
+export const MEDIA_STORE = 'media';
+export const NOTES_STORE = 'notes';
+export const MUTATIONS_STORE = 'mutations';
+export const PENDING_UPLOADS_STORE = 'pendingUploads';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openLocalDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not available in this environment."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+                    db.createObjectStore(MEDIA_STORE);
+                }
+                if (!db.objectStoreNames.contains(NOTES_STORE)) {
+                    const notesStore = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+                    notesStore.createIndex('user_id', 'user_id');
+                }
+                if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+                    db.createObjectStore(MUTATIONS_STORE, { keyPath: 'seq', autoIncrement: true });
+                }
+                if (!db.objectStoreNames.contains(PENDING_UPLOADS_STORE)) {
+                    db.createObjectStore(PENDING_UPLOADS_STORE, { keyPath: 'path' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export async function idbGet<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openLocalDb();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return promisifyRequest<T | undefined>(store.get(key));
+}
+
+export async function idbGetAll<T>(storeName: string, indexName?: string, query?: IDBValidKey): Promise<T[]> {
+    const db = await openLocalDb();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const source = indexName ? store.index(indexName) : store;
+    return promisifyRequest<T[]>(source.getAll(query));
+}
+
+// `key` is only needed for stores without a keyPath.
+export async function idbPut<T>(storeName: string, value: T, key?: IDBValidKey): Promise<IDBValidKey> {
+    const db = await openLocalDb();
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    return promisifyRequest(store.put(value, key));
+}
+
+export async function idbDelete(storeName: string, key: IDBValidKey): Promise<void> {
+    const db = await openLocalDb();
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    await promisifyRequest(store.delete(key));
+}
+
+// Replaces every record matching `indexName = query` with `values` in a single transaction.
+export async function idbReplaceAll<T>(storeName: string, indexName: string, query: IDBValidKey, values: T[]): Promise<void> {
+    const db = await openLocalDb();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const keys = await promisifyRequest(store.index(indexName).getAllKeys(query));
+    keys.forEach(key => store.delete(key));
+    values.forEach(value => store.put(value));
+    await promisifyTransaction(transaction);
+}
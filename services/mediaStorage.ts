@@ -0,0 +1,232 @@
+import { supabase } from './supabaseClient';
+import { MEDIA_STORE, PENDING_UPLOADS_STORE, idbGet, idbGetAll, idbPut, idbDelete } from './localDb';
+import { isOnline, isOfflineError } from './network';
+
+export const MEDIA_BUCKET = 'note-media';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export type MediaKind = 'audio' | 'image' | 'drawing';
+
+export interface MediaStorageBackend {
+    upload(path: string, blob: Blob): Promise<void>;
+    getUrl(path: string): Promise<string>;
+    download(path: string): Promise<Blob>;
+    remove(paths: string[]): Promise<void>;
+    // Sends uploads that were kept locally while offline. Returns how many went through.
+    flushPending?(): Promise<number>;
+}
+
+interface PendingUpload {
+    path: string;
+    blob: Blob;
+    queuedAt: string;
+}
+
+// Stores media in a private Supabase Storage bucket and serves it through short-lived signed URLs.
+export const createSupabaseMediaBackend = (): MediaStorageBackend => {
+    const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+    return {
+        async upload(path, blob) {
+            const { error } = await supabase.storage
+                .from(MEDIA_BUCKET)
+                .upload(path, blob, { contentType: blob.type || undefined, upsert: false });
+            if (error) throw new Error(error.message);
+        },
+        async getUrl(path) {
+            const cached = signedUrlCache.get(path);
+            // Refresh a minute before expiry so a URL handed to an <audio> element stays valid while it loads.
+            if (cached && cached.expiresAt - 60_000 > Date.now()) return cached.url;
+
+            const { data, error } = await supabase.storage
+                .from(MEDIA_BUCKET)
+                .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+            if (error || !data) throw new Error(error?.message || "Could not create a signed URL.");
+            signedUrlCache.set(path, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000 });
+            return data.signedUrl;
+        },
+        async download(path) {
+            const { data, error } = await supabase.storage.from(MEDIA_BUCKET).download(path);
+            if (error || !data) throw new Error(error?.message || "Could not download media.");
+            return data;
+        },
+        async remove(paths) {
+            paths.forEach(path => signedUrlCache.delete(path));
+            const { error } = await supabase.storage.from(MEDIA_BUCKET).remove(paths);
+            if (error) throw new Error(error.message);
+        },
+    };
+};
+
+// Keeps media in the browser's IndexedDB. Used for offline work and for running the app without a Supabase project.
+export const createIndexedDbMediaBackend = (): MediaStorageBackend => {
+    const objectUrlCache = new Map<string, string>();
+
+    return {
+        async upload(path, blob) {
+            await idbPut(MEDIA_STORE, blob, path);
+        },
+        async getUrl(path) {
+            const cached = objectUrlCache.get(path);
+            if (cached) return cached;
+            const blob = await idbGet<Blob>(MEDIA_STORE, path);
+            if (!blob) throw new Error("Media not found in local storage.");
+            const url = URL.createObjectURL(blob);
+            objectUrlCache.set(path, url);
+            return url;
+        },
+        async download(path) {
+            const blob = await idbGet<Blob>(MEDIA_STORE, path);
+            if (!blob) throw new Error("Media not found in local storage.");
+            return blob;
+        },
+        async remove(paths) {
+            for (const path of paths) {
+                const cached = objectUrlCache.get(path);
+                if (cached) {
+                    URL.revokeObjectURL(cached);
+                    objectUrlCache.delete(path);
+                }
+                await idbDelete(MEDIA_STORE, path);
+            }
+        },
+    };
+};
+
+/**
+ * Wraps a remote backend so media can be stored offline. An upload that can't reach the server is kept
+ * in IndexedDB under the same path and served from there until `flushPending` sends it, so notes can
+ * refer to the path straight away.
+ */
+export const withOfflineUploads = (remote: MediaStorageBackend): MediaStorageBackend => {
+    const objectUrlCache = new Map<string, string>();
+
+    const getPending = (path: string) => idbGet<PendingUpload>(PENDING_UPLOADS_STORE, path).catch(() => undefined);
+
+    const forget = async (path: string) => {
+        const cached = objectUrlCache.get(path);
+        if (cached) {
+            URL.revokeObjectURL(cached);
+            objectUrlCache.delete(path);
+        }
+        await idbDelete(PENDING_UPLOADS_STORE, path);
+    };
+
+    return {
+        async upload(path, blob) {
+            if (isOnline()) {
+                try {
+                    await remote.upload(path, blob);
+                    return;
+                } catch (error) {
+                    if (!isOfflineError(error instanceof Error ? error : null)) throw error;
+                }
+            }
+            await idbPut<PendingUpload>(PENDING_UPLOADS_STORE, { path, blob, queuedAt: new Date().toISOString() });
+        },
+        async getUrl(path) {
+            const cached = objectUrlCache.get(path);
+            if (cached) return cached;
+            const pending = await getPending(path);
+            if (!pending) return remote.getUrl(path);
+            const url = URL.createObjectURL(pending.blob);
+            objectUrlCache.set(path, url);
+            return url;
+        },
+        async download(path) {
+            const pending = await getPending(path);
+            return pending ? pending.blob : remote.download(path);
+        },
+        async remove(paths) {
+            for (const path of paths) await forget(path);
+            await remote.remove(paths);
+        },
+        async flushPending() {
+            const pending = await idbGetAll<PendingUpload>(PENDING_UPLOADS_STORE);
+            let uploaded = 0;
+            for (const upload of pending) {
+                try {
+                    await remote.upload(upload.path, upload.blob);
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : '';
+                    if (isOfflineError({ message })) break;
+                    // An earlier attempt got through but its response was lost.
+                    if (!/already exists|duplicate/i.test(message)) {
+                        console.error(`Could not upload ${upload.path}:`, error);
+                        continue;
+                    }
+                }
+                await forget(upload.path);
+                uploaded++;
+            }
+            return uploaded;
+        },
+    };
+};
+
+let backend: MediaStorageBackend = process.env.MEDIA_STORAGE_BACKEND === 'local'
+    ? createIndexedDbMediaBackend()
+    : withOfflineUploads(createSupabaseMediaBackend());
+
+export const getMediaBackend = (): MediaStorageBackend => backend;
+
+export const setMediaBackend = (newBackend: MediaStorageBackend) => {
+    backend = newBackend;
+};
+
+// Older notes hold absolute URLs (data:, blob:, https:) rather than storage paths; those are used as-is.
+export const isStoredMediaPath = (value: string): boolean => !/^(https?:|data:|blob:)/.test(value);
+
+const extensionForType = (type: string): string => {
+    const subtype = type.split('/')[1]?.split(';')[0];
+    return subtype || 'bin';
+};
+
+const getOwnerPrefix = async (): Promise<string> => {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user.id || 'local';
+};
+
+const MEDIA_KIND_LABELS: Record<MediaKind, string> = { audio: 'recording', image: 'image', drawing: 'drawing' };
+
+export async function uploadMedia(blob: Blob, kind: MediaKind): Promise<string> {
+    if (blob.size === 0) {
+        throw new Error("Cannot store an empty file.");
+    }
+    const owner = await getOwnerPrefix();
+    const path = `${owner}/${kind}/${crypto.randomUUID()}.${extensionForType(blob.type)}`;
+    try {
+        await backend.upload(path, blob);
+    } catch (error) {
+        console.error("Error uploading media:", error);
+        throw new Error(`Failed to store the ${MEDIA_KIND_LABELS[kind]}. Please try again.`);
+    }
+    return path;
+}
+
+export async function resolveMediaUrl(pathOrUrl: string): Promise<string> {
+    if (!isStoredMediaPath(pathOrUrl)) return pathOrUrl;
+    return backend.getUrl(pathOrUrl);
+}
+
+export async function fetchMediaBlob(pathOrUrl: string): Promise<Blob> {
+    if (!isStoredMediaPath(pathOrUrl)) {
+        return fetch(pathOrUrl).then(res => res.blob());
+    }
+    return backend.download(pathOrUrl);
+}
+
+export async function removeMedia(pathsOrUrls: (string | null | undefined)[]): Promise<void> {
+    const paths = pathsOrUrls.filter((p): p is string => !!p && isStoredMediaPath(p));
+    if (paths.length === 0) return;
+    try {
+        await backend.remove(paths);
+    } catch (error) {
+        // A leftover object is harmless; don't block the caller on cleanup.
+        console.error("Error removing media:", error);
+    }
+}
+
+export async function uploadPendingMedia(): Promise<number> {
+    return backend.flushPending ? backend.flushPending() : 0;
+}
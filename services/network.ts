@@ -0,0 +1,7 @@
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// supabase-js reports fetch failures as regular errors, so tell them apart by message.
+export const isOfflineError = (error: { message?: string } | null): boolean => {
+    if (!isOnline()) return true;
+    return !!error?.message && /failed to fetch|networkerror|network request failed|load failed/i.test(error.message);
+};
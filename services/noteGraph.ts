@@ -0,0 +1,163 @@
+import type { Note } from '../types';
+
+// The graph view: notes as nodes, linked when one [[links]] to the other, when one lists the other in
+// `related_note_ids`, when they share a tag, or when one is stacked on the other. Layout is a small force
+// simulation run a step per animation frame: notes push each other apart, links pull them together, and
+// a weak pull towards the centre keeps unconnected notes on screen.
+
+export type GraphEdgeKind = 'link' | 'related' | 'tag' | 'stack';
+
+export interface GraphNode {
+    id: string;
+    note: Note;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    degree: number;
+    // Set while the node is being dragged; the simulation leaves it where the pointer puts it.
+    pinned?: boolean;
+}
+
+export interface GraphEdge {
+    source: string;
+    target: string;
+    kinds: GraphEdgeKind[];
+}
+
+export interface NoteGraph {
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+}
+
+// A tag on more notes than this links too much to say anything; it would also add n² edges.
+const MAX_TAG_GROUP = 12;
+const REPULSION = 1800;
+const LINK_DISTANCE = 90;
+const LINK_STRENGTH = 0.08;
+const GRAVITY = 0.02;
+const DAMPING = 0.6;
+
+export const ALPHA_START = 1;
+export const ALPHA_MIN = 0.01;
+export const ALPHA_DECAY = 0.98;
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * Builds the graph for `notes`. Positions are taken from `previous` where a node already existed, so
+ * the layout doesn't jump when a note is edited; new nodes start on a spiral around the centre.
+ */
+export const buildNoteGraph = (notes: Note[], previous: GraphNode[] = []): NoteGraph => {
+    const ids = new Set(notes.map(note => note.id));
+    const edges = new Map<string, GraphEdge>();
+    const link = (a: string, b: string, kind: GraphEdgeKind) => {
+        if (a === b || !ids.has(a) || !ids.has(b)) return;
+        const key = pairKey(a, b);
+        if (!edges.has(key)) edges.set(key, { source: a < b ? a : b, target: a < b ? b : a, kinds: [] });
+        const edge = edges.get(key)!;
+        if (!edge.kinds.includes(kind)) edge.kinds.push(kind);
+    };
+
+    const notesByTag = new Map<string, string[]>();
+    notes.forEach(note => {
+        (note.linked_note_ids || []).forEach(id => link(note.id, id, 'link'));
+        (note.related_note_ids || []).forEach(id => link(note.id, id, 'related'));
+        if (note.stack_id) link(note.id, note.stack_id, 'stack');
+        (note.tags || []).forEach(tag => {
+            if (!notesByTag.has(tag)) notesByTag.set(tag, []);
+            notesByTag.get(tag)!.push(note.id);
+        });
+    });
+    notesByTag.forEach(group => {
+        if (group.length > MAX_TAG_GROUP) return;
+        group.forEach((a, i) => group.slice(i + 1).forEach(b => link(a, b, 'tag')));
+    });
+
+    const degrees = new Map<string, number>();
+    edges.forEach(edge => {
+        degrees.set(edge.source, (degrees.get(edge.source) || 0) + 1);
+        degrees.set(edge.target, (degrees.get(edge.target) || 0) + 1);
+    });
+
+    const previousById = new Map(previous.map(node => [node.id, node]));
+    const nodes = notes.map((note, index): GraphNode => {
+        const old = previousById.get(note.id);
+        // Golden-angle spiral: evenly spread, and the same for the same notes every time.
+        const angle = index * 2.399963;
+        const radius = 30 * Math.sqrt(index + 1);
+        return {
+            id: note.id,
+            note,
+            x: old ? old.x : radius * Math.cos(angle),
+            y: old ? old.y : radius * Math.sin(angle),
+            vx: 0,
+            vy: 0,
+            degree: degrees.get(note.id) || 0,
+        };
+    });
+
+    return { nodes, edges: [...edges.values()] };
+};
+
+// Advances the layout one step, moving nodes in place.
+export const layoutStep = (graph: NoteGraph, alpha: number) => {
+    const { nodes, edges } = graph;
+    for (let i = 0; i < nodes.length; i++) {
+        for (let j = i + 1; j < nodes.length; j++) {
+            const a = nodes[i];
+            const b = nodes[j];
+            let dx = a.x - b.x;
+            let dy = a.y - b.y;
+            // Nodes on the same spot still need a direction to separate in.
+            if (dx === 0 && dy === 0) {
+                dx = (i - j) * 0.01;
+                dy = 0.01;
+            }
+            const distanceSquared = Math.max(dx * dx + dy * dy, 25);
+            const force = (REPULSION * alpha) / (distanceSquared * Math.sqrt(distanceSquared));
+            a.vx += dx * force;
+            a.vy += dy * force;
+            b.vx -= dx * force;
+            b.vy -= dy * force;
+        }
+    }
+
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    edges.forEach(edge => {
+        const a = byId.get(edge.source)!;
+        const b = byId.get(edge.target)!;
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+        // Explicit links hold tighter than a shared tag.
+        const strength = LINK_STRENGTH * alpha * (edge.kinds.includes('tag') && edge.kinds.length === 1 ? 0.5 : 1);
+        const pull = ((distance - LINK_DISTANCE) / distance) * strength;
+        a.vx += dx * pull;
+        a.vy += dy * pull;
+        b.vx -= dx * pull;
+        b.vy -= dy * pull;
+    });
+
+    nodes.forEach(node => {
+        if (node.pinned) {
+            node.vx = 0;
+            node.vy = 0;
+            return;
+        }
+        node.vx = (node.vx - node.x * GRAVITY * alpha) * DAMPING;
+        node.vy = (node.vy - node.y * GRAVITY * alpha) * DAMPING;
+        node.x += node.vx;
+        node.y += node.vy;
+    });
+};
+
+// Ids of the node and everything linked to it, for highlighting a neighbourhood.
+export const neighbourIds = (graph: NoteGraph, id: string): Set<string> => {
+    const ids = new Set([id]);
+    graph.edges.forEach(edge => {
+        if (edge.source === id) ids.add(edge.target);
+        if (edge.target === id) ids.add(edge.source);
+    });
+    return ids;
+};
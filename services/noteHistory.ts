@@ -0,0 +1,85 @@
+import { supabase } from './supabaseClient';
+import { matchSequences } from './noteMerge';
+import type { Note, NoteRevision } from '../types';
+
+export async function fetchNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+    const { data, error } = await supabase
+        .from('note_revisions')
+        .select('*')
+        .eq('note_id', noteId)
+        .order('revision', { ascending: false });
+
+    if (error) {
+        throw new Error(error.message);
+    }
+    return data || [];
+}
+
+// The columns a restore writes back; position, stacking and AI metadata stay as they are now.
+export const revisionContent = (revision: NoteRevision): Partial<Note> => ({
+    text: revision.text,
+    color: revision.color,
+    tags: revision.tags,
+    image_url: revision.image_url,
+    drawing_url: revision.drawing_url,
+    audio_url: revision.audio_url,
+});
+
+export interface DiffPart {
+    value: string;
+    type: 'same' | 'added' | 'removed';
+}
+
+// Note text is HTML from the editor; diff what the reader sees, with block boundaries as line breaks.
+export const htmlToPlainText = (html: string): string => {
+    const withBreaks = html.replace(/<br\s*\/?>|<\/(?:div|p|li|h[1-6]|blockquote|pre)>/gi, '$&\n');
+    const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+    return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const pushPart = (parts: DiffPart[], value: string, type: DiffPart['type']) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+        last.value += value;
+    } else {
+        parts.push({ value, type });
+    }
+};
+
+// Word-level diff of two plain-text strings. Whitespace runs are kept as tokens so the output reads naturally.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = before.split(/(\s+)/).filter(Boolean);
+    const b = after.split(/(\s+)/).filter(Boolean);
+
+    // Trim the shared head and tail first; edits are usually small and the LCS table is quadratic.
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const parts: DiffPart[] = [];
+    if (start > 0) pushPart(parts, a.slice(0, start).join(''), 'same');
+
+    const middleA = a.slice(start, endA);
+    const middleB = b.slice(start, endB);
+    const matches = matchSequences(middleA, middleB);
+    let j = 0;
+    middleA.forEach((token, i) => {
+        const match = matches.get(i);
+        if (match === undefined) {
+            pushPart(parts, token, 'removed');
+            return;
+        }
+        while (j < match) pushPart(parts, middleB[j++], 'added');
+        pushPart(parts, token, 'same');
+        j++;
+    });
+    while (j < middleB.length) pushPart(parts, middleB[j++], 'added');
+
+    if (endA < a.length) pushPart(parts, a.slice(endA).join(''), 'same');
+    return parts;
+};
@@ -0,0 +1,85 @@
+import { htmlToPlainText } from './noteHistory';
+import type { Note } from '../types';
+
+// [[Wiki links]] between notes. Typing "[[" in the editor offers note titles; picking one inserts
+//   <span class="note-link" contenteditable="false" data-note-id="<id>">Title</span>
+// The id is the link; the text inside is only what the note was called at the time. Renders replace it
+// with the target's current title (see resolveNoteLinks), so renaming a note renames every link to it.
+// Every write also copies the ids into `linked_note_ids`, which is what backlinks are read from.
+
+export const NOTE_LINK_CLASS = 'note-link';
+export const MISSING_LINK_CLASS = 'note-link-missing';
+const LINK_SELECTOR = `span.${NOTE_LINK_CLASS}[data-note-id]`;
+
+export const NOTE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Text after "[[" up to the caret, while the user is still typing a link.
+const OPEN_LINK_PATTERN = /\[\[([^[\]\n]{0,60})$/;
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The first line of a note, which is what links and lists show for it.
+export const noteTitle = (note: Note, maxLength = 80): string =>
+    htmlToPlainText(note.text).split('\n').map(line => line.trim()).find(Boolean)?.slice(0, maxLength) || 'Untitled note';
+
+export const noteLinkHtml = (note: Note) =>
+    `<span class="${NOTE_LINK_CLASS}" contenteditable="false" data-note-id="${note.id}">${escapeHtml(noteTitle(note))}</span>`;
+
+// Ids of the notes `html` links to, in order, without repeats.
+export const parseNoteLinks = (html: string | null | undefined): string[] => {
+    if (!html || !html.includes(NOTE_LINK_CLASS)) return [];
+    const ids = Array.from(parse(html).querySelectorAll(LINK_SELECTOR))
+        .map(link => link.getAttribute('data-note-id') || '')
+        .filter(id => NOTE_ID_PATTERN.test(id));
+    return [...new Set(ids)];
+};
+
+// Keeps `linked_note_ids` in step with the text of a note or partial update before it is stored.
+export const withNoteLinks = <T extends Partial<Note>>(note: T): T =>
+    typeof note.text === 'string' ? { ...note, linked_note_ids: parseNoteLinks(note.text) } : note;
+
+/**
+ * Writes each link's current target title into already-sanitized HTML, and marks links whose note is
+ * gone (deleted or in the Trash) so they render struck through.
+ */
+export const resolveNoteLinks = (html: string, titles: Map<string, string>): string => {
+    if (!html.includes(NOTE_LINK_CLASS)) return html;
+    const doc = parse(html);
+    doc.querySelectorAll(LINK_SELECTOR).forEach(link => {
+        const title = titles.get(link.getAttribute('data-note-id') || '');
+        link.classList.toggle(MISSING_LINK_CLASS, title === undefined);
+        if (title !== undefined) link.textContent = title;
+    });
+    return doc.body.innerHTML;
+};
+
+// Note id -> the notes that link to it. Built from the linking notes, so a deleted note's links go with it.
+export const backlinkIndex = (notes: Note[]): Map<string, Note[]> => {
+    const index = new Map<string, Note[]>();
+    notes.forEach(note => {
+        (note.linked_note_ids || []).forEach(id => {
+            if (id === note.id) return;
+            if (!index.has(id)) index.set(id, []);
+            index.get(id)!.push(note);
+        });
+    });
+    return index;
+};
+
+// The link being typed before the caret, if any: "[[" plus what follows it.
+export const openLinkQuery = (textBeforeCaret: string): { query: string; length: number } | null => {
+    const match = OPEN_LINK_PATTERN.exec(textBeforeCaret);
+    return match ? { query: match[1], length: match[0].length } : null;
+};
+
+// Titles starting with the query first, then ones containing it.
+export const linkSuggestions = (query: string, notes: Note[], limit = 8): Note[] => {
+    const needle = query.trim().toLowerCase();
+    const scored = notes
+        .map(note => ({ note, index: noteTitle(note).toLowerCase().indexOf(needle) }))
+        .filter(({ index }) => index !== -1);
+    scored.sort((a, b) => (a.index === 0 ? 0 : 1) - (b.index === 0 ? 0 : 1));
+    return scored.slice(0, limit).map(({ note }) => note);
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { Note } from '../types';
+import { matchSequences, mergeNotes, mergeText } from './noteMerge';
+
+const html = (...blocks: string[]) => blocks.map(block => `<p>${block}</p>`).join('');
+
+const note = (overrides: Partial<Note> = {}): Note => ({
+    id: 'note-1',
+    user_id: 'user-1',
+    text: html('one', 'two'),
+    image_url: null,
+    drawing_url: null,
+    audio_url: null,
+    summary: null,
+    color: 'bg-yellow-200',
+    tags: [],
+    tasks: null,
+    related_note_ids: null,
+    stack_id: null,
+    canvas_x: null,
+    canvas_y: null,
+    ...overrides,
+});
+
+describe('matchSequences', () => {
+    it('pairs up the longest common subsequence', () => {
+        expect(matchSequences(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd'])).toEqual(new Map([[0, 0], [2, 1], [3, 3]]));
+    });
+});
+
+describe('mergeText', () => {
+    const base = html('one', 'two', 'three', 'four');
+
+    it('takes whichever side changed when only one did', () => {
+        const edited = html('one', 'TWO', 'three', 'four');
+        expect(mergeText(base, edited, base)).toEqual({ text: edited, hasConflicts: false });
+        expect(mergeText(base, base, edited)).toEqual({ text: edited, hasConflicts: false });
+    });
+
+    it('merges edits to different blocks cleanly', () => {
+        const mine = html('ONE', 'two', 'three', 'four');
+        const theirs = html('one', 'two', 'three', 'FOUR');
+        expect(mergeText(base, mine, theirs)).toEqual({ text: html('ONE', 'two', 'three', 'FOUR'), hasConflicts: false });
+    });
+
+    it('merges blocks added in different places', () => {
+        const mine = html('one', 'mine', 'two', 'three', 'four');
+        const theirs = html('one', 'two', 'three', 'four', 'theirs');
+        expect(mergeText(base, mine, theirs)).toEqual({ text: html('one', 'mine', 'two', 'three', 'four', 'theirs'), hasConflicts: false });
+    });
+
+    it('accepts the same edit made on both sides', () => {
+        const edited = html('one', 'TWO', 'three', 'four');
+        const mine = html('one', 'TWO', 'three', 'FOUR');
+        expect(mergeText(base, mine, edited)).toEqual({ text: mine, hasConflicts: false });
+    });
+
+    it('keeps both versions, mine first, when both sides edit the same block', () => {
+        const mine = html('one', 'two (mine)', 'three', 'four');
+        const theirs = html('one', 'two (theirs)', 'three', 'four');
+        expect(mergeText(base, mine, theirs)).toEqual({ text: html('one', 'two (mine)', 'two (theirs)', 'three', 'four'), hasConflicts: true });
+    });
+
+    it('drops a block one side deleted while the other edited elsewhere', () => {
+        const mine = html('one', 'three', 'four');
+        const theirs = html('one', 'two', 'three', 'FOUR');
+        expect(mergeText(base, mine, theirs)).toEqual({ text: html('one', 'three', 'FOUR'), hasConflicts: false });
+        expect(mergeText(base, theirs, mine)).toEqual({ text: html('one', 'three', 'FOUR'), hasConflicts: false });
+    });
+
+    it('flags a block one side deleted and the other edited, keeping the edit', () => {
+        const mine = html('one', 'three', 'four');
+        const theirs = html('one', 'TWO', 'three', 'four');
+        expect(mergeText(base, mine, theirs)).toEqual({ text: html('one', 'TWO', 'three', 'four'), hasConflicts: true });
+    });
+
+    it('treats line breaks as block boundaries', () => {
+        expect(mergeText('a<br>b<br>c', 'A<br>b<br>c', 'a<br>b<br>C')).toEqual({ text: 'A<br>b<br>C', hasConflicts: false });
+    });
+});
+
+describe('mergeNotes', () => {
+    it('merges each editable field from whichever side changed it', () => {
+        const base = note({ text: html('one', 'two', 'three'), tags: ['work', 'draft'] });
+        const mine = note({ text: html('ONE', 'two', 'three'), tags: ['work', 'urgent'], is_pinned: true });
+        const theirs = note({ text: html('one', 'two', 'THREE'), tags: ['work', 'draft', 'home'], color: 'bg-blue-200', audio_url: 'user-1/audio/a.webm' });
+
+        const { update, hasConflicts } = mergeNotes({ base, mine, theirs });
+
+        expect(hasConflicts).toBe(false);
+        expect(update).toEqual({
+            text: html('ONE', 'two', 'THREE'),
+            color: 'bg-blue-200',
+            // A tag removed on either side stays removed; tags added on either side are kept.
+            tags: ['work', 'home', 'urgent'],
+            image_url: null,
+            drawing_url: null,
+            audio_url: 'user-1/audio/a.webm',
+            stack_id: null,
+            is_pinned: true,
+        });
+    });
+
+    it('prefers my value when both sides changed the same field', () => {
+        const { update } = mergeNotes({ base: note(), mine: note({ color: 'bg-pink-200' }), theirs: note({ color: 'bg-blue-200' }) });
+        expect(update.color).toBe('bg-pink-200');
+    });
+
+    it('reports text conflicts', () => {
+        const { hasConflicts } = mergeNotes({ base: note(), mine: note({ text: html('mine', 'two') }), theirs: note({ text: html('theirs', 'two') }) });
+        expect(hasConflicts).toBe(true);
+    });
+});
@@ -0,0 +1,122 @@
+import type { Note } from '../types';
+
+// Three-way merge for notes edited in two places. `base` is the version both edits started from.
+
+export interface NoteConflict {
+    base: Note;
+    mine: Note;
+    theirs: Note;
+}
+
+export interface MergeResult {
+    text: string;
+    // True when the same paragraph changed on both sides; both versions are kept, mine first.
+    hasConflicts: boolean;
+}
+
+// Split after block-level closing tags and line breaks so joining the pieces gives back the original HTML.
+const splitBlocks = (html: string): string[] =>
+    html.split(/(?<=<\/(?:div|p|li|ul|ol|h[1-6]|blockquote|pre)>|<br\s*\/?>|\n)/i).filter(block => block !== '');
+
+// Longest common subsequence as a map from `a` index to `b` index.
+export const matchSequences = (a: string[], b: string[]): Map<number, number> => {
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+    const matches = new Map<number, number>();
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            matches.set(i++, j++);
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return matches;
+};
+
+const sameBlocks = (a: string[], b: string[]) => a.length === b.length && a.every((block, i) => block === b[i]);
+
+export const mergeText = (base: string, mine: string, theirs: string): MergeResult => {
+    if (mine === theirs || theirs === base) return { text: mine, hasConflicts: false };
+    if (mine === base) return { text: theirs, hasConflicts: false };
+
+    const baseBlocks = splitBlocks(base);
+    const mineBlocks = splitBlocks(mine);
+    const theirBlocks = splitBlocks(theirs);
+    const toMine = matchSequences(baseBlocks, mineBlocks);
+    const toTheirs = matchSequences(baseBlocks, theirBlocks);
+
+    // Base blocks left untouched on both sides anchor the merge; the gaps between them are merged as units.
+    const anchors: [number, number, number][] = [];
+    baseBlocks.forEach((_, i) => {
+        if (toMine.has(i) && toTheirs.has(i)) anchors.push([i, toMine.get(i)!, toTheirs.get(i)!]);
+    });
+    anchors.push([baseBlocks.length, mineBlocks.length, theirBlocks.length]);
+
+    const merged: string[] = [];
+    let hasConflicts = false;
+    let [o, a, b] = [0, 0, 0];
+    anchors.forEach(([anchorO, anchorA, anchorB]) => {
+        const baseGap = baseBlocks.slice(o, anchorO);
+        const mineGap = mineBlocks.slice(a, anchorA);
+        const theirGap = theirBlocks.slice(b, anchorB);
+        if (sameBlocks(mineGap, baseGap)) {
+            merged.push(...theirGap);
+        } else if (sameBlocks(theirGap, baseGap) || sameBlocks(mineGap, theirGap)) {
+            merged.push(...mineGap);
+        } else {
+            hasConflicts = true;
+            merged.push(...mineGap, ...theirGap);
+        }
+        if (anchorO < baseBlocks.length) merged.push(baseBlocks[anchorO]);
+        [o, a, b] = [anchorO + 1, anchorA + 1, anchorB + 1];
+    });
+
+    return { text: merged.join(''), hasConflicts };
+};
+
+// The fields a user edits in the note form; everything else is left alone when resolving a conflict.
+export const editableFields = (note: Note): Partial<Note> => ({
+    text: note.text,
+    color: note.color,
+    tags: note.tags,
+    image_url: note.image_url,
+    drawing_url: note.drawing_url,
+    audio_url: note.audio_url,
+    stack_id: note.stack_id,
+    is_pinned: note.is_pinned,
+});
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const mergeField = <T>(base: T, mine: T, theirs: T): T => (isSame(mine, base) ? theirs : mine);
+
+const mergeTags = (base: string[], mine: string[], theirs: string[]): string[] => {
+    const removed = base.filter(tag => !mine.includes(tag) || !theirs.includes(tag));
+    return Array.from(new Set([...theirs, ...mine])).filter(tag => !removed.includes(tag));
+};
+
+// Merges the editable fields one by one, taking whichever side changed. Text is merged paragraph by paragraph.
+export const mergeNotes = ({ base, mine, theirs }: NoteConflict): { update: Partial<Note>; hasConflicts: boolean } => {
+    const { text, hasConflicts } = mergeText(base.text, mine.text, theirs.text);
+    return {
+        hasConflicts,
+        update: {
+            text,
+            color: mergeField(base.color, mine.color, theirs.color),
+            tags: mergeTags(base.tags || [], mine.tags || [], theirs.tags || []),
+            image_url: mergeField(base.image_url, mine.image_url, theirs.image_url),
+            drawing_url: mergeField(base.drawing_url, mine.drawing_url, theirs.drawing_url),
+            audio_url: mergeField(base.audio_url, mine.audio_url, theirs.audio_url),
+            stack_id: mergeField(base.stack_id, mine.stack_id, theirs.stack_id),
+            is_pinned: mergeField(base.is_pinned, mine.is_pinned, theirs.is_pinned),
+        },
+    };
+};
@@ -0,0 +1,498 @@
+import { supabase } from './supabaseClient';
+import { NOTES_STORE, MUTATIONS_STORE, idbGet, idbGetAll, idbPut, idbDelete, idbReplaceAll } from './localDb';
+import { getNoteChannel } from './realtimeNotes';
+import type { NoteChange } from './realtimeNotes';
+import type { NoteConflict } from './noteMerge';
+import { sanitizeNoteFields } from './sanitizeHtml';
+import { withNoteLinks } from './noteLinks';
+import { syncChecklistTasks } from './taskRepository';
+import { isOnline, isOfflineError } from './network';
+import type { Note, NoteSyncStatus } from '../types';
+
+// Local-first access to the `notes` table. Every write is mirrored into IndexedDB; when the network
+// is unavailable the write is queued and replayed, in order, once connectivity returns.
+
+type MutationType = 'create' | 'update' | 'delete';
+
+interface QueuedMutation {
+    seq?: number;
+    type: MutationType;
+    noteId: string;
+    payload: Partial<Note> | null;
+    // For updates: the note as it was when the edit started. Replay refuses to overwrite a newer revision.
+    base?: Note;
+    queuedAt: string;
+}
+
+export type NewNote = Omit<Note, 'id' | 'created_at'>;
+
+export type SyncStatusMap = Record<string, NoteSyncStatus>;
+
+const syncStatuses = new Map<string, NoteSyncStatus>();
+const listeners = new Set<(statuses: SyncStatusMap) => void>();
+
+const emitSyncStatus = () => {
+    const snapshot = Object.fromEntries(syncStatuses);
+    listeners.forEach(listener => listener(snapshot));
+};
+
+const setSyncStatus = (noteId: string, status: NoteSyncStatus) => {
+    if (status === 'synced') {
+        syncStatuses.delete(noteId);
+    } else {
+        syncStatuses.set(noteId, status);
+    }
+    emitSyncStatus();
+};
+
+export const subscribeToSyncStatus = (listener: (statuses: SyncStatusMap) => void): (() => void) => {
+    listeners.add(listener);
+    listener(Object.fromEntries(syncStatuses));
+    return () => { listeners.delete(listener); };
+};
+
+// Edits that were rejected because the note changed elsewhere first, waiting for the user to merge them.
+const conflicts = new Map<string, NoteConflict>();
+const conflictListeners = new Set<(conflicts: NoteConflict[]) => void>();
+
+const emitConflicts = () => {
+    const snapshot = Array.from(conflicts.values());
+    conflictListeners.forEach(listener => listener(snapshot));
+};
+
+const recordConflict = (conflict: NoteConflict) => {
+    conflicts.set(conflict.base.id, conflict);
+    emitConflicts();
+};
+
+export const subscribeToConflicts = (listener: (conflicts: NoteConflict[]) => void): (() => void) => {
+    conflictListeners.add(listener);
+    listener(Array.from(conflicts.values()));
+    return () => { conflictListeners.delete(listener); };
+};
+
+export class NoteConflictError extends Error {
+    conflict: NoteConflict;
+
+    constructor(conflict: NoteConflict) {
+        super("This note was changed somewhere else while you were editing it.");
+        this.name = 'NoteConflictError';
+        this.conflict = conflict;
+    }
+}
+
+// Keeps the `tasks` table in step with checklists. Only the device that wrote the note does this, so
+// other devices don't race to create the same tasks. A failure here doesn't fail the note write.
+const syncTasksAfterWrite = (note: Note, payload: Partial<Note> | null) => {
+    if (payload && !('text' in payload)) return;
+    syncChecklistTasks(note).catch(error => console.error(`Could not sync tasks for note ${note.id}:`, error));
+};
+
+const cacheNote = async (note: Note) => {
+    try {
+        await idbPut(NOTES_STORE, note);
+    } catch (error) {
+        console.error("Could not cache note locally:", error);
+    }
+};
+
+const uncacheNote = async (id: string) => {
+    try {
+        await idbDelete(NOTES_STORE, id);
+    } catch (error) {
+        console.error("Could not remove cached note:", error);
+    }
+};
+
+// Queue reads and writes are read-modify-write across IndexedDB transactions, so run them one at a time.
+let queueLock: Promise<unknown> = Promise.resolve();
+const withQueueLock = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queueLock.then(task);
+    queueLock = run.catch(() => undefined);
+    return run;
+};
+
+const enqueue = (mutation: Omit<QueuedMutation, 'seq' | 'queuedAt'>) => withQueueLock(async () => {
+    const queue = await idbGetAll<QueuedMutation>(MUTATIONS_STORE);
+    const forNote = queue.filter(m => m.noteId === mutation.noteId);
+    const latest = forNote[forNote.length - 1];
+
+    if (mutation.type === 'update' && latest && latest.type !== 'delete') {
+        // Fold into the pending create/update so replay sends one request per note.
+        await idbPut(MUTATIONS_STORE, { ...latest, payload: { ...latest.payload, ...mutation.payload }, base: latest.base ?? mutation.base });
+    } else if (mutation.type === 'delete' && latest?.type === 'create') {
+        // The note never reached the server; forget it entirely.
+        for (const m of forNote) await idbDelete(MUTATIONS_STORE, m.seq!);
+        setSyncStatus(mutation.noteId, 'synced');
+        return;
+    } else {
+        await idbPut(MUTATIONS_STORE, { ...mutation, queuedAt: new Date().toISOString() });
+    }
+    setSyncStatus(mutation.noteId, 'pending');
+});
+
+// Updates made against a known revision only apply if the row is still at that revision, so a stale
+// form or AI edit can't silently overwrite newer content. No row comes back when the check fails.
+const sendUpdate = (id: string, update: Partial<Note>, base?: Note) => {
+    let query = supabase.from('notes').update(update).eq('id', id);
+    if (base?.revision != null) query = query.eq('revision', base.revision);
+    return query.select().maybeSingle();
+};
+
+// Called when a checked update matched no row: the note is either at a newer revision or gone.
+const loadConflict = async (base: Note, update: Partial<Note>): Promise<NoteConflict> => {
+    const { data: theirs, error } = await supabase.from('notes').select('*').eq('id', base.id).maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!theirs) throw new Error("This note was deleted on another device.");
+    return { base, mine: { ...base, ...update }, theirs };
+};
+
+const sendMutation = async (mutation: QueuedMutation) => {
+    switch (mutation.type) {
+        case 'create':
+            // Upsert so a create whose response was lost can be replayed safely.
+            return supabase.from('notes').upsert(mutation.payload).select().single();
+        case 'update':
+            return sendUpdate(mutation.noteId, mutation.payload || {}, mutation.base);
+        case 'delete':
+            return supabase.from('notes').delete().eq('id', mutation.noteId).then(({ error }) => ({ data: null, error }));
+    }
+};
+
+/**
+ * Sends queued mutations to Supabase in the order they were made. Stops at the first network failure
+ * and leaves the rest queued. Returns the server rows for notes that were written.
+ */
+export function replayMutations(): Promise<Note[]> {
+    return withQueueLock(async () => {
+        const queue = await idbGetAll<QueuedMutation>(MUTATIONS_STORE);
+        const synced: Note[] = [];
+
+        for (const [index, mutation] of queue.entries()) {
+            const { data, error } = await sendMutation(mutation);
+            if (error && isOfflineError(error)) break;
+
+            await idbDelete(MUTATIONS_STORE, mutation.seq!);
+            if (error) {
+                // The server rejected it; retrying won't help, so drop it and flag the note.
+                console.error(`Could not sync ${mutation.type} for note ${mutation.noteId}:`, error);
+                setSyncStatus(mutation.noteId, 'error');
+                continue;
+            }
+            if (!data && mutation.type === 'update') {
+                // The note changed on another device while this edit was offline; hand both versions to the user.
+                setSyncStatus(mutation.noteId, 'error');
+                if (mutation.base) {
+                    await loadConflict(mutation.base, mutation.payload || {})
+                        .then(recordConflict)
+                        .catch(conflictError => console.error(`Could not load note ${mutation.noteId} for merging:`, conflictError));
+                }
+                continue;
+            }
+            if (data) {
+                synced.push(data);
+                await cacheNote(data);
+                getNoteChannel().publish({ eventType: mutation.type === 'create' ? 'INSERT' : 'UPDATE', note: data });
+                syncTasksAfterWrite(data, mutation.type === 'create' ? null : mutation.payload);
+            } else if (mutation.type === 'delete') {
+                getNoteChannel().publish({ eventType: 'DELETE', noteId: mutation.noteId });
+            }
+            const hasLaterMutation = queue.slice(index + 1).some(m => m.noteId === mutation.noteId);
+            if (!hasLaterMutation) setSyncStatus(mutation.noteId, 'synced');
+        }
+        return synced;
+    });
+}
+
+const loadPendingQueue = async (): Promise<QueuedMutation[]> => {
+    try {
+        const queue = await idbGetAll<QueuedMutation>(MUTATIONS_STORE);
+        queue.forEach(m => syncStatuses.set(m.noteId, 'pending'));
+        emitSyncStatus();
+        return queue;
+    } catch (error) {
+        console.error("Could not read the offline queue:", error);
+        return [];
+    }
+};
+
+const sortNewestFirst = (notes: Note[]) => notes.sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
+
+export async function fetchNotes(userId: string): Promise<{ notes: Note[]; fromCache: boolean }> {
+    if (isOnline()) {
+        await replayMutations().catch(error => console.error("Could not replay offline changes:", error));
+    }
+    const queue = await loadPendingQueue();
+
+    const { data, error } = await supabase
+        .from('notes')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        if (!isOfflineError(error)) throw new Error(error.message);
+        const cached = await idbGetAll<Note>(NOTES_STORE, 'user_id', userId).catch(() => [] as Note[]);
+        return { notes: sortNewestFirst(cached), fromCache: true };
+    }
+
+    let notes: Note[] = data || [];
+    if (queue.length > 0) {
+        // Changes still waiting in the queue win over what the server has.
+        const pendingIds = new Set(queue.map(m => m.noteId));
+        const pendingDeleteIds = new Set(queue.filter(m => m.type === 'delete').map(m => m.noteId));
+        const cached = await idbGetAll<Note>(NOTES_STORE, 'user_id', userId).catch(() => [] as Note[]);
+        const pendingLocal = new Map(cached.filter(n => pendingIds.has(n.id)).map(n => [n.id, n]));
+        notes = notes
+            .filter(n => !pendingDeleteIds.has(n.id))
+            .map(n => pendingLocal.get(n.id) || n);
+        const serverIds = new Set(notes.map(n => n.id));
+        notes = sortNewestFirst([...notes, ...Array.from(pendingLocal.values()).filter(n => !serverIds.has(n.id))]);
+    }
+
+    idbReplaceAll(NOTES_STORE, 'user_id', userId, notes).catch(cacheError => console.error("Could not cache notes locally:", cacheError));
+    return { notes, fromCache: false };
+}
+
+export async function createNote(note: NewNote): Promise<Note> {
+    const payload = withNoteLinks(sanitizeNoteFields({ ...note, id: crypto.randomUUID() }));
+
+    if (isOnline()) {
+        const { data, error } = await supabase.from('notes').insert(payload).select().single();
+        if (data && !error) {
+            await cacheNote(data);
+            getNoteChannel().publish({ eventType: 'INSERT', note: data });
+            syncTasksAfterWrite(data, null);
+            return data;
+        }
+        if (!isOfflineError(error)) throw new Error(error?.message || "Could not create note.");
+    }
+
+    const localNote: Note = { ...payload, created_at: new Date().toISOString() };
+    await cacheNote(localNote);
+    await enqueue({ type: 'create', noteId: localNote.id, payload: localNote });
+    return localNote;
+}
+
+/**
+ * Adds notes from an export, keeping their ids. Imported notes are always active, and the database
+ * starts their revision history afresh. Ids that are already taken are skipped, so importing the same
+ * file twice is harmless. Returns the notes that were added.
+ */
+export async function importNotes(rawNotes: Note[]): Promise<Note[]> {
+    const notes: Note[] = rawNotes.map(({ revision, updated_at, ...note }) => withNoteLinks(sanitizeNoteFields({ ...note, deleted_at: null })));
+    if (notes.length === 0) return [];
+
+    if (isOnline()) {
+        const { data, error } = await supabase
+            .from('notes')
+            .upsert(notes, { onConflict: 'id', ignoreDuplicates: true })
+            .select();
+        if (!error) {
+            const imported: Note[] = data || [];
+            await Promise.all(imported.map(cacheNote));
+            imported.forEach(note => {
+                getNoteChannel().publish({ eventType: 'INSERT', note });
+                syncTasksAfterWrite(note, null);
+            });
+            return imported;
+        }
+        if (!isOfflineError(error)) throw new Error(error.message);
+    }
+
+    const localNotes = notes.map(note => ({ ...note, created_at: note.created_at || new Date().toISOString() }));
+    for (const note of localNotes) {
+        await cacheNote(note);
+        await enqueue({ type: 'create', noteId: note.id, payload: note });
+    }
+    return localNotes;
+}
+
+/**
+ * Writes `update` to a note. Pass `base`, the note the edit was made from, to have the write rejected
+ * with a NoteConflictError if someone else changed the note since.
+ */
+export async function updateNote(id: string, rawUpdate: Partial<Note>, base?: Note): Promise<Note> {
+    const update = withNoteLinks(sanitizeNoteFields(rawUpdate));
+    // A note with queued changes must stay in the queue, or this write could overtake them.
+    if (isOnline() && syncStatuses.get(id) !== 'pending') {
+        const { data, error } = await sendUpdate(id, update, base);
+        if (!data && !error) {
+            if (!base) throw new Error("This note no longer exists.");
+            const conflict = await loadConflict(base, update);
+            recordConflict(conflict);
+            throw new NoteConflictError(conflict);
+        }
+        if (data && !error) {
+            if (syncStatuses.get(id) === 'error') setSyncStatus(id, 'synced');
+            await cacheNote(data);
+            getNoteChannel().publish({ eventType: 'UPDATE', note: data });
+            syncTasksAfterWrite(data, update);
+            return data;
+        }
+        if (!isOfflineError(error)) throw new Error(error?.message || "Could not update note.");
+    }
+
+    const cached = await idbGet<Note>(NOTES_STORE, id);
+    if (!cached) {
+        throw new Error("This note isn't available offline yet.");
+    }
+    const localNote = { ...cached, ...update };
+    await cacheNote(localNote);
+    await enqueue({ type: 'update', noteId: id, payload: update, base });
+    return localNote;
+}
+
+/**
+ * Settles a conflict. `resolution` is the merged update to write on top of the other version, or null
+ * to keep the other version and drop this device's edit.
+ */
+export async function resolveConflict(noteId: string, resolution: Partial<Note> | null): Promise<Note> {
+    const conflict = conflicts.get(noteId);
+    if (!conflict) throw new Error("There is no conflict to resolve for this note.");
+    conflicts.delete(noteId);
+    emitConflicts();
+
+    if (!resolution) {
+        await cacheNote(conflict.theirs);
+        setSyncStatus(noteId, 'synced');
+        return conflict.theirs;
+    }
+    try {
+        return await updateNote(noteId, resolution, conflict.theirs);
+    } catch (error) {
+        // A fresh conflict replaces this one; for anything else keep it so the user can try again.
+        if (!(error instanceof NoteConflictError)) {
+            conflicts.set(noteId, conflict);
+            emitConflicts();
+        }
+        throw error;
+    }
+}
+
+export async function deleteNote(id: string): Promise<void> {
+    if (isOnline() && syncStatuses.get(id) !== 'pending') {
+        const { error } = await supabase.from('notes').delete().eq('id', id);
+        if (!error) {
+            await uncacheNote(id);
+            setSyncStatus(id, 'synced');
+            getNoteChannel().publish({ eventType: 'DELETE', noteId: id });
+            return;
+        }
+        if (!isOfflineError(error)) throw new Error(error.message);
+    }
+    await uncacheNote(id);
+    await enqueue({ type: 'delete', noteId: id, payload: null });
+}
+
+// Trash. Trashing is a regular update to `deleted_at`, so it syncs, queues offline and replays like any edit.
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+export const trashExpiresAt = (note: Note): Date => {
+    const deletedAt = new Date(note.deleted_at || Date.now());
+    return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+};
+
+export const trashNote = (id: string): Promise<Note> => updateNote(id, { deleted_at: new Date().toISOString() });
+
+export const restoreNote = (id: string): Promise<Note> => updateNote(id, { deleted_at: null });
+
+export const trashNotes = (ids: string[]): Promise<Note[]> => updateNotes(ids, { deleted_at: new Date().toISOString() });
+
+export const restoreNotes = (ids: string[]): Promise<Note[]> => updateNotes(ids, { deleted_at: null });
+
+// Permanently deletes trashed notes that are past the retention period. Returns the notes that were removed.
+export async function purgeExpiredNotes(trashed: Note[]): Promise<Note[]> {
+    const now = Date.now();
+    const expired = trashed.filter(note => note.deleted_at && trashExpiresAt(note).getTime() <= now);
+    const purged: Note[] = [];
+    for (const note of expired) {
+        try {
+            await deleteNote(note.id);
+            purged.push(note);
+        } catch (error) {
+            console.error(`Could not purge note ${note.id}:`, error);
+        }
+    }
+    return purged;
+}
+
+export interface NotePosition {
+    id: string;
+    x: number;
+    y: number;
+}
+
+/**
+ * Writes per-note column updates in one request made by `send`, which gets the ids to write and returns
+ * the saved rows. Notes with edits still queued, and every note when offline, are queued instead.
+ */
+const writeColumns = async (
+    updates: { id: string; update: Partial<Note> }[],
+    send: (ids: string[]) => PromiseLike<{ data: Note[] | null; error: { message: string } | null }>,
+): Promise<Note[]> => {
+    let direct = isOnline() ? updates.filter(({ id }) => syncStatuses.get(id) !== 'pending') : [];
+    const saved: Note[] = [];
+    if (direct.length > 0) {
+        const { data, error } = await send(direct.map(({ id }) => id));
+        if (error) {
+            if (!isOfflineError(error)) throw new Error(error.message);
+            direct = [];
+        } else {
+            saved.push(...(data || []));
+            await Promise.all(saved.map(cacheNote));
+            saved.forEach(note => {
+                if (syncStatuses.get(note.id) === 'error') setSyncStatus(note.id, 'synced');
+                getNoteChannel().publish({ eventType: 'UPDATE', note });
+            });
+        }
+    }
+    const directIds = new Set(direct.map(({ id }) => id));
+    for (const { id, update } of updates.filter(({ id }) => !directIds.has(id))) {
+        await enqueue({ type: 'update', noteId: id, payload: update });
+        const cached = await idbGet<Note>(NOTES_STORE, id).catch(() => undefined);
+        if (cached) {
+            const localNote = { ...cached, ...update };
+            await cacheNote(localNote);
+            saved.push(localNote);
+        }
+    }
+    return saved;
+};
+
+/**
+ * Writes the same update to several notes at once, e.g. moving them to the Trash. Only the given
+ * columns are sent, so anything else edited elsewhere is kept. Returns the notes as saved.
+ */
+export function updateNotes(ids: string[], rawUpdate: Partial<Note>): Promise<Note[]> {
+    const update = withNoteLinks(sanitizeNoteFields(rawUpdate));
+    return writeColumns(
+        ids.map(id => ({ id, update })),
+        directIds => supabase.from('notes').update(update).in('id', directIds).select(),
+    );
+}
+
+// Saves canvas positions for many notes in one request (see the `move_notes` function). Returns the notes as saved.
+export function moveNotes(positions: NotePosition[]): Promise<Note[]> {
+    return writeColumns(
+        positions.map(({ id, x, y }) => ({ id, update: { canvas_x: x, canvas_y: y } })),
+        directIds => supabase.rpc('move_notes', { positions: positions.filter(({ id }) => directIds.includes(id)) }),
+    );
+}
+
+/**
+ * Subscribes to note changes made on other devices and tabs. Changes to notes with local edits still
+ * waiting in the offline queue are skipped so they don't overwrite work that hasn't been uploaded yet.
+ */
+export const watchNotes = (userId: string, onChange: (change: NoteChange) => void): (() => void) => {
+    return getNoteChannel().subscribe(userId, change => {
+        const noteId = change.eventType === 'DELETE' ? change.noteId : change.note.id;
+        if (syncStatuses.get(noteId) === 'pending') return;
+
+        if (change.eventType === 'DELETE') {
+            uncacheNote(noteId);
+        } else {
+            cacheNote(change.note);
+        }
+        onChange(change);
+    });
+};
@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Note } from '../types';
+
+interface MockChannel {
+    name: string;
+    bindings: { filter: Record<string, string>; callback: (payload: unknown) => void }[];
+}
+
+// Records the Realtime channels the Supabase note channel opens.
+const { channels } = vi.hoisted(() => ({ channels: [] as MockChannel[] }));
+
+vi.mock('./supabaseClient', () => ({
+    supabase: {
+        channel: (name: string) => {
+            const channel = {
+                name,
+                bindings: [] as MockChannel['bindings'],
+                on(_type: string, filter: Record<string, string>, callback: (payload: unknown) => void) {
+                    channel.bindings.push({ filter, callback });
+                    return channel;
+                },
+                subscribe: () => channel,
+            };
+            channels.push(channel);
+            return channel;
+        },
+        removeChannel: (channel: MockChannel) => {
+            channels.splice(channels.indexOf(channel), 1);
+        },
+    },
+}));
+
+import { applyNoteChange, createLocalNoteChannel, createSupabaseNoteChannel } from './realtimeNotes';
+import type { NoteChange } from './realtimeNotes';
+
+const note = (id: string, overrides: Partial<Note> = {}): Note => ({
+    id,
+    user_id: 'user-1',
+    text: `<p>${id}</p>`,
+    image_url: null,
+    drawing_url: null,
+    audio_url: null,
+    summary: null,
+    color: 'bg-yellow-200',
+    tags: [],
+    tasks: null,
+    related_note_ids: null,
+    stack_id: null,
+    canvas_x: null,
+    canvas_y: null,
+    ...overrides,
+});
+
+describe('applyNoteChange', () => {
+    it('adds an inserted note to the front', () => {
+        expect(applyNoteChange([note('a')], { eventType: 'INSERT', note: note('b') }).map(n => n.id)).toEqual(['b', 'a']);
+    });
+
+    it('replaces rather than duplicates a note it already has', () => {
+        const edited = note('a', { text: '<p>edited</p>' });
+        expect(applyNoteChange([note('a'), note('b')], { eventType: 'INSERT', note: edited })).toEqual([edited, note('b')]);
+        expect(applyNoteChange([note('a'), note('b')], { eventType: 'UPDATE', note: edited })).toEqual([edited, note('b')]);
+    });
+
+    it('adds an updated note it has not seen', () => {
+        expect(applyNoteChange([], { eventType: 'UPDATE', note: note('a') })).toEqual([note('a')]);
+    });
+
+    it('removes a deleted note and ignores unknown ids', () => {
+        const notes = [note('a'), note('b')];
+        expect(applyNoteChange(notes, { eventType: 'DELETE', noteId: 'a' })).toEqual([note('b')]);
+        expect(applyNoteChange(notes, { eventType: 'DELETE', noteId: 'x' })).toEqual(notes);
+    });
+
+    it('gives the same result when a change is applied twice', () => {
+        const change: NoteChange = { eventType: 'INSERT', note: note('b') };
+        const once = applyNoteChange([note('a')], change);
+        expect(applyNoteChange(once, change)).toEqual(once);
+    });
+});
+
+describe('createLocalNoteChannel', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    // Keeps the channel to this tab so tests don't hear each other.
+    const channelInThisTab = () => {
+        vi.stubGlobal('BroadcastChannel', undefined);
+        return createLocalNoteChannel();
+    };
+
+    it("delivers inserts and updates to the note owner's subscribers only", () => {
+        const channel = channelInThisTab();
+        const mine = vi.fn();
+        const theirs = vi.fn();
+        channel.subscribe('user-1', mine);
+        channel.subscribe('user-2', theirs);
+        channel.publish({ eventType: 'INSERT', note: note('a') });
+        channel.publish({ eventType: 'UPDATE', note: note('a') });
+        expect(mine).toHaveBeenCalledTimes(2);
+        expect(theirs).not.toHaveBeenCalled();
+    });
+
+    it('delivers deletes to every subscriber', () => {
+        const channel = channelInThisTab();
+        const mine = vi.fn();
+        const theirs = vi.fn();
+        channel.subscribe('user-1', mine);
+        channel.subscribe('user-2', theirs);
+        channel.publish({ eventType: 'DELETE', noteId: 'a' });
+        expect(mine).toHaveBeenCalledWith({ eventType: 'DELETE', noteId: 'a' });
+        expect(theirs).toHaveBeenCalledWith({ eventType: 'DELETE', noteId: 'a' });
+    });
+
+    it('stops delivering once unsubscribed', () => {
+        const channel = channelInThisTab();
+        const onChange = vi.fn();
+        const unsubscribe = channel.subscribe('user-1', onChange);
+        unsubscribe();
+        channel.publish({ eventType: 'INSERT', note: note('a') });
+        expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('reaches subscribers in other tabs', async () => {
+        const sender = createLocalNoteChannel();
+        const receiver = createLocalNoteChannel();
+        const received = new Promise<NoteChange>(resolve => receiver.subscribe('user-1', resolve));
+        sender.publish({ eventType: 'INSERT', note: note('a') });
+        await expect(received).resolves.toEqual({ eventType: 'INSERT', note: note('a') });
+    });
+});
+
+describe('createSupabaseNoteChannel', () => {
+    it('filters inserts and updates by user but listens for deletes unfiltered', () => {
+        const onChange = vi.fn();
+        const unsubscribe = createSupabaseNoteChannel().subscribe('user-1', onChange);
+        const bindings = channels.flatMap(channel => channel.bindings);
+        expect(bindings.map(binding => binding.filter)).toEqual([
+            { event: 'INSERT', schema: 'public', table: 'notes', filter: 'user_id=eq.user-1' },
+            { event: 'UPDATE', schema: 'public', table: 'notes', filter: 'user_id=eq.user-1' },
+            { event: 'DELETE', schema: 'public', table: 'notes' },
+        ]);
+
+        // Under RLS a delete's old record has only the primary key.
+        bindings[2].callback({ eventType: 'DELETE', old: { id: 'a' }, new: {} });
+        expect(onChange).toHaveBeenCalledWith({ eventType: 'DELETE', noteId: 'a' });
+
+        unsubscribe();
+        expect(channels).toEqual([]);
+    });
+});
@@ -0,0 +1,111 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import type { Note } from '../types';
+
+export type NoteChange =
+    | { eventType: 'INSERT'; note: Note }
+    | { eventType: 'UPDATE'; note: Note }
+    | { eventType: 'DELETE'; noteId: string };
+
+export interface NoteChangeChannel {
+    subscribe(userId: string, onChange: (change: NoteChange) => void): () => void;
+    // Announces a change made by this client. The Supabase channel gets these from the database instead.
+    publish(change: NoteChange): void;
+}
+
+const toNoteChange = (payload: RealtimePostgresChangesPayload<Note>): NoteChange | null => {
+    switch (payload.eventType) {
+        case 'INSERT':
+            return { eventType: 'INSERT', note: payload.new };
+        case 'UPDATE':
+            return { eventType: 'UPDATE', note: payload.new };
+        case 'DELETE':
+            return payload.old?.id ? { eventType: 'DELETE', noteId: payload.old.id } : null;
+        default:
+            return null;
+    }
+};
+
+const logSubscriptionError = (status: string, error?: Error) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error(`Realtime subscription for notes failed (${status}):`, error);
+    }
+};
+
+export const createSupabaseNoteChannel = (): NoteChangeChannel => ({
+    subscribe(userId, onChange) {
+        const forward = (payload: RealtimePostgresChangesPayload<Note>) => {
+            const change = toNoteChange(payload);
+            if (change) onChange(change);
+        };
+        const channel = supabase
+            .channel(`notes:${userId}`)
+            .on<Note>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'notes', filter: `user_id=eq.${userId}` }, forward)
+            .on<Note>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'notes', filter: `user_id=eq.${userId}` }, forward)
+            .subscribe(logSubscriptionError);
+        // Postgres Changes can't filter deletes, and under RLS the old row only carries the id, so deletes
+        // come unfiltered on their own channel. Ids are unique, so another user's delete matches nothing here.
+        const deletes = supabase
+            .channel(`notes-deletes:${userId}`)
+            .on<Note>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'notes' }, forward)
+            .subscribe(logSubscriptionError);
+        return () => {
+            supabase.removeChannel(channel);
+            supabase.removeChannel(deletes);
+        };
+    },
+    publish() {
+        // Postgres publishes every committed write; nothing to do here.
+    },
+});
+
+// In-browser stand-in for Supabase Realtime. Changes are fanned out to subscribers in this tab and,
+// through BroadcastChannel, to other tabs of the same origin.
+export const createLocalNoteChannel = (): NoteChangeChannel => {
+    const subscribers = new Map<(change: NoteChange) => void, string>();
+    const broadcast = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('stickon-ai-notes') : null;
+
+    // Deletes only carry an id, which is unique across users, so they go to every subscriber.
+    const deliver = (change: NoteChange) => {
+        subscribers.forEach((userId, onChange) => {
+            if (change.eventType === 'DELETE' || change.note.user_id === userId) onChange(change);
+        });
+    };
+
+    if (broadcast) {
+        broadcast.onmessage = (event: MessageEvent<NoteChange>) => deliver(event.data);
+    }
+
+    return {
+        subscribe(userId, onChange) {
+            subscribers.set(onChange, userId);
+            return () => { subscribers.delete(onChange); };
+        },
+        publish(change) {
+            deliver(change);
+            broadcast?.postMessage(change);
+        },
+    };
+};
+
+let channel: NoteChangeChannel = process.env.REALTIME_BACKEND === 'local'
+    ? createLocalNoteChannel()
+    : createSupabaseNoteChannel();
+
+export const getNoteChannel = (): NoteChangeChannel => channel;
+
+export const setNoteChannel = (newChannel: NoteChangeChannel) => {
+    channel = newChannel;
+};
+
+// Applies a change to a list of notes. Idempotent, so echoes of this client's own writes are harmless.
+export const applyNoteChange = (notes: Note[], change: NoteChange): Note[] => {
+    if (change.eventType === 'DELETE') {
+        return notes.filter(n => n.id !== change.noteId);
+    }
+    const exists = notes.some(n => n.id === change.note.id);
+    if (exists) {
+        return notes.map(n => (n.id === change.note.id ? change.note : n));
+    }
+    return [change.note, ...notes];
+};
@@ -0,0 +1,154 @@
+import { noteTitle } from './noteLinks';
+import type { Note, Task } from '../types';
+
+// Reminders for notes and tasks. While the app is open the page times them itself (see useReminders.ts):
+// an in-app toast when the tab is visible, a system notification when it isn't. The full schedule is
+// also handed to the service worker (public/sw.js), which shows due reminders when no tab is open and
+// remembers which ones it delivered so the page doesn't repeat them.
+
+export type ReminderKind = 'note' | 'task';
+export type ReminderAction = 'open' | 'snooze' | 'complete';
+
+export interface Reminder {
+    // "<kind>:<id>"; also the notification tag, so a rescheduled reminder replaces the old notification.
+    id: string;
+    kind: ReminderKind;
+    targetId: string;
+    noteId: string | null;
+    title: string;
+    body: string;
+    at: string;
+}
+
+export type ReminderMessage =
+    | { type: 'schedule-reminders'; reminders: Reminder[] }
+    | { type: 'reminder-action'; action: ReminderAction; reminder: Reminder };
+
+export const SNOOZE_MINUTES = 10;
+
+const REMINDER_ACTION_PARAM = 'reminderAction';
+const REMINDER_ID_PARAM = 'reminder';
+
+// A reminder moved to another time is a different delivery.
+export const reminderKey = (reminder: Reminder) => `${reminder.id}@${reminder.at}`;
+
+export const snoozedUntil = (minutes = SNOOZE_MINUTES) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+// <input type="datetime-local"> works in local time without a zone.
+export const toLocalInputValue = (iso: string | null | undefined): string => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromLocalInputValue = (value: string): string | null => (value ? new Date(value).toISOString() : null);
+
+export const collectReminders = (notes: Note[], tasks: Task[]): Reminder[] => {
+    const noteTitles = new Map(notes.map(note => [note.id, noteTitle(note)]));
+    const noteReminders: Reminder[] = notes
+        .filter(note => note.remind_at)
+        .map(note => ({
+            id: `note:${note.id}`,
+            kind: 'note',
+            targetId: note.id,
+            noteId: note.id,
+            title: noteTitles.get(note.id)!,
+            body: 'Note reminder',
+            at: note.remind_at!,
+        }));
+    // Tasks of trashed notes wait until the note comes back.
+    const taskReminders: Reminder[] = tasks
+        .filter(task => task.remind_at && !task.done && (!task.note_id || noteTitles.has(task.note_id)))
+        .map(task => ({
+            id: `task:${task.id}`,
+            kind: 'task',
+            targetId: task.id,
+            noteId: task.note_id,
+            title: task.text,
+            body: task.due_date ? `Task due ${new Date(`${task.due_date}T00:00`).toLocaleDateString()}` : 'Task reminder',
+            at: task.remind_at!,
+        }));
+    return [...noteReminders, ...taskReminders].sort((a, b) => a.at.localeCompare(b.at));
+};
+
+const serviceWorkerRegistration = async (): Promise<ServiceWorkerRegistration | null> => {
+    if (!('serviceWorker' in navigator)) return null;
+    try {
+        return await navigator.serviceWorker.ready;
+    } catch {
+        return null;
+    }
+};
+
+export const canNotify = () => typeof Notification !== 'undefined' && Notification.permission === 'granted';
+
+// Asks once, from a user action such as setting a reminder. Reminders still work as toasts without it.
+export const requestNotificationPermission = async (): Promise<boolean> => {
+    if (typeof Notification === 'undefined') return false;
+    if (Notification.permission === 'default') await Notification.requestPermission();
+    return Notification.permission === 'granted';
+};
+
+/**
+ * Hands the schedule to the service worker and returns the keys of reminders it has already shown
+ * while the app was closed. Resolves with no keys if there is no service worker or it doesn't answer.
+ */
+export const scheduleReminders = async (reminders: Reminder[]): Promise<string[]> => {
+    const registration = await serviceWorkerRegistration();
+    const worker = registration?.active;
+    if (!worker) return [];
+    // Where supported, lets the worker wake up to check for due reminders while the app is closed.
+    const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> } }).periodicSync;
+    periodicSync?.register('reminders', { minInterval: 15 * 60 * 1000 }).catch(() => undefined);
+    return new Promise(resolve => {
+        const channel = new MessageChannel();
+        const timeout = window.setTimeout(() => resolve([]), 2000);
+        channel.port1.onmessage = (event: MessageEvent<{ delivered?: string[] }>) => {
+            window.clearTimeout(timeout);
+            resolve(event.data.delivered || []);
+        };
+        const message: ReminderMessage = { type: 'schedule-reminders', reminders };
+        worker.postMessage(message, [channel.port2]);
+    });
+};
+
+// Shows a system notification through the service worker, so its Snooze/Done buttons work.
+export const showReminderNotification = async (reminder: Reminder): Promise<boolean> => {
+    const registration = await serviceWorkerRegistration();
+    if (!registration || !canNotify()) return false;
+    await registration.showNotification(reminder.title, {
+        body: reminder.body,
+        tag: reminder.id,
+        data: reminder,
+        icon: '/icons/icon-192x192.png',
+        // `actions` is missing from some DOM typings but supported by service worker notifications.
+        ...({ actions: [
+            { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+            { action: 'complete', title: reminder.kind === 'task' ? 'Mark done' : 'Dismiss' },
+        ] } as NotificationOptions),
+    });
+    return true;
+};
+
+// Notification buttons clicked while a tab is open arrive as messages from the service worker.
+export const subscribeToReminderActions = (handler: (action: ReminderAction, reminder: Reminder) => void): (() => void) => {
+    if (!('serviceWorker' in navigator)) return () => {};
+    const listener = (event: MessageEvent<ReminderMessage>) => {
+        if (event.data?.type === 'reminder-action') handler(event.data.action, event.data.reminder);
+    };
+    navigator.serviceWorker.addEventListener('message', listener);
+    return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
+
+// With no tab open, the service worker opens the app with the action in the URL. Reads and removes it.
+export const takeReminderActionFromUrl = (): { action: ReminderAction; reminderId: string } | null => {
+    const url = new URL(window.location.href);
+    const action = url.searchParams.get(REMINDER_ACTION_PARAM) as ReminderAction | null;
+    const reminderId = url.searchParams.get(REMINDER_ID_PARAM);
+    if (!action || !reminderId) return null;
+    url.searchParams.delete(REMINDER_ACTION_PARAM);
+    url.searchParams.delete(REMINDER_ID_PARAM);
+    window.history.replaceState(null, '', url.toString());
+    return { action, reminderId };
+};
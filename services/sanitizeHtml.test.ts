@@ -0,0 +1,197 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml, sanitizeNoteFields } from './sanitizeHtml';
+import { CHECKLIST_ITEM_HTML, parseChecklist } from './checklist';
+import { parseNoteLinks } from './noteLinks';
+
+const NOTE_ID = '0b9d2c4e-6f1a-4d3b-9c8e-2a7f5e1d3c4b';
+
+// Parses sanitized output so assertions don't depend on attribute order or quoting.
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html').body;
+
+const attributesOf = (html: string) =>
+    Array.from(parse(html).querySelectorAll('*')).flatMap(element => Array.from(element.attributes).map(attribute => attribute.name));
+
+describe('sanitizeHtml', () => {
+    it('returns an empty string for empty input', () => {
+        expect(sanitizeHtml(null)).toBe('');
+        expect(sanitizeHtml(undefined)).toBe('');
+        expect(sanitizeHtml('')).toBe('');
+    });
+
+    it('keeps ordinary formatting', () => {
+        const html = '<p><b>bold</b> <i>italic</i> <u>under</u></p><ul><li>one</li></ul><h3>Title</h3>';
+        expect(sanitizeHtml(html)).toBe(html);
+    });
+
+    describe('scripts and event handlers', () => {
+        it.each([
+            '<script>alert(1)</script>',
+            '<SCRIPT SRC=//evil.example/x.js></SCRIPT>',
+            '<scr<script>ipt>alert(1)</script>',
+            '<style>@import "//evil.example/x.css";</style>',
+            '<iframe src="https://evil.example"></iframe>',
+            '<object data="x.swf"></object><embed src="x.swf">',
+            '<template><img src=x onerror=alert(1)></template>',
+            '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>',
+            '<meta http-equiv="refresh" content="0;url=https://evil.example">',
+            '<base href="https://evil.example/">',
+            '<link rel="stylesheet" href="https://evil.example/x.css">',
+        ])('drops %s', payload => {
+            const result = sanitizeHtml(`<p>safe</p>${payload}`);
+            expect(result).not.toMatch(/<(script|style|iframe|object|embed|template|meta|base|link)\b/i);
+            expect(result).not.toMatch(/onerror|alert\(1\)<\/script/i);
+            expect(result).toContain('<p>safe</p>');
+        });
+
+        it.each([
+            '<img src="https://example.com/a.png" onerror="alert(1)">',
+            '<p onclick="alert(1)">click</p>',
+            '<div onmouseover="alert(1)">hover</div>',
+            '<a href="https://example.com" onfocus="alert(1)" autofocus>link</a>',
+            '<body onload="alert(1)"><p>x</p></body>',
+            '<details open ontoggle="alert(1)"><summary>x</summary></details>',
+            '<p ONCLICK="alert(1)">upper case</p>',
+        ])('strips event attributes from %s', payload => {
+            const result = sanitizeHtml(payload);
+            expect(attributesOf(result).filter(name => name.startsWith('on'))).toEqual([]);
+            expect(result).not.toContain('alert(1)');
+        });
+
+        it('strips style and id attributes', () => {
+            expect(attributesOf(sanitizeHtml('<p style="position:fixed" id="x">text</p>'))).toEqual([]);
+        });
+    });
+
+    describe('links', () => {
+        it.each([
+            'javascript:alert(1)',
+            'JaVaScRiPt:alert(1)',
+            ' javascript:alert(1)',
+            'java\tscript:alert(1)',
+            'java\nscript:alert(1)',
+            'java&#x09;script:alert(1)',
+            '&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)',
+            '&#x6A;avascript&colon;alert(1)',
+            'vbscript:msgbox(1)',
+            'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+            '//evil.example/path',
+        ])('removes the href %s', href => {
+            const link = parse(sanitizeHtml(`<a href="${href}">x</a>`)).querySelector('a');
+            expect(link?.hasAttribute('href')).toBe(false);
+        });
+
+        it.each(['https://example.com/page', 'http://example.com', 'mailto:someone@example.com', '#section', '/notes'])('keeps the href %s', href => {
+            const link = parse(sanitizeHtml(`<a href="${href}">x</a>`)).querySelector('a');
+            expect(link?.getAttribute('href')).toBe(href);
+            expect(link?.getAttribute('target')).toBe('_blank');
+            expect(link?.getAttribute('rel')).toBe('noopener noreferrer');
+        });
+    });
+
+    describe('images', () => {
+        it.each([
+            'javascript:alert(1)',
+            'http://example.com/a.png',
+            'data:text/html,<script>alert(1)</script>',
+            'data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9ImFsZXJ0KDEpIj48L3N2Zz4=',
+            'data:application/javascript,alert(1)',
+        ])('removes the src %s', src => {
+            const image = parse(sanitizeHtml(`<img src="${src}">`)).querySelector('img');
+            expect(image?.hasAttribute('src')).toBe(false);
+        });
+
+        it.each(['https://example.com/a.png', 'data:image/png;base64,iVBORw0KGgo='])('keeps the src %s', src => {
+            const image = parse(sanitizeHtml(`<img src="${src}" alt="a">`)).querySelector('img');
+            expect(image?.getAttribute('src')).toBe(src);
+        });
+    });
+
+    describe('svg and math', () => {
+        it.each([
+            '<svg onload="alert(1)"><circle r="10"></circle></svg>',
+            '<svg><script>alert(1)</script></svg>',
+            '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>',
+            '<svg><foreignObject><img src=x onerror=alert(1)></foreignObject></svg>',
+            '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>',
+            '<math href="javascript:alert(1)">x</math>',
+        ])('drops %s with its contents', payload => {
+            const result = sanitizeHtml(`<p>safe</p>${payload}`);
+            expect(result).not.toMatch(/<(svg|math|script|img|foreignObject)\b/i);
+            expect(result).not.toContain('alert(1)');
+        });
+    });
+
+    describe('srcdoc and other document-loading attributes', () => {
+        it.each([
+            '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+            '<p srcdoc="<script>alert(1)</script>">text</p>',
+            '<form action="javascript:alert(1)"><input type="submit"></form>',
+            '<input type="image" src="x" formaction="javascript:alert(1)">',
+            '<button formaction="javascript:alert(1)">x</button>',
+        ])('removes %s', payload => {
+            const result = sanitizeHtml(payload);
+            expect(result).not.toMatch(/srcdoc|formaction|action=|<iframe|<button|<form/i);
+            expect(result).not.toContain('javascript:');
+        });
+
+        it('keeps checkboxes but removes other inputs', () => {
+            expect(sanitizeHtml('<input type="text" value="x">')).toBe('');
+            expect(parse(sanitizeHtml('<input type="checkbox" checked>')).querySelector('input[type="checkbox"]')).not.toBeNull();
+        });
+    });
+
+    describe('classes', () => {
+        it('removes classes the app does not use, so imported notes cannot restyle the page', () => {
+            const result = sanitizeHtml('<div class="fixed inset-0 z-50 bg-white">Your session expired</div>');
+            expect(attributesOf(result)).toEqual([]);
+        });
+
+        it('keeps only the allowed tokens from a mixed class list', () => {
+            const result = sanitizeHtml(`<span class="note-link fixed inset-0" data-note-id="${NOTE_ID}">Target</span>`);
+            expect(parse(result).querySelector('span')?.getAttribute('class')).toBe('note-link');
+        });
+
+        it('drops contenteditable on divs but keeps it on spans', () => {
+            const result = parse(sanitizeHtml('<div contenteditable="true"><span contenteditable="false">x</span></div>'));
+            expect(result.querySelector('div')?.hasAttribute('contenteditable')).toBe(false);
+            expect(result.querySelector('span')?.getAttribute('contenteditable')).toBe('false');
+        });
+    });
+
+    describe('app markup', () => {
+        it('keeps checklist items', () => {
+            const html = CHECKLIST_ITEM_HTML.replace('<input type="checkbox" />', '<input type="checkbox" checked />').replace('></span>', '>Buy milk</span>');
+            const result = sanitizeHtml(html);
+            const item = parse(result).querySelector('.checklist-item');
+            expect(item).not.toBeNull();
+            expect(item?.querySelector('span')?.getAttribute('contenteditable')).toBe('true');
+            expect(parseChecklist(result)).toEqual([{ text: 'Buy milk', done: true }]);
+        });
+
+        it('keeps note links and their missing-note marker', () => {
+            const html = `<p>See <span class="note-link note-link-missing" contenteditable="false" data-note-id="${NOTE_ID}">Old note</span></p>`;
+            const result = sanitizeHtml(html);
+            const link = parse(result).querySelector('span');
+            expect(link?.getAttribute('class')).toBe('note-link note-link-missing');
+            expect(link?.getAttribute('contenteditable')).toBe('false');
+            expect(parseNoteLinks(result)).toEqual([NOTE_ID]);
+        });
+
+        it('removes note ids that are not UUIDs', () => {
+            const result = sanitizeHtml('<span class="note-link" data-note-id="x&quot; onclick=&quot;alert(1)">x</span>');
+            expect(parse(result).querySelector('span')?.hasAttribute('data-note-id')).toBe(false);
+        });
+    });
+});
+
+describe('sanitizeNoteFields', () => {
+    it('cleans the text of a note update', () => {
+        expect(sanitizeNoteFields({ text: '<p onclick="alert(1)">hi</p>' }).text).toBe('<p>hi</p>');
+    });
+
+    it('leaves updates without text alone', () => {
+        const update = { canvas_x: 10, canvas_y: 20 };
+        expect(sanitizeNoteFields(update)).toBe(update);
+    });
+});
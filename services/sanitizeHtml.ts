@@ -0,0 +1,105 @@
+import { NOTE_ID_PATTERN, NOTE_LINK_CLASS, MISSING_LINK_CLASS } from './noteLinks';
+import { CHECKLIST_ITEM_CLASS } from './checklist';
+import type { Note } from '../types';
+
+// Allow-list sanitizer for note HTML. Note text comes from our editor, but also from imports, AI output
+// and other devices, so it is cleaned on every write (see noteRepository.ts) and again before rendering.
+// Anything not listed here is removed: unknown elements are unwrapped, dangerous ones dropped with their
+// contents, and every attribute not named below (event handlers, style, ids...) is stripped.
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+    a: ['href', 'title'],
+    b: [], strong: [], i: [], em: [], u: [], s: [], strike: [], mark: [], small: [], sub: [], sup: [], code: [],
+    p: [], div: [], span: ['contenteditable', 'data-note-id'], br: [], hr: [], pre: [], blockquote: [],
+    h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+    ul: [], ol: [], li: [],
+    img: ['src', 'alt', 'width', 'height'],
+    // Only as a checklist checkbox; see cleanElement.
+    input: ['type', 'checked'],
+};
+
+// Removed together with everything inside them.
+const DROPPED_ELEMENTS = new Set([
+    'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'template', 'noscript',
+    'svg', 'math', 'link', 'meta', 'base', 'head', 'title', 'textarea', 'select', 'option', 'button',
+]);
+
+// Allowed on every element that survives, but see ALLOWED_CLASSES.
+const GLOBAL_ATTRIBUTES = ['class'];
+
+// Only the app's own markers. The Tailwind CDN compiles any class it finds at runtime, so an arbitrary
+// class list ("fixed inset-0 z-50 ...") could lay an imported note over the whole app.
+const ALLOWED_CLASSES = new Set([CHECKLIST_ITEM_CLASS, NOTE_LINK_CLASS, MISSING_LINK_CLASS]);
+
+const SAFE_LINK = /^(?:https?:|mailto:|#|\/(?!\/))/i;
+const SAFE_IMAGE = /^(?:https:|data:image\/(?:png|jpe?g|gif|webp);base64,)/i;
+
+// Browsers ignore whitespace and control characters inside a scheme ("java\tscript:"), so compare without them.
+const normalizeUrl = (value: string) => value.replace(/[\u0000- \u007f-\u009f]/g, '');
+
+// Own keys only, so tags like <constructor> don't match Object.prototype.
+const allowedAttributesFor = (tag: string): string[] | undefined =>
+    Object.prototype.hasOwnProperty.call(ALLOWED_ATTRIBUTES, tag) ? ALLOWED_ATTRIBUTES[tag] : undefined;
+
+const isSafeAttribute = (tag: string, name: string, value: string): boolean => {
+    if (name === 'href') return SAFE_LINK.test(normalizeUrl(value));
+    if (name === 'src') return SAFE_IMAGE.test(normalizeUrl(value));
+    if (name === 'contenteditable') return value === 'true' || value === 'false';
+    if (name === 'data-note-id') return NOTE_ID_PATTERN.test(value);
+    if (tag === 'input' && name === 'type') return value === 'checkbox';
+    return true;
+};
+
+const cleanElement = (element: Element, tag: string, attributes: string[]) => {
+    const allowed = [...GLOBAL_ATTRIBUTES, ...attributes];
+    Array.from(element.attributes).forEach(({ name, value }) => {
+        if (!allowed.includes(name) || !isSafeAttribute(tag, name, value)) {
+            element.removeAttribute(name);
+        }
+    });
+    const classes = Array.from(element.classList).filter(token => ALLOWED_CLASSES.has(token));
+    if (classes.length > 0) element.setAttribute('class', classes.join(' '));
+    else element.removeAttribute('class');
+    if (tag === 'input' && element.getAttribute('type') !== 'checkbox') {
+        element.remove();
+    }
+    if (tag === 'a' && element.hasAttribute('href')) {
+        element.setAttribute('target', '_blank');
+        element.setAttribute('rel', 'noopener noreferrer');
+    }
+};
+
+const cleanChildren = (parent: Node) => {
+    Array.from(parent.childNodes).forEach(node => {
+        if (node.nodeType === Node.TEXT_NODE) return;
+        if (node.nodeType !== Node.ELEMENT_NODE) {
+            node.parentNode?.removeChild(node);
+            return;
+        }
+        const element = node as Element;
+        const tag = element.tagName.toLowerCase();
+        if (DROPPED_ELEMENTS.has(tag)) {
+            element.remove();
+            return;
+        }
+        cleanChildren(element);
+        const attributes = allowedAttributesFor(tag);
+        if (!attributes) {
+            element.replaceWith(...Array.from(element.childNodes));
+            return;
+        }
+        cleanElement(element, tag, attributes);
+    });
+};
+
+export const sanitizeHtml = (html: string | null | undefined): string => {
+    if (!html) return '';
+    // DOMParser builds an inert document: nothing in it runs or loads while we inspect it.
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    cleanChildren(doc.body);
+    return doc.body.innerHTML;
+};
+
+// Cleans the HTML fields of a note or a partial update before it is stored.
+export const sanitizeNoteFields = <T extends Partial<Note>>(note: T): T =>
+    typeof note.text === 'string' ? { ...note, text: sanitizeHtml(note.text) } : note;
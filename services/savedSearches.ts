@@ -0,0 +1,35 @@
+import { supabase } from './supabaseClient';
+import type { SavedSearch } from '../types';
+
+export async function fetchSavedSearches(): Promise<SavedSearch[]> {
+    const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message);
+    }
+    return data || [];
+}
+
+export async function createSavedSearch(search: Pick<SavedSearch, 'user_id' | 'name' | 'query' | 'tags'>): Promise<SavedSearch> {
+    const { data, error } = await supabase.from('saved_searches').insert(search).select().single();
+    if (error || !data) {
+        throw new Error(error?.message || "Could not save the search.");
+    }
+    return data;
+}
+
+export async function deleteSavedSearch(id: string): Promise<void> {
+    const { error } = await supabase.from('saved_searches').delete().eq('id', id);
+    if (error) {
+        throw new Error(error.message);
+    }
+}
+
+// Whether the saved search is exactly what is in the search box and tag filters right now.
+export const isSavedSearchActive = (search: SavedSearch, query: string, tags: string[]): boolean =>
+    search.query.trim() === query.trim() &&
+    search.tags.length === tags.length &&
+    search.tags.every(tag => tags.includes(tag));
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { Note } from '../types';
+import { createSearchIndex, toIndexedDocument, type IndexedDocument } from './searchIndex';
+
+const doc = (id: string, text: string, overrides: Partial<IndexedDocument> = {}): IndexedDocument => ({
+    id,
+    text,
+    summary: '',
+    tags: [],
+    ...overrides,
+});
+
+const indexOf = (...docs: IndexedDocument[]) => {
+    const index = createSearchIndex();
+    index.sync(docs, []);
+    return index;
+};
+
+const ids = (index: ReturnType<typeof createSearchIndex>, ...terms: string[]) => index.search(terms).map(hit => hit.id);
+
+describe('createSearchIndex', () => {
+    describe('ranking', () => {
+        it('ranks a match in the tags above the summary, and the summary above the text', () => {
+            const index = indexOf(
+                doc('text', 'Notes on the garden'),
+                doc('summary', 'Weekend plans', { summary: 'Garden work' }),
+                doc('tags', 'Weekend plans', { tags: ['garden'] }),
+            );
+            expect(ids(index, 'garden')).toEqual(['tags', 'summary', 'text']);
+        });
+
+        it('ranks a note mentioning a word more often higher', () => {
+            const index = indexOf(doc('once', 'budget meeting'), doc('often', 'budget budget budget review'));
+            expect(ids(index, 'budget')).toEqual(['often', 'once']);
+        });
+
+        it('ranks an exact match above a prefix match, and a prefix match above a typo', () => {
+            const index = indexOf(doc('typo', 'clan'), doc('prefix', 'planning'), doc('exact', 'plan'));
+            expect(ids(index, 'plan')).toEqual(['exact', 'prefix', 'typo']);
+        });
+
+        it('adds up the scores of every term', () => {
+            const index = indexOf(doc('one', 'garden tomatoes', { tags: ['garden'] }), doc('two', 'garden tomatoes tomatoes', { tags: ['garden'] }));
+            const [first, second] = index.search(['garden', 'tomatoes']);
+            expect(first.id).toBe('two');
+            expect(first.score).toBeGreaterThan(second.score);
+        });
+
+        it('weighs rare words more than common ones', () => {
+            const index = indexOf(doc('a', 'meeting notes'), doc('b', 'meeting notes'), doc('c', 'meeting agenda'));
+            const [agenda] = index.search(['agenda']);
+            const notes = index.search(['notes']);
+            expect(agenda.score).toBeGreaterThan(notes[0].score);
+        });
+    });
+
+    describe('matching', () => {
+        const index = indexOf(
+            doc('budget', 'Quarterly budget review'),
+            doc('anniversary', 'Book a table for our anniversary'),
+            doc('cafe', 'Meet at the Café on Friday'),
+            doc('cat', 'Feed the cat'),
+        );
+
+        it('matches the start of a word from two letters on', () => {
+            expect(ids(index, 'quart')).toEqual(['budget']);
+            expect(ids(index, 'an')).toEqual(['anniversary']);
+            expect(ids(index, 'q')).toEqual([]);
+        });
+
+        it('tolerates one typo in words of four letters or more, counting swapped letters as one', () => {
+            expect(ids(index, 'budgte')).toEqual(['budget']);
+            expect(ids(index, 'bidget')).toEqual(['budget']);
+            expect(ids(index, 'tabel')).toEqual(['anniversary']);
+            expect(ids(index, 'bdgt')).toEqual([]);
+        });
+
+        it('tolerates two typos in words of eight letters or more', () => {
+            expect(ids(index, 'aniversry')).toEqual(['anniversary']);
+            expect(ids(index, 'quartrely')).toEqual(['budget']);
+        });
+
+        it('needs short words to match exactly or as a prefix', () => {
+            expect(ids(index, 'cat')).toEqual(['cat']);
+            expect(ids(index, 'cot')).toEqual([]);
+        });
+
+        it('ignores case and accents on both sides', () => {
+            expect(ids(index, 'CAFE')).toEqual(['cafe']);
+            expect(ids(indexOf(doc('plain', 'cafe au lait')), 'café')).toEqual(['plain']);
+        });
+
+        it('requires every term to match', () => {
+            expect(ids(index, 'budget', 'review')).toEqual(['budget']);
+            expect(ids(index, 'budget', 'friday')).toEqual([]);
+        });
+
+        it('reports the indexed words that matched, not what was typed', () => {
+            expect(index.search(['budgte', 'revi'])).toEqual([
+                { id: 'budget', score: expect.any(Number), matches: ['budget', 'review'] },
+            ]);
+        });
+
+        it('returns nothing for a query without words', () => {
+            expect(index.search(['', '  ', '!?'])).toEqual([]);
+        });
+    });
+
+    describe('sync', () => {
+        it('replaces the words of a document that is indexed again', () => {
+            const index = indexOf(doc('a', 'old draft'));
+            index.sync([doc('a', 'final copy')], []);
+            expect(ids(index, 'draft')).toEqual([]);
+            expect(ids(index, 'final')).toEqual(['a']);
+        });
+
+        it('forgets removed documents', () => {
+            const index = indexOf(doc('a', 'garden'), doc('b', 'garden'));
+            index.sync([], ['a']);
+            expect(ids(index, 'garden')).toEqual(['b']);
+            index.sync([], ['b', 'missing']);
+            expect(ids(index, 'garden')).toEqual([]);
+        });
+    });
+});
+
+describe('toIndexedDocument', () => {
+    it('indexes the plain text, summary and tags of a note', () => {
+        const note: Note = {
+            id: 'n1',
+            user_id: 'user-1',
+            text: '<p>Fish &amp; chips&nbsp;for &lt;two&gt;</p>',
+            image_url: null,
+            drawing_url: null,
+            audio_url: null,
+            summary: null,
+            color: 'bg-amber-100',
+            tags: ['food'],
+            tasks: null,
+            related_note_ids: null,
+            stack_id: null,
+            canvas_x: null,
+            canvas_y: null,
+        };
+        const indexed = toIndexedDocument(note);
+        expect(indexed).toEqual({ id: 'n1', text: expect.stringContaining('Fish & chips for <two>'), summary: '', tags: ['food'] });
+    });
+});
@@ -0,0 +1,162 @@
+import { stripHtml } from './aiProvider';
+import type { Note } from '../types';
+
+// In-memory inverted index for the search box. It runs inside searchIndex.worker.ts so typing never
+// waits on indexing; nothing in here touches the DOM. Notes are indexed by their plain text (which
+// includes transcribed audio), summary and tags. Every query term must match, exactly, as a prefix or
+// within a small edit distance, and documents are ranked by a tf-idf style score.
+
+export interface IndexedDocument {
+    id: string;
+    text: string;
+    summary: string;
+    tags: string[];
+}
+
+export interface SearchHit {
+    id: string;
+    score: number;
+    // The indexed words that matched, for highlighting; with typos these differ from what was typed.
+    matches: string[];
+}
+
+export type SearchWorkerRequest =
+    | { type: 'sync'; upserts: IndexedDocument[]; removals: string[] }
+    | { type: 'search'; requestId: number; terms: string[] };
+
+export type SearchWorkerResponse = { type: 'results'; requestId: number; hits: SearchHit[] };
+
+type Field = 'text' | 'summary' | 'tags';
+
+const FIELD_WEIGHTS: Record<Field, number> = { text: 1, summary: 1.5, tags: 3 };
+const PREFIX_FACTOR = 0.7;
+const TYPO_FACTOR = 0.4;
+const MIN_PREFIX_LENGTH = 2;
+
+const ENTITIES: Record<string, string> = { '&nbsp;': ' ', '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" };
+
+// Lower-case and drop accents so "Café" is found by "cafe".
+export const normalizeToken = (word: string): string => word.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+export const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export const tokenize = (text: string): string[] => (text.match(WORD_PATTERN) || []).map(normalizeToken);
+
+export const toIndexedDocument = (note: Note): IndexedDocument => ({
+    id: note.id,
+    text: stripHtml(note.text).replace(/&(?:nbsp|amp|lt|gt|quot|#39);/g, entity => ENTITIES[entity]),
+    summary: note.summary || '',
+    tags: note.tags || [],
+});
+
+// Typos allowed for a term of this length; short words must match exactly or as a prefix.
+const maxEdits = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Edit distance counting a swap of two neighbouring letters as one edit ("budgte" -> "budget"), giving up
+// as soon as it must exceed `limit`.
+const editDistance = (a: string, b: string, limit: number): number => {
+    if (Math.abs(a.length - b.length) > limit) return limit + 1;
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+            }
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > limit) return limit + 1;
+        beforePrevious = previous;
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+export const createSearchIndex = () => {
+    // token -> document id -> weighted term frequency
+    const postings = new Map<string, Map<string, number>>();
+    const documentTokens = new Map<string, Set<string>>();
+
+    const remove = (id: string) => {
+        documentTokens.get(id)?.forEach(token => {
+            const docs = postings.get(token);
+            docs?.delete(id);
+            if (docs?.size === 0) postings.delete(token);
+        });
+        documentTokens.delete(id);
+    };
+
+    const upsert = (doc: IndexedDocument) => {
+        remove(doc.id);
+        const weights = new Map<string, number>();
+        const fields: [Field, string][] = [['text', doc.text], ['summary', doc.summary], ['tags', doc.tags.join(' ')]];
+        fields.forEach(([field, value]) => {
+            tokenize(value).forEach(token => weights.set(token, (weights.get(token) || 0) + FIELD_WEIGHTS[field]));
+        });
+        weights.forEach((weight, token) => {
+            if (!postings.has(token)) postings.set(token, new Map());
+            postings.get(token)!.set(doc.id, weight);
+        });
+        documentTokens.set(doc.id, new Set(weights.keys()));
+    };
+
+    // Index tokens a query term can stand for, with how much a match on each is worth.
+    const expandTerm = (term: string): Map<string, number> => {
+        const expansions = new Map<string, number>();
+        const edits = maxEdits(term);
+        postings.forEach((_, token) => {
+            if (token === term) {
+                expansions.set(token, 1);
+            } else if (term.length >= MIN_PREFIX_LENGTH && token.startsWith(term)) {
+                expansions.set(token, PREFIX_FACTOR);
+            } else if (edits > 0) {
+                const distance = editDistance(term, token, edits);
+                if (distance <= edits) expansions.set(token, TYPO_FACTOR / distance);
+            }
+        });
+        return expansions;
+    };
+
+    const search = (terms: string[]): SearchHit[] => {
+        const queryTerms = Array.from(new Set(terms.flatMap(tokenize)));
+        if (queryTerms.length === 0) return [];
+        const totalDocs = documentTokens.size;
+
+        let hits: Map<string, SearchHit> | null = null;
+        for (const term of queryTerms) {
+            // Best-scoring token per document for this term.
+            const termHits = new Map<string, { score: number; token: string }>();
+            expandTerm(term).forEach((factor, token) => {
+                const docs = postings.get(token)!;
+                const idf = Math.log(1 + totalDocs / docs.size);
+                docs.forEach((weight, id) => {
+                    const score = factor * idf * (1 + Math.log(weight));
+                    const best = termHits.get(id);
+                    if (!best || score > best.score) termHits.set(id, { score, token });
+                });
+            });
+
+            const next = new Map<string, SearchHit>();
+            termHits.forEach(({ score, token }, id) => {
+                const previous = hits ? hits.get(id) : { id, score: 0, matches: [] };
+                if (previous) next.set(id, { id, score: previous.score + score, matches: [...previous.matches, token] });
+            });
+            hits = next;
+            if (hits.size === 0) break;
+        }
+        return Array.from(hits!.values()).sort((a, b) => b.score - a.score);
+    };
+
+    return {
+        sync(upserts: IndexedDocument[], removals: string[]) {
+            removals.forEach(remove);
+            upserts.forEach(upsert);
+        },
+        search,
+    };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -0,0 +1,14 @@
+import { createSearchIndex } from './searchIndex';
+import type { SearchWorkerRequest, SearchWorkerResponse } from './searchIndex';
+
+const index = createSearchIndex();
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+    const request = event.data;
+    if (request.type === 'sync') {
+        index.sync(request.upserts, request.removals);
+        return;
+    }
+    const response: SearchWorkerResponse = { type: 'results', requestId: request.requestId, hits: index.search(request.terms) };
+    self.postMessage(response);
+};
@@ -0,0 +1,62 @@
+import { createSearchIndex, toIndexedDocument } from './searchIndex';
+import type { IndexedDocument, SearchHit, SearchWorkerRequest, SearchWorkerResponse } from './searchIndex';
+import type { Note } from '../types';
+
+// Talks to the search index worker. Where workers aren't available the same index runs on the main thread.
+
+export interface SearchIndexClient {
+    // Brings the index in line with `notes`, sending only notes that were added, changed or removed.
+    sync(notes: Note[]): void;
+    search(terms: string[]): Promise<SearchHit[]>;
+    dispose(): void;
+}
+
+const createWorker = (): Worker | null => {
+    if (typeof Worker === 'undefined') return null;
+    try {
+        return new Worker(new URL('./searchIndex.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        console.error("Could not start the search worker; indexing on the main thread.", error);
+        return null;
+    }
+};
+
+export const createSearchIndexClient = (): SearchIndexClient => {
+    const worker = createWorker();
+    const localIndex = worker ? null : createSearchIndex();
+    const pending = new Map<number, (hits: SearchHit[]) => void>();
+    // Notes are replaced, never mutated, so an unchanged object means an unchanged document.
+    let indexed = new Map<string, Note>();
+    let nextRequestId = 0;
+
+    worker?.addEventListener('message', (event: MessageEvent<SearchWorkerResponse>) => {
+        pending.get(event.data.requestId)?.(event.data.hits);
+        pending.delete(event.data.requestId);
+    });
+
+    const send = (request: SearchWorkerRequest) => worker?.postMessage(request);
+
+    return {
+        sync(notes) {
+            const upserts: IndexedDocument[] = notes.filter(note => indexed.get(note.id) !== note).map(toIndexedDocument);
+            const current = new Map(notes.map(note => [note.id, note]));
+            const removals = Array.from(indexed.keys()).filter(id => !current.has(id));
+            indexed = current;
+            if (upserts.length === 0 && removals.length === 0) return;
+            if (localIndex) localIndex.sync(upserts, removals);
+            else send({ type: 'sync', upserts, removals });
+        },
+        search(terms) {
+            if (localIndex) return Promise.resolve(localIndex.search(terms));
+            const requestId = nextRequestId++;
+            return new Promise(resolve => {
+                pending.set(requestId, resolve);
+                send({ type: 'search', requestId, terms });
+            });
+        },
+        dispose() {
+            worker?.terminate();
+            pending.clear();
+        },
+    };
+};
@@ -0,0 +1,209 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Note } from '../types';
+import type { SearchHit } from './searchIndex';
+import {
+    currentToken,
+    filterNotesByQuery,
+    hasStructuredFilters,
+    indexTerms,
+    matchesSearchQuery,
+    parseSearchQuery,
+    queryText,
+    searchSuggestions,
+} from './searchQuery';
+
+const note = (id: string, overrides: Partial<Note> = {}): Note => ({
+    id,
+    user_id: 'user-1',
+    text: '',
+    image_url: null,
+    drawing_url: null,
+    audio_url: null,
+    summary: null,
+    color: 'bg-amber-100',
+    tags: [],
+    tasks: null,
+    related_note_ids: null,
+    stack_id: null,
+    canvas_x: null,
+    canvas_y: null,
+    ...overrides,
+});
+
+const matches = (n: Note, input: string, context = {}) => matchesSearchQuery(n, parseSearchQuery(input), context);
+
+describe('parseSearchQuery', () => {
+    it('splits words and lower-cases them', () => {
+        expect(parseSearchQuery('Buy  MILK').clauses).toEqual([
+            { field: 'text', value: 'buy', negated: false, exact: false },
+            { field: 'text', value: 'milk', negated: false, exact: false },
+        ]);
+    });
+
+    it('reads negated words, phrases and operators', () => {
+        expect(parseSearchQuery('-eggs -"old list" -tag:done').clauses).toEqual([
+            { field: 'text', value: 'eggs', negated: true, exact: false },
+            { field: 'text', value: 'old list', negated: true, exact: true },
+            { field: 'tag', value: 'done', negated: true },
+        ]);
+    });
+
+    it('keeps quoted phrases together, even when the closing quote is missing', () => {
+        expect(parseSearchQuery('"road trip" "half open').clauses).toEqual([
+            { field: 'text', value: 'road trip', negated: false, exact: true },
+            { field: 'text', value: 'half open', negated: false, exact: true },
+        ]);
+    });
+
+    it('reads operators in any case and quoted operator values', () => {
+        expect(parseSearchQuery('HAS:Audio tag:"Road Trip" Color:SKY').clauses).toEqual([
+            { field: 'has', value: 'audio', negated: false },
+            { field: 'tag', value: 'Road Trip', negated: false },
+            { field: 'color', value: 'sky', negated: false },
+        ]);
+    });
+
+    it.each([
+        ['has:video', 'has:video'],
+        ['is:archived', 'is:archived'],
+        ['color:pink', 'color:pink'],
+        ['before:2026-13-01', 'before:2026-13-01'],
+        ['after:yesterday', 'after:yesterday'],
+        ['tag:', 'tag:'],
+        ['due:today', 'due:today'],
+        ['https://example.com', 'https://example.com'],
+    ])('searches %s as text because the operator or value is not valid', (input, text) => {
+        expect(parseSearchQuery(input).clauses).toEqual([{ field: 'text', value: text, negated: false, exact: false }]);
+    });
+
+    it('ignores a lone minus', () => {
+        expect(parseSearchQuery('milk -').clauses).toHaveLength(1);
+    });
+});
+
+describe('query helpers', () => {
+    const query = parseSearchQuery('milk "oat milk" -eggs tag:shopping');
+
+    it('lists the positive text for plain-text and index searches', () => {
+        expect(queryText(query)).toBe('milk oat milk');
+        expect(indexTerms(query)).toEqual(['milk', 'oat milk']);
+    });
+
+    it('notices filters the index cannot answer', () => {
+        expect(hasStructuredFilters(query)).toBe(true);
+        expect(hasStructuredFilters(parseSearchQuery('milk "oat milk"'))).toBe(false);
+        expect(hasStructuredFilters(parseSearchQuery('milk -eggs'))).toBe(true);
+    });
+});
+
+describe('matchesSearchQuery', () => {
+    const shopping = note('shopping', { text: '<p>Buy <b>oat milk</b> and bread</p>', summary: 'Groceries', tags: ['Shopping', 'home'] });
+
+    it('matches words in the text, summary or tags', () => {
+        expect(matches(shopping, 'bread')).toBe(true);
+        expect(matches(shopping, 'groceries')).toBe(true);
+        expect(matches(shopping, 'shop')).toBe(true);
+        expect(matches(shopping, 'bread cheese')).toBe(false);
+    });
+
+    it('excludes notes with a negated word or phrase', () => {
+        expect(matches(shopping, 'bread -milk')).toBe(false);
+        expect(matches(shopping, 'bread -cheese')).toBe(true);
+        expect(matches(shopping, '-"oat milk"')).toBe(false);
+        expect(matches(shopping, '-"milk oat"')).toBe(true);
+    });
+
+    it('matches quoted phrases as written, ignoring markup', () => {
+        expect(matches(shopping, '"oat milk and bread"')).toBe(true);
+        expect(matches(shopping, '"milk oat"')).toBe(false);
+    });
+
+    it('compares tags without regard to case, but only whole tags', () => {
+        expect(matches(shopping, 'tag:shopping')).toBe(true);
+        expect(matches(shopping, 'tag:SHOPPING')).toBe(true);
+        expect(matches(shopping, 'tag:shop')).toBe(false);
+        expect(matches(shopping, '-tag:Home')).toBe(false);
+    });
+
+    it('checks attachments, tasks and links', () => {
+        const rich = note('rich', { audio_url: 'user-1/audio/a.webm', related_note_ids: ['other'] });
+        expect(matches(rich, 'has:audio has:links')).toBe(true);
+        expect(matches(rich, 'has:image')).toBe(false);
+        expect(matches(rich, 'has:tasks')).toBe(false);
+        expect(matches(rich, 'has:tasks', { noteIdsWithTasks: new Set(['rich']) })).toBe(true);
+    });
+
+    it('checks pinned, stacked and colour', () => {
+        const pinned = note('pinned', { is_pinned: true, color: 'bg-sky-100' });
+        expect(matches(pinned, 'is:pinned color:sky')).toBe(true);
+        expect(matches(pinned, 'is:stacked')).toBe(false);
+        expect(matches(note('white', { color: 'bg-white' }), 'color:white')).toBe(true);
+    });
+
+    describe('dates', () => {
+        const originalTimezone = process.env.TZ;
+
+        beforeAll(() => {
+            process.env.TZ = 'America/Los_Angeles';
+        });
+
+        afterAll(() => {
+            process.env.TZ = originalTimezone;
+        });
+
+        // 22:30 on 9 March in Los Angeles, already 10 March in UTC.
+        const evening = note('evening', { created_at: '2026-03-10T05:30:00Z' });
+
+        it("uses the day the note was written in the user's timezone", () => {
+            expect(matches(evening, 'before:2026-03-10')).toBe(true);
+            expect(matches(evening, 'after:2026-03-08')).toBe(true);
+            expect(matches(evening, 'after:2026-03-09')).toBe(false);
+            expect(matches(evening, 'before:2026-03-09')).toBe(false);
+        });
+
+        it('leaves out notes without a creation date', () => {
+            expect(matches(note('undated'), 'before:2100-01-01')).toBe(false);
+            expect(matches(note('undated'), '-before:2100-01-01')).toBe(true);
+        });
+    });
+});
+
+describe('filterNotesByQuery', () => {
+    const notes = [
+        note('a', { text: 'budget review', tags: ['work'] }),
+        note('b', { text: 'budgte draft', tags: ['work'] }),
+        note('c', { text: 'holiday budget', tags: ['home'] }),
+    ];
+    const hit = (id: string): [string, SearchHit] => [id, { id, score: 1, matches: ['budget'] }];
+
+    it('matches bare words by substring without index hits', () => {
+        expect(filterNotesByQuery(notes, parseSearchQuery('budget'), [], null).map(n => n.id)).toEqual(['a', 'c']);
+    });
+
+    it('lets the index decide bare words but still applies operators, negation and tags', () => {
+        const hits = new Map([hit('a'), hit('b'), hit('c')]);
+        expect(filterNotesByQuery(notes, parseSearchQuery('budget'), [], hits).map(n => n.id)).toEqual(['a', 'b', 'c']);
+        expect(filterNotesByQuery(notes, parseSearchQuery('budget -review'), [], hits).map(n => n.id)).toEqual(['b', 'c']);
+        expect(filterNotesByQuery(notes, parseSearchQuery('budget tag:home'), [], hits).map(n => n.id)).toEqual(['c']);
+        expect(filterNotesByQuery(notes, parseSearchQuery('budget'), ['work'], hits).map(n => n.id)).toEqual(['a', 'b']);
+    });
+
+    it('checks quoted phrases itself', () => {
+        const hits = new Map([hit('a'), hit('b'), hit('c')]);
+        expect(filterNotesByQuery(notes, parseSearchQuery('"holiday budget"'), [], hits).map(n => n.id)).toEqual(['c']);
+    });
+});
+
+describe('search box completion', () => {
+    it('finds the token under the cursor, including an open quote', () => {
+        expect(currentToken('milk tag:wo')).toEqual({ token: 'tag:wo', start: 5 });
+        expect(currentToken('milk tag:"road tr')).toEqual({ token: 'tag:"road tr', start: 5 });
+        expect(currentToken('milk eggs', 4)).toEqual({ token: 'milk', start: 0 });
+    });
+
+    it('suggests operators, then their values', () => {
+        expect(searchSuggestions('ha', []).map(s => s.insert)).toEqual(['has:']);
+        expect(searchSuggestions('-is:p', []).map(s => s.insert)).toEqual(['-is:pinned ']);
+        expect(searchSuggestions('tag:ro', ['road trip', 'Recipes', 'rome']).map(s => s.insert)).toEqual(['tag:"road trip" ', 'tag:rome ']);
+    });
+});
@@ -0,0 +1,199 @@
+import { stripHtml } from './aiProvider';
+import type { SearchHit } from './searchIndex';
+import type { Note } from '../types';
+
+// The search box's query language. A query is a list of space-separated clauses, all of which must match:
+//
+//   word  "exact phrase"      text, summary or tags contain it
+//   tag:work                  has the tag
+//   has:audio|image|drawing|tasks|summary|links
+//   is:pinned|stacked
+//   color:sky                 one of the note colours
+//   before:2026-01-01  after:2025-12-31
+//
+// Any clause can be negated with a leading "-". Unknown fields and invalid values are searched as text.
+
+export type SearchField = 'text' | 'tag' | 'has' | 'is' | 'color' | 'before' | 'after';
+
+export interface SearchClause {
+    field: SearchField;
+    value: string;
+    negated: boolean;
+    // Quoted text must appear as typed; bare words may also match by prefix or with a typo (see searchIndex.ts).
+    exact?: boolean;
+}
+
+export interface SearchQuery {
+    clauses: SearchClause[];
+}
+
+export interface SearchSuggestion {
+    // What replaces the token being typed.
+    insert: string;
+    label: string;
+    description?: string;
+}
+
+export const HAS_VALUES = ['audio', 'image', 'drawing', 'tasks', 'summary', 'links'] as const;
+export const IS_VALUES = ['pinned', 'stacked'] as const;
+export const COLOR_VALUES = ['amber', 'sky', 'lime', 'rose', 'violet', 'white'] as const;
+
+const OPERATORS: { field: Exclude<SearchField, 'text'>; description: string }[] = [
+    { field: 'tag', description: 'Notes with a tag' },
+    { field: 'has', description: 'Notes with audio, an image, tasks...' },
+    { field: 'is', description: 'Pinned or stacked notes' },
+    { field: 'color', description: 'Notes of one colour' },
+    { field: 'before', description: 'Created before a date (YYYY-MM-DD)' },
+    { field: 'after', description: 'Created after a date (YYYY-MM-DD)' },
+];
+
+// -?  field:  "quoted value" | bare value
+const CLAUSE_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+// The calendar date in the user's timezone, as YYYY-MM-DD. before:/after: mean the day the user saw.
+const localDate = (date: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+const isValidValue = (field: SearchField, value: string): boolean => {
+    switch (field) {
+        case 'tag': return value.length > 0;
+        case 'has': return (HAS_VALUES as readonly string[]).includes(value);
+        case 'is': return (IS_VALUES as readonly string[]).includes(value);
+        case 'color': return (COLOR_VALUES as readonly string[]).includes(value);
+        case 'before':
+        case 'after': return isDate(value);
+        default: return true;
+    }
+};
+
+const isField = (name: string): name is SearchField => OPERATORS.some(op => op.field === name);
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+    const clauses: SearchClause[] = [];
+    for (const match of input.matchAll(CLAUSE_PATTERN)) {
+        const [, minus, name, quoted, bare] = match;
+        const value = (quoted ?? bare ?? '').trim();
+        const field = name?.toLowerCase();
+        if (field && isField(field) && isValidValue(field, value.toLowerCase())) {
+            clauses.push({ field, value: field === 'tag' ? value : value.toLowerCase(), negated: !!minus });
+            continue;
+        }
+        const text = name ? `${name}:${value}` : value;
+        if (text && text !== '-') clauses.push({ field: 'text', value: text.toLowerCase(), negated: !!minus, exact: quoted !== undefined });
+    }
+    return { clauses };
+};
+
+// The free-text part of a query, for search modes that only understand plain text.
+export const queryText = (query: SearchQuery): string =>
+    query.clauses.filter(clause => clause.field === 'text' && !clause.negated).map(clause => clause.value).join(' ');
+
+// Terms for the full-text index: every positive text clause, quoted or not.
+export const indexTerms = (query: SearchQuery): string[] =>
+    query.clauses.filter(clause => clause.field === 'text' && !clause.negated).map(clause => clause.value);
+
+export const hasStructuredFilters = (query: SearchQuery): boolean =>
+    query.clauses.some(clause => clause.field !== 'text' || clause.negated);
+
+// Facts about a note that live outside the note row.
+export interface SearchContext {
+    noteIdsWithTasks?: Set<string>;
+}
+
+const noteHas = (note: Note, value: string, context: SearchContext): boolean => {
+    switch (value) {
+        case 'audio': return !!note.audio_url;
+        case 'image': return !!note.image_url;
+        case 'drawing': return !!note.drawing_url;
+        case 'tasks': return !!context.noteIdsWithTasks?.has(note.id);
+        case 'summary': return !!note.summary;
+        case 'links': return !!note.related_note_ids?.length;
+        default: return false;
+    }
+};
+
+const clauseMatches = (note: Note, clause: SearchClause, context: SearchContext): boolean => {
+    switch (clause.field) {
+        case 'tag': return !!note.tags?.some(tag => tag.toLowerCase() === clause.value.toLowerCase());
+        case 'has': return noteHas(note, clause.value, context);
+        case 'is': return clause.value === 'pinned' ? !!note.is_pinned : !!note.stack_id;
+        case 'color': return (note.color || '').startsWith(`bg-${clause.value}-`) || note.color === `bg-${clause.value}`;
+        case 'before': return !!note.created_at && localDate(new Date(note.created_at)) < clause.value;
+        case 'after': return !!note.created_at && localDate(new Date(note.created_at)) > clause.value;
+        default:
+            // Tags become spaces when stripped; collapse them so a phrase can span bold or italic text.
+            return stripHtml(note.text).replace(/\s+/g, ' ').toLowerCase().includes(clause.value) ||
+                !!note.summary?.toLowerCase().includes(clause.value) ||
+                !!note.tags?.some(tag => tag.toLowerCase().includes(clause.value));
+    }
+};
+
+// `ignoreText` skips the bare words, for callers that have matched them some other way (the full-text index
+// or semantic search). Quoted phrases and negated words are still checked here.
+export const matchesSearchQuery = (note: Note, query: SearchQuery, { ignoreText = false, ...context }: SearchContext & { ignoreText?: boolean } = {}): boolean =>
+    query.clauses.every(clause => {
+        if (ignoreText && clause.field === 'text' && !clause.negated && !clause.exact) return true;
+        return clauseMatches(note, clause, context) !== clause.negated;
+    });
+
+// The tag filter bar: a note must carry every selected tag.
+export const matchesTagFilters = (note: Note, tags: string[]): boolean =>
+    tags.every(tag => !!note.tags?.includes(tag));
+
+/**
+ * The notes a text search shows, for the results list and for saved-search counts alike. With `hits` from
+ * the full-text index the bare words match there (prefixes, typos); without them, e.g. while the index is
+ * still answering, they match by substring.
+ */
+export const filterNotesByQuery = (notes: Note[], query: SearchQuery, tags: string[], hits: Map<string, SearchHit> | null, context: SearchContext = {}): Note[] =>
+    notes.filter(note =>
+        (hits ? hits.has(note.id) && matchesSearchQuery(note, query, { ...context, ignoreText: true }) : matchesSearchQuery(note, query, context))
+        && matchesTagFilters(note, tags)
+    );
+
+// The token the cursor is in, and where it starts. Quoted values count as part of their token.
+export const currentToken = (input: string, cursor = input.length): { token: string; start: number } => {
+    const before = input.slice(0, cursor);
+    const quoteOpen = (before.match(/"/g) || []).length % 2 === 1;
+    const start = quoteOpen ? before.lastIndexOf(' ', before.lastIndexOf('"')) + 1 : before.lastIndexOf(' ') + 1;
+    return { token: before.slice(start), start };
+};
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+// Completions for the token being typed: operator names first, then values once the field is known.
+export const searchSuggestions = (token: string, allTags: string[], limit = 8): SearchSuggestion[] => {
+    const minus = token.startsWith('-') ? '-' : '';
+    const body = token.slice(minus.length).toLowerCase();
+    const colon = body.indexOf(':');
+
+    if (colon === -1) {
+        if (!body) return [];
+        return OPERATORS
+            .filter(op => op.field.startsWith(body) && op.field !== body)
+            .map(op => ({ insert: `${minus}${op.field}:`, label: `${op.field}:`, description: op.description }))
+            .slice(0, limit);
+    }
+
+    const field = body.slice(0, colon);
+    const partial = body.slice(colon + 1).replace(/"/g, '');
+    const values = (candidates: readonly string[]) => candidates
+        .filter(value => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+        .slice(0, limit)
+        .map(value => ({ insert: `${minus}${field}:${quoteIfNeeded(value)} `, label: `${field}:${value}` }));
+
+    switch (field) {
+        case 'tag': return values(allTags);
+        case 'has': return values(HAS_VALUES);
+        case 'is': return values(IS_VALUES);
+        case 'color': return values(COLOR_VALUES);
+        case 'before':
+        case 'after':
+            return partial ? [] : [{ insert: `${minus}${field}:${localDate(new Date())} `, label: `${field}:YYYY-MM-DD`, description: 'Today; edit the date as needed' }];
+        default: return [];
+    }
+};
@@ -0,0 +1,187 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Note, Task } from '../types';
+
+// A small stand-in for the `tasks` table that supports the queries the repository makes, including the
+// unique (note_id, source, position) key.
+const { table } = vi.hoisted(() => {
+    type Row = Record<string, unknown>;
+    const table = { rows: [] as Row[], nextId: 1, inserts: 0, upserts: 0 };
+
+    const query = () => {
+        const filters: ((row: Row) => boolean)[] = [];
+        let action: { type: 'select' } | { type: 'delete' } | { type: 'upsert'; rows: Row[]; onConflict: string } = { type: 'select' };
+        const run = () => {
+            const matching = () => table.rows.filter(row => filters.every(filter => filter(row)));
+            if (action.type === 'delete') {
+                const removed = matching();
+                table.rows = table.rows.filter(row => !removed.includes(row));
+                return removed;
+            }
+            if (action.type === 'upsert') {
+                table.upserts++;
+                const keys = action.onConflict.split(',');
+                return action.rows.map(values => {
+                    const existing = table.rows.find(row => keys.every(key => row[key] === values[key]));
+                    if (existing) return Object.assign(existing, values);
+                    table.inserts++;
+                    const row = { id: `task-${table.nextId++}`, created_at: new Date().toISOString(), ...values };
+                    table.rows.push(row);
+                    return row;
+                });
+            }
+            return matching().sort((a, b) => (a.position as number) - (b.position as number));
+        };
+        const builder = {
+            select: () => builder,
+            order: () => builder,
+            eq: (key: string, value: unknown) => { filters.push(row => row[key] === value); return builder; },
+            gte: (key: string, value: number) => { filters.push(row => (row[key] as number) >= value); return builder; },
+            delete: () => { action = { type: 'delete' }; return builder; },
+            upsert: (rows: Row[], { onConflict }: { onConflict: string }) => { action = { type: 'upsert', rows, onConflict }; return builder; },
+            then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: structuredClone(run()), error: null }),
+        };
+        return builder;
+    };
+
+    return { table: Object.assign(table, { query }) };
+});
+
+vi.mock('./supabaseClient', () => ({
+    supabase: { from: () => table.query() },
+}));
+
+import { clearTasks, subscribeToTasks, syncChecklistTasks } from './taskRepository';
+
+const note = (text: string): Note => ({
+    id: 'note-1',
+    user_id: 'user-1',
+    text,
+    image_url: null,
+    drawing_url: null,
+    audio_url: null,
+    summary: null,
+    color: 'bg-amber-100',
+    tags: [],
+    tasks: null,
+    related_note_ids: null,
+    stack_id: null,
+    canvas_x: null,
+    canvas_y: null,
+});
+
+const checklist = (...items: [string, boolean?][]) =>
+    items.map(([text, done]) => `<div class="checklist-item"><input type="checkbox"${done ? ' checked' : ''}><span>${text}</span></div>`).join('');
+
+const stored = () => (table.rows as unknown as Task[])
+    .slice()
+    .sort((a, b) => a.position - b.position)
+    .map(task => ({ text: task.text, done: task.done, position: task.position, due_date: task.due_date }));
+
+const taskAt = (text: string) => (table.rows as unknown as Task[]).find(task => task.text === text)!;
+
+beforeEach(() => {
+    table.rows = [];
+    table.nextId = 1;
+    table.inserts = 0;
+    table.upserts = 0;
+    clearTasks();
+});
+
+describe('syncChecklistTasks', () => {
+    it('creates a task for each checklist item', async () => {
+        await syncChecklistTasks(note(checklist(['Milk'], ['Eggs', true])));
+        expect(stored()).toEqual([
+            { text: 'Milk', done: false, position: 0, due_date: null },
+            { text: 'Eggs', done: true, position: 1, due_date: null },
+        ]);
+        expect(taskAt('Eggs').completed_at).toEqual(expect.any(String));
+    });
+
+    it('renames a task in place when its item is edited', async () => {
+        await syncChecklistTasks(note(checklist(['Milk'], ['Eggs'])));
+        Object.assign(taskAt('Eggs'), { due_date: '2026-10-20' });
+        const id = taskAt('Eggs').id;
+
+        await syncChecklistTasks(note(checklist(['Milk'], ['Free-range eggs'])));
+
+        expect(taskAt('Free-range eggs')).toMatchObject({ id, position: 1, due_date: '2026-10-20' });
+        expect(table.rows).toHaveLength(2);
+    });
+
+    it('keeps due dates with their items when the checklist is reordered', async () => {
+        await syncChecklistTasks(note(checklist(['Milk'], ['Eggs'], ['Bread'])));
+        Object.assign(taskAt('Bread'), { due_date: '2026-10-21', priority: 'high' });
+
+        await syncChecklistTasks(note(checklist(['Bread'], ['Milk'], ['Eggs'])));
+
+        expect(stored()).toEqual([
+            { text: 'Bread', done: false, position: 0, due_date: '2026-10-21' },
+            { text: 'Milk', done: false, position: 1, due_date: null },
+            { text: 'Eggs', done: false, position: 2, due_date: null },
+        ]);
+        expect(taskAt('Bread').priority).toBe('high');
+        expect(table.inserts).toBe(3);
+    });
+
+    it('deletes the tasks of removed items', async () => {
+        await syncChecklistTasks(note(checklist(['Milk'], ['Eggs'], ['Bread'])));
+        await syncChecklistTasks(note(checklist(['Milk'], ['Bread'])));
+        expect(stored().map(task => task.text)).toEqual(['Milk', 'Bread']);
+
+        await syncChecklistTasks(note('<p>No list any more</p>'));
+        expect(table.rows).toEqual([]);
+    });
+
+    it('ticks and unticks tasks, keeping when they were completed', async () => {
+        await syncChecklistTasks(note(checklist(['Milk'], ['Eggs'])));
+        await syncChecklistTasks(note(checklist(['Milk', true], ['Eggs'])));
+        const completedAt = taskAt('Milk').completed_at;
+        expect(taskAt('Milk').done).toBe(true);
+        expect(completedAt).toEqual(expect.any(String));
+
+        await syncChecklistTasks(note(checklist(['Milk', true], ['Eggs', true])));
+        expect(taskAt('Milk').completed_at).toBe(completedAt);
+
+        await syncChecklistTasks(note(checklist(['Milk'], ['Eggs', true])));
+        expect(taskAt('Milk')).toMatchObject({ done: false, completed_at: null });
+    });
+
+    it('writes nothing when the tasks already match', async () => {
+        const text = checklist(['Milk'], ['Eggs']);
+        await syncChecklistTasks(note(text));
+        await syncChecklistTasks(note(text));
+        expect(table.upserts).toBe(1);
+    });
+
+    it('does not duplicate tasks another device created since this one loaded its tasks', async () => {
+        // This device loaded no tasks; another device has since synced the same checklist.
+        let local: Task[] = [];
+        const unsubscribe = subscribeToTasks(snapshot => { local = snapshot; });
+        table.rows = [
+            { id: 'other-1', user_id: 'user-1', note_id: 'note-1', text: 'Milk', done: false, due_date: '2026-10-22', priority: 'normal', source: 'checklist', position: 0, created_at: '2026-10-18T09:00:00Z', completed_at: null, remind_at: null },
+            { id: 'other-2', user_id: 'user-1', note_id: 'note-1', text: 'Eggs', done: false, due_date: null, priority: 'normal', source: 'checklist', position: 1, created_at: '2026-10-18T09:00:00Z', completed_at: null, remind_at: null },
+        ];
+
+        await syncChecklistTasks(note(checklist(['Milk'], ['Eggs', true])));
+
+        expect(table.inserts).toBe(0);
+        expect(stored()).toEqual([
+            { text: 'Milk', done: false, position: 0, due_date: '2026-10-22' },
+            { text: 'Eggs', done: true, position: 1, due_date: null },
+        ]);
+        expect(local.map(task => task.id)).toEqual(['other-2']);
+        unsubscribe();
+    });
+
+    it('lets two devices sync the same new checklist at once without duplicates', async () => {
+        // A second copy of the module has its own store and sync queue, like another device.
+        vi.resetModules();
+        const otherDevice = await import('./taskRepository');
+        const text = checklist(['Milk'], ['Eggs']);
+
+        await Promise.all([syncChecklistTasks(note(text)), otherDevice.syncChecklistTasks(note(text))]);
+
+        expect(stored().map(task => task.text)).toEqual(['Milk', 'Eggs']);
+    });
+});
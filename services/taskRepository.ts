@@ -0,0 +1,190 @@
+import { supabase } from './supabaseClient';
+import { parseChecklist } from './checklist';
+import type { Note, Task } from '../types';
+
+// Access to the `tasks` table. Loaded tasks are kept in a module-level store that components subscribe
+// to, because tasks change from several places: the task board, note cards, AI extraction and (through
+// noteRepository.ts) every save of a note's checklist.
+
+export type NewTask = Pick<Task, 'user_id' | 'text'> & Partial<Omit<Task, 'id' | 'user_id' | 'text' | 'created_at'>>;
+
+const tasks = new Map<string, Task>();
+const listeners = new Set<(tasks: Task[]) => void>();
+
+const emitTasks = () => {
+    const snapshot = Array.from(tasks.values());
+    listeners.forEach(listener => listener(snapshot));
+};
+
+const storeTasks = (rows: Task[]) => {
+    rows.forEach(task => tasks.set(task.id, task));
+    emitTasks();
+};
+
+export const subscribeToTasks = (listener: (tasks: Task[]) => void): (() => void) => {
+    listeners.add(listener);
+    listener(Array.from(tasks.values()));
+    return () => { listeners.delete(listener); };
+};
+
+export async function loadTasks(): Promise<Task[]> {
+    const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .order('position', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message);
+    }
+    tasks.clear();
+    storeTasks(data || []);
+    return data || [];
+}
+
+export const clearTasks = () => {
+    tasks.clear();
+    emitTasks();
+};
+
+export async function createTasks(newTasks: NewTask[]): Promise<Task[]> {
+    if (newTasks.length === 0) return [];
+    const { data, error } = await supabase.from('tasks').insert(newTasks).select();
+    if (error) {
+        throw new Error(error.message);
+    }
+    storeTasks(data || []);
+    return data || [];
+}
+
+export async function updateTask(id: string, update: Partial<Task>): Promise<Task> {
+    const payload = 'done' in update ? { ...update, completed_at: update.done ? new Date().toISOString() : null } : update;
+    const { data, error } = await supabase.from('tasks').update(payload).eq('id', id).select().single();
+    if (error || !data) {
+        throw new Error(error?.message || "Could not update the task.");
+    }
+    storeTasks([data]);
+    return data;
+}
+
+export async function deleteTasks(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await supabase.from('tasks').delete().in('id', ids);
+    if (error) {
+        throw new Error(error.message);
+    }
+    ids.forEach(id => tasks.delete(id));
+    emitTasks();
+}
+
+export const tasksForNote = (noteId: string): Task[] =>
+    Array.from(tasks.values()).filter(task => task.note_id === noteId).sort((a, b) => a.position - b.position);
+
+// Adds AI-extracted tasks to a note, skipping any it already has.
+export async function addExtractedTasks(note: Note, texts: string[]): Promise<Task[]> {
+    const existing = tasksForNote(note.id);
+    const known = new Set(existing.map(task => task.text.toLowerCase()));
+    const fresh = Array.from(new Set(texts.map(text => text.trim()).filter(text => text && !known.has(text.toLowerCase()))));
+    const nextPosition = Math.max(-1, ...existing.filter(task => task.source !== 'checklist').map(task => task.position)) + 1;
+    return createTasks(fresh.map((text, index) => ({
+        user_id: note.user_id,
+        note_id: note.id,
+        text,
+        source: 'ai',
+        position: nextPosition + index,
+    })));
+}
+
+const checklistSyncs = new Map<string, Promise<void>>();
+
+/**
+ * Makes the note's checklist tasks match the checklist items in its text. Each checklist task is stored
+ * at its item's position; items are matched to the previous tasks by text first, then by position, so
+ * due dates, priorities and reminders move with an item when it is edited or reordered.
+ */
+export function syncChecklistTasks(note: Note): Promise<void> {
+    // One sync per note at a time, or two quick saves could both create the same new items.
+    const previous = checklistSyncs.get(note.id) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => reconcileChecklist(note));
+    checklistSyncs.set(note.id, next);
+    next.finally(() => {
+        if (checklistSyncs.get(note.id) === next) checklistSyncs.delete(note.id);
+    }).catch(() => undefined);
+    return next;
+}
+
+async function reconcileChecklist(note: Note): Promise<void> {
+    const items = parseChecklist(note.text);
+    // Read the tasks from the table rather than the store: another device may have synced this note
+    // since our tasks were loaded.
+    const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('note_id', note.id)
+        .eq('source', 'checklist')
+        .order('position', { ascending: true });
+    if (error) {
+        throw new Error(error.message);
+    }
+    const existing: Task[] = data || [];
+    const unmatched = new Set(existing);
+    const matches = items.map(item => {
+        const byText = existing.find(task => unmatched.has(task) && task.text === item.text);
+        if (byText) unmatched.delete(byText);
+        return byText;
+    });
+    items.forEach((_, index) => {
+        if (matches[index]) return;
+        const byPosition = existing.find(task => unmatched.has(task) && task.position === index);
+        if (byPosition) {
+            unmatched.delete(byPosition);
+            matches[index] = byPosition;
+        }
+    });
+
+    const rows: NewTask[] = items.map((item, index) => {
+        const task = matches[index];
+        return {
+            user_id: note.user_id,
+            note_id: note.id,
+            source: 'checklist',
+            position: index,
+            text: item.text,
+            done: item.done,
+            completed_at: task && task.done === item.done ? task.completed_at : item.done ? new Date().toISOString() : null,
+            due_date: task?.due_date ?? null,
+            priority: task?.priority ?? 'normal',
+            remind_at: task?.remind_at ?? null,
+        };
+    });
+    const current = new Map(existing.map(task => [task.position, task]));
+    const changed = rows.filter(row => {
+        const task = current.get(row.position!);
+        return !task || (['text', 'done', 'completed_at', 'due_date', 'priority', 'remind_at'] as const).some(key => task[key] !== row[key]);
+    });
+
+    // The (note_id, source, position) key makes this safe to repeat: a second device writing the same
+    // checklist updates these rows instead of adding copies.
+    if (changed.length > 0) {
+        const { data: saved, error: saveError } = await supabase
+            .from('tasks')
+            .upsert(changed, { onConflict: 'note_id,source,position' })
+            .select();
+        if (saveError) {
+            throw new Error(saveError.message);
+        }
+        storeTasks(saved || []);
+    }
+
+    const { data: removed, error: deleteError } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('note_id', note.id)
+        .eq('source', 'checklist')
+        .gte('position', items.length)
+        .select('id');
+    if (deleteError) {
+        throw new Error(deleteError.message);
+    }
+    (removed || []).forEach(({ id }) => tasks.delete(id));
+    if (removed?.length) emitTasks();
+}
@@ -0,0 +1,113 @@
+import type { Note, Task } from '../types';
+
+// Date bucketing for the timeline view. Everything works on local calendar days written as YYYY-MM-DD,
+// the same form as task due dates, so days compare as strings and never shift with the time zone.
+
+export type TimelineScale = 'day' | 'week' | 'month';
+
+export interface TimelineEntry {
+    note: Note;
+    day: string;
+    // 'created' places the note on the day it was written; 'due' on the due date of one of its open tasks.
+    reason: 'created' | 'due';
+}
+
+export interface TimelinePeriod {
+    key: string;
+    start: string;
+    end: string;
+    label: string;
+    entries: TimelineEntry[];
+}
+
+export const localDay = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Noon keeps arithmetic on the result clear of daylight-saving jumps.
+export const parseDay = (day: string) => {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date, 12);
+};
+
+export const addDays = (day: string, days: number) => {
+    const date = parseDay(day);
+    date.setDate(date.getDate() + days);
+    return localDay(date);
+};
+
+// Weeks start on Monday.
+const weekStart = (day: string) => addDays(day, -((parseDay(day).getDay() + 6) % 7));
+
+const monthStart = (day: string) => `${day.slice(0, 7)}-01`;
+
+const monthEnd = (day: string) => {
+    const date = parseDay(monthStart(day));
+    return localDay(new Date(date.getFullYear(), date.getMonth() + 1, 0, 12));
+};
+
+export const periodBounds = (day: string, scale: TimelineScale): { start: string; end: string } => {
+    if (scale === 'day') return { start: day, end: day };
+    if (scale === 'week') {
+        const start = weekStart(day);
+        return { start, end: addDays(start, 6) };
+    }
+    return { start: monthStart(day), end: monthEnd(day) };
+};
+
+const periodLabel = (start: string, end: string, scale: TimelineScale) => {
+    const startDate = parseDay(start);
+    if (scale === 'day') return startDate.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+    if (scale === 'month') return startDate.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+    const endDate = parseDay(end);
+    return `${startDate.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} – ${endDate.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+};
+
+export const timelineEntries = (notes: Note[], tasks: Task[]): TimelineEntry[] => {
+    const entries: TimelineEntry[] = [];
+    const notesById = new Map(notes.map(note => [note.id, note]));
+    notes.forEach(note => {
+        const timestamp = note.created_at || note.updated_at;
+        if (timestamp) entries.push({ note, day: localDay(new Date(timestamp)), reason: 'created' });
+    });
+    // A note with several open tasks due the same day shows up once for that day.
+    const seen = new Set<string>();
+    tasks.forEach(task => {
+        const note = task.note_id ? notesById.get(task.note_id) : undefined;
+        if (!note || task.done || !task.due_date) return;
+        const key = `${note.id}:${task.due_date}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        entries.push({ note, day: task.due_date, reason: 'due' });
+    });
+    return entries.sort((a, b) => a.day.localeCompare(b.day));
+};
+
+// Only periods that have entries, oldest first.
+export const groupByPeriod = (entries: TimelineEntry[], scale: TimelineScale): TimelinePeriod[] => {
+    const periods = new Map<string, TimelinePeriod>();
+    entries.forEach(entry => {
+        const { start, end } = periodBounds(entry.day, scale);
+        if (!periods.has(start)) periods.set(start, { key: start, start, end, label: periodLabel(start, end, scale), entries: [] });
+        periods.get(start)!.entries.push(entry);
+    });
+    return [...periods.values()].sort((a, b) => a.start.localeCompare(b.start));
+};
+
+export const entriesByDay = (entries: TimelineEntry[]): Map<string, TimelineEntry[]> => {
+    const byDay = new Map<string, TimelineEntry[]>();
+    entries.forEach(entry => {
+        if (!byDay.has(entry.day)) byDay.set(entry.day, []);
+        byDay.get(entry.day)!.push(entry);
+    });
+    return byDay;
+};
+
+// Six Monday-first weeks covering the month that contains `day`.
+export const monthGrid = (day: string): string[] => {
+    const first = weekStart(monthStart(day));
+    return Array.from({ length: 42 }, (_, i) => addDays(first, i));
+};
+
+export const shiftMonth = (day: string, months: number) => {
+    const date = parseDay(monthStart(day));
+    return localDay(new Date(date.getFullYear(), date.getMonth() + months, 1, 12));
+};
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { models } = vi.hoisted(() => ({
+    models: {
+        generateContent: vi.fn(async () => ({ text: 'ok', candidates: [] })),
+        generateImages: vi.fn(async () => ({ generatedImages: [] })),
+        embedContent: vi.fn(async () => ({ embeddings: [] })),
+    },
+}));
+
+vi.mock('@google/genai', () => ({
+    GoogleGenAI: class {
+        models = models;
+    },
+}));
+
+import { createAiProxyHandler, createMemoryQuotaStore, MAX_REQUEST_BYTES } from './aiProxy';
+
+const handler = createAiProxyHandler({
+    geminiApiKey: 'test-key',
+    supabaseUrl: 'https://project.supabase.co',
+    supabaseAnonKey: 'anon',
+    dailyLimit: 100,
+    quotaStore: createMemoryQuotaStore(),
+});
+
+const post = (body: BodyInit, headers: Record<string, string> = {}) =>
+    handler(new Request('http://localhost/api/ai', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer token', ...headers },
+        body,
+        duplex: 'half',
+    } as RequestInit));
+
+const postJson = (body: unknown) => post(JSON.stringify(body), { 'Content-Type': 'application/json' });
+
+// A body sent in chunks, without a Content-Length header.
+const chunkedBody = (totalBytes: number, chunkBytes = 1024 * 1024) => {
+    let sent = 0;
+    return new ReadableStream<Uint8Array>({
+        pull(controller) {
+            if (sent >= totalBytes) {
+                controller.close();
+                return;
+            }
+            const size = Math.min(chunkBytes, totalBytes - sent);
+            controller.enqueue(new Uint8Array(size).fill(0x20));
+            sent += size;
+        },
+    });
+};
+
+beforeEach(() => {
+    // Supabase Auth accepts the token.
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ id: 'user-1' }), { status: 200 })));
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+});
+
+describe('AI proxy request size', () => {
+    it('rejects a declared Content-Length over the limit before reading the body', async () => {
+        const response = await post('{}', { 'Content-Length': String(MAX_REQUEST_BYTES + 1) });
+        expect(response.status).toBe(413);
+    });
+
+    it('rejects a chunked body once it passes the limit', async () => {
+        const response = await post(chunkedBody(MAX_REQUEST_BYTES + 1));
+        expect(response.status).toBe(413);
+        expect(models.generateContent).not.toHaveBeenCalled();
+    });
+
+    it('accepts a chunked body under the limit', async () => {
+        const json = JSON.stringify({ method: 'embedContent', params: { model: 'text-embedding-004', contents: ['a'] } });
+        const bytes = new TextEncoder().encode(json);
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(bytes.slice(0, 10));
+                controller.enqueue(bytes.slice(10));
+                controller.close();
+            },
+        });
+        const response = await post(stream);
+        expect(response.status).toBe(200);
+        expect(models.embedContent).toHaveBeenCalledWith({ model: 'text-embedding-004', contents: ['a'] });
+    });
+
+    it('rejects a body that is not JSON', async () => {
+        expect((await post('not json')).status).toBe(400);
+    });
+});
+
+describe('AI proxy parameters', () => {
+    it('rejects models the app does not use', async () => {
+        const response = await postJson({ method: 'generateContent', params: { model: 'gemini-2.5-pro', contents: 'hi' } });
+        expect(response.status).toBe(400);
+    });
+
+    it('passes on only the generateContent fields the app sends', async () => {
+        const functionDeclarations = [{ name: 'create_note', description: 'Creates a note.' }];
+        await postJson({
+            method: 'generateContent',
+            params: {
+                model: 'gemini-2.5-flash',
+                contents: 'hi',
+                cachedContent: 'cachedContents/other-user',
+                config: {
+                    temperature: 0.3,
+                    systemInstruction: 'Be brief.',
+                    maxOutputTokens: 1_000_000,
+                    tools: [{ googleSearch: { excludeDomains: ['x'] } }, { functionDeclarations }, { codeExecution: {} }],
+                },
+            },
+        });
+        expect(models.generateContent).toHaveBeenCalledWith({
+            model: 'gemini-2.5-flash',
+            contents: 'hi',
+            config: {
+                temperature: 0.3,
+                systemInstruction: 'Be brief.',
+                tools: [{ googleSearch: {} }, { functionDeclarations }],
+            },
+        });
+    });
+
+    it('generates one image per request', async () => {
+        await postJson({
+            method: 'generateImages',
+            params: { model: 'imagen-3.0-generate-002', prompt: 'a cat', config: { numberOfImages: 4, aspectRatio: '4:3', personGeneration: 'allow_all' } },
+        });
+        expect(models.generateImages).toHaveBeenCalledWith({
+            model: 'imagen-3.0-generate-002',
+            prompt: 'a cat',
+            config: { numberOfImages: 1, aspectRatio: '4:3' },
+        });
+    });
+
+    it('drops embedding config', async () => {
+        await postJson({ method: 'embedContent', params: { model: 'text-embedding-004', contents: ['a'], config: { outputDimensionality: 3 } } });
+        expect(models.embedContent).toHaveBeenCalledWith({ model: 'text-embedding-004', contents: ['a'] });
+    });
+});
@@ -0,0 +1,227 @@
+import { GoogleGenAI } from "@google/genai";
+import type { EmbedContentParameters, GenerateContentParameters, GenerateImagesParameters } from "@google/genai";
+
+// Server-side proxy for Gemini. The browser sends `{ method, params }` with its Supabase access token;
+// the proxy checks the session, counts the request against the user's daily quota and forwards it
+// with the API key, which never leaves the server. Written against the Fetch API so the same handler
+// runs in the Vite dev server (see server/viteAiProxy.ts) and as a Supabase Edge Function. It lives under
+// supabase/functions/_shared because `supabase functions deploy` only bundles files from there.
+
+export type AiProxyMethod = 'generateContent' | 'generateImages' | 'embedContent';
+
+export interface AiProxyRequest {
+    method: AiProxyMethod;
+    params: GenerateContentParameters | GenerateImagesParameters | EmbedContentParameters;
+}
+
+export interface QuotaStore {
+    // Records one request and returns false if the user is already at `limit` for today.
+    consume(userId: string, accessToken: string, limit: number): Promise<boolean>;
+}
+
+export interface AiProxyConfig {
+    geminiApiKey: string;
+    supabaseUrl: string;
+    supabaseAnonKey: string;
+    dailyLimit: number;
+    quotaStore: QuotaStore;
+}
+
+// Large enough for a transcription request carrying a few minutes of audio.
+export const MAX_REQUEST_BYTES = 10 * 1024 * 1024;
+
+const ALLOWED_MODELS: Record<AiProxyMethod, string[]> = {
+    generateContent: ['gemini-2.5-flash'],
+    generateImages: ['imagen-3.0-generate-002'],
+    embedContent: ['text-embedding-004'],
+};
+
+// The request fields the app sends for each method. Anything else is dropped, so a client can't use the
+// key for features the app doesn't offer, such as code execution or more images per request.
+const ALLOWED_CONFIG: Record<AiProxyMethod, string[]> = {
+    generateContent: ['temperature', 'responseMimeType', 'responseSchema', 'systemInstruction', 'tools'],
+    generateImages: ['numberOfImages', 'outputMimeType', 'aspectRatio'],
+    embedContent: [],
+};
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, content-type, apikey, x-client-info',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+const errorResponse = (status: number, error: string) => json({ error }, status);
+
+// Counts in process memory. Fine for local development; resets whenever the server restarts.
+export const createMemoryQuotaStore = (): QuotaStore => {
+    const counts = new Map<string, number>();
+    return {
+        async consume(userId, _accessToken, limit) {
+            const key = `${userId}:${new Date().toISOString().slice(0, 10)}`;
+            const used = counts.get(key) || 0;
+            if (used >= limit) return false;
+            counts.set(key, used + 1);
+            return true;
+        },
+    };
+};
+
+// Counts in the `ai_usage` table through the consume_ai_quota function, called as the user.
+export const createSupabaseQuotaStore = (supabaseUrl: string, supabaseAnonKey: string): QuotaStore => ({
+    async consume(_userId, accessToken, limit) {
+        const response = await fetch(`${supabaseUrl}/rest/v1/rpc/consume_ai_quota`, {
+            method: 'POST',
+            headers: {
+                apikey: supabaseAnonKey,
+                Authorization: `Bearer ${accessToken}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ p_limit: limit }),
+        });
+        if (!response.ok) {
+            throw new Error(`Quota check failed (${response.status}).`);
+        }
+        return (await response.json()) === true;
+    },
+});
+
+// Asks Supabase Auth who the token belongs to. Returns null for missing, expired or forged tokens.
+const authenticate = async (request: Request, config: AiProxyConfig): Promise<{ userId: string; accessToken: string } | null> => {
+    const accessToken = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    if (!accessToken) return null;
+    const response = await fetch(`${config.supabaseUrl}/auth/v1/user`, {
+        headers: { apikey: config.supabaseAnonKey, Authorization: `Bearer ${accessToken}` },
+    });
+    if (!response.ok) return null;
+    const user = await response.json();
+    return user?.id ? { userId: user.id, accessToken } : null;
+};
+
+class RequestTooLargeError extends Error {
+    constructor() {
+        super("The AI request is too large.");
+        this.name = 'RequestTooLargeError';
+    }
+}
+
+// Reads the body up to MAX_REQUEST_BYTES. Content-Length can't be relied on: chunked uploads don't send it.
+const readJson = async (request: Request): Promise<unknown> => {
+    if (!request.body) return null;
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > MAX_REQUEST_BYTES) {
+            await reader.cancel();
+            throw new RequestTooLargeError();
+        }
+        chunks.push(value);
+    }
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    chunks.forEach(chunk => {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+    });
+    return JSON.parse(new TextDecoder().decode(bytes));
+};
+
+const pick = (source: Record<string, unknown>, keys: string[]): Record<string, unknown> =>
+    Object.fromEntries(keys.filter(key => source[key] !== undefined).map(key => [key, source[key]]));
+
+// Only Google Search grounding and the app's own function declarations.
+const allowedTools = (tools: unknown): unknown[] | undefined => {
+    if (!Array.isArray(tools)) return undefined;
+    return tools.flatMap(tool => {
+        if (!tool || typeof tool !== 'object') return [];
+        const picked = pick(tool as Record<string, unknown>, ['functionDeclarations']);
+        if ('googleSearch' in tool) picked.googleSearch = {};
+        return Object.keys(picked).length > 0 ? [picked] : [];
+    });
+};
+
+const allowedParams = (method: AiProxyMethod, params: Record<string, unknown>): AiProxyRequest['params'] => {
+    const config = params.config && typeof params.config === 'object'
+        ? pick(params.config as Record<string, unknown>, ALLOWED_CONFIG[method])
+        : {};
+    if (method === 'generateContent' && config.tools !== undefined) config.tools = allowedTools(config.tools);
+    if (method === 'generateImages') config.numberOfImages = 1;
+    const allowed = pick(params, method === 'generateImages' ? ['model', 'prompt'] : ['model', 'contents']);
+    if (Object.keys(config).length > 0) allowed.config = config;
+    return allowed as unknown as AiProxyRequest['params'];
+};
+
+const parseRequest = (body: unknown): AiProxyRequest | null => {
+    if (!body || typeof body !== 'object') return null;
+    const { method, params } = body as { method?: AiProxyMethod; params?: Record<string, unknown> };
+    const models = method ? ALLOWED_MODELS[method] : undefined;
+    if (!method || !models || !params || !models.includes(params.model as string)) return null;
+    return { method, params: allowedParams(method, params) };
+};
+
+export const createAiProxyHandler = (config: AiProxyConfig) => {
+    const ai = new GoogleGenAI({ apiKey: config.geminiApiKey });
+
+    return async (request: Request): Promise<Response> => {
+        if (request.method === 'OPTIONS') {
+            return new Response(null, { status: 204, headers: CORS_HEADERS });
+        }
+        if (request.method !== 'POST') {
+            return errorResponse(405, "Method not allowed.");
+        }
+
+        // Turns away oversized requests that say so up front; readJson enforces the limit for the rest.
+        if (Number(request.headers.get('Content-Length')) > MAX_REQUEST_BYTES) {
+            return errorResponse(413, "The AI request is too large.");
+        }
+
+        const auth = await authenticate(request, config);
+        if (!auth) {
+            return errorResponse(401, "Please log in again to use AI features.");
+        }
+
+        let body: unknown;
+        try {
+            body = await readJson(request);
+        } catch (error) {
+            if (error instanceof RequestTooLargeError) return errorResponse(413, error.message);
+            return errorResponse(400, "Unsupported AI request.");
+        }
+        const aiRequest = parseRequest(body);
+        if (!aiRequest) {
+            return errorResponse(400, "Unsupported AI request.");
+        }
+
+        try {
+            const allowed = await config.quotaStore.consume(auth.userId, auth.accessToken, config.dailyLimit);
+            if (!allowed) {
+                return errorResponse(429, `You've used all ${config.dailyLimit} AI requests for today. Try again tomorrow.`);
+            }
+        } catch (error) {
+            console.error("AI proxy quota check failed:", error);
+            return errorResponse(503, "AI features are temporarily unavailable.");
+        }
+
+        try {
+            if (aiRequest.method === 'generateImages') {
+                const response = await ai.models.generateImages(aiRequest.params as GenerateImagesParameters);
+                return json({ generatedImages: response.generatedImages });
+            }
+            if (aiRequest.method === 'embedContent') {
+                const response = await ai.models.embedContent(aiRequest.params as EmbedContentParameters);
+                return json({ embeddings: response.embeddings });
+            }
+            const response = await ai.models.generateContent(aiRequest.params as GenerateContentParameters);
+            return json({ text: response.text, candidates: response.candidates });
+        } catch (error) {
+            console.error(`AI proxy ${aiRequest.method} failed:`, error);
+            return errorResponse(502, "The AI service could not complete the request.");
+        }
+    };
+};
@@ -0,0 +1,14 @@
+// Supabase Edge Function entry point for the AI proxy. Deploy with `supabase functions deploy ai-proxy`
+// after setting the GEMINI_API_KEY secret (`supabase secrets set GEMINI_API_KEY=...`).
+import { createAiProxyHandler, createSupabaseQuotaStore } from '../_shared/aiProxy.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+Deno.serve(createAiProxyHandler({
+    geminiApiKey: Deno.env.get('GEMINI_API_KEY')!,
+    supabaseUrl,
+    supabaseAnonKey,
+    dailyLimit: Number(Deno.env.get('AI_DAILY_LIMIT')) || 100,
+    quotaStore: createSupabaseQuotaStore(supabaseUrl, supabaseAnonKey),
+}));
@@ -0,0 +1,17 @@
+-- Private bucket for note media (audio recordings, images, drawings).
+-- Objects live under "<user id>/<kind>/<file>" and are only reachable by their owner.
+insert into storage.buckets (id, name, public)
+values ('note-media', 'note-media', false)
+on conflict (id) do nothing;
+
+create policy "Users can read their own note media"
+  on storage.objects for select
+  using (bucket_id = 'note-media' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own note media"
+  on storage.objects for insert
+  with check (bucket_id = 'note-media' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own note media"
+  on storage.objects for delete
+  using (bucket_id = 'note-media' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,24 @@
+-- Image and drawing metadata. The bytes live in the note-media bucket; notes.image_url and
+-- notes.drawing_url hold the storage path of the full-size object.
+create table if not exists public.attachments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  note_id uuid references public.notes (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  kind text not null check (kind in ('image', 'drawing')),
+  storage_path text not null unique,
+  thumbnail_path text,
+  mime_type text not null,
+  size_bytes integer not null,
+  width integer,
+  height integer
+);
+
+create index if not exists attachments_note_id_idx on public.attachments (note_id);
+
+alter table public.attachments enable row level security;
+
+create policy "Users can manage their own attachments"
+  on public.attachments for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- Stream note changes to signed-in clients through Supabase Realtime.
+-- Inserts and updates are filtered by user_id. Deletes can't be filtered, and under RLS the old row only
+-- carries the primary key, so clients subscribe to them unfiltered and match on the id.
+alter table public.notes replica identity full;
+alter publication supabase_realtime add table public.notes;
@@ -0,0 +1,27 @@
+-- Optimistic concurrency for notes. Clients send the revision they edited alongside content updates
+-- (`... where id = $1 and revision = $2`); a stale revision matches no row and the client offers a merge.
+alter table public.notes
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists revision integer not null default 1;
+
+-- Only content edits bump the revision, so moving or stacking a note doesn't invalidate an open editor.
+create or replace function public.bump_note_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  if (new.text, new.color, new.tags, new.image_url, new.drawing_url, new.audio_url)
+     is distinct from (old.text, old.color, old.tags, old.image_url, old.drawing_url, old.audio_url) then
+    new.revision := old.revision + 1;
+  else
+    new.revision := old.revision;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_bump_revision on public.notes;
+create trigger notes_bump_revision
+  before update on public.notes
+  for each row execute function public.bump_note_revision();
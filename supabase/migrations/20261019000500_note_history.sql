@@ -0,0 +1,50 @@
+-- Content history for notes. A snapshot is written whenever a note is created or its revision is bumped
+-- (see 20261019000400_note_revisions.sql), so every edit path is covered, including offline replays.
+create table if not exists public.note_revisions (
+  id uuid primary key default gen_random_uuid(),
+  note_id uuid not null references public.notes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  revision integer not null,
+  created_at timestamptz not null default now(),
+  text text not null,
+  color text not null,
+  tags text[] not null default '{}',
+  image_url text,
+  drawing_url text,
+  audio_url text,
+  unique (note_id, revision)
+);
+
+alter table public.note_revisions enable row level security;
+
+-- Snapshots are written by the trigger only; users can read theirs.
+create policy "Users can read their own note history"
+  on public.note_revisions for select
+  using (auth.uid() = user_id);
+
+create or replace function public.record_note_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.revision is distinct from old.revision then
+    insert into public.note_revisions (note_id, user_id, revision, text, color, tags, image_url, drawing_url, audio_url)
+    values (new.id, new.user_id, new.revision, new.text, new.color, coalesce(new.tags, '{}'), new.image_url, new.drawing_url, new.audio_url)
+    on conflict (note_id, revision) do nothing;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists notes_record_revision on public.notes;
+create trigger notes_record_revision
+  after insert or update on public.notes
+  for each row execute function public.record_note_revision();
+
+-- Notes that predate history get their current content as the first entry.
+insert into public.note_revisions (note_id, user_id, revision, text, color, tags, image_url, drawing_url, audio_url)
+select id, user_id, revision, text, color, coalesce(tags, '{}'), image_url, drawing_url, audio_url
+from public.notes
+on conflict (note_id, revision) do nothing;
@@ -0,0 +1,7 @@
+-- Soft delete. Trashed notes keep their row with deleted_at set; the app purges them for good once
+-- TRASH_RETENTION_DAYS (default 30) have passed, removing their media from storage at the same time.
+alter table public.notes
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists notes_deleted_at_idx on public.notes (user_id, deleted_at)
+  where deleted_at is not null;
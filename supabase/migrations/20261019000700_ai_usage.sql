@@ -0,0 +1,39 @@
+-- Per-user daily request counts for the AI proxy (supabase/functions/_shared/aiProxy.ts).
+create table if not exists public.ai_usage (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  day date not null default current_date,
+  requests integer not null default 0,
+  primary key (user_id, day)
+);
+
+alter table public.ai_usage enable row level security;
+
+create policy "Users can read their own AI usage"
+  on public.ai_usage for select
+  using (auth.uid() = user_id);
+
+-- Called by the proxy with the user's own token. Counts one request for auth.uid() and returns false,
+-- without counting, once today's total has reached p_limit.
+create or replace function public.consume_ai_quota(p_limit integer)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  allowed boolean;
+begin
+  if auth.uid() is null then
+    return false;
+  end if;
+
+  insert into public.ai_usage as usage (user_id, day, requests)
+  values (auth.uid(), current_date, 1)
+  on conflict (user_id, day) do update
+    set requests = usage.requests + 1
+    where usage.requests < p_limit
+  returning true into allowed;
+
+  return coalesce(allowed, false);
+end;
+$$;
@@ -0,0 +1,19 @@
+-- One embedding per note for semantic search and related notes. Vectors are computed in the app (through
+-- the AI proxy) and compared in the browser, so a plain float array is enough; no pgvector needed.
+create table if not exists public.note_embeddings (
+  note_id uuid primary key references public.notes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  model text not null,
+  content_hash text not null,
+  embedding double precision[] not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists note_embeddings_user_model_idx on public.note_embeddings (user_id, model);
+
+alter table public.note_embeddings enable row level security;
+
+create policy "Users can manage their own note embeddings"
+  on public.note_embeddings for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
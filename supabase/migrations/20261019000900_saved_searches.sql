@@ -0,0 +1,18 @@
+-- Smart collections: a named search box query plus tag filters, per user.
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  query text not null default '',
+  tags text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists saved_searches_user_idx on public.saved_searches (user_id, created_at);
+
+alter table public.saved_searches enable row level security;
+
+create policy "Users can manage their own saved searches"
+  on public.saved_searches for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,35 @@
+-- First-class tasks. Checklist items in a note's text are mirrored here by the app on every save;
+-- AI-extracted tasks and tasks added on the task board are stored only here.
+create table if not exists public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  note_id uuid references public.notes (id) on delete cascade,
+  text text not null,
+  done boolean not null default false,
+  due_date date,
+  priority text not null default 'normal' check (priority in ('low', 'normal', 'high')),
+  source text not null default 'manual' check (source in ('checklist', 'ai', 'manual')),
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists tasks_user_due_idx on public.tasks (user_id, due_date);
+create index if not exists tasks_note_idx on public.tasks (note_id);
+
+alter table public.tasks enable row level security;
+
+create policy "Users can manage their own tasks"
+  on public.tasks for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Move the AI action items stored on notes into the table. Checklist tasks are created the next time
+-- each note is saved.
+insert into public.tasks (user_id, note_id, text, source, position)
+select notes.user_id, notes.id, item.text, 'ai', item.ordinality - 1
+from public.notes
+cross join lateral unnest(notes.tasks) with ordinality as item(text, ordinality)
+where notes.tasks is not null and length(trim(item.text)) > 0;
+
+update public.notes set tasks = null where tasks is not null;
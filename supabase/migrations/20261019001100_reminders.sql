@@ -0,0 +1,7 @@
+-- Reminder times. The app clears them once a reminder has been shown, so a set value always means
+-- "still to come" (or missed while every device was offline).
+alter table public.notes add column if not exists remind_at timestamptz;
+alter table public.tasks add column if not exists remind_at timestamptz;
+
+create index if not exists notes_remind_at_idx on public.notes (user_id, remind_at) where remind_at is not null;
+create index if not exists tasks_remind_at_idx on public.tasks (user_id, remind_at) where remind_at is not null;
@@ -0,0 +1,15 @@
+-- Column choice and order for the board view, one row per user.
+create table if not exists public.kanban_layouts (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  group_by text not null default 'tag' check (group_by in ('tag', 'color')),
+  tag_columns text[] not null default '{}',
+  color_columns text[] not null default '{bg-amber-100,bg-sky-100,bg-lime-100,bg-rose-100,bg-violet-100,bg-white}',
+  updated_at timestamptz not null default now()
+);
+
+alter table public.kanban_layouts enable row level security;
+
+create policy "Users can manage their own board layout"
+  on public.kanban_layouts for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- [[Wiki links]] between notes. The app writes the ids of the notes a note links to on every save;
+-- backlinks are the notes whose list contains a given id.
+alter table public.notes
+  add column if not exists linked_note_ids uuid[] not null default '{}';
+
+create index if not exists notes_linked_note_ids_idx on public.notes using gin (linked_note_ids);
@@ -0,0 +1,23 @@
+-- Arrows between notes on the infinite canvas. They go with either note when it is deleted for good;
+-- while a note is in the Trash its arrows are simply not drawn.
+create table if not exists public.canvas_edges (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  source_note_id uuid not null references public.notes (id) on delete cascade,
+  target_note_id uuid not null references public.notes (id) on delete cascade,
+  label text not null default '',
+  style text not null default 'solid' check (style in ('solid', 'dashed', 'dotted')),
+  created_at timestamptz not null default now(),
+  check (source_note_id <> target_note_id),
+  unique (source_note_id, target_note_id)
+);
+
+create index if not exists canvas_edges_user_idx on public.canvas_edges (user_id);
+create index if not exists canvas_edges_target_idx on public.canvas_edges (target_note_id);
+
+alter table public.canvas_edges enable row level security;
+
+create policy "Users can manage their own canvas edges"
+  on public.canvas_edges for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,36 @@
+-- Named canvases. The original canvas stays as "All notes", positioned by notes.canvas_x/canvas_y;
+-- a board shows only the notes placed on it, each at its own position.
+create table if not exists public.boards (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 60),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists boards_user_idx on public.boards (user_id);
+
+alter table public.boards enable row level security;
+
+create policy "Users can manage their own boards"
+  on public.boards for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table if not exists public.board_notes (
+  board_id uuid not null references public.boards (id) on delete cascade,
+  note_id uuid not null references public.notes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  x double precision not null default 0,
+  y double precision not null default 0,
+  primary key (board_id, note_id)
+);
+
+create index if not exists board_notes_user_idx on public.board_notes (user_id);
+create index if not exists board_notes_note_idx on public.board_notes (note_id);
+
+alter table public.board_notes enable row level security;
+
+create policy "Users can manage their own board placements"
+  on public.board_notes for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,24 @@
+-- Titled regions on a canvas. Which notes a frame holds isn't stored: it is whatever lies inside it.
+create table if not exists public.canvas_frames (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- null is the "All notes" canvas.
+  board_id uuid references public.boards (id) on delete cascade,
+  title text not null default '',
+  color text not null default 'amber' check (color in ('amber', 'sky', 'lime', 'rose', 'violet', 'gray')),
+  x double precision not null default 0,
+  y double precision not null default 0,
+  width double precision not null check (width > 0),
+  height double precision not null check (height > 0),
+  collapsed boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists canvas_frames_user_idx on public.canvas_frames (user_id);
+
+alter table public.canvas_frames enable row level security;
+
+create policy "Users can manage their own canvas frames"
+  on public.canvas_frames for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
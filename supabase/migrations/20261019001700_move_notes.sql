@@ -0,0 +1,15 @@
+-- Moves many notes on the canvas in one request. Only canvas_x/canvas_y are written, so a move never
+-- overwrites content edited elsewhere. Runs as the caller, so row level security still applies.
+create or replace function public.move_notes(positions jsonb)
+returns setof public.notes
+language sql
+security invoker
+set search_path = public
+as $$
+  update public.notes as n
+  set canvas_x = (p ->> 'x')::double precision,
+      canvas_y = (p ->> 'y')::double precision
+  from jsonb_array_elements(positions) as p
+  where n.id = (p ->> 'id')::uuid
+  returning n.*;
+$$;
@@ -0,0 +1,24 @@
+-- One task per note, source and position. Checklist tasks are written with an upsert on this key, so two
+-- devices syncing the same checklist update the same rows instead of each inserting a copy.
+
+-- Checklist tasks created twice by such a race: keep the oldest at each position.
+delete from public.tasks as t
+using public.tasks as older
+where t.source = 'checklist'
+  and older.source = 'checklist'
+  and older.note_id = t.note_id
+  and older.position = t.position
+  and (older.created_at, older.id) < (t.created_at, t.id);
+
+-- Other tasks of a note that share a position are all kept; number them again in their current order.
+update public.tasks as t
+set position = renumbered.position
+from (
+  select id, row_number() over (partition by note_id, source order by position, created_at, id) - 1 as position
+  from public.tasks
+  where note_id is not null and source <> 'checklist'
+) as renumbered
+where t.id = renumbered.id and t.position <> renumbered.position;
+
+alter table public.tasks
+  add constraint tasks_note_source_position_key unique (note_id, source, position);
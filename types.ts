@@ -2,6 +2,9 @@ export interface Note {
   id: string;
   user_id: string;
   created_at?: string;
+  updated_at?: string;
+  // Bumped by the database whenever the note's content changes; used to detect conflicting edits.
+  revision?: number;
   text: string;
   image_url: string | null;
   drawing_url: string | null;
@@ -9,22 +12,170 @@ export interface Note {
   summary: string | null;
   color: string;
   tags: string[];
+  // Legacy AI-extracted action items. Tasks now live in the `tasks` table; this is kept for old imports.
   tasks: string[] | null;
   related_note_ids: string[] | null;
+  // Notes this one links to with [[links]] in its text; derived from the text on every write.
+  linked_note_ids?: string[] | null;
   stack_id: string | null;
   is_pinned?: boolean;
   canvas_x: number | null;
   canvas_y: number | null;
+  // Set when the note is moved to the Trash; it is purged for good once the retention period passes.
+  deleted_at?: string | null;
+  // When to remind the user about the note; cleared once the reminder has been shown.
+  remind_at?: string | null;
 }
 
+// 'pending' notes have local changes queued for upload; 'error' ones were rejected by the server.
+export type NoteSyncStatus = 'synced' | 'pending' | 'error';
+
 export type ToastType = 'error' | 'success';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface ToastMessage {
   message: string;
   type: ToastType;
+  action?: ToastAction;
 }
 
 export interface UserProfile {
   name: string;
   avatar: string;
 }
+
+export type AttachmentKind = 'image' | 'drawing';
+
+export interface Attachment {
+  id: string;
+  user_id: string;
+  note_id: string | null;
+  created_at?: string;
+  kind: AttachmentKind;
+  storage_path: string;
+  thumbnail_path: string | null;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+}
+
+// A snapshot of a note's content, written by the database each time the content changes.
+export interface NoteRevision {
+  id: string;
+  note_id: string;
+  user_id: string;
+  revision: number;
+  created_at: string;
+  text: string;
+  color: string;
+  tags: string[];
+  image_url: string | null;
+  drawing_url: string | null;
+  audio_url: string | null;
+}
+
+// One row per note in `note_embeddings`. `content_hash` is the hash of the text the vector was computed from.
+export interface NoteEmbedding {
+  note_id: string;
+  user_id: string;
+  model: string;
+  content_hash: string;
+  embedding: number[];
+  updated_at?: string;
+}
+
+// A named search term plus tag filters, shown as a smart collection in the header.
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  tags: string[];
+  created_at: string;
+}
+
+// A named canvas. Notes are placed on it one by one; the "All notes" canvas uses canvas_x/canvas_y instead.
+export interface Board {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+}
+
+// Where a note sits on a board. A note can be on any number of boards.
+export interface BoardPlacement {
+  board_id: string;
+  note_id: string;
+  user_id: string;
+  x: number;
+  y: number;
+}
+
+export type CanvasFrameColor = 'amber' | 'sky' | 'lime' | 'rose' | 'violet' | 'gray';
+
+// A titled region on a canvas. Notes inside it move with it; collapsing it hides them.
+export interface CanvasFrame {
+  id: string;
+  user_id: string;
+  // The board it is drawn on; null for "All notes".
+  board_id: string | null;
+  title: string;
+  color: CanvasFrameColor;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  collapsed: boolean;
+  created_at: string;
+}
+
+export type CanvasEdgeStyle = 'solid' | 'dashed' | 'dotted';
+
+// An arrow drawn between two notes on the canvas.
+export interface CanvasEdge {
+  id: string;
+  user_id: string;
+  source_note_id: string;
+  target_note_id: string;
+  label: string;
+  style: CanvasEdgeStyle;
+  created_at: string;
+}
+
+export type KanbanGroupBy = 'tag' | 'color';
+
+// The board view's columns, one row per user. Both lists keep their order while the other mode is in use.
+export interface KanbanLayout {
+  user_id: string;
+  group_by: KanbanGroupBy;
+  tag_columns: string[];
+  color_columns: string[];
+  updated_at?: string;
+}
+
+export type TaskPriority = 'low' | 'normal' | 'high';
+
+// 'checklist' tasks mirror a checklist item in their note's text; the other kinds are edited directly.
+export type TaskSource = 'checklist' | 'ai' | 'manual';
+
+export interface Task {
+  id: string;
+  user_id: string;
+  // The note the task came from; null for tasks added on the task board.
+  note_id: string | null;
+  text: string;
+  done: boolean;
+  due_date: string | null;
+  priority: TaskPriority;
+  source: TaskSource;
+  // Order within the note; for checklist tasks, the item's index in the note's checklist.
+  position: number;
+  created_at: string;
+  completed_at: string | null;
+  remind_at: string | null;
+}
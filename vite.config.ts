@@ -1,12 +1,18 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { aiProxyPlugin } from './server/viteAiProxy';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // GEMINI_API_KEY is only read by the AI proxy on the server; it must never be added to `define`.
+      plugins: [aiProxyPlugin(env)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || (env.GEMINI_API_KEY || env.AI_PROXY_URL ? 'gemini' : 'local')),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL || '/api/ai'),
+        'process.env.MEDIA_STORAGE_BACKEND': JSON.stringify(env.MEDIA_STORAGE_BACKEND),
+        'process.env.REALTIME_BACKEND': JSON.stringify(env.REALTIME_BACKEND),
+        'process.env.TRASH_RETENTION_DAYS': JSON.stringify(env.TRASH_RETENTION_DAYS)
       },
       resolve: {
         alias: {